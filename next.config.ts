@@ -8,6 +8,19 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // pdfkit loads font metrics relative to its own files, so it must not be bundled
+  serverExternalPackages: ['pdfkit', 'svg-to-pdfkit'],
+  // Fonts and logos read from disk by the certificate PDF route
+  outputFileTracingIncludes: {
+    '/api/certificate/pdf': [
+      './node_modules/@expo-google-fonts/poppins/400Regular/*.ttf',
+      './node_modules/@expo-google-fonts/poppins/400Regular_Italic/*.ttf',
+      './node_modules/@expo-google-fonts/poppins/600SemiBold/*.ttf',
+      './node_modules/@expo-google-fonts/noto-sans-devanagari/400Regular/*.ttf',
+      './node_modules/@expo-google-fonts/noto-sans-devanagari/700Bold/*.ttf',
+      './public/*.svg',
+    ],
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,93 @@
+// Service worker for offline assessment camps
+// Caches the app shell so the assessment (questions and translations are part
+// of the JS bundle) can be taken without connectivity. Submissions are not
+// handled here - they are queued in IndexedDB by src/lib/offline-submissions.ts
+
+const CACHE_VERSION = 'anandak-v1';
+const SHELL_CACHE = `${CACHE_VERSION}-shell`;
+const RUNTIME_CACHE = `${CACHE_VERSION}-runtime`;
+
+// Pages a participant can reach during an offline camp
+const SHELL_URLS = ['/', '/certificate', '/iitkgp.svg', '/mp-logo.svg', '/favicon.ico'];
+
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => !key.startsWith(CACHE_VERSION)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Network first, falling back to the cache; successful responses refresh the cache
+ */
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    // Unknown pages fall back to the home page so the assessment can still start
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cache first for immutable assets (hashed Next.js chunks and font files)
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // API responses and certificate verification must always be live
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/verify/')) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+    return;
+  }
+
+  event.respondWith(networkFirst(request, request.mode === 'navigate' ? SHELL_CACHE : RUNTIME_CACHE));
+});
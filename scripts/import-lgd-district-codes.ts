@@ -0,0 +1,181 @@
+/**
+ * LGD District Code Import Script
+ *
+ * Fills src/content/lgd-district-codes.json from the Local Government Directory's
+ * own district list, so every district in src/lib/indian-states-districts.ts is
+ * stored with its official code. Download the list as CSV from
+ * https://lgdirectory.gov.in (Reports → Districts of a State, all states) and
+ * pass its path. States are matched on their LGD code and districts on their
+ * English name (current or former), ignoring case, spaces and punctuation.
+ *
+ * Without a file it only reports which districts still have no code.
+ * Exits with 1 while any district is missing a code.
+ *
+ * Run: npm run import-lgd-codes -- path/to/districts.csv
+ *      npm run import-lgd-codes                          (report only)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { statesWithDistricts, type District, type DistrictLgdCodes } from '../src/lib/indian-states-districts';
+
+const CODES_FILE = path.join(__dirname, '..', 'src', 'content', 'lgd-district-codes.json');
+
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  bold: '\x1b[1m',
+};
+
+interface LgdDistrict {
+  stateCode: number;
+  code: number;
+  name: string;
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with commas,
+ * doubled quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Reads the districts from an LGD export. The report has a title row or two above
+ * the header, so the header is the first row naming both a state and a district code
+ */
+function readLgdDistricts(filePath: string): LgdDistrict[] {
+  const rows = parseCsv(fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, ''));
+  const findColumn = (header: string[], pattern: RegExp) => header.findIndex((name) => pattern.test(name.trim()));
+
+  const headerIndex = rows.findIndex(
+    (row) => findColumn(row, /^state\s*code$/i) >= 0 && findColumn(row, /^district\s*code$/i) >= 0
+  );
+  if (headerIndex < 0) {
+    throw new Error('No header row with "State Code" and "District Code" columns');
+  }
+  const header = rows[headerIndex];
+  const stateCodeColumn = findColumn(header, /^state\s*code$/i);
+  const codeColumn = findColumn(header, /^district\s*code$/i);
+  const nameColumn = findColumn(header, /^district\s*name(\s*\(in\s*english\))?$/i);
+  if (nameColumn < 0) {
+    throw new Error('No "District Name (In English)" column');
+  }
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const stateCode = Number(row[stateCodeColumn]);
+    const code = Number(row[codeColumn]);
+    const name = row[nameColumn]?.trim();
+    return Number.isInteger(stateCode) && Number.isInteger(code) && code > 0 && name ? [{ stateCode, code, name }] : [];
+  });
+}
+
+const normalise = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * LGD codes for the dataset's districts, and the districts that found none
+ */
+function matchDistricts(lgdDistricts: LgdDistrict[]) {
+  const codes: DistrictLgdCodes = {};
+  const unmatched: string[] = [];
+
+  for (const state of statesWithDistricts) {
+    const byName = new Map<string, number>();
+    for (const district of lgdDistricts.filter((entry) => entry.stateCode === state.lgdCode)) {
+      byName.set(normalise(district.name), district.code);
+    }
+
+    for (const district of state.districts) {
+      const names = [district.name, ...(district.formerNames ?? [])];
+      const code = names.map((name) => byName.get(normalise(name))).find((value) => value !== undefined);
+      if (code === undefined) {
+        unmatched.push(`${state.state}: ${district.name}`);
+        continue;
+      }
+      codes[state.state] = { ...codes[state.state], [district.name]: code };
+    }
+  }
+  return { codes, unmatched };
+}
+
+function reportMissing(missing: string[]) {
+  const total = statesWithDistricts.reduce((count, state) => count + state.districts.length, 0);
+  if (missing.length === 0) {
+    console.log(`${colors.green}✓${colors.reset} All ${total} districts have an LGD code`);
+    return;
+  }
+  console.log(`${colors.yellow}${colors.bold}${missing.length} of ${total} districts have no LGD code:${colors.reset}`);
+  for (const name of missing) {
+    console.log(`  - ${name}`);
+  }
+}
+
+function main() {
+  const file = process.argv[2];
+  const hasNoCode = (district: District) => district.lgdCode === undefined;
+
+  if (!file) {
+    const missing = statesWithDistricts.flatMap((state) =>
+      state.districts.filter(hasNoCode).map((district) => `${state.state}: ${district.name}`)
+    );
+    reportMissing(missing);
+    process.exit(missing.length === 0 ? 0 : 1);
+  }
+
+  let lgdDistricts: LgdDistrict[];
+  try {
+    lgdDistricts = readLgdDistricts(file);
+  } catch (error) {
+    console.error(`${colors.red}Could not read ${file}: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    process.exit(1);
+  }
+
+  const { codes, unmatched } = matchDistricts(lgdDistricts);
+  fs.writeFileSync(CODES_FILE, `${JSON.stringify(codes, null, 2)}\n`);
+  console.log(`Wrote ${path.relative(process.cwd(), CODES_FILE)} from ${lgdDistricts.length} LGD districts`);
+
+  // Unmatched names are usually spelling differences; add the LGD spelling as a
+  // former name in indian-states-districts.ts and run the import again
+  reportMissing(unmatched);
+  process.exit(unmatched.length === 0 ? 0 : 1);
+}
+
+main();
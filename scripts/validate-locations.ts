@@ -0,0 +1,74 @@
+/**
+ * Location Dataset Validation Script
+ *
+ * Checks that every district offered in the registration form (the list in
+ * src/lib/indian-states-districts.ts after districtUpdates) has an LGD code,
+ * that no two districts of a state share a code, and that
+ * src/content/lgd-district-codes.json names no state or district the dataset
+ * does not have. Exits with 1 on any problem; fill missing codes with
+ * `npm run import-lgd-codes -- districts.csv`.
+ *
+ * Run: npm run validate-locations
+ */
+
+import { statesWithDistricts, type DistrictLgdCodes } from '../src/lib/indian-states-districts';
+import lgdDistrictCodes from '../src/content/lgd-district-codes.json';
+
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  bold: '\x1b[1m',
+};
+
+function findLocationProblems(): string[] {
+  const problems: string[] = [];
+  const codes = lgdDistrictCodes as DistrictLgdCodes;
+
+  for (const state of statesWithDistricts) {
+    const byCode = new Map<number, string>();
+    for (const district of state.districts) {
+      if (district.lgdCode === undefined) {
+        problems.push(`${state.state}: ${district.name} has no LGD code`);
+        continue;
+      }
+      const other = byCode.get(district.lgdCode);
+      if (other) {
+        problems.push(`${state.state}: ${district.name} and ${other} share LGD code ${district.lgdCode}`);
+      }
+      byCode.set(district.lgdCode, district.name);
+    }
+  }
+
+  for (const [stateName, districts] of Object.entries(codes)) {
+    const state = statesWithDistricts.find((entry) => entry.state === stateName);
+    if (!state) {
+      problems.push(`lgd-district-codes.json lists unknown state "${stateName}"`);
+      continue;
+    }
+    for (const districtName of Object.keys(districts)) {
+      if (!state.districts.some((district) => district.name === districtName)) {
+        problems.push(`lgd-district-codes.json lists unknown district "${districtName}" in ${stateName}`);
+      }
+    }
+  }
+  return problems;
+}
+
+function main() {
+  const total = statesWithDistricts.reduce((count, state) => count + state.districts.length, 0);
+  const problems = findLocationProblems();
+
+  if (problems.length === 0) {
+    console.log(`${colors.green}✓${colors.reset} All ${total} districts have a unique LGD code`);
+    return;
+  }
+
+  console.log(`${colors.red}${colors.bold}✗ Location dataset has ${problems.length} problem(s):${colors.reset}`);
+  for (const problem of problems) {
+    console.log(`  - ${problem}`);
+  }
+  process.exit(1);
+}
+
+main();
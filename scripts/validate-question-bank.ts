@@ -0,0 +1,181 @@
+/**
+ * Question Bank Validation Script
+ *
+ * Checks every content file in src/content/question-banks against the question
+ * bank schema, then checks that every trait, score and language has feedback,
+ * that option scores fall inside the bank's score scale, and that the file name
+ * matches the version inside it.
+ *
+ * It then draws sample attempts and scores them: every draw must take
+ * itemsPerTrait questions from each pool, come out the same for the same seed,
+ * reach every question of a pool over the samples, and score with feedback for
+ * every trait. A bank whose pools hold exactly itemsPerTrait questions (v1) always
+ * draws the same form, so the same checks also run on a pooled copy with every
+ * question repeated. That copy only exercises the drawing and scoring code; real
+ * pools need new scenarios written and reviewed by the psychologists.
+ *
+ * Run: npm run validate-questions
+ *      npm run validate-questions -- path/to/draft.json   (check specific files)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findQuestionBankProblems, questionBankSchema, LANGUAGES, TRAITS, type QuestionBank, type Trait } from '../src/lib/question-bank-schema';
+import { drawQuestions } from '../src/lib/question-bank';
+import { scoreResponses } from '../src/lib/scoring';
+import { getIndividualFeedback } from '../src/lib/assessment-data';
+
+const BANKS_DIR = path.join(__dirname, '..', 'src', 'content', 'question-banks');
+
+// Sample attempts drawn per bank; enough to reach every question of small pools
+const DRAW_SAMPLES = 200;
+
+// Copies of each question in the pooled copy of a bank that does not pool
+const POOLED_COPIES = 3;
+
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  bold: '\x1b[1m',
+};
+
+/**
+ * Draws and scores sample attempts, answering each question with a different
+ * option per sample. Returns the problems found; empty when every draw is usable
+ */
+function findDrawProblems(bank: QuestionBank): string[] {
+  const problems = new Set<string>();
+  const drawnIds = new Set<number>();
+
+  for (let sample = 0; sample < DRAW_SAMPLES; sample++) {
+    const seed = `validate:${sample}`;
+    const questions = drawQuestions(bank, seed);
+    const ids = questions.map((question) => question.id);
+
+    if (new Set(ids).size !== ids.length) {
+      problems.add('A draw contains the same question twice');
+    }
+    if (drawQuestions(bank, seed).map((question) => question.id).join() !== ids.join()) {
+      problems.add('Drawing twice with the same seed gives different questions');
+    }
+    for (const trait of TRAITS) {
+      const count = questions.filter((question) => question.trait === trait).length;
+      if (count !== bank.itemsPerTrait) {
+        problems.add(`A draw has ${count} ${trait} questions instead of ${bank.itemsPerTrait}`);
+      }
+    }
+    ids.forEach((id) => drawnIds.add(id));
+
+    const responses = questions.map((question) => ({
+      questionId: question.id,
+      optionIndex: (sample + question.id) % question.options.length,
+    }));
+    const result = scoreResponses(responses, bank, seed);
+    if (!result.valid) {
+      problems.add(`A drawn attempt does not score: ${result.error}`);
+      continue;
+    }
+    for (const [trait, score] of Object.entries(result.assessment.traitScores)) {
+      for (const lang of LANGUAGES) {
+        if (!getIndividualFeedback(trait as Trait, score, lang, 0, bank)) {
+          problems.add(`No ${lang} feedback for a drawn ${trait} score of ${score}`);
+        }
+      }
+    }
+  }
+
+  for (const question of bank.questions) {
+    if (!drawnIds.has(question.id)) {
+      problems.add(`Question ${question.id} was never drawn in ${DRAW_SAMPLES} sample attempts`);
+    }
+  }
+  return [...problems];
+}
+
+/**
+ * The bank with every question repeated under new IDs and one more item drawn
+ * per trait, so drawing and aggregation run as they would on a pooled bank
+ */
+function toPooledCopy(bank: QuestionBank): QuestionBank {
+  const idOffset = Math.max(...bank.questions.map((question) => question.id));
+  const copyId = (id: number, copy: number) => id + idOffset * copy;
+  const copies = Array.from({ length: POOLED_COPIES }, (_, copy) => copy);
+
+  return {
+    ...bank,
+    itemsPerTrait: bank.itemsPerTrait + 1,
+    questions: bank.questions.flatMap((question) =>
+      copies.map((copy) => ({ ...question, id: copyId(question.id, copy) }))
+    ),
+    scoring: {
+      ...bank.scoring,
+      reverseKeyedQuestionIds: bank.scoring.reverseKeyedQuestionIds.flatMap((id) => copies.map((copy) => copyId(id, copy))),
+    },
+  };
+}
+
+/**
+ * Returns the problems found in one file; empty when it is valid
+ */
+function validateFile(filePath: string): string[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    return [`Could not read JSON: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  const parsed = questionBankSchema.safeParse(data);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  const problems = findQuestionBankProblems(parsed.data);
+  // Drawing assumes a bank without content problems
+  if (problems.length === 0) {
+    problems.push(...findDrawProblems(parsed.data));
+    const isPooled = TRAITS.some(
+      (trait) => parsed.data.questions.filter((question) => question.trait === trait).length > parsed.data.itemsPerTrait
+    );
+    if (!isPooled) {
+      problems.push(...findDrawProblems(toPooledCopy(parsed.data)).map((problem) => `Pooled copy: ${problem}`));
+    }
+  }
+
+  const expectedName = `${parsed.data.version}.json`;
+  if (path.basename(filePath) !== expectedName && path.dirname(path.resolve(filePath)) === BANKS_DIR) {
+    problems.push(`File should be named ${expectedName} to match its version`);
+  }
+  return problems;
+}
+
+function main() {
+  const files = process.argv.length > 2
+    ? process.argv.slice(2)
+    : fs.readdirSync(BANKS_DIR).filter((name) => name.endsWith('.json')).sort().map((name) => path.join(BANKS_DIR, name));
+
+  if (files.length === 0) {
+    console.error(`${colors.red}No question bank files found in ${BANKS_DIR}${colors.reset}`);
+    process.exit(1);
+  }
+
+  let hasProblems = false;
+  for (const file of files) {
+    const problems = validateFile(file);
+    const name = path.relative(process.cwd(), file);
+    if (problems.length === 0) {
+      console.log(`${colors.green}✓${colors.reset} ${name}`);
+      continue;
+    }
+    hasProblems = true;
+    console.log(`${colors.red}✗ ${colors.bold}${name}${colors.reset}`);
+    for (const problem of problems) {
+      console.log(`  - ${problem}`);
+    }
+  }
+
+  process.exit(hasProblems ? 1 : 0);
+}
+
+main();
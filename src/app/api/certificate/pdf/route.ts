@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin, hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { CERTIFICATE_COLUMNS, submissionToCertificateData } from '@/lib/certificate-data';
+import { normalizeCertificateId } from '@/lib/certificate-id';
+import { renderCertificatePdf } from '@/lib/certificate-pdf';
+import { getFieldErrors, describeFieldErrors } from '@/lib/submission-schema';
+import type { AssessmentSubmission } from '@/lib/supabase';
+
+// pdfkit reads font files from disk, so this route needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const pdfRequestSchema = z.object({
+  certificateId: z.string().optional(),
+  submissionKey: z.string().uuid({ message: "Submission key must be a UUID." }).optional(),
+  mode: z.enum(['en', 'hi', 'all']).default('all'),
+}).refine((value) => value.certificateId || value.submissionKey, {
+  message: "A certificate number or submission key is required.",
+  path: ['certificateId'],
+});
+
+/**
+ * POST endpoint to render a certificate as an A4 PDF in English, Hindi, or both
+ * The certificate is identified by its number or by the attempt's submission key
+ * and always rendered from the stored submission, never from data the client
+ * sends, so the PDF cannot be used to forge a certificate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = pdfRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { submissionKey, mode } = parsed.data;
+    const certificateId = parsed.data.certificateId ? normalizeCertificateId(parsed.data.certificateId) : null;
+    if (parsed.data.certificateId && !certificateId) {
+      const fieldErrors = { certificateId: ['Invalid certificate number.'] };
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    if (!hasServerSupabaseConfig()) {
+      console.error('Missing Supabase environment variables');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Server configuration error',
+          details: 'Missing required Supabase credentials'
+        },
+        { status: 500 }
+      );
+    }
+
+    const query = getSupabaseAdmin().from('assessment_submissions').select(CERTIFICATE_COLUMNS);
+    const { data, error } = await (certificateId
+      ? query.eq('certificate_id', certificateId)
+      : query.eq('submission_key', submissionKey!)
+    ).maybeSingle();
+
+    if (error) {
+      console.error('Certificate lookup error:', error);
+      throw new Error(`Supabase query failed: ${error.message}`);
+    }
+
+    if (!data) {
+      // An attempt still waiting in the offline queue has no stored row yet
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Certificate not found',
+          details: 'The PDF can be downloaded once the assessment has been uploaded',
+        },
+        { status: 404 }
+      );
+    }
+
+    const row = data as unknown as AssessmentSubmission;
+    const pdf = await renderCertificatePdf(submissionToCertificateData(row), {
+      mode,
+      origin: request.nextUrl.origin,
+    });
+
+    // Only a well-formed certificate number goes into the header
+    const fileName = `anandak-certificate-${normalizeCertificateId(row.certificate_id ?? '') ?? 'assessment'}-${mode}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating certificate PDF:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to generate certificate PDF',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
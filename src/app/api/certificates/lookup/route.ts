@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin, hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { CERTIFICATE_COLUMNS, submissionToCertificateData } from '@/lib/certificate-data';
+import type { AssessmentSubmission } from '@/lib/supabase';
+import { toE164 } from '@/lib/country-codes';
+import { readVerificationToken } from '@/lib/otp';
+import { consumeRateLimit, getClientIp, type RateLimit } from '@/lib/rate-limit';
+import { getFieldErrors, describeFieldErrors, refinePhoneNumber } from '@/lib/submission-schema';
+
+// Upper bound on attempts returned for one mobile number
+const MAX_ATTEMPTS = 20;
+
+// Lookups allowed from one IP address, so leaked tokens cannot be replayed in bulk
+const LOOKUP_IP_LIMIT: RateLimit = { bucket: 'certificate-lookup:ip', limit: 20, windowMs: 60 * 60 * 1000 };
+
+const lookupRequestSchema = z.object({
+  countryCode: z.string().min(1, { message: "Please select country code." }),
+  mobile: z.string().min(1, { message: "Please enter your mobile number." }),
+  // Only the owner of a number, proven by a one-time code, may see its certificates
+  mobileVerificationToken: z.string().min(1, { message: "Please verify your mobile number." }),
+}).superRefine(refinePhoneNumber);
+
+/**
+ * POST endpoint to find past certificates by mobile number
+ * The number must have been verified with a one-time code, and each attempt
+ * carries only what its certificate prints: no contact details, age or gender
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = lookupRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    if (!hasServerSupabaseConfig()) {
+      console.error('Missing Supabase environment variables');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Server configuration error',
+          details: 'Missing required Supabase credentials'
+        },
+        { status: 500 }
+      );
+    }
+
+    const retryAfterSeconds = await consumeRateLimit(LOOKUP_IP_LIMIT, getClientIp(request));
+    if (retryAfterSeconds) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests', details: 'Please try again later', retryAfterSeconds },
+        { status: 429 }
+      );
+    }
+
+    const phone = toE164(parsed.data.countryCode, parsed.data.mobile);
+    if (!readVerificationToken(parsed.data.mobileVerificationToken, phone)) {
+      return NextResponse.json(
+        { success: false, error: 'Mobile number not verified', details: 'Please verify your mobile number again' },
+        { status: 401 }
+      );
+    }
+
+    // Older submissions stored the number as typed; migration 008 backfilled mobile_e164 for them
+    const { data, error } = await getSupabaseAdmin()
+      .from('assessment_submissions')
+      .select(`${CERTIFICATE_COLUMNS}, attempt_number, total_score`)
+      .eq('mobile_e164', phone)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ATTEMPTS);
+
+    if (error) {
+      console.error('Certificate lookup error:', error);
+      throw new Error(`Supabase query failed: ${error.message}`);
+    }
+
+    const attempts = (data as unknown as AssessmentSubmission[]).map((row) => ({
+      certificateId: row.certificate_id ?? null,
+      attemptNumber: row.attempt_number ?? null,
+      createdAt: row.created_at,
+      totalScore: row.total_score,
+      certificate: submissionToCertificateData(row),
+    }));
+
+    return NextResponse.json({ success: true, attempts });
+  } catch (error) {
+    console.error('Error looking up certificates:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to look up certificates',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { computeNorms, saveNorms } from '@/lib/norms';
+import { hasServerSupabaseConfig } from '@/lib/supabase-server';
+
+/**
+ * Vercel Cron Job: Recompute Trait Norms
+ *
+ * Rebuilds the per-trait score distributions in trait_norms from counted
+ * submissions, so new attempts get percentiles against an up-to-date norm group.
+ *
+ * Cron Schedule: Daily at 2:30 AM UTC (30 2 * * *)
+ *
+ * Security: Protected by Vercel Cron Secret; refuses to run when CRON_SECRET is not set
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('❌ CRON_SECRET is not set; refusing to recompute norms');
+      return NextResponse.json(
+        {
+          error: 'Server configuration error',
+          details: 'CRON_SECRET must be set to run this job'
+        },
+        { status: 500 }
+      );
+    }
+
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!hasServerSupabaseConfig()) {
+      console.error('Missing Supabase environment variables');
+      return NextResponse.json(
+        {
+          error: 'Server configuration error',
+          details: 'Missing required Supabase credentials'
+        },
+        { status: 500 }
+      );
+    }
+
+    console.log('🔄 Norms recomputation triggered:', new Date().toISOString());
+
+    const norms = await computeNorms();
+    const stored = await saveNorms(norms);
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      groups: norms.length,
+      // Groups of at least MIN_NORM_GROUP_SIZE (30) participants; only these are stored
+      groupsWithPercentiles: stored,
+    };
+
+    console.log('✅ Norms recomputed:', result);
+
+    return NextResponse.json(result, { status: 200 });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ Norms recomputation failed:', message);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual runs
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
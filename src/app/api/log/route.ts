@@ -1,91 +1,230 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin, hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { generateCertificateId } from '@/lib/certificate-id';
+import { scoreResponses, type ScoredAssessment } from '@/lib/scoring';
+import { getQuestionBank } from '@/lib/question-bank';
+import type { AssessmentSubmission } from '@/lib/supabase';
+import {
+  submissionSchema,
+  getFieldErrors,
+  describeFieldErrors,
+  type FieldErrors,
+  type LogResponse,
+  type ResponseSelection,
+  type SubmissionPayload,
+} from '@/lib/submission-schema';
+import { resolveLocation, type ResolvedLocation } from '@/lib/indian-states-districts';
+import { resolveSubLocation, type ResolvedSubLocation } from '@/lib/location-hierarchy';
+import { readVerificationToken } from '@/lib/otp';
+import { toE164, toNationalNumber } from '@/lib/country-codes';
+import { getRetakePolicy } from '@/lib/retake-policy';
+import { getTraitPercentiles, TRAIT_SCORE_COLUMNS, type TraitPercentile } from '@/lib/norms';
+import { TRAITS, type Trait } from '@/lib/question-bank-schema';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = '23505';
+// Inserts retried when a generated certificate number is already taken
+const MAX_INSERT_ATTEMPTS = 5;
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+/**
+ * Percentiles of the stored trait scores against the participant's norm group.
+ * They are extra information, so a failed norms lookup leaves them empty instead
+ * of failing a submission that is already stored
+ */
+async function findTraitPercentiles(record: AssessmentSubmission): Promise<Record<Trait, TraitPercentile | null> | null> {
+  const traitScores: Partial<Record<Trait, number>> = {};
+  for (const trait of TRAITS) {
+    const score = record[TRAIT_SCORE_COLUMNS[trait]];
+    if (typeof score === 'number') traitScores[trait] = score;
+  }
+  try {
+    return await getTraitPercentiles(record.assessment_version ?? 'v1', record.age, record.gender, traitScores);
+  } catch (error) {
+    console.error('Could not look up trait percentiles:', error);
+    return null;
+  }
+}
+
+/**
+ * Looks up a previously stored attempt by its client-generated submission key
+ */
+async function findSubmissionByKey(submissionKey: string): Promise<AssessmentSubmission | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('assessment_submissions')
+    .select('*')
+    .eq('submission_key', submissionKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase lookup error:', error);
+    throw new Error(`Supabase lookup failed: ${error.message}`);
+  }
+  return data as AssessmentSubmission | null;
+}
+
+/**
+ * Names the first field in which a new payload differs from the row already stored
+ * under its submission key, or null when it is the same submission sent again.
+ * Fields missing from rows stored before they existed are not compared
+ */
+function findReplayMismatch(record: AssessmentSubmission, data: SubmissionPayload, assessment: ScoredAssessment): string | null {
+  const sameResponses = (stored: ResponseSelection[]) =>
+    stored.length === assessment.responses.length &&
+    stored.every((response, index) =>
+      response.questionId === assessment.responses[index].questionId &&
+      response.optionIndex === assessment.responses[index].optionIndex
+    );
+
+  if (record.name !== data.name) return 'name';
+  if (record.mobile_e164 && record.mobile_e164 !== toE164(data.countryCode, data.mobile)) return 'mobile';
+  if (record.age !== data.age) return 'age';
+  if (record.gender !== data.gender) return 'gender';
+  if ((record.assessment_version ?? 'v1') !== data.assessmentVersion) return 'assessmentVersion';
+  if (record.responses && !sameResponses(record.responses)) return 'responses';
+  return null;
+}
 
 /**
- * Assessment submission data structure
- * This matches the data sent from the frontend components
+ * Returns the participant record for a mobile number, creating it on their first attempt
+ * The participant's name follows their latest attempt
  */
-interface AssessmentData {
-  name: string;
-  name_hi: string;
-  age: number;
-  gender: string;
-  mobile?: string;
-  email?: string;
-  countryCode?: string;
-  state: string;
-  district: string;
-  assessmentData: Array<{
-    id: number;
-    trait: string;
-    score: number;
-    feedback: string;
-  }>;
-  totalScore: number;
-  finalAssessmentText: string;
-  date: string;
+async function upsertParticipant(mobileE164: string, name: string): Promise<string> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('participants')
+    .upsert(
+      { mobile_e164: mobileE164, name, last_attempt_at: new Date().toISOString() },
+      { onConflict: 'mobile_e164' }
+    )
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Participant upsert error:', error);
+    throw new Error(`Supabase participant upsert failed: ${error.message}`);
+  }
+  return data.id;
 }
 
 /**
  * Saves assessment submission to Supabase
- * Extracts individual trait scores and feedback for storage
+ * Stores the raw option selections alongside the scores derived from them,
+ * the canonical state/district/block names with their LGD codes, and issues a certificate number (retrying if a generated number is already taken).
+ * Each submission is linked to a participant by mobile number. insert_assessment_submission (migration 015)
+ * numbers it and applies the retake policy in the same transaction as the insert: attempts outside the
+ * policy, or without a verified number, are stored but marked as not counted.
+ * Replays of an already stored submission key return the existing record instead
+ * of inserting a duplicate; the caller checks that it is the same submission
  */
-async function saveAssessmentToSupabase(data: AssessmentData) {
+async function saveAssessmentToSupabase(
+  data: SubmissionPayload,
+  location: ResolvedLocation & ResolvedSubLocation,
+  assessment: ScoredAssessment
+) {
+  const supabase = getSupabaseAdmin();
+
   try {
-    // Extract individual trait scores from assessment data
-    const gratitudeScore = data.assessmentData?.find((a) => a.trait === 'Gratitude')?.score ?? 0;
-    const resilienceScore = data.assessmentData?.find((a) => a.trait === 'Resilience')?.score ?? 0;
-    const empathyScore = data.assessmentData?.find((a) => a.trait === 'Empathy')?.score ?? 0;
-    const sociabilityScore = data.assessmentData?.find((a) => a.trait === 'Sociability')?.score ?? 0;
-    const socialCognitionScore = data.assessmentData?.find((a) => a.trait === 'Social Cognition')?.score ?? 0;
-    const courageScore = data.assessmentData?.find((a) => a.trait === 'Courage')?.score ?? 0;
+    const existing = await findSubmissionByKey(data.submissionKey);
+    if (existing) {
+      console.log(`Submission ${data.submissionKey} already stored, returning existing record`);
+      return { record: existing, replayed: true };
+    }
 
     // Extract all feedback comments
-    const feedbackComments = data.assessmentData?.map((a) => ({
+    const feedbackComments = assessment.assessmentData.map((a) => ({
       trait: a.trait,
       feedback: a.feedback
-    })) || [];
+    }));
+
+    // Numbers are stored in E.164 form so repeat participants can be matched however they typed it
+    const mobileE164 = toE164(data.countryCode, data.mobile);
+
+    // An invalid or expired token is not an error: the number is simply stored as unverified
+    const verification = data.mobileVerificationToken
+      ? readVerificationToken(data.mobileVerificationToken, mobileE164)
+      : null;
+    if (data.mobileVerificationToken && !verification) {
+      console.warn(`Submission ${data.submissionKey} has an invalid or expired mobile verification token`);
+    }
+
+    const row = {
+      submission_key: data.submissionKey,
+      assessment_version: data.assessmentVersion,
+      drawn_question_ids: assessment.drawnQuestionIds,
+      name: data.name,
+      name_hi: data.name_hi,
+      age: data.age,
+      gender: data.gender,
+      country_code: data.countryCode,
+      mobile: toNationalNumber(data.countryCode, data.mobile),
+      mobile_e164: mobileE164,
+      mobile_verified: verification !== null,
+      mobile_verified_at: verification?.verifiedAt ?? null,
+      email: data.email || null,
+      state: location.state,
+      district: location.district,
+      state_lgd_code: location.stateLgdCode,
+      district_lgd_code: location.districtLgdCode,
+      block: location.block,
+      block_lgd_code: location.blockLgdCode,
+      village: location.village,
+      village_lgd_code: location.villageLgdCode,
+      total_score: assessment.totalScore,
+      final_assessment: assessment.finalAssessmentText,
+      final_feedback_phrase_id: assessment.finalFeedbackPhraseId,
+      gratitude_score: assessment.traitScores['Gratitude'],
+      resilience_score: assessment.traitScores['Resilience'],
+      empathy_score: assessment.traitScores['Empathy'],
+      sociability_score: assessment.traitScores['Sociability'],
+      social_cognition_score: assessment.traitScores['Social Cognition'],
+      courage_score: assessment.traitScores['Courage'],
+      responses: assessment.responses,
+      metadata: data.metadata,
+      assessment_data: assessment.assessmentData,
+      feedback_comments: feedbackComments,
+    };
+
+    const participantId = await upsertParticipant(mobileE164, data.name);
+    // Judged when the attempt reaches the server, so an attempt queued offline counts from its upload
+    const policy = getRetakePolicy();
 
     // Insert into Supabase database
-    const { data: insertedData, error } = await supabase
-      .from('assessment_submissions')
-      .insert([
-        {
-          name: data.name,
-          name_hi: data.name_hi,
-          age: data.age,
-          gender: data.gender,
-          country_code: data.countryCode || '+91',
-          mobile: data.mobile || '',
-          email: data.email || null,
-          state: data.state,
-          district: data.district,
-          total_score: data.totalScore,
-          final_assessment: data.finalAssessmentText,
-          gratitude_score: gratitudeScore,
-          resilience_score: resilienceScore,
-          empathy_score: empathyScore,
-          sociability_score: sociabilityScore,
-          social_cognition_score: socialCognitionScore,
-          courage_score: courageScore,
-          assessment_data: data.assessmentData,
-          feedback_comments: feedbackComments,
-        },
-      ])
-      .select();
+    for (let attempt = 1; attempt <= MAX_INSERT_ATTEMPTS; attempt++) {
+      const certificateId = generateCertificateId();
+      const { data: insertedData, error } = await supabase
+        .rpc('insert_assessment_submission', {
+          p_submission: { ...row, participant_id: participantId, certificate_id: certificateId },
+          p_max_attempts: policy.maxAttempts,
+          p_min_days: policy.minDaysBetweenAttempts,
+        })
+        .single();
 
-    if (error) {
-      console.error('Supabase insert error:', error);
-      throw new Error(`Supabase insert failed: ${error.message}`);
+      if (error?.code === UNIQUE_VIOLATION && error.message.includes('submission_key')) {
+        // A concurrent request with the same key (e.g. a second tab) won the race
+        const winner = await findSubmissionByKey(data.submissionKey);
+        if (winner) {
+          return { record: winner, replayed: true };
+        }
+      }
+
+      if (error?.code === UNIQUE_VIOLATION && error.message.includes('certificate_id')) {
+        console.warn(`Certificate number ${certificateId} already issued, retrying...`);
+        continue;
+      }
+
+      if (error) {
+        console.error('Supabase insert error:', error);
+        throw new Error(`Supabase insert failed: ${error.message}`);
+      }
+
+      const record = insertedData as AssessmentSubmission;
+      if (!record.counted) {
+        console.log(`Submission ${data.submissionKey} stored as not counted (${record.not_counted_reason})`);
+      }
+      console.log(`Supabase insert successful: ${record.id} (${record.certificate_id})`);
+      return { record, replayed: false };
     }
 
-    console.log('Supabase insert successful:', insertedData);
-    return insertedData;
+    throw new Error('Could not issue a unique certificate number');
   } catch (error) {
     console.error('Error saving to Supabase:', error);
     throw error;
@@ -98,13 +237,71 @@ async function saveAssessmentToSupabase(data: AssessmentData) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const submission = await request.json();
+    const parsed = submissionSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json<LogResponse>(
+        {
+          success: false,
+          error: 'Invalid submission',
+          details: describeFieldErrors(fieldErrors),
+          fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const submission = parsed.data;
+
+    // Store canonical names and codes; former names (e.g. Hoshangabad) map to the current district.
+    // Block is optional so submissions queued before it was asked for still upload
+    const location = resolveLocation(submission.state, submission.district);
+    const subLocation = location && resolveSubLocation(location.state, location.district, submission.block, submission.village);
+    if (!location || !subLocation) {
+      const fieldErrors: FieldErrors = location
+        ? { block: ['Unknown block for the selected district.'] }
+        : { district: ['Unknown district for the selected state/UT.'] };
+      return NextResponse.json<LogResponse>(
+        {
+          success: false,
+          error: 'Invalid submission',
+          details: describeFieldErrors(fieldErrors),
+          fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Never trust client-side scores: derive them from the question bank version that was answered
+    const bank = getQuestionBank(submission.assessmentVersion);
+    if (!bank) {
+      const fieldErrors: FieldErrors = { assessmentVersion: [`Unknown assessment version ${submission.assessmentVersion}.`] };
+      return NextResponse.json<LogResponse>(
+        {
+          success: false,
+          error: 'Invalid submission',
+          details: describeFieldErrors(fieldErrors),
+          fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const scoring = scoreResponses(submission.responses, bank, submission.submissionKey);
+    if (!scoring.valid) {
+      return NextResponse.json<LogResponse>(
+        { success: false, error: `Responses do not match question bank ${bank.version}`, details: scoring.error },
+        { status: 400 }
+      );
+    }
 
     // Validate environment variables
-    if (!supabaseUrl || !supabaseServiceKey) {
+    if (!hasServerSupabaseConfig()) {
       console.error('Missing Supabase environment variables');
-      return NextResponse.json(
-        { 
+      return NextResponse.json<LogResponse>(
+        {
+          success: false,
           error: 'Server configuration error',
           details: 'Missing required Supabase credentials'
         },
@@ -115,16 +312,45 @@ export async function POST(request: NextRequest) {
     console.log('Saving assessment submission to Supabase...');
     
     // Save the assessment data
-    const savedData = await saveAssessmentToSupabase(submission as AssessmentData);
+    const { record, replayed } = await saveAssessmentToSupabase(submission, { ...location, ...subLocation }, scoring.assessment);
 
-    return NextResponse.json({
+    // A reused key with different answers or a different participant was not saved, so it must not look saved
+    const mismatch = replayed ? findReplayMismatch(record, submission, scoring.assessment) : null;
+    if (mismatch) {
+      console.warn(`Submission ${submission.submissionKey} reused with a different ${mismatch}`);
+      return NextResponse.json<LogResponse>(
+        {
+          success: false,
+          error: 'Submission key already used',
+          details: `A different submission is already stored under this key (${mismatch} differs)`,
+        },
+        { status: 409 }
+      );
+    }
+    const percentiles = await findTraitPercentiles(record);
+
+    // Results always come from the stored record, so a replay sees exactly what was saved first
+    return NextResponse.json<LogResponse>({
       success: true,
-      message: 'Assessment submitted successfully',
-      data: savedData,
+      message: replayed ? 'Assessment already submitted' : 'Assessment submitted successfully',
+      replayed,
+      certificateId: record.certificate_id ?? null,
+      assessmentVersion: record.assessment_version ?? 'v1',
+      attemptNumber: record.attempt_number ?? null,
+      counted: record.counted ?? true,
+      notCountedReason: record.not_counted_reason ?? null,
+      assessment: {
+        assessmentData: record.assessment_data,
+        totalScore: record.total_score,
+        finalAssessmentText: record.final_assessment,
+        finalFeedbackPhraseId: record.final_feedback_phrase_id ?? null,
+        // Against the current norms for the participant's age group and gender; null until a group is large enough
+        percentiles,
+      },
     });
   } catch (error) {
     console.error('Error processing submission:', error);
-    return NextResponse.json(
+    return NextResponse.json<LogResponse>(
       {
         success: false,
         error: 'Failed to submit assessment',
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { getSmsProvider } from '@/lib/sms-provider';
+import { getFieldErrors, describeFieldErrors } from '@/lib/submission-schema';
+import {
+  OTP_RESEND_INTERVAL_MS,
+  OTP_RESEND_LIMIT,
+  OTP_SEND_IP_LIMIT,
+  OTP_SEND_PHONE_LIMIT,
+  OTP_TTL_MS,
+  generateOtpCode,
+  getOtpTotalSendLimit,
+  hasOtpConfig,
+  hashOtpCode,
+  otpSendSchema,
+} from '@/lib/otp';
+import { toE164 } from '@/lib/country-codes';
+import { consumeRateLimit, getClientIp } from '@/lib/rate-limit';
+
+/**
+ * POST endpoint to text a one-time code to a participant's mobile number
+ * Limited to one code every 30 seconds and five an hour per number, 20 an hour
+ * per IP address, and OTP_MAX_SENDS_PER_HOUR_TOTAL an hour in total. Every limit
+ * goes through consume_rate_limit, so parallel requests cannot slip past one
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = otpSendSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const smsProvider = getSmsProvider();
+    if (!hasServerSupabaseConfig() || !smsProvider || !hasOtpConfig()) {
+      console.error('OTP is not configured: needs Supabase credentials, SMS_PROVIDER and OTP_SECRET');
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error', details: 'Mobile verification is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const ipRetryAfterSeconds = await consumeRateLimit(OTP_SEND_IP_LIMIT, getClientIp(request));
+    if (ipRetryAfterSeconds) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many codes requested',
+          details: 'Please wait before requesting another code',
+          retryAfterSeconds: ipRetryAfterSeconds,
+        },
+        { status: 429 }
+      );
+    }
+
+    const phone = toE164(parsed.data.countryCode, parsed.data.mobile);
+    // The resend gap is checked first, so a request refused by it does not use up the hourly allowance
+    const phoneRetryAfterSeconds = await consumeRateLimit(OTP_RESEND_LIMIT, phone)
+      ?? await consumeRateLimit(OTP_SEND_PHONE_LIMIT, phone);
+    if (phoneRetryAfterSeconds) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many codes requested',
+          details: 'Please wait before requesting another code',
+          retryAfterSeconds: phoneRetryAfterSeconds,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Checked last so that requests refused above do not use up everyone's allowance.
+    // The form treats a 503 like a gateway outage and offers to continue unverified
+    const totalRetryAfterSeconds = await consumeRateLimit(getOtpTotalSendLimit(), 'all');
+    if (totalRetryAfterSeconds) {
+      console.warn('OTP sending paused: hourly total reached');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Verification temporarily unavailable',
+          details: 'Too many codes are being requested right now',
+          retryAfterSeconds: totalRetryAfterSeconds,
+        },
+        { status: 503 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    const now = Date.now();
+    const code = generateOtpCode();
+    const { data: inserted, error: insertError } = await supabase
+      .from('otp_verifications')
+      .insert([{ phone, code_hash: hashOtpCode(phone, code), expires_at: new Date(now + OTP_TTL_MS).toISOString() }])
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('OTP insert error:', insertError);
+      throw new Error(`Supabase insert failed: ${insertError.message}`);
+    }
+
+    try {
+      await smsProvider.send(
+        phone,
+        `${code} is your Anandak Assessment verification code. It expires in ${OTP_TTL_MS / 60000} minutes. / आनंदक मूल्यांकन सत्यापन कोड: ${code}`
+      );
+    } catch (error) {
+      // A code that never arrived cannot be verified; it still counts against the limits
+      await supabase.from('otp_verifications').delete().eq('id', inserted.id);
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      expiresInSeconds: OTP_TTL_MS / 1000,
+      resendAfterSeconds: OTP_RESEND_INTERVAL_MS / 1000,
+    });
+  } catch (error) {
+    console.error('Error sending OTP:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send verification code',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
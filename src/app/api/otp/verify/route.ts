@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { getFieldErrors, describeFieldErrors } from '@/lib/submission-schema';
+import {
+  OTP_MAX_VERIFY_ATTEMPTS,
+  createVerificationToken,
+  hasOtpConfig,
+  otpCodeMatches,
+  otpVerifySchema,
+} from '@/lib/otp';
+import { toE164 } from '@/lib/country-codes';
+
+/**
+ * POST endpoint to check a one-time code
+ * Only the latest unexpired code for the number counts, and it allows five
+ * guesses. Each guess is claimed in the database before the code is compared
+ * (claim_otp_attempt, migration 016), so parallel guesses cannot exceed the limit.
+ * A correct code returns a signed verificationToken for /api/log
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = otpVerifySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    if (!hasServerSupabaseConfig() || !hasOtpConfig()) {
+      console.error('OTP is not configured: needs Supabase credentials and OTP_SECRET');
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error', details: 'Mobile verification is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const phone = toE164(parsed.data.countryCode, parsed.data.mobile);
+    const supabase = getSupabaseAdmin();
+
+    const { data: otp, error } = await supabase
+      .from('otp_verifications')
+      .select('id, code_hash, verified_at')
+      .eq('phone', phone)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('OTP lookup error:', error);
+      throw new Error(`Supabase query failed: ${error.message}`);
+    }
+
+    if (!otp || otp.verified_at) {
+      return NextResponse.json(
+        { success: false, error: 'Code expired', details: 'Please request a new code' },
+        { status: 400 }
+      );
+    }
+
+    const { data: attempts, error: claimError } = await supabase.rpc('claim_otp_attempt', {
+      p_id: otp.id,
+      p_max_attempts: OTP_MAX_VERIFY_ATTEMPTS,
+    });
+
+    if (claimError) {
+      console.error('OTP attempt claim error:', claimError);
+      throw new Error(`Supabase update failed: ${claimError.message}`);
+    }
+
+    // No guess left, or a parallel request verified the code first
+    if (typeof attempts !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts', details: 'Please request a new code' },
+        { status: 429 }
+      );
+    }
+
+    if (!otpCodeMatches(phone, parsed.data.code, otp.code_hash)) {
+      return NextResponse.json(
+        { success: false, error: 'Incorrect code', attemptsRemaining: OTP_MAX_VERIFY_ATTEMPTS - attempts },
+        { status: 400 }
+      );
+    }
+
+    // A code verifies once; a second correct guess racing this one gets nothing back
+    const verifiedAt = new Date();
+    const { data: verified, error: updateError } = await supabase
+      .from('otp_verifications')
+      .update({ verified_at: verifiedAt.toISOString() })
+      .eq('id', otp.id)
+      .is('verified_at', null)
+      .select('id');
+
+    if (updateError) {
+      console.error('OTP update error:', updateError);
+      throw new Error(`Supabase update failed: ${updateError.message}`);
+    }
+
+    if (verified.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Code expired', details: 'Please request a new code' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, verificationToken: createVerificationToken(phone, verifiedAt) });
+  } catch (error) {
+    console.error('Error verifying OTP:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to verify code',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { hasServerSupabaseConfig } from '@/lib/supabase-server';
+import { getFieldErrors, describeFieldErrors } from '@/lib/submission-schema';
+import { readVerificationToken } from '@/lib/otp';
+import { toE164 } from '@/lib/country-codes';
+import { evaluateRetake, getCountedAttemptDates, getRetakePolicy } from '@/lib/retake-policy';
+
+const eligibilityRequestSchema = z.object({
+  countryCode: z.string().min(1),
+  mobile: z.string().min(1),
+  // Only a verified number may ask about its own attempt history
+  mobileVerificationToken: z.string().min(1),
+});
+
+/**
+ * POST endpoint telling a participant, before they start, whether a new
+ * attempt would count under the retake policy. /api/log applies the same rule
+ * when the attempt is stored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = eligibilityRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const fieldErrors = getFieldErrors(parsed.error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: describeFieldErrors(fieldErrors), fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    if (!hasServerSupabaseConfig()) {
+      console.error('Missing Supabase environment variables');
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error', details: 'Missing required Supabase credentials' },
+        { status: 500 }
+      );
+    }
+
+    const phone = toE164(parsed.data.countryCode, parsed.data.mobile);
+    if (!readVerificationToken(parsed.data.mobileVerificationToken, phone)) {
+      return NextResponse.json(
+        { success: false, error: 'Mobile number not verified', details: 'Please verify your mobile number again' },
+        { status: 401 }
+      );
+    }
+
+    const policy = getRetakePolicy();
+    const decision = evaluateRetake(policy, await getCountedAttemptDates(phone));
+
+    return NextResponse.json({ success: true, ...decision, maxAttempts: policy.maxAttempts });
+  } catch (error) {
+    console.error('Error checking retake eligibility:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to check eligibility',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
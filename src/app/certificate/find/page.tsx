@@ -0,0 +1,246 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Award, Check, ChevronsUpDown, Home, Languages, Loader2, Search } from 'lucide-react';
+import type { CertificateData } from '@/components/certificate';
+import type { Language } from '@/components/aptitude-insight-app';
+import { MobileVerification } from '@/components/mobile-verification';
+import AnandakLogo from '@/components/anandak-logo';
+import IitKgpLogo from '@/components/iit-kgp-logo';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { translations } from '@/lib/assessment-data';
+import { countryCodes, getPhoneNumberError } from '@/lib/country-codes';
+import { cn } from '@/lib/utils';
+
+interface CertificateAttempt {
+    certificateId: string | null;
+    attemptNumber: number | null;
+    createdAt: string;
+    totalScore: number;
+    certificate: CertificateData;
+}
+
+type FindStep = 'mobile' | 'verify' | 'results';
+
+export default function FindCertificatePage() {
+    const router = useRouter();
+    const { toast } = useToast();
+    const [lang, setLang] = useState<Language>('en');
+    const [step, setStep] = useState<FindStep>('mobile');
+    const [countryCode, setCountryCode] = useState('+91');
+    const [countryCodePopoverOpen, setCountryCodePopoverOpen] = useState(false);
+    const [mobile, setMobile] = useState('');
+    const [mobileError, setMobileError] = useState<string | null>(null);
+    const [verificationToken, setVerificationToken] = useState<string | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [attempts, setAttempts] = useState<CertificateAttempt[]>([]);
+
+    const t = translations[lang].findCertificate;
+    const tUser = translations[lang].userInfo;
+
+    const handleSearch = async (mobileVerificationToken: string) => {
+        setVerificationToken(mobileVerificationToken);
+        setIsSearching(true);
+        try {
+            const response = await fetch('/api/certificates/lookup', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ countryCode, mobile, mobileVerificationToken }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.details || result.error || 'Failed to look up certificates');
+            }
+
+            setAttempts(result.attempts);
+            setStep('results');
+        } catch (error: any) {
+            console.error("Certificate lookup failed", error);
+            toast({
+                title: t.errorTitle,
+                description: error.message,
+                variant: "destructive",
+            });
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    // Kept apart from this device's own certificate in localStorage, which an upload
+    // still waiting in the offline queue needs in order to get its certificate number
+    const handleViewCertificate = (certificate: CertificateData) => {
+        try {
+            sessionStorage.setItem('anandakLookedUpCertificate', JSON.stringify(certificate));
+            router.push('/certificate?view=lookup');
+        } catch (error) {
+            console.error("Could not save certificate data to sessionStorage", error);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-secondary">
+            <header className="p-4 sm:p-6 md:p-8 flex justify-between items-center gap-4 flex-nowrap">
+                <AnandakLogo />
+                <IitKgpLogo />
+            </header>
+            <main className="flex flex-col items-center p-4 sm:p-6 md:p-8 pt-0 sm:pt-0 md:pt-0">
+                <Card className="w-full max-w-2xl shadow-lg">
+                    <CardHeader>
+                        <div className="flex justify-between items-start gap-4">
+                            <CardTitle className="flex items-center gap-3 text-2xl"><Search /> {t.title}</CardTitle>
+                            <Button variant="ghost" size="sm" onClick={() => setLang(lang === 'en' ? 'hi' : 'en')}>
+                                <Languages className="mr-2 h-4 w-4" />
+                                {lang === 'en' ? 'हिन्दी' : 'English'}
+                            </Button>
+                        </div>
+                        <CardDescription>{t.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        {step === 'mobile' && (
+                            <form
+                                className="space-y-4"
+                                onSubmit={(e) => {
+                                    e.preventDefault();
+                                    const error = getPhoneNumberError(countryCode, mobile);
+                                    setMobileError(error);
+                                    if (!error) {
+                                        // A different number needs its own code
+                                        setVerificationToken(null);
+                                        setStep('verify');
+                                    }
+                                }}
+                            >
+                                <h3 className="font-semibold">{t.mobileStepTitle}</h3>
+                                <div className="space-y-2">
+                                    <Label htmlFor="mobile">{tUser.mobileLabel}</Label>
+                                    <div className="flex items-center gap-2">
+                                        <Popover open={countryCodePopoverOpen} onOpenChange={setCountryCodePopoverOpen}>
+                                            <PopoverTrigger asChild>
+                                                <Button variant="outline" role="combobox" className="w-[100px] justify-between shrink-0">
+                                                    {countryCode}
+                                                    <ChevronsUpDown className="ml-1 h-4 w-4 shrink-0 opacity-50" />
+                                                </Button>
+                                            </PopoverTrigger>
+                                            <PopoverContent className="w-[300px] p-0">
+                                                <Command>
+                                                    <CommandInput placeholder={t.countrySearchPlaceholder} />
+                                                    <CommandEmpty>{t.countryNoResult}</CommandEmpty>
+                                                    <CommandList>
+                                                        <CommandGroup>
+                                                            {countryCodes.map((country) => (
+                                                                <CommandItem
+                                                                    value={`${country.name} ${country.dialCode}`}
+                                                                    key={country.code}
+                                                                    onSelect={() => {
+                                                                        setCountryCode(country.dialCode);
+                                                                        setCountryCodePopoverOpen(false);
+                                                                    }}
+                                                                >
+                                                                    <Check className={cn("mr-2 h-4 w-4", country.dialCode === countryCode ? "opacity-100" : "opacity-0")} />
+                                                                    {country.name} ({country.dialCode})
+                                                                </CommandItem>
+                                                            ))}
+                                                        </CommandGroup>
+                                                    </CommandList>
+                                                </Command>
+                                            </PopoverContent>
+                                        </Popover>
+                                        <Input
+                                            id="mobile"
+                                            type="tel"
+                                            placeholder={tUser.mobilePlaceholder}
+                                            className="flex-1"
+                                            value={mobile}
+                                            onChange={(e) => {
+                                                setMobile(e.target.value);
+                                                setMobileError(null);
+                                            }}
+                                        />
+                                    </div>
+                                    {mobileError && <p className="text-sm font-medium text-destructive">{mobileError}</p>}
+                                </div>
+                                <Button type="submit" className="w-full" disabled={!mobile.trim()}>
+                                    {t.continueButton}
+                                </Button>
+                            </form>
+                        )}
+
+                        {step === 'verify' && (
+                            <div className="space-y-4">
+                                <h3 className="font-semibold">{t.verifyStepTitle}</h3>
+                                <p className="text-sm text-muted-foreground">{t.verifyDescription(`${countryCode} ${mobile}`)}</p>
+                                {verificationToken ? (
+                                    // Already verified; a failed search can be retried with the same token
+                                    <Button
+                                        className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
+                                        onClick={() => handleSearch(verificationToken)}
+                                        disabled={isSearching}
+                                    >
+                                        {isSearching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                                        {isSearching ? t.searching : t.searchButton}
+                                    </Button>
+                                ) : (
+                                    // A lookup needs a verified number, so there is no unverified fallback here
+                                    <MobileVerification
+                                        countryCode={countryCode}
+                                        mobile={mobile}
+                                        isVerified={false}
+                                        onVerified={handleSearch}
+                                        onUnavailable={() => {}}
+                                        lang={lang}
+                                    />
+                                )}
+                                <Button type="button" variant="outline" onClick={() => setStep('mobile')}>
+                                    {t.backButton}
+                                </Button>
+                            </div>
+                        )}
+
+                        {step === 'results' && (
+                            <div className="space-y-4">
+                                <h3 className="font-semibold">{t.resultsTitle}</h3>
+                                {attempts.length === 0 ? (
+                                    <p className="text-muted-foreground">{t.noResults}</p>
+                                ) : (
+                                    <ul className="space-y-3">
+                                        {attempts.map((attempt, index) => (
+                                            <li key={attempt.certificateId ?? attempt.createdAt} className="flex flex-wrap items-center justify-between gap-3 p-4 border rounded-lg">
+                                                <div>
+                                                    <p className="font-semibold">{t.attemptLabel(attempt.attemptNumber ?? attempts.length - index)} · {attempt.certificate.date}</p>
+                                                    <p className="text-sm text-muted-foreground">
+                                                        {t.scoreLabel}: {attempt.totalScore}
+                                                        {attempt.certificateId && <> · <span className="font-mono">{attempt.certificateId}</span></>}
+                                                    </p>
+                                                </div>
+                                                <Button onClick={() => handleViewCertificate(attempt.certificate)} size="sm">
+                                                    <Award className="mr-2 h-4 w-4" />
+                                                    {t.viewButton}
+                                                </Button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                <Button variant="outline" onClick={() => setStep('mobile')}>
+                                    {t.backButton}
+                                </Button>
+                            </div>
+                        )}
+
+                        <Button variant="ghost" className="w-full" onClick={() => router.push('/')}>
+                            <Home className="mr-2 h-4 w-4" />
+                            {t.homeButton}
+                        </Button>
+                    </CardContent>
+                </Card>
+            </main>
+        </div>
+    );
+}
@@ -6,7 +6,10 @@ import { useEffect, useState, useCallback } from 'react';
 import { Certificate, type CertificateData } from '@/components/certificate';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { Home, Printer } from 'lucide-react';
+import { Home, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { CertificatePdfMode } from '@/lib/certificate-pdf';
+import { getHonorific } from '@/lib/certificate-format';
 
 function CertificateSkeleton() {
     return (
@@ -28,44 +31,71 @@ function CertificateSkeleton() {
     )
 }
 
-type PrintMode = 'all' | 'en' | 'hi';
-
 export default function CertificatePage() {
     const [certData, setCertData] = useState<CertificateData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [downloadingMode, setDownloadingMode] = useState<CertificatePdfMode | null>(null);
     const router = useRouter();
+    const { toast } = useToast();
 
     useEffect(() => {
         try {
-            const data = localStorage.getItem('anandakAssessmentCertificate');
+            // A certificate opened from "Find My Certificate" is shown without replacing this device's own
+            const isLookup = new URLSearchParams(window.location.search).get('view') === 'lookup';
+            const data = isLookup
+                ? sessionStorage.getItem('anandakLookedUpCertificate')
+                : localStorage.getItem('anandakAssessmentCertificate');
             if (data) {
-                setCertData(JSON.parse(data));
+                // Certificates saved before the honorific field carry the full participant details
+                const { gender, honorific, ...rest } = JSON.parse(data);
+                setCertData({ ...rest, honorific: honorific ?? getHonorific(gender) });
             } else {
-                router.replace('/');
+                router.replace('/certificate/find');
             }
         } catch (error) {
             console.error("Failed to parse certificate data", error);
-            router.replace('/');
+            router.replace('/certificate/find');
         } finally {
             setIsLoading(false);
         }
     }, [router]);
 
-    const handlePrint = useCallback((mode: PrintMode) => {
-        const onBeforePrint = () => {
-            document.body.classList.add(`print-mode-${mode}`);
-        };
-        const onAfterPrint = () => {
-            document.body.classList.remove(`print-mode-${mode}`);
-            window.removeEventListener('beforeprint', onBeforePrint);
-            window.removeEventListener('afterprint', onAfterPrint);
-        };
-        
-        window.addEventListener('beforeprint', onBeforePrint);
-        window.addEventListener('afterprint', onAfterPrint);
-        
-        window.print();
-    }, []);
+    const handleDownload = useCallback(async (mode: CertificatePdfMode) => {
+        if (!certData) return;
+        setDownloadingMode(mode);
+        try {
+            const response = await fetch('/api/certificate/pdf', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                // The server renders the stored submission, so only its identifiers are sent
+                body: JSON.stringify({ certificateId: certData.certificateId, submissionKey: certData.submissionKey, mode }),
+            });
+
+            if (!response.ok) {
+                const result = await response.json().catch(() => ({}));
+                throw new Error(result.details || result.error || 'Failed to generate PDF');
+            }
+
+            const blob = await response.blob();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `anandak-certificate-${certData.certificateId ?? 'assessment'}-${mode}.pdf`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            console.error("Failed to download certificate PDF", error);
+            toast({
+                title: "Download Failed",
+                description: `Your certificate could not be downloaded. Reason: ${error.message}`,
+                variant: "destructive",
+            });
+        } finally {
+            setDownloadingMode(null);
+        }
+    }, [certData, toast]);
 
     const handleHome = () => {
         router.push('/');
@@ -84,17 +114,17 @@ export default function CertificatePage() {
                 <Home className="mr-2 h-5 w-5" />
                 Back to Home
             </Button>
-            <Button onClick={() => handlePrint('all')} size="lg" className="bg-accent hover:bg-accent/90 text-accent-foreground">
-                <Printer className="mr-2 h-5 w-5" />
-                Print Full Certificate
+            <Button onClick={() => handleDownload('all')} disabled={downloadingMode !== null} size="lg" className="bg-accent hover:bg-accent/90 text-accent-foreground">
+                {downloadingMode === 'all' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Download className="mr-2 h-5 w-5" />}
+                Download PDF (English + Hindi)
             </Button>
-            <Button onClick={() => handlePrint('en')} size="lg" variant="outline">
-                <Printer className="mr-2 h-5 w-5" />
-                Print English Only
+            <Button onClick={() => handleDownload('en')} disabled={downloadingMode !== null} size="lg" variant="outline">
+                {downloadingMode === 'en' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Download className="mr-2 h-5 w-5" />}
+                Download English PDF
             </Button>
-            <Button onClick={() => handlePrint('hi')} size="lg" variant="outline">
-                <Printer className="mr-2 h-5 w-5" />
-                Print Hindi Only
+            <Button onClick={() => handleDownload('hi')} disabled={downloadingMode !== null} size="lg" variant="outline">
+                {downloadingMode === 'hi' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Download className="mr-2 h-5 w-5" />}
+                हिन्दी PDF डाउनलोड करें
             </Button>
         </div>
       </div>
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next';
+
+// Web app manifest so field staff can install the assessment for offline camps
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Anandak Assessment',
+    short_name: 'Anandak',
+    description: 'Discover your strengths through our situational assessment.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#ffffff',
+    icons: [
+      {
+        src: '/favicon.ico',
+        sizes: 'any',
+        type: 'image/x-icon',
+      },
+    ],
+  };
+}
@@ -1,5 +1,6 @@
 import AptitudeInsightApp from '@/components/aptitude-insight-app';
 import AnandakLogo from '@/components/anandak-logo';
+import Link from 'next/link';
 import { BrainCircuit } from 'lucide-react';
 import IitKgpLogo from '@/components/iit-kgp-logo';
 
@@ -18,6 +19,9 @@ export default function Home() {
             </div>
             <h1 className="text-4xl md:text-5xl font-bold font-headline text-foreground tracking-tight">Anandak Assessment</h1>
             <p className="text-muted-foreground mt-2 text-lg">Discover your strengths through our assessment.</p>
+            <Link href="/certificate/find" className="mt-3 text-sm text-primary underline-offset-4 hover:underline">
+              Already taken the assessment? Find your certificate / प्रमाणपत्र खोजें
+            </Link>
           </header>
           <AptitudeInsightApp />
         </div>
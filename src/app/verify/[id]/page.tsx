@@ -0,0 +1,162 @@
+import type { Metadata } from 'next';
+import { BadgeCheck, ShieldAlert } from 'lucide-react';
+import AnandakLogo from '@/components/anandak-logo';
+import IitKgpLogo from '@/components/iit-kgp-logo';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { getTraitMaxScore, translations, type Question } from '@/lib/assessment-data';
+import { normalizeCertificateId } from '@/lib/certificate-id';
+import { currentQuestionBank, getQuestionBank } from '@/lib/question-bank';
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import type { AssessmentSubmission } from '@/lib/supabase';
+
+// Always read from the database so revoked or corrected records are reflected immediately
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Certificate Verification | Anandak Assessment',
+  robots: { index: false, follow: false },
+};
+
+type VerifiedSubmission = Pick<
+  AssessmentSubmission,
+  | 'certificate_id'
+  | 'created_at'
+  | 'assessment_version'
+  | 'name'
+  | 'name_hi'
+  | 'state'
+  | 'district'
+  | 'total_score'
+  | 'gratitude_score'
+  | 'resilience_score'
+  | 'empathy_score'
+  | 'sociability_score'
+  | 'social_cognition_score'
+  | 'courage_score'
+>;
+
+// Only public certificate fields are selected - never mobile or email
+const VERIFY_COLUMNS =
+  'certificate_id, created_at, assessment_version, name, name_hi, state, district, total_score, gratitude_score, resilience_score, empathy_score, sociability_score, social_cognition_score, courage_score';
+
+const TRAIT_COLUMNS: { trait: Question['trait']; column: keyof VerifiedSubmission }[] = [
+  { trait: 'Gratitude', column: 'gratitude_score' },
+  { trait: 'Resilience', column: 'resilience_score' },
+  { trait: 'Empathy', column: 'empathy_score' },
+  { trait: 'Sociability', column: 'sociability_score' },
+  { trait: 'Social Cognition', column: 'social_cognition_score' },
+  { trait: 'Courage', column: 'courage_score' },
+];
+
+async function findSubmission(certificateId: string): Promise<VerifiedSubmission | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('assessment_submissions')
+    .select(VERIFY_COLUMNS)
+    .eq('certificate_id', certificateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Certificate lookup failed:', error);
+    throw new Error(`Certificate lookup failed: ${error.message}`);
+  }
+  return data as VerifiedSubmission | null;
+}
+
+function BilingualLabel({ en, hi }: { en: string; hi: string }) {
+  return (
+    <span className="text-sm text-muted-foreground">
+      {en} / {hi}
+    </span>
+  );
+}
+
+export default async function VerifyCertificatePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const t = translations.en.verify;
+  const t_hi = translations.hi.verify;
+
+  const certificateId = normalizeCertificateId(id);
+  const submission = certificateId ? await findSubmission(certificateId) : null;
+
+  const bank = getQuestionBank(submission?.assessment_version ?? 'v1') ?? currentQuestionBank;
+  const traitMaxScore = getTraitMaxScore(bank);
+  // The same traits as the certificate being verified
+  const traitColumns = TRAIT_COLUMNS.filter(({ trait }) => bank.scoring.certificateTraits.includes(trait));
+
+  const issueDate = submission?.created_at
+    ? new Date(submission.created_at).toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'Asia/Kolkata' })
+    : '';
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      <header className="p-4 sm:p-6 md:p-8 flex justify-between items-center gap-4 flex-nowrap">
+        <AnandakLogo />
+        <IitKgpLogo />
+      </header>
+      <main className="flex flex-col items-center p-4 sm:p-6 md:p-8 pt-0 sm:pt-0 md:pt-0">
+        <Card className="w-full max-w-2xl shadow-lg">
+          {submission ? (
+            <>
+              <CardHeader className="text-center">
+                <div className="mx-auto bg-primary/20 text-primary rounded-full p-3 w-fit mb-4">
+                  <BadgeCheck className="h-10 w-10" />
+                </div>
+                <CardTitle className="text-2xl">{t.validTitle} / {t_hi.validTitle}</CardTitle>
+                <CardDescription>{t.validDescription}</CardDescription>
+                <CardDescription>{t_hi.validDescription}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <dt><BilingualLabel en={t.certificateNumber} hi={t_hi.certificateNumber} /></dt>
+                    <dd className="font-mono font-semibold">{submission.certificate_id}</dd>
+                  </div>
+                  <div>
+                    <dt><BilingualLabel en={t.dateOfIssue} hi={t_hi.dateOfIssue} /></dt>
+                    <dd className="font-semibold">{issueDate}</dd>
+                  </div>
+                  <div>
+                    <dt><BilingualLabel en={t.name} hi={t_hi.name} /></dt>
+                    <dd className="font-semibold">{submission.name} ({submission.name_hi})</dd>
+                  </div>
+                  <div>
+                    <dt><BilingualLabel en={t.district} hi={t_hi.district} /></dt>
+                    <dd className="font-semibold">{submission.district}, {submission.state}</dd>
+                  </div>
+                </dl>
+
+                <Separator className="bg-primary/30" />
+
+                <div>
+                  <h3 className="font-semibold text-lg mb-3">{t.traitScores} / {t_hi.traitScores}</h3>
+                  <ul className="space-y-2">
+                    {traitColumns.map(({ trait, column }) => (
+                      <li key={trait} className="flex justify-between border-l-4 border-primary/50 pl-4 py-1">
+                        <span>{translations.en.cert.traits[trait]} / {translations.hi.cert.traits[trait]}</span>
+                        <span className="font-semibold">{submission[column]}/{traitMaxScore}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="flex justify-between font-semibold mt-4 pl-5">
+                    <span>{t.totalScore} / {t_hi.totalScore}</span>
+                    <span>{submission.total_score}</span>
+                  </p>
+                </div>
+              </CardContent>
+            </>
+          ) : (
+            <CardHeader className="text-center">
+              <div className="mx-auto bg-destructive/20 text-destructive rounded-full p-3 w-fit mb-4">
+                <ShieldAlert className="h-10 w-10" />
+              </div>
+              <CardTitle className="text-2xl">{t.notFoundTitle} / {t_hi.notFoundTitle}</CardTitle>
+              <CardDescription>{t.notFoundDescription(id)}</CardDescription>
+              <CardDescription>{t_hi.notFoundDescription(id)}</CardDescription>
+            </CardHeader>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserInfoStep, type UserInfo } from './user-info-step';
-import { AssessmentStep, type AnswerDetail } from './assessment-step';
+import { AssessmentStep, type AnswerChange, type AnswerDetail } from './assessment-step';
 import { ResultsStep } from './results-step';
-import { ClipboardList, UserCheck, Languages } from 'lucide-react';
+import { ClipboardList, UserCheck, Languages, History } from 'lucide-react';
 import { Button } from './ui/button';
-import { translations } from '@/lib/assessment-data';
+import { getTotalScore, translations } from '@/lib/assessment-data';
+import { currentQuestionBank, drawQuestions } from '@/lib/question-bank';
+import { clearProgress, loadProgress, saveProgress, type AssessmentProgress } from '@/lib/assessment-progress';
 
 export type Language = 'en' | 'hi';
-type Step = 'language' | 'info' | 'assessment' | 'results';
+type Step = 'resume' | 'language' | 'info' | 'assessment' | 'results';
 
 function LanguageSelectionStep({ onSelect }: { onSelect: (lang: Language) => void }) {
   return (
@@ -32,12 +34,63 @@ function LanguageSelectionStep({ onSelect }: { onSelect: (lang: Language) => voi
   );
 }
 
+function ResumeStep({ progress, onContinue, onStartOver }: { progress: AssessmentProgress; onContinue: () => void; onStartOver: () => void }) {
+  const t = translations[progress.lang].resume;
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl"><History /> {t.title}</CardTitle>
+        <CardDescription>{t.description(progress.userData.name, progress.currentQuestionIndex, drawQuestions(currentQuestionBank, progress.submissionKey).length)}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row gap-4 justify-center items-center pt-6">
+        <Button onClick={onStartOver} size="lg" variant="outline" className="w-full sm:w-auto">
+          {t.startOverButton}
+        </Button>
+        <Button onClick={onContinue} size="lg" className="bg-accent hover:bg-accent/90 text-accent-foreground w-full sm:w-auto">
+          {t.continueButton}
+        </Button>
+      </CardContent>
+    </>
+  );
+}
 
 export default function AptitudeInsightApp() {
   const [step, setStep] = useState<Step>('language');
   const [lang, setLang] = useState<Language>('en');
   const [userData, setUserData] = useState<UserInfo | null>(null);
   const [assessmentData, setAssessmentData] = useState<AnswerDetail[]>([]);
+  const [answerChanges, setAnswerChanges] = useState<AnswerChange[]>([]);
+  // Identifies this attempt so retried or repeated submissions are stored only once
+  const [submissionKey, setSubmissionKey] = useState<string | null>(null);
+  const [savedProgress, setSavedProgress] = useState<AssessmentProgress | null>(null);
+  // Seeded with the submission key, so a resumed attempt is asked the same questions
+  const drawnQuestions = useMemo(
+    () => (submissionKey ? drawQuestions(currentQuestionBank, submissionKey) : []),
+    [submissionKey]
+  );
+
+  // Offer to resume an assessment interrupted by a reload or a closed tab
+  useEffect(() => {
+    const progress = loadProgress();
+    if (progress) {
+      setSavedProgress(progress);
+      setStep('resume');
+    }
+  }, []);
+
+  const handleResume = () => {
+    if (!savedProgress) return;
+    setLang(savedProgress.lang);
+    setUserData(savedProgress.userData);
+    setSubmissionKey(savedProgress.submissionKey);
+    setStep('assessment');
+  };
+
+  const handleStartOver = () => {
+    clearProgress();
+    setSavedProgress(null);
+    setStep('language');
+  };
   
   const handleLanguageSelect = (selectedLang: Language) => {
     setLang(selectedLang);
@@ -45,18 +98,34 @@ export default function AptitudeInsightApp() {
   };
 
   const handleInfoSubmit = (data: UserInfo) => {
+    const key = crypto.randomUUID();
     setUserData(data);
+    setSubmissionKey(key);
+    setSavedProgress(null);
+    saveProgress({ lang, userData: data, submissionKey: key, currentQuestionIndex: 0, answers: [], answerChanges: [] });
     setStep('assessment');
   };
 
-  const handleAssessmentComplete = (data: AnswerDetail[]) => {
+  const handleAssessmentProgress = (currentQuestionIndex: number, answers: AnswerDetail[], changes: AnswerChange[]) => {
+    if (!userData || !submissionKey) return;
+    saveProgress({ lang, userData, submissionKey, currentQuestionIndex, answers, answerChanges: changes });
+  };
+
+  const handleAssessmentComplete = (data: AnswerDetail[], changes: AnswerChange[]) => {
+    // Results are kept with the certificate from here on
+    clearProgress();
     setAssessmentData(data);
+    setAnswerChanges(changes);
     setStep('results');
   };
 
   const getStepComponent = () => {
     const t = translations[lang];
     switch (step) {
+      case 'resume':
+        return savedProgress
+          ? <ResumeStep progress={savedProgress} onContinue={handleResume} onStartOver={handleStartOver} />
+          : null;
       case 'language':
         return <LanguageSelectionStep onSelect={handleLanguageSelect} />;
       case 'info':
@@ -79,14 +148,23 @@ export default function AptitudeInsightApp() {
                     <CardDescription>{t.assessment.description}</CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <AssessmentStep onComplete={handleAssessmentComplete} lang={lang} />
+                    <AssessmentStep
+                      questions={drawnQuestions}
+                      submissionKey={submissionKey ?? ''}
+                      onComplete={handleAssessmentComplete}
+                      onProgress={handleAssessmentProgress}
+                      initialQuestionIndex={savedProgress?.currentQuestionIndex}
+                      initialAnswers={savedProgress?.answers}
+                      initialAnswerChanges={savedProgress?.answerChanges}
+                      lang={lang}
+                    />
                 </CardContent>
             </>
         );
       case 'results':
-        if (userData && assessmentData) {
-            const totalScore = assessmentData.reduce((acc, val) => acc + val.score, 0);
-            return <ResultsStep score={totalScore} userData={userData} assessmentData={assessmentData} lang={lang} />;
+        if (userData && assessmentData && submissionKey) {
+            const totalScore = getTotalScore(assessmentData);
+            return <ResultsStep score={totalScore} userData={userData} assessmentData={assessmentData} answerChanges={answerChanges} submissionKey={submissionKey} lang={lang} />;
         }
         return null;
       default:
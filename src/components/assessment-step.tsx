@@ -1,14 +1,15 @@
 
 "use client";
 
-import { useState } from 'react';
-import { questions, getIndividualFeedback, type Question } from '@/lib/assessment-data';
+import { useMemo, useState } from 'react';
+import { getItemScore, getOptionFeedback, getOptionFeedbackPhraseId, hasLiveFeedback, type Question } from '@/lib/assessment-data';
+import { getOptionOrder } from '@/lib/question-bank';
 import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { Language } from './aptitude-insight-app';
 import { translations } from '@/lib/assessment-data';
@@ -17,25 +18,66 @@ export interface AnswerDetail {
     id: number;
     trait: Question['trait'];
     score: number;
+    optionIndex: number;
     feedback: string;
+    feedbackPhraseId: number;
+}
+
+export interface AnswerChange {
+    questionId: number;
+    fromOptionIndex: number;
+    toOptionIndex: number;
+    changedAt: string;
 }
 
 interface AssessmentStepProps {
-  onComplete: (answers: AnswerDetail[]) => void;
+  // The questions drawn for this attempt (drawQuestions)
+  questions: Question[];
+  // Seeds the option order and feedback phrasing, so a resumed attempt looks the same
+  submissionKey: string;
+  onComplete: (answers: AnswerDetail[], answerChanges: AnswerChange[]) => void;
+  onProgress?: (currentQuestionIndex: number, answers: AnswerDetail[], answerChanges: AnswerChange[]) => void;
+  initialQuestionIndex?: number;
+  initialAnswers?: AnswerDetail[];
+  initialAnswerChanges?: AnswerChange[];
   lang: Language;
 }
 
-export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
+export function AssessmentStep({ questions, submissionKey, onComplete, onProgress, initialQuestionIndex = 0, initialAnswers = [], initialAnswerChanges = [], lang }: AssessmentStepProps) {
   const t = translations[lang].assessment;
-  const [showInstructions, setShowInstructions] = useState(true);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<AnswerDetail[]>([]);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  // A resumed assessment goes straight back to the question it stopped at
+  const [showInstructions, setShowInstructions] = useState(initialQuestionIndex === 0 && initialAnswers.length === 0);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(initialQuestionIndex);
+  const [answers, setAnswers] = useState<AnswerDetail[]>(initialAnswers);
+  const [answerChanges, setAnswerChanges] = useState<AnswerChange[]>(initialAnswerChanges);
+  const [selectedOption, setSelectedOption] = useState<string | null>(
+    initialAnswers[initialQuestionIndex] ? String(initialAnswers[initialQuestionIndex].optionIndex) : null
+  );
   const [currentFeedback, setCurrentFeedback] = useState<string | null>(null);
+  // Set when a question is opened from the review screen, so Next returns there
+  const [isEditingFromReview, setIsEditingFromReview] = useState(false);
   const { toast } = useToast();
 
+  // Index used for the review screen, one past the last question
+  const reviewIndex = questions.length;
+  const isReviewing = currentQuestionIndex === reviewIndex;
   const currentQuestion = questions[currentQuestionIndex];
   const progressValue = ((currentQuestionIndex) / questions.length) * 100;
+  const optionOrder = useMemo(
+    () => (currentQuestion ? getOptionOrder(currentQuestion, submissionKey) : []),
+    [currentQuestion, submissionKey]
+  );
+
+  /**
+   * Moves to another question (or the review screen), restoring any answer already given there
+   */
+  const goToQuestion = (index: number, currentAnswers: AnswerDetail[], changes: AnswerChange[]) => {
+    const existing = currentAnswers[index];
+    setCurrentQuestionIndex(index);
+    setSelectedOption(existing ? String(existing.optionIndex) : null);
+    setCurrentFeedback(null);
+    onProgress?.(index, currentAnswers, changes);
+  };
 
   // Show instructions screen
   if (showInstructions) {
@@ -46,14 +88,14 @@ export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
         </CardHeader>
         <CardContent className="space-y-6">
           <p className="text-base leading-relaxed text-muted-foreground">
-            {t.instructions.text}
+            {t.instructions.text(questions.length)}
           </p>
           <Button 
             onClick={() => setShowInstructions(false)} 
             className="w-full"
             size="lg"
           >
-            {lang === 'en' ? 'Begin Assessment' : 'मूल्यांकन शुरू करें'}
+            {t.beginButton}
             <ChevronRight className="ml-2 h-4 w-4" />
           </Button>
         </CardContent>
@@ -61,14 +103,54 @@ export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
     );
   }
 
+  // Radio values are the option's authored index, which stays the same whatever order it is shown in
   const handleOptionChange = (value: string) => {
     setSelectedOption(value);
-    const score = parseInt(value, 10);
-    const trait = currentQuestion.trait;
-    const feedback = getIndividualFeedback(trait, score, lang);
+    // Traits left out of scoring.liveFeedbackTraits are answered without feedback
+    if (!hasLiveFeedback(currentQuestion.trait)) return;
+    const optionIndex = parseInt(value, 10);
+    const score = getItemScore(currentQuestion, optionIndex);
+    const phraseId = getOptionFeedbackPhraseId(currentQuestion, optionIndex, submissionKey);
+    const feedback = getOptionFeedback(currentQuestion.trait, score, lang, phraseId);
     setCurrentFeedback(feedback);
   };
 
+  /**
+   * Stores the selected option as the current question's answer, logging a change
+   * if it replaces a different one. Returns the updated answers and changes
+   */
+  const saveSelection = (selection: string) => {
+    const optionIndex = parseInt(selection, 10);
+    const score = getItemScore(currentQuestion, optionIndex);
+    const previousAnswer = answers[currentQuestionIndex];
+
+    let newChanges = answerChanges;
+    if (previousAnswer && previousAnswer.optionIndex !== optionIndex) {
+      newChanges = [...answerChanges, {
+        questionId: currentQuestion.id,
+        fromOptionIndex: previousAnswer.optionIndex,
+        toOptionIndex: optionIndex,
+        changedAt: new Date().toISOString(),
+      }];
+      setAnswerChanges(newChanges);
+    }
+
+    // The phrase ID is seeded, so this is the same sentence shown when the option was picked
+    const feedbackPhraseId = getOptionFeedbackPhraseId(currentQuestion, optionIndex, submissionKey);
+    const newAnswer: AnswerDetail = {
+        id: currentQuestion.id,
+        trait: currentQuestion.trait,
+        score: score,
+        optionIndex,
+        feedback: getOptionFeedback(currentQuestion.trait, score, 'en', feedbackPhraseId), // Always store english feedback for cert
+        feedbackPhraseId,
+    };
+    const newAnswers = [...answers];
+    newAnswers[currentQuestionIndex] = newAnswer;
+    setAnswers(newAnswers);
+    return { newAnswers, newChanges };
+  };
+
   const handleNext = () => {
     if (selectedOption === null) {
       toast({
@@ -79,25 +161,73 @@ export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
       return;
     }
 
-    const score = parseInt(selectedOption, 10);
-    const newAnswer: AnswerDetail = {
-        id: currentQuestion.id,
-        trait: currentQuestion.trait,
-        score: score,
-        feedback: getIndividualFeedback(currentQuestion.trait, score, 'en') // Always store english feedback for cert
-    };
-    const newAnswers = [...answers, newAnswer];
-    setAnswers(newAnswers);
-
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
-      setSelectedOption(null);
-      setCurrentFeedback(null);
+    const { newAnswers, newChanges } = saveSelection(selectedOption);
+    if (isEditingFromReview) {
+      setIsEditingFromReview(false);
+      goToQuestion(reviewIndex, newAnswers, newChanges);
     } else {
-      onComplete(newAnswers);
+      goToQuestion(currentQuestionIndex + 1, newAnswers, newChanges);
     }
   };
 
+  const handlePrevious = () => {
+    if (currentQuestionIndex === 0) return;
+    setIsEditingFromReview(false);
+    // A selection made before going back is kept, as Next would keep it
+    if (selectedOption === null) {
+      goToQuestion(currentQuestionIndex - 1, answers, answerChanges);
+      return;
+    }
+    const { newAnswers, newChanges } = saveSelection(selectedOption);
+    goToQuestion(currentQuestionIndex - 1, newAnswers, newChanges);
+  };
+
+  const handleEdit = (index: number) => {
+    setIsEditingFromReview(true);
+    goToQuestion(index, answers, answerChanges);
+  };
+
+  if (isReviewing) {
+    return (
+      <div className="flex flex-col gap-6">
+        <div>
+          <h3 className="text-xl font-semibold">{t.review.title}</h3>
+          <p className="text-muted-foreground mt-1">{t.review.description}</p>
+        </div>
+
+        <ol className="space-y-4">
+          {questions.map((question, index) => {
+            const answer = answers[index];
+            return (
+              <li key={question.id} className="p-4 border rounded-lg space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">{t.review.questionLabel(index + 1)}</p>
+                <p>{question.questionText[lang]}</p>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="font-semibold text-primary">{answer ? question.options[answer.optionIndex]?.text[lang] : '—'}</p>
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(index)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    {t.review.editButton}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="flex justify-between gap-4">
+          <Button variant="outline" size="lg" onClick={() => goToQuestion(questions.length - 1, answers, answerChanges)}>
+            <ChevronLeft className="mr-2 h-5 w-5" />
+            {t.previousButton}
+          </Button>
+          <Button onClick={() => onComplete(answers, answerChanges)} size="lg" className="bg-accent hover:bg-accent/90 text-accent-foreground">
+            {t.finishButton}
+            <ChevronRight className="ml-2 h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-6">
       <div>
@@ -119,11 +249,11 @@ export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
             onValueChange={handleOptionChange}
             className="space-y-4"
           >
-            {currentQuestion.options.map((option) => (
-              <div key={option.score + '-' + option.text.en} className="flex items-center space-x-3 p-4 border rounded-lg hover:bg-secondary/50 transition-all hover:shadow-md hover:shadow-primary/20">
-                <RadioGroupItem value={String(option.score)} id={`q${currentQuestion.id}-o${option.score}`} />
-                <Label htmlFor={`q${currentQuestion.id}-o${option.score}`} className="font-normal text-base cursor-pointer">
-                  {option.text[lang]}
+            {optionOrder.map((optionIndex) => (
+              <div key={optionIndex} className="flex items-center space-x-3 p-4 border rounded-lg hover:bg-secondary/50 transition-all hover:shadow-md hover:shadow-primary/20">
+                <RadioGroupItem value={String(optionIndex)} id={`q${currentQuestion.id}-o${optionIndex}`} />
+                <Label htmlFor={`q${currentQuestion.id}-o${optionIndex}`} className="font-normal text-base cursor-pointer">
+                  {currentQuestion.options[optionIndex].text[lang]}
                 </Label>
               </div>
             ))}
@@ -137,9 +267,13 @@ export function AssessmentStep({ onComplete, lang }: AssessmentStepProps) {
         </div>
       )}
 
-      <div className="flex justify-end">
+      <div className="flex justify-between gap-4">
+        <Button onClick={handlePrevious} size="lg" variant="outline" disabled={currentQuestionIndex === 0}>
+          <ChevronLeft className="mr-2 h-5 w-5" />
+          {t.previousButton}
+        </Button>
         <Button onClick={handleNext} size="lg" className="bg-accent hover:bg-accent/90 text-accent-foreground">
-          {currentQuestionIndex < questions.length - 1 ? t.nextButton : t.finishButton}
+          {isEditingFromReview || currentQuestionIndex === questions.length - 1 ? t.reviewButton : t.nextButton}
           <ChevronRight className="ml-2 h-5 w-5" />
         </Button>
       </div>
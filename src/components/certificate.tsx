@@ -1,18 +1,47 @@
 
 "use client"
 
-import { useState, useEffect } from "react";
-import type { UserInfo } from "./user-info-step"
-import type { AnswerDetail } from "./assessment-step"
+import { useState, useEffect, useMemo } from "react";
+import Image from "next/image";
+import QRCode from "qrcode";
+import type { StoredAnswer } from "@/lib/supabase"
 import AnandakLogo from "./anandak-logo"
 import IitKgpLogo from "./iit-kgp-logo"
 import { Separator } from "./ui/separator"
-import { translations, getIndividualFeedback } from "@/lib/assessment-data"
+import { TraitProfileChart } from "./trait-profile-chart"
+import { translations, getCertificateTraitScores, getIndividualFeedback } from "@/lib/assessment-data"
+import { currentQuestionBank, getQuestionBank } from "@/lib/question-bank"
+import {
+  formatDateEnglish,
+  formatDateHindi,
+  getCertificateFinalAssessment,
+  getPrefixedName,
+  getPrefixedNameHi,
+  type Honorific,
+} from "@/lib/certificate-format"
+import { getLocationNames } from "@/lib/indian-states-districts"
 
-export interface CertificateData extends UserInfo {
+// Everything the certificate prints and nothing more, so certificates fetched
+// again from the server carry no contact details, age or gender
+export interface CertificateData {
+  name: string;
+  name_hi: string;
+  // Absent when the participant's gender has no title (Other, Prefer not to say)
+  honorific?: Honorific;
+  state: string;
+  district: string;
   date: string;
-  assessmentData: AnswerDetail[];
+  assessmentData: StoredAnswer[];
+  // English closing paragraph as stored; the certificate rebuilds it in either language
+  // from the total and finalFeedbackPhraseId
   finalAssessmentText: string;
+  // Which phrasing of the final feedback the participant was shown; missing on older certificates
+  finalFeedbackPhraseId?: number;
+  // Question bank the answers belong to; certificates saved before versioning are v1
+  assessmentVersion?: string;
+  certificateId?: string;
+  // Only on certificates made on this device, so a later upload can attach the certificate number
+  submissionKey?: string;
 }
 
 interface CertificateProps {
@@ -24,88 +53,44 @@ interface CertificateContentProps {
   lang: 'en' | 'hi';
 }
 
-const formatDateHindi = (dateString: string): string => {
-  const hindiMonths: { [key: string]: string } = {
-    'January': 'जनवरी', 'February': 'फ़रवरी', 'March': 'मार्च', 'April': 'अप्रैल',
-    'May': 'मई', 'June': 'जून', 'July': 'जुलाई', 'August': 'अगस्त',
-    'September': 'सितंबर', 'October': 'अक्टूबर', 'November': 'नवंबर', 'December': 'दिसंबर'
-  };
+const CertificateQrCode = ({ certificateId }: { certificateId: string }) => {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
 
-  const devanagariDigits: { [key: string]: string } = {
-    '0': '०', '1': '१', '2': '२', '3': '३', '4': '४',
-    '5': '५', '6': '६', '7': '७', '8': '८', '9': '९'
-  };
-
-  const toDevanagari = (numStr: string) => numStr.split('').map(digit => devanagariDigits[digit] || digit).join('');
-
-  try {
-    const date = new Date(dateString);
-    const day = date.getDate().toString();
-    const year = date.getFullYear().toString();
-    const month = date.toLocaleString('en-US', { month: 'long' });
-
-    const hindiMonth = hindiMonths[month];
-    const hindiDay = toDevanagari(day);
-    const hindiYear = toDevanagari(year);
+  useEffect(() => {
+    const verifyUrl = `${window.location.origin}/verify/${encodeURIComponent(certificateId)}`;
+    QRCode.toDataURL(verifyUrl, { margin: 1, width: 160, errorCorrectionLevel: 'M' })
+      .then(setQrDataUrl)
+      .catch((error) => console.error("Could not generate certificate QR code", error));
+  }, [certificateId]);
 
-    if (hindiMonth && hindiDay && hindiYear) {
-      return `${hindiDay} ${hindiMonth}, ${hindiYear}`;
-    }
-  } catch (e) {
-    console.error("Could not format date to Hindi:", e);
-  }
+  if (!qrDataUrl) return null;
 
-  return dateString;
+  return (
+    <Image
+      src={qrDataUrl}
+      alt={`QR code to verify certificate ${certificateId}`}
+      width={80}
+      height={80}
+      unoptimized
+      className="cert-qr"
+    />
+  );
 };
 
 const CertificateContent = ({ data, lang }: CertificateContentProps) => {
   const t = translations.en.cert; // Use english translations as base for structure
   const t_hi = translations.hi.cert;
-  const detailedResults = data.assessmentData.filter(item => item.trait !== 'Courage');
-
-  const [transliteratedState, setTransliteratedState] = useState(data.state);
-  const [transliteratedDistrict, setTransliteratedDistrict] = useState(data.district);
-
-  useEffect(() => {
-    if (lang === 'hi') {
-      const transliterateText = async (text: string, setter: (value: string) => void) => {
-        if (!text) return;
-        try {
-          const response = await fetch('/api/transliterate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ text }),
-          });
-          const result = await response.json();
-          if (result.transliteration) {
-            setter(result.transliteration);
-          }
-        } catch (error) {
-          console.error("Transliteration failed for", text, error);
-        }
-      };
-      transliterateText(data.state, setTransliteratedState);
-      transliterateText(data.district, setTransliteratedDistrict);
-    }
-  }, [lang, data.state, data.district]);
-
-  const getPrefixedName = (name: string, gender: UserInfo['gender']) => {
-    if (gender === 'Male') return `Mr. ${name}`;
-    if (gender === 'Female') return `Ms. ${name}`;
-    return name;
-  };
+  const bank = getQuestionBank(data.assessmentVersion ?? 'v1') ?? currentQuestionBank;
+  const detailedResults = getCertificateTraitScores(data.assessmentData, bank);
 
-  const getPrefixedNameHi = (name_hi: string, gender: UserInfo['gender']) => {
-    if (gender === 'Male') return `श्री ${name_hi}`;
-    if (gender === 'Female') return `सुश्री ${name_hi}`;
-    return name_hi;
-  };
+  // Transliterated offline so the Hindi certificate renders without a network
+  const location = useMemo(() => getLocationNames(data.state, data.district), [data.state, data.district]);
 
   const prefixedName = lang === 'hi'
-    ? getPrefixedNameHi(data.name_hi, data.gender)
-    : getPrefixedName(data.name, data.gender);
+    ? getPrefixedNameHi(data.name_hi, data.honorific)
+    : getPrefixedName(data.name, data.honorific);
 
-  const formattedDate = new Date(data.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const formattedDate = formatDateEnglish(data.date);
 
   return (
     <div className={`printable-area cert-page cert-${lang} w-full max-w-4xl bg-card text-card-foreground shadow-2xl p-6 sm:p-10 my-4`}>
@@ -141,30 +126,33 @@ const CertificateContent = ({ data, lang }: CertificateContentProps) => {
           <p className="leading-relaxed cert-main-line text-center">
             {lang === 'en' ? (
               <>
-                This is to certify that <span className="font-bold">{prefixedName}</span> of <span className="font-bold">{data.district}, {data.state}</span> has successfully completed the Anandak Assessment on <span className="font-bold">{formattedDate}</span>.
+                This is to certify that <span className="font-bold">{prefixedName}</span> of <span className="font-bold">{location.district}, {location.state}</span> has successfully completed the Anandak Assessment on <span className="font-bold">{formattedDate}</span>.
               </>
             ) : (
               <>
-                यह प्रमाणित किया जाता है कि <span className="font-bold">{prefixedName}</span>, निवासी <span className="font-bold">{transliteratedDistrict}, {transliteratedState}</span> ने दिनांक <span className="font-bold">{formatDateHindi(data.date)}</span> को आनंदक मूल्यांकन सफलतापूर्वक पूरा किया है।
+                यह प्रमाणित किया जाता है कि <span className="font-bold">{prefixedName}</span>, निवासी <span className="font-bold">{location.districtHi}, {location.stateHi}</span> ने दिनांक <span className="font-bold">{formatDateHindi(data.date)}</span> को आनंदक मूल्यांकन सफलतापूर्वक पूरा किया है।
               </>
             )}
           </p>
 
           <div className="detailed-results-section">
             <h3 className="font-bold text-xl mb-4">{lang === 'hi' ? t_hi.detailedResults : t.detailedResults}</h3>
-            <div className="space-y-4">
-              {detailedResults.map(item => (
-                <div key={item.id} className="text-base border-l-4 border-primary/50 pl-4 py-2">
-                  <p className="mb-2"><strong className="font-semibold">{lang === 'hi' ? t_hi.traits[item.trait] : t.traits[item.trait]}:</strong> {lang === 'hi' ? t_hi.score : t.score} {item.score}/3</p>
-                  <p className="text-muted-foreground italic leading-relaxed">"{getIndividualFeedback(item.trait, item.score, lang)}"</p>
-                </div>
-              ))}
+            <div className="detailed-results-body flex flex-col sm:flex-row gap-4 sm:items-start">
+              <div className="space-y-4 flex-1">
+                {detailedResults.map(item => (
+                  <div key={item.trait} className="text-base border-l-4 border-primary/50 pl-4 py-2">
+                    <p className="mb-2"><strong className="font-semibold">{lang === 'hi' ? t_hi.traits[item.trait] : t.traits[item.trait]}:</strong> {lang === 'hi' ? t_hi.score : t.score} {item.score}/{item.maxScore} ({lang === 'hi' ? t_hi.bands[item.band] : t.bands[item.band]})</p>
+                    <p className="text-muted-foreground italic leading-relaxed">"{getIndividualFeedback(item.trait, item.score, lang, item.feedbackPhraseId, bank)}"</p>
+                  </div>
+                ))}
+              </div>
+              <TraitProfileChart traitScores={detailedResults} lang={lang} className="mx-auto shrink-0" />
             </div>
           </div>
 
           <div className="assessment-summary-section">
             <p className="leading-relaxed">
-              <strong className="text-foreground">{lang === 'hi' ? t_hi.assessmentSummary : t.assessmentSummary}:</strong> {lang === 'en' ? data.finalAssessmentText : t_hi.finalAssessment(data.finalAssessmentText)}
+              <strong className="text-foreground">{lang === 'hi' ? t_hi.assessmentSummary : t.assessmentSummary}:</strong> {getCertificateFinalAssessment(data, lang)}
             </p>
           </div>
         </main>
@@ -174,6 +162,13 @@ const CertificateContent = ({ data, lang }: CertificateContentProps) => {
             <p className="font-semibold text-lg font-headline">{lang === 'hi' ? t_hi.issuingAuthorityName : t.issuingAuthorityName}</p>
             <p className="text-sm border-t border-primary/30 pt-2 mt-2">{lang === 'hi' ? t_hi.issuingAuthority : t.issuingAuthority}</p>
           </div>
+          {data.certificateId && (
+            <div className="cert-verification flex flex-col items-center mt-6 sm:mt-0">
+              <CertificateQrCode certificateId={data.certificateId} />
+              <p className="text-xs mt-1">{lang === 'hi' ? t_hi.scanToVerify : t.scanToVerify}</p>
+              <p className="text-sm font-mono font-semibold">{lang === 'hi' ? t_hi.certificateNumber : t.certificateNumber} {data.certificateId}</p>
+            </div>
+          )}
           <div className="text-center mt-6 sm:mt-0">
             <p className="font-semibold text-lg font-headline">{lang === 'hi' ? formatDateHindi(data.date) : formattedDate}</p>
             <p className="text-sm border-t border-primary/30 pt-2 mt-2">{lang === 'hi' ? t_hi.dateOfIssue : t.dateOfIssue}</p>
@@ -207,9 +202,7 @@ export function Certificate({ data }: CertificateProps) {
           .no-print {
             display: none !important;
           }
-          body.print-mode-en .cert-hi { display: none !important; }
-          body.print-mode-hi .cert-en { display: none !important; }
-          body.print-mode-all .cert-en {
+          .cert-en {
             page-break-after: always !important;
           }
           
@@ -314,6 +307,17 @@ export function Certificate({ data }: CertificateProps) {
             flex-grow: 1 !important;
           }
           
+          /* Trait chart beside the results, at its on-screen size */
+          .detailed-results-body {
+            flex-direction: row !important;
+            align-items: flex-start !important;
+            gap: 1rem !important;
+          }
+          
+          .trait-profile-chart {
+            flex-shrink: 0 !important;
+          }
+          
           .cert-content-section h3 {
             font-size: 1.2rem !important;
             margin-bottom: 0.75rem !important;
@@ -371,6 +375,15 @@ export function Certificate({ data }: CertificateProps) {
           .cert-footer-section .text-sm {
             font-size: 0.75rem !important;
           }
+          
+          .cert-footer-section .cert-qr {
+            width: 64px !important;
+            height: 64px !important;
+          }
+          
+          .cert-footer-section .text-xs {
+            font-size: 0.65rem !important;
+          }
         }
         
         /* Screen styles */
@@ -0,0 +1,61 @@
+"use client"
+
+import { Delete } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+// Keys grouped the way Hindi is taught: independent vowels, vowel signs, then consonants by row
+const KEY_ROWS: string[][] = [
+  ["अ", "आ", "इ", "ई", "उ", "ऊ", "ऋ", "ए", "ऐ", "ओ", "औ"],
+  ["ा", "ि", "ी", "ु", "ू", "ृ", "े", "ै", "ो", "ौ", "ं", "ँ", "ः", "्", "़"],
+  ["क", "ख", "ग", "घ", "ङ", "च", "छ", "ज", "झ", "ञ"],
+  ["ट", "ठ", "ड", "ढ", "ण", "त", "थ", "द", "ध", "न"],
+  ["प", "फ", "ब", "भ", "म", "य", "र", "ल", "व"],
+  ["श", "ष", "स", "ह", "क्ष", "त्र", "ज्ञ", "श्र", "ड़", "ढ़"],
+]
+
+// Vowel signs and other combining marks are shown on a dotted circle so they are readable alone
+const COMBINING_MARK = /^[ऀ-ःऺ-ॏ]$/
+
+interface DevanagariKeyboardProps {
+  onKey: (text: string) => void
+  onBackspace: () => void
+  spaceLabel: string
+  backspaceLabel: string
+  className?: string
+}
+
+/**
+ * Inline on-screen Devanagari keyboard for correcting names on devices
+ * without a Hindi input method
+ */
+export function DevanagariKeyboard({ onKey, onBackspace, spaceLabel, backspaceLabel, className }: DevanagariKeyboardProps) {
+  return (
+    <div className={cn("space-y-1 rounded-md border bg-muted/40 p-2", className)}>
+      {KEY_ROWS.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex flex-wrap justify-center gap-1">
+          {row.map((key) => (
+            <Button
+              key={key}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-9 min-w-9 px-2 text-base"
+              onClick={() => onKey(key)}
+            >
+              {COMBINING_MARK.test(key) ? `◌${key}` : key}
+            </Button>
+          ))}
+        </div>
+      ))}
+      <div className="flex justify-center gap-1">
+        <Button type="button" variant="outline" size="sm" className="h-9 flex-1 max-w-xs" onClick={() => onKey(" ")}>
+          {spaceLabel}
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="h-9" onClick={onBackspace} aria-label={backspaceLabel}>
+          <Delete className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { translations } from "@/lib/assessment-data"
+import type { Language } from "./aptitude-insight-app"
+
+interface MobileVerificationProps {
+  countryCode: string
+  mobile: string
+  isVerified: boolean
+  onVerified: (verificationToken: string) => void
+  // Called when codes cannot be sent at all (no connection, gateway down), so the form can continue unverified
+  onUnavailable: (isUnavailable: boolean) => void
+  lang: Language
+}
+
+/**
+ * Sends a one-time code to the participant's mobile number and checks it
+ * The signed token from /api/otp/verify goes with the submission
+ */
+export function MobileVerification({ countryCode, mobile, isVerified, onVerified, onUnavailable, lang }: MobileVerificationProps) {
+  const t = translations[lang].userInfo
+  const [code, setCode] = useState("")
+  const [isCodeSent, setIsCodeSent] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [resendSeconds, setResendSeconds] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // A new number needs a new code
+  useEffect(() => {
+    setCode("")
+    setIsCodeSent(false)
+    setMessage(null)
+  }, [countryCode, mobile])
+
+  useEffect(() => {
+    if (resendSeconds <= 0) return
+    const timeout = setTimeout(() => setResendSeconds(resendSeconds - 1), 1000)
+    return () => clearTimeout(timeout)
+  }, [resendSeconds])
+
+  if (isVerified) {
+    return (
+      <p className="flex items-center gap-2 text-sm font-medium text-primary">
+        <CheckCircle2 className="h-4 w-4" />
+        {t.otpVerified}
+      </p>
+    )
+  }
+
+  const sendCode = async () => {
+    if (!navigator.onLine) {
+      setMessage(t.otpOffline)
+      onUnavailable(true)
+      return
+    }
+
+    setIsSending(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/otp/send", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ countryCode, mobile }),
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        setIsCodeSent(true)
+        setResendSeconds(result.resendAfterSeconds ?? 30)
+        setMessage(t.otpSent)
+        onUnavailable(false)
+      } else if (response.status === 429) {
+        setResendSeconds(result.retryAfterSeconds ?? 30)
+        setMessage(t.otpWait)
+      } else if (response.status >= 500) {
+        console.error("Could not send verification code:", result)
+        setMessage(t.otpUnavailable)
+        onUnavailable(true)
+      } else {
+        setMessage(result.details || result.error)
+      }
+    } catch (error) {
+      console.error("Could not send verification code", error)
+      setMessage(t.otpUnavailable)
+      onUnavailable(true)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const verifyCode = async () => {
+    setIsVerifying(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/otp/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ countryCode, mobile, code }),
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        onVerified(result.verificationToken)
+      } else if (typeof result.attemptsRemaining === "number") {
+        setMessage(t.otpIncorrect(result.attemptsRemaining))
+      } else {
+        setMessage(t.otpExpired)
+        setIsCodeSent(false)
+      }
+    } catch (error) {
+      console.error("Could not verify code", error)
+      setMessage(t.otpUnavailable)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {isCodeSent && (
+          <Input
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder={t.otpCodePlaceholder}
+            aria-label={t.otpCodePlaceholder}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            className="flex-1"
+          />
+        )}
+        {isCodeSent && (
+          <Button type="button" onClick={verifyCode} disabled={code.length !== 6 || isVerifying}>
+            {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t.otpVerifyButton}
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={sendCode}
+          disabled={!mobile.trim() || isSending || resendSeconds > 0}
+          className={isCodeSent ? "" : "w-full"}
+        >
+          {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {resendSeconds > 0 ? t.otpResendIn(resendSeconds) : isCodeSent ? t.otpResendButton : t.otpSendButton}
+        </Button>
+      </div>
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { AlertTriangle, CloudOff, Loader2, UploadCloud } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useToast } from "@/hooks/use-toast"
+import { translations } from "@/lib/assessment-data"
+import {
+  QUEUE_CHANGED_EVENT,
+  flushSubmissionQueue,
+  getQueuedSubmissions,
+  removeQueuedSubmission,
+  type QueuedSubmission,
+} from "@/lib/offline-submissions"
+
+// How often queued submissions are retried while some are pending
+const RETRY_INTERVAL_MS = 30_000
+
+/**
+ * Registers the service worker, uploads queued submissions whenever the
+ * network comes back, and shows field staff how many are still pending and
+ * which ones the server rejected
+ */
+export function OfflineSync() {
+  const { toast } = useToast()
+  const [pendingCount, setPendingCount] = useState(0)
+  const [rejected, setRejected] = useState<QueuedSubmission[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const refreshCount = useCallback(async () => {
+    try {
+      const queued = await getQueuedSubmissions()
+      setPendingCount(queued.filter((entry) => !entry.rejectedAt).length)
+      setRejected(queued.filter((entry) => entry.rejectedAt))
+    } catch (error) {
+      console.error("Could not read the offline submission queue", error)
+    }
+  }, [])
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return
+    setIsSyncing(true)
+    try {
+      const uploaded = await flushSubmissionQueue()
+      if (uploaded > 0) {
+        toast({
+          title: `${translations.en.offline.syncedToast(uploaded)} / ${translations.hi.offline.syncedToast(uploaded)}`,
+        })
+      }
+    } catch (error) {
+      console.error("Offline submission sync failed", error)
+    } finally {
+      setIsSyncing(false)
+      refreshCount()
+    }
+  }, [toast, refreshCount])
+
+  useEffect(() => {
+    // Caching in development would serve stale bundles while editing
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Service worker registration failed", error)
+      })
+    }
+
+    setIsOnline(navigator.onLine)
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    window.addEventListener(QUEUE_CHANGED_EVENT, refreshCount)
+    sync()
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refreshCount)
+    }
+  }, [sync, refreshCount])
+
+  // The online event is not reliable on every device, so keep retrying while anything is pending
+  useEffect(() => {
+    if (pendingCount === 0) return
+    const interval = setInterval(sync, RETRY_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [pendingCount, sync])
+
+  const dismiss = async (submissionKey: string) => {
+    try {
+      await removeQueuedSubmission(submissionKey)
+    } catch (error) {
+      console.error("Could not dismiss rejected submission", error)
+    }
+  }
+
+  if (pendingCount === 0 && rejected.length === 0 && isOnline) return null
+
+  const t = translations.en.offline
+  const t_hi = translations.hi.offline
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex items-center gap-3 rounded-full border bg-background px-4 py-2 shadow-lg print:hidden">
+      {isOnline ? <UploadCloud className="h-4 w-4 text-primary" /> : <CloudOff className="h-4 w-4 text-destructive" />}
+      <span className="text-sm font-medium">
+        {!isOnline && `${t.offlineStatus} / ${t_hi.offlineStatus}`}
+        {!isOnline && pendingCount > 0 && " · "}
+        {pendingCount > 0 && `${t.pendingUploads(pendingCount)} / ${t_hi.pendingUploads(pendingCount)}`}
+      </span>
+      {isOnline && pendingCount > 0 && (
+        <Button size="sm" variant="outline" className="h-7 rounded-full" onClick={sync} disabled={isSyncing}>
+          {isSyncing && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {t.syncButton}
+        </Button>
+      )}
+      {rejected.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="destructive" className="h-7 rounded-full">
+              <AlertTriangle className="mr-1 h-3 w-3" />
+              {t.rejectedUploads(rejected.length)} / {t_hi.rejectedUploads(rejected.length)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 space-y-3">
+            <p className="text-sm text-muted-foreground">{t.rejectedDescription} / {t_hi.rejectedDescription}</p>
+            <ul className="max-h-64 space-y-2 overflow-y-auto">
+              {rejected.map((entry) => (
+                <li key={entry.submissionKey} className="space-y-1 rounded-md border p-2 text-sm">
+                  <p className="font-medium">
+                    {entry.payload.name} · {new Date(entry.queuedAt).toLocaleString("en-IN")}
+                  </p>
+                  <p className="text-destructive">{entry.lastError}</p>
+                  <Button size="sm" variant="outline" className="h-7" onClick={() => dismiss(entry.submissionKey)}>
+                    {t.dismissButton} / {t_hi.dismissButton}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  )
+}
@@ -1,39 +1,72 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
-import { getFinalFeedback, getFinalAssessment, translations } from "@/lib/assessment-data"
+import { getCertificateTraitScores, getFinalFeedback, getFinalFeedbackPhraseId, getFinalAssessment, translations } from "@/lib/assessment-data"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import type { UserInfo } from "./user-info-step"
-import type { AnswerDetail } from "./assessment-step"
-import { Award, Download } from "lucide-react"
+import type { AnswerChange, AnswerDetail } from "./assessment-step"
+import { Award, Download, History } from "lucide-react"
+import { TraitProfileChart } from "./trait-profile-chart"
+import type { CertificateData } from "./certificate"
+import { getHonorific } from "@/lib/certificate-format"
 import type { Language } from "./aptitude-insight-app"
 import { useToast } from "@/hooks/use-toast"
+import { CURRENT_ASSESSMENT_VERSION, type Trait } from "@/lib/question-bank"
+import type { TraitPercentile } from "@/lib/norms"
+import type { NotCountedReason } from "@/lib/retake-policy"
+import {
+  applySubmissionResult,
+  describeRejection,
+  enqueueSubmission,
+  markSubmissionRejected,
+  removeQueuedSubmission,
+  sendSubmission,
+} from "@/lib/offline-submissions"
 
 interface ResultsStepProps {
   score: number
   userData: UserInfo
   assessmentData: AnswerDetail[]
+  answerChanges: AnswerChange[]
+  submissionKey: string
   lang: Language
 }
 
-export function ResultsStep({ score, userData, assessmentData, lang }: ResultsStepProps) {
+export function ResultsStep({ score, userData, assessmentData, answerChanges, submissionKey, lang }: ResultsStepProps) {
   const router = useRouter()
   const { toast } = useToast()
   const t = translations[lang].results
-  const feedback = getFinalFeedback(score, lang)
-  const hasLoggedRef = useRef(false); // Use ref to prevent double execution
+  // Seeded like the server's choice, so this matches the stored final assessment
+  const finalPhraseId = getFinalFeedbackPhraseId(score, submissionKey)
+  const feedback = getFinalFeedback(score, lang, finalPhraseId)
+  const hasLoggedRef = useRef(false); // Avoids a second request; the server also dedupes on submissionKey
+  // Set by the server once the attempt is stored; unknown while offline
+  const [attemptNumber, setAttemptNumber] = useState<number | null>(null)
+  // Why the stored attempt does not count, or null when it counts
+  const [notCountedReason, setNotCountedReason] = useState<NotCountedReason | null>(null)
+  // From the server's norms once the attempt is stored; undefined until then
+  const [percentiles, setPercentiles] = useState<Record<Trait, TraitPercentile | null> | null | undefined>(undefined)
+  const traitResults = getCertificateTraitScores(assessmentData)
+  const hasPercentiles = traitResults.some(({ trait }) => percentiles?.[trait])
 
   useEffect(() => {
     // Guard clause to prevent re-running if already logged
     if (hasLoggedRef.current) return;
     hasLoggedRef.current = true;
 
-    const certificateData = {
-      ...userData,
+    const certificateData: CertificateData = {
+      name: userData.name,
+      name_hi: userData.name_hi,
+      honorific: getHonorific(userData.gender),
+      state: userData.state,
+      district: userData.district,
+      submissionKey, // Lets a later offline sync attach the certificate number
       assessmentData,
-      finalAssessmentText: getFinalAssessment(getFinalFeedback(score, 'en'), 'en'), // Always store in English
+      assessmentVersion: CURRENT_ASSESSMENT_VERSION,
+      finalAssessmentText: getFinalAssessment(getFinalFeedback(score, 'en', finalPhraseId), 'en'), // Always store in English
+      finalFeedbackPhraseId: finalPhraseId,
       date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
     };
 
@@ -43,59 +76,84 @@ export function ResultsStep({ score, userData, assessmentData, lang }: ResultsSt
     } catch (error) {
       console.error("Could not save certificate data to localStorage", error);
       toast({
-        title: "Could not save certificate",
-        description: "There was an issue preparing your certificate data.",
+        title: t.certificateSaveFailedTitle,
+        description: t.certificateSaveFailedDescription,
         variant: "destructive",
       });
     }
 
     // Asynchronously log the submission to the backend
     const logSubmission = async () => {
+      // Only the chosen options are sent; the server recomputes every score from them
+      const submissionData = {
+        submissionKey,
+        assessmentVersion: CURRENT_ASSESSMENT_VERSION,
+        name: userData.name,
+        name_hi: userData.name_hi,
+        age: userData.age,
+        gender: userData.gender,
+        mobile: userData.mobile,
+        email: userData.email || '',
+        countryCode: userData.countryCode,
+        mobileVerificationToken: userData.mobileVerificationToken,
+        state: userData.state,
+        district: userData.district,
+        block: userData.block || '',
+        village: userData.village || '',
+        responses: assessmentData.map((answer) => ({
+          questionId: answer.id,
+          optionIndex: answer.optionIndex,
+        })),
+        metadata: {
+          answerChanges,
+        },
+      };
+
+      // Queue first so the attempt survives a dropped connection or a closed tab
       try {
-        // Use the legacy format (like Firebase) - simpler and matches what you like
-        const submissionData = {
-          name: userData.name,
-          name_hi: userData.name_hi,
-          age: userData.age,
-          gender: userData.gender,
-          mobile: userData.mobile,
-          email: userData.email || '',
-          countryCode: userData.countryCode,
-          state: userData.state,
-          district: userData.district,
-          assessmentData: assessmentData,
-          totalScore: score,
-          finalAssessmentText: getFinalAssessment(getFinalFeedback(score, 'en'), 'en'),
-          date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
-        };
-
-        const response = await fetch('/api/log', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(submissionData),
-        });
+        await enqueueSubmission(submissionData);
+      } catch (error) {
+        console.error("Could not queue submission in IndexedDB", error);
+      }
 
-        const result = await response.json();
+      const outcome = await sendSubmission(submissionData);
 
-        if (!response.ok) {
-          throw new Error(result.error || result.details || 'Failed to log submission');
-        }
-        
-        console.log("Submission logged successfully:", result);
+      if (outcome.status === 'offline') {
+        console.warn("Submission queued for later upload:", outcome.error);
+        toast({
+          title: t.savedOfflineTitle,
+          description: t.savedOfflineDescription,
+        });
+        return;
+      }
 
-      } catch (error: any) {
-        console.error("Failed to log submission:", error);
+      if (outcome.status === 'rejected') {
+        const reason = describeRejection(outcome.result)
+        console.error("Failed to log submission:", outcome.result);
+        // Kept on the device, so staff can see it in the pending uploads indicator
+        markSubmissionRejected(submissionKey, reason).catch((error) => console.error("Could not mark queued submission as rejected", error));
         toast({
-          title: "Data Submission Failed",
-          description: `Your assessment results could not be saved. Reason: ${error.message}`,
+          title: t.submissionFailedTitle,
+          description: t.submissionFailedDescription(reason),
           variant: "destructive",
         });
+        return;
       }
+
+      removeQueuedSubmission(submissionKey).catch((error) => console.error("Could not clear queued submission", error));
+      console.log("Submission logged successfully:", outcome.result);
+
+      // Attach the server-issued certificate number and server-computed results
+      // so the certificate matches what was stored
+      applySubmissionResult(submissionKey, outcome.result);
+      setAttemptNumber(outcome.result.attemptNumber)
+      setNotCountedReason(outcome.result.counted ? null : outcome.result.notCountedReason ?? 'max_attempts')
+      setPercentiles(outcome.result.assessment.percentiles)
     };
 
     logSubmission();
 
-  }, [userData, assessmentData, score, toast, lang]); // Dependencies remain the same
+  }, [userData, assessmentData, answerChanges, submissionKey, score, finalPhraseId, toast, lang]);
 
   const handleViewCertificate = () => {
     router.push('/certificate');
@@ -111,10 +169,42 @@ export function ResultsStep({ score, userData, assessmentData, lang }: ResultsSt
         <CardDescription className="text-lg">{t.description(userData.name)}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {attemptNumber !== null && attemptNumber > 1 && (
+          <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <History className="h-4 w-4 shrink-0" />
+            {t.attemptNotice(attemptNumber)}
+          </p>
+        )}
+        {notCountedReason && (
+          <p className="text-sm font-medium text-destructive">
+            {notCountedReason === "unverified" ? translations[lang].retake.notCountedUnverified : translations[lang].retake.notCounted}
+          </p>
+        )}
         <div className="p-6 bg-secondary/50 rounded-lg">
           <h3 className="font-semibold text-xl mb-2">{t.insightTitle}</h3>
           <p className="text-foreground text-lg">{feedback}</p>
         </div>
+        <div className="p-6 bg-secondary/50 rounded-lg text-left">
+          <h3 className="font-semibold text-xl mb-4 text-center">{t.traitProfileTitle}</h3>
+          <TraitProfileChart traitScores={traitResults} lang={lang} className="mx-auto mb-4" />
+          <ul className="space-y-3">
+            {traitResults.map(({ trait, band }) => {
+              const percentile = percentiles?.[trait]
+              return (
+                <li key={trait} className="flex flex-wrap items-baseline justify-between gap-x-4 border-l-4 border-primary/50 pl-4">
+                  <span className="font-medium">{translations[lang].cert.traits[trait]}</span>
+                  <span className="font-semibold text-primary">{translations[lang].cert.bands[band]}</span>
+                  {percentile && (
+                    <span className="w-full text-sm text-muted-foreground">{t.percentile(percentile.percentile, percentile.byGender)}</span>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+          {percentiles !== undefined && !hasPercentiles && (
+            <p className="mt-4 text-sm text-muted-foreground">{t.percentileUnavailable}</p>
+          )}
+        </div>
         <p className="text-muted-foreground">
           {t.certificateMessage}
         </p>
@@ -0,0 +1,52 @@
+"use client"
+
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { translations, type TraitScore } from "@/lib/assessment-data"
+import { cn } from "@/lib/utils"
+
+interface TraitProfileChartProps {
+  // The traits shown on the certificate, in bank order; one axis each
+  traitScores: TraitScore[];
+  lang: 'en' | 'hi';
+  className?: string;
+}
+
+const chartConfig = {
+  score: { color: "hsl(var(--primary))" },
+} satisfies ChartConfig
+
+/**
+ * Radar chart of the trait scores. Drawn at a fixed size and without animation
+ * so the printed certificate captures the finished chart.
+ */
+export function TraitProfileChart({ traitScores, lang, className }: TraitProfileChartProps) {
+  // A radar needs at least three axes
+  if (traitScores.length < 3) return null
+
+  const t = translations[lang].cert
+  const maxScore = Math.max(...traitScores.map((item) => item.maxScore))
+  const data = traitScores.map((item) => ({ trait: t.traits[item.trait], score: item.score }))
+
+  return (
+    <ChartContainer
+      config={{ ...chartConfig, score: { ...chartConfig.score, label: t.score } }}
+      className={cn("trait-profile-chart aspect-square h-[240px] w-[240px]", className)}
+    >
+      <RadarChart data={data} outerRadius="62%">
+        <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="line" />} />
+        <PolarGrid />
+        <PolarAngleAxis dataKey="trait" tick={{ fontSize: 11, fill: "hsl(var(--foreground))" }} />
+        <PolarRadiusAxis domain={[0, maxScore]} tick={false} axisLine={false} />
+        <Radar
+          dataKey="score"
+          fill="var(--color-score)"
+          fillOpacity={0.5}
+          stroke="var(--color-score)"
+          dot={{ r: 3, fillOpacity: 1 }}
+          isAnimationActive={false}
+        />
+      </RadarChart>
+    </ChartContainer>
+  )
+}
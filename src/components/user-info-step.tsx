@@ -3,7 +3,6 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
-import { z } from "zod"
 import { Button } from "@/components/ui/button"
 import {
   Form,
@@ -14,42 +13,73 @@ import {
   FormMessage,
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
-import { User, Check, ChevronsUpDown, Minus, Plus, Loader2 } from "lucide-react"
+import { User, Check, ChevronsUpDown, Minus, Plus, Loader2, Keyboard, AlertTriangle } from "lucide-react"
 import { statesWithDistricts } from "@/lib/indian-states-districts"
-import { countryCodes } from "@/lib/country-codes"
-import React, { useEffect, useState, useRef } from "react"
+import { asksForBlock, getBlocks } from "@/lib/location-hierarchy"
+import { countryCodes, toNationalNumber } from "@/lib/country-codes"
+import React, { useEffect, useMemo, useState, useRef } from "react"
+import { z } from "zod"
 import { cn } from "@/lib/utils"
 import type { Language } from "./aptitude-insight-app"
 import { translations } from "@/lib/assessment-data"
+import { refinePhoneNumber, userInfoSchema, type UserInfo } from "@/lib/submission-schema"
+import { getDevanagariCandidates } from "@/lib/devanagari-transliterator"
+import { DevanagariKeyboard } from "./devanagari-keyboard"
+import { MobileVerification } from "./mobile-verification"
+import type { RetakeDecision } from "@/lib/retake-policy"
 
-const formSchema = z.object({
-  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
-  name_hi: z.string().min(1, { message: "कृपया हिंदी में नाम दर्ज करें।" }),
-  age: z.coerce.number().min(1, { message: "Please enter your age." }).max(120, { message: "Please enter a valid age." }),
-  gender: z.enum(["Male", "Female", "Other", "Prefer not to say"], { required_error: "Please select your gender." }),
-  countryCode: z.string().min(1, { message: "Please select country code." }),
-  mobile: z.string().min(1, { message: "Please enter your mobile number." }),
-  email: z.string().email({ message: "Please enter a valid email." }).optional().or(z.literal('')),
-  state: z.string({required_error: "Please select your state/UT."}).min(1, { message: "Please select your state/UT." }),
-  district: z.string({required_error: "Please select your district."}).min(1, { message: "Please select your district." }),
-})
+export type { UserInfo }
 
-export type UserInfo = z.infer<typeof formSchema>
+type RetakeWarning = Extract<RetakeDecision, { counted: false }> & { maxAttempts: number | null }
+
+/**
+ * Asks the server whether a new attempt by this verified number would count
+ * Returns null when it would, or when that cannot be checked (unverified, offline, server error)
+ */
+async function checkRetakeWarning(values: UserInfo): Promise<RetakeWarning | null> {
+  if (!values.mobileVerificationToken || !navigator.onLine) return null
+  try {
+    const response = await fetch("/api/participants/eligibility", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        countryCode: values.countryCode,
+        mobile: values.mobile,
+        mobileVerificationToken: values.mobileVerificationToken,
+      }),
+    })
+    const result = await response.json()
+    return response.ok && result.success && result.counted === false ? result as RetakeWarning : null
+  } catch (error) {
+    console.error("Could not check retake policy", error)
+    return null
+  }
+}
 
 interface UserInfoStepProps {
   onSubmit: (data: UserInfo) => void
   lang: Language
 }
 
-const states = statesWithDistricts.map(s => ({ value: s.state, label: s.state }));
+// The block is required wherever the district's blocks are listed; in other districts of
+// BLOCK_STATES it is optional and typed, and outside them the question is not shown
+const userInfoFormSchema = userInfoSchema.superRefine((values, ctx) => {
+  refinePhoneNumber(values, ctx)
+  if (!values.block && getBlocks(values.state, values.district).length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["block"], message: "Please select your block." })
+  }
+})
 
 export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
   const t = translations[lang].userInfo;
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  // Values stay in English (the canonical LGD names); labels follow the chosen language
+  const states = statesWithDistricts.map(s => ({ value: s.state, label: lang === "hi" ? s.stateHi : s.state, keywords: [s.state, s.stateHi] }));
+  const form = useForm<UserInfo>({
+    resolver: zodResolver(userInfoFormSchema),
     defaultValues: {
       name: "",
       name_hi: "",
@@ -60,19 +90,50 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
       email: "",
       state: "Madhya Pradesh",
       district: undefined,
+      block: "",
+      village: "",
     },
   })
 
   const selectedState = form.watch("state")
+  const selectedDistrict = form.watch("district")
+  const selectedBlock = form.watch("block")
+  const countryCodeValue = form.watch("countryCode")
+  const mobileValue = form.watch("mobile")
+  const mobileVerificationToken = form.watch("mobileVerificationToken")
   const nameValue = form.watch('name');
   
-  const [districts, setDistricts] = useState<{value: string, label: string}[]>([]);
+  const [districts, setDistricts] = useState<{value: string, label: string, keywords: string[]}[]>([]);
   const [statePopoverOpen, setStatePopoverOpen] = useState(false);
   const [districtPopoverOpen, setDistrictPopoverOpen] = useState(false);
   const [countryCodePopoverOpen, setCountryCodePopoverOpen] = useState(false);
+  const [blockPopoverOpen, setBlockPopoverOpen] = useState(false);
+  const [villagePopoverOpen, setVillagePopoverOpen] = useState(false);
+  const [blockSearch, setBlockSearch] = useState("");
+  const [villageSearch, setVillageSearch] = useState("");
+  const [isOtpUnavailable, setIsOtpUnavailable] = useState(false);
+  const [isCheckingRetake, setIsCheckingRetake] = useState(false);
+  // Shown before starting an attempt that the retake policy will not count
+  const [retakeWarning, setRetakeWarning] = useState<RetakeWarning | null>(null);
+  // Shown before starting without a verified number, which is only offered when codes cannot be sent
+  const [showUnverifiedWarning, setShowUnverifiedWarning] = useState(false);
+
+  const blocks = useMemo(
+    () => (selectedState && selectedDistrict ? getBlocks(selectedState, selectedDistrict) : []),
+    [selectedState, selectedDistrict]
+  );
+  const villages = useMemo(
+    () => blocks.find(b => b.name === selectedBlock)?.villages ?? [],
+    [blocks, selectedBlock]
+  );
   const [isTranslating, setIsTranslating] = useState(false);
+  const [nameHiCandidates, setNameHiCandidates] = useState<string[]>([]);
+  const [candidatesPopoverOpen, setCandidatesPopoverOpen] = useState(false);
+  const [isKeyboardOpen, setIsKeyboardOpen] = useState(false);
   
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Set once the Hindi name is typed, picked or keyed in by hand; auto-transliteration then only refreshes the suggestions
+  const isNameHiEditedRef = useRef(false);
 
 
   useEffect(() => {
@@ -81,27 +142,42 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
     }
 
     if (nameValue && nameValue.trim().length > 0) {
-      setIsTranslating(true);
-      debounceTimeoutRef.current = setTimeout(async () => {
-        try {
-          const response = await fetch('/api/transliterate', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ text: nameValue }),
-          });
-          const data = await response.json();
-          if (data.transliteration) {
-            form.setValue('name_hi', data.transliteration, { shouldValidate: true });
+      // The offline transliterator gives immediate suggestions, even without a network
+      const localCandidates = getDevanagariCandidates(nameValue);
+      setNameHiCandidates(localCandidates);
+      if (!isNameHiEditedRef.current) {
+        form.setValue('name_hi', localCandidates[0], { shouldValidate: true });
+      }
+
+      // When online, the server may refine them (it can consult Google for unfamiliar names)
+      if (navigator.onLine) {
+        setIsTranslating(true);
+        debounceTimeoutRef.current = setTimeout(async () => {
+          try {
+            const response = await fetch('/api/transliterate', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ text: nameValue }),
+            });
+            const data = await response.json();
+            if (Array.isArray(data.candidates) && data.candidates.length > 0) {
+              setNameHiCandidates(data.candidates);
+            }
+            if (data.transliteration && !isNameHiEditedRef.current) {
+              form.setValue('name_hi', data.transliteration, { shouldValidate: true });
+            }
+          } catch (error) {
+            console.error("Transliteration failed", error);
+          } finally {
+            setIsTranslating(false);
           }
-        } catch (error) {
-          console.error("Transliteration failed", error);
-          form.setValue('name_hi', nameValue); // fallback to English name
-        } finally {
-          setIsTranslating(false);
-        }
-      }, 500); // 500ms debounce
+        }, 500); // 500ms debounce
+      }
     } else {
-        form.setValue('name_hi', '', { shouldValidate: true });
+        setNameHiCandidates([]);
+        if (!isNameHiEditedRef.current) {
+          form.setValue('name_hi', '', { shouldValidate: true });
+        }
         setIsTranslating(false);
     }
 
@@ -116,18 +192,66 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
   useEffect(() => {
     if (selectedState) {
         const stateData = statesWithDistricts.find(s => s.state === selectedState);
-        setDistricts(stateData ? stateData.districts.map(d => ({ value: d, label: d })) : []);
+        setDistricts(stateData ? stateData.districts.map(d => ({ value: d.name, label: lang === "hi" ? d.nameHi : d.name, keywords: [d.name, d.nameHi] })) : []);
         form.resetField("district");
     } else {
         setDistricts([]);
     }
-  }, [selectedState, form]);
+  }, [selectedState, form, lang]);
+
+  useEffect(() => {
+    form.resetField("block");
+    setBlockSearch("");
+  }, [selectedDistrict, form]);
+
+  useEffect(() => {
+    form.resetField("village");
+  }, [selectedBlock, form]);
+
+  // Changing the number after verifying it means verifying again
+  useEffect(() => {
+    form.setValue("mobileVerificationToken", undefined);
+    setRetakeWarning(null);
+    setShowUnverifiedWarning(false);
+  }, [countryCodeValue, mobileValue, form]);
 
 
-  function handleFormSubmit(values: z.infer<typeof formSchema>) {
+  /**
+   * Applies a hand-made change to the Hindi name so auto-transliteration stops
+   * overwriting it; clearing the field hands it back to auto-transliteration
+   */
+  function setNameHiManually(value: string) {
+    isNameHiEditedRef.current = value.length > 0;
+    form.setValue('name_hi', value, { shouldValidate: true });
+  }
+
+  async function handleFormSubmit(values: UserInfo) {
+    if (!values.mobileVerificationToken) {
+      // Without a connection or a working SMS gateway the participant may choose to
+      // continue unverified, after being told the attempt will not count
+      if (!navigator.onLine || isOtpUnavailable) {
+        setShowUnverifiedWarning(true)
+      } else {
+        form.setError("mobile", { message: t.otpRequired })
+      }
+      return
+    }
+
+    setIsCheckingRetake(true)
+    const warning = await checkRetakeWarning(values)
+    setIsCheckingRetake(false)
+    if (warning) {
+      setRetakeWarning(warning)
+      return
+    }
     onSubmit(values)
   }
 
+  const tRetake = translations[lang].retake
+  const retakeDate = retakeWarning?.nextAttemptAt
+    ? new Date(retakeWarning.nextAttemptAt).toLocaleDateString(lang === "hi" ? "hi-IN" : "en-IN", { year: "numeric", month: "long", day: "numeric" })
+    : ""
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-6">
@@ -153,9 +277,69 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
                 {t.nameHiLabel}
                 {isTranslating && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
               </FormLabel>
-              <FormControl>
-                <Input placeholder={t.nameHiPlaceholder} {...field} />
-              </FormControl>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input
+                    placeholder={t.nameHiPlaceholder}
+                    {...field}
+                    onChange={(e) => setNameHiManually(e.target.value)}
+                  />
+                </FormControl>
+                <Popover open={candidatesPopoverOpen} onOpenChange={setCandidatesPopoverOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      className="h-10 w-10 shrink-0"
+                      disabled={nameHiCandidates.length < 2}
+                      aria-label={t.nameHiCandidatesLabel}
+                    >
+                      <ChevronsUpDown className="h-4 w-4" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-64 p-0" align="end">
+                    <Command>
+                      <CommandList>
+                        <CommandGroup heading={t.nameHiCandidatesLabel}>
+                          {nameHiCandidates.map((candidate) => (
+                            <CommandItem
+                              key={candidate}
+                              value={candidate}
+                              onSelect={() => {
+                                setNameHiManually(candidate);
+                                setCandidatesPopoverOpen(false);
+                              }}
+                            >
+                              <Check className={cn("mr-2 h-4 w-4", candidate === field.value ? "opacity-100" : "opacity-0")} />
+                              {candidate}
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+                <Button
+                  type="button"
+                  variant={isKeyboardOpen ? "secondary" : "outline"}
+                  size="icon"
+                  className="h-10 w-10 shrink-0"
+                  onClick={() => setIsKeyboardOpen(!isKeyboardOpen)}
+                  aria-label={t.nameHiKeyboardToggle}
+                  aria-pressed={isKeyboardOpen}
+                >
+                  <Keyboard className="h-4 w-4" />
+                </Button>
+              </div>
+              {isKeyboardOpen && (
+                <DevanagariKeyboard
+                  onKey={(key) => setNameHiManually((field.value ?? "") + key)}
+                  onBackspace={() => setNameHiManually(Array.from(field.value ?? "").slice(0, -1).join(""))}
+                  spaceLabel={t.nameHiKeyboardSpace}
+                  backspaceLabel={t.nameHiKeyboardBackspace}
+                />
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -298,9 +482,28 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
                         placeholder={t.mobilePlaceholder} 
                         className="flex-1"
                         {...field} 
+                        onBlur={() => {
+                          // Tidy "+91 98765-43210" or "09876543210" to the national number
+                          const national = toNationalNumber(countryCodeValue, field.value)
+                          if (national && national !== field.value) {
+                            form.setValue("mobile", national, { shouldValidate: true })
+                          }
+                          field.onBlur()
+                        }}
                       />
                     </div>
                   </FormControl>
+                  <MobileVerification
+                    countryCode={countryCodeValue}
+                    mobile={mobileValue}
+                    isVerified={Boolean(mobileVerificationToken)}
+                    onVerified={(token) => {
+                      form.setValue("mobileVerificationToken", token)
+                      form.clearErrors("mobile")
+                    }}
+                    onUnavailable={setIsOtpUnavailable}
+                    lang={lang}
+                  />
                   <FormMessage />
                 </FormItem>
               )}
@@ -356,7 +559,8 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
                         <CommandGroup>
                             {states.map((s) => (
                             <CommandItem
-                                value={s.label}
+                                value={s.value}
+                                keywords={s.keywords}
                                 key={s.value}
                                 onSelect={() => {
                                   form.setValue("state", s.value);
@@ -417,7 +621,8 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
                             <CommandGroup>
                                 {districts.map((d) => (
                                 <CommandItem
-                                    value={d.label}
+                                    value={d.value}
+                                    keywords={d.keywords}
                                     key={d.value}
                                     onSelect={() => {
                                       form.setValue("district", d.value);
@@ -446,10 +651,218 @@ export function UserInfoStep({ onSubmit, lang }: UserInfoStepProps) {
             />
         </div>
         
-        <Button type="submit" className="w-full bg-accent hover:bg-accent/90 text-accent-foreground" size="lg">
-          <User className="mr-2 h-5 w-5" />
-          {t.submitButton}
-        </Button>
+        {selectedDistrict && asksForBlock(selectedState) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+            control={form.control}
+            name="block"
+            render={({ field }) => (
+                <FormItem className="flex flex-col">
+                <FormLabel>
+                  {t.blockLabel}
+                  {blocks.length === 0 && <span className="text-muted-foreground"> ({t.optionalLabel})</span>}
+                </FormLabel>
+                <Popover open={blockPopoverOpen} onOpenChange={setBlockPopoverOpen}>
+                    <PopoverTrigger asChild>
+                    <FormControl>
+                        <Button
+                        variant="outline"
+                        role="combobox"
+                        className={cn(
+                            "w-full justify-between",
+                            !field.value && "text-muted-foreground"
+                        )}
+                        >
+                        {field.value
+                            ? (() => {
+                                const b = blocks.find((b) => b.name === field.value)
+                                return b && lang === "hi" ? b.nameHi : field.value
+                              })()
+                            : t.blockPlaceholder}
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                        </Button>
+                    </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[--radix-popover-content-available-height] p-0">
+                    <Command>
+                        <CommandInput placeholder={t.blockSearchPlaceholder} value={blockSearch} onValueChange={setBlockSearch} />
+                        <CommandEmpty>{blocks.length > 0 ? t.blockNoResult : t.blockTypeName}</CommandEmpty>
+                        <CommandList>
+                            <CommandGroup>
+                                {blocks.map((b) => (
+                                <CommandItem
+                                    value={b.name}
+                                    keywords={[b.name, b.nameHi]}
+                                    key={b.name}
+                                    onSelect={() => {
+                                      form.setValue("block", b.name, { shouldValidate: true });
+                                      setBlockPopoverOpen(false);
+                                    }}
+                                >
+                                    <Check
+                                    className={cn(
+                                        "mr-2 h-4 w-4",
+                                        b.name === field.value
+                                        ? "opacity-100"
+                                        : "opacity-0"
+                                    )}
+                                    />
+                                    {lang === "hi" ? b.nameHi : b.name}
+                                </CommandItem>
+                                ))}
+                                {/* Districts without a block list take a typed name; listed ones only their own blocks */}
+                                {blocks.length === 0 && blockSearch.trim() && (
+                                <CommandItem
+                                    value={blockSearch}
+                                    onSelect={() => {
+                                      form.setValue("block", blockSearch.trim(), { shouldValidate: true });
+                                      setBlockSearch("");
+                                      setBlockPopoverOpen(false);
+                                    }}
+                                >
+                                    <Plus className="mr-2 h-4 w-4" />
+                                    {t.blockUseTyped(blockSearch.trim())}
+                                </CommandItem>
+                                )}
+                            </CommandGroup>
+                        </CommandList>
+                    </Command>
+                    </PopoverContent>
+                </Popover>
+                <FormMessage />
+                </FormItem>
+            )}
+            />
+            <FormField
+            control={form.control}
+            name="village"
+            render={({ field }) => (
+                <FormItem className="flex flex-col">
+                <FormLabel>{t.villageLabel} <span className="text-muted-foreground">({t.optionalLabel})</span></FormLabel>
+                <Popover open={villagePopoverOpen} onOpenChange={setVillagePopoverOpen}>
+                    <PopoverTrigger asChild disabled={!selectedBlock}>
+                    <FormControl>
+                        <Button
+                        variant="outline"
+                        role="combobox"
+                        className={cn(
+                            "w-full justify-between",
+                            !field.value && "text-muted-foreground"
+                        )}
+                        >
+                        {field.value
+                            ? (() => {
+                                const v = villages.find((v) => v.name === field.value)
+                                return v?.nameHi && lang === "hi" ? v.nameHi : field.value
+                              })()
+                            : (selectedBlock ? t.villagePlaceholder : t.villageSelectBlockFirst)}
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                        </Button>
+                    </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[--radix-popover-content-available-height] p-0">
+                    <Command>
+                        <CommandInput placeholder={t.villageSearchPlaceholder} value={villageSearch} onValueChange={setVillageSearch} />
+                        <CommandList>
+                            <CommandGroup>
+                                {villages.map((v) => (
+                                <CommandItem
+                                    value={v.name}
+                                    keywords={[v.name, v.nameHi ?? "", v.panchayat ?? ""]}
+                                    key={v.lgdCode ?? v.name}
+                                    onSelect={() => {
+                                      form.setValue("village", v.name, { shouldValidate: true });
+                                      setVillagePopoverOpen(false);
+                                    }}
+                                >
+                                    <Check
+                                    className={cn(
+                                        "mr-2 h-4 w-4",
+                                        v.name === field.value
+                                        ? "opacity-100"
+                                        : "opacity-0"
+                                    )}
+                                    />
+                                    {lang === "hi" && v.nameHi ? v.nameHi : v.name}
+                                    {v.panchayat && <span className="ml-1 text-muted-foreground">({v.panchayat})</span>}
+                                </CommandItem>
+                                ))}
+                                {/* No block has a village list yet, so a typed name is always accepted */}
+                                {villageSearch.trim() && !villages.some((v) => v.name.toLowerCase() === villageSearch.trim().toLowerCase()) && (
+                                <CommandItem
+                                    value={villageSearch}
+                                    onSelect={() => {
+                                      form.setValue("village", villageSearch.trim(), { shouldValidate: true });
+                                      setVillageSearch("");
+                                      setVillagePopoverOpen(false);
+                                    }}
+                                >
+                                    <Plus className="mr-2 h-4 w-4" />
+                                    {t.villageUseTyped(villageSearch.trim())}
+                                </CommandItem>
+                                )}
+                            </CommandGroup>
+                        </CommandList>
+                    </Command>
+                    </PopoverContent>
+                </Popover>
+                <FormMessage />
+                </FormItem>
+            )}
+            />
+          </div>
+        )}
+        
+        {showUnverifiedWarning && !mobileVerificationToken ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{t.unverifiedTitle}</AlertTitle>
+            <AlertDescription className="space-y-4">
+              <p>{t.unverifiedDescription}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowUnverifiedWarning(false)}>
+                  {t.unverifiedBackButton}
+                </Button>
+                <Button
+                  type="button"
+                  className="bg-accent hover:bg-accent/90 text-accent-foreground"
+                  onClick={() => onSubmit(form.getValues())}
+                >
+                  {t.unverifiedContinueButton}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : retakeWarning ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{tRetake.title}</AlertTitle>
+            <AlertDescription className="space-y-4">
+              <p>
+                {retakeWarning.reason === "max_attempts"
+                  ? tRetake.maxAttempts(retakeWarning.maxAttempts ?? 0)
+                  : tRetake.cooldown(retakeDate)}
+              </p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button type="button" variant="outline" onClick={() => setRetakeWarning(null)}>
+                  {tRetake.backButton}
+                </Button>
+                <Button
+                  type="button"
+                  className="bg-accent hover:bg-accent/90 text-accent-foreground"
+                  onClick={() => onSubmit(form.getValues())}
+                >
+                  {tRetake.continueButton}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Button type="submit" className="w-full bg-accent hover:bg-accent/90 text-accent-foreground" size="lg" disabled={isCheckingRetake}>
+            {isCheckingRetake ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <User className="mr-2 h-5 w-5" />}
+            {t.submitButton}
+          </Button>
+        )}
       </form>
     </Form>
   )
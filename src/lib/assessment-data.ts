@@ -1,315 +1,210 @@
-
 import type { Language } from "@/components/aptitude-insight-app";
+import { currentQuestionBank, type Question, type QuestionBank } from "@/lib/question-bank";
+import { TRAITS } from "@/lib/question-bank-schema";
+import { createSeededRandom } from "@/lib/seeded-random";
+import type { StoredAnswer } from "@/lib/supabase";
 
-export interface Question {
-  id: number;
-  trait: 'Gratitude' | 'Resilience' | 'Empathy' | 'Sociability' | 'Social Cognition' | 'Courage';
-  questionText: { [key in Language]: string };
-  options: { text: { [key in Language]: string }; score: number }[];
-}
+// Questions and feedback come from the versioned question bank (see question-bank.ts);
+// these helpers default to the current version. Each attempt answers a seeded draw
+// from the bank (drawQuestions), so there is no fixed question list here.
+export type { Question };
 
-export const questions: Question[] = [
-  {
-    id: 1,
-    trait: 'Gratitude',
-    questionText: {
-      en: "You need Rs. 15000 urgently. You go to a friend who has that much of money. Your friend gives Rs. 3000 and asks you to collect the rest from someone else.",
-      hi: "आपको तत्काल 15000 रुपये की आवश्यकता है। आप एक दोस्त के पास जाते हैं जिसके पास उतनी राशि है। आपका दोस्त 3000 रुपये देता है और बाकी किसी और से लेने के लिए कहता है।"
-    },
-    options: [
-      { text: { en: "You are thankful to him for giving you Rs. 3000.", hi: "आप उसे 3000 रुपये देने के लिए धन्यवाद देते हैं।" }, score: 3 },
-      { text: { en: "You are neither grateful nor disappointed and look for other options.", hi: "आप न तो आभारी हैं और न ही निराश हैं और अन्य विकल्प तलाशते हैं।" }, score: 2 },
-      { text: { en: "You are disappointed that your friend didn't give you money, despite having it.", hi: "आप निराश हैं कि आपके दोस्त ने पैसे होने के बावजूद आपको पैसे नहीं दिए।" }, score: 1 },
-    ],
-  },
-  {
-    id: 2,
-    trait: 'Resilience',
-    questionText: {
-        en: "You do not get labourers for reaping rice harvest. You may get so by paying 25% higher wages at the moment. You decide to wait for a week. Hailstorm takes place in between and you suffer a good amount of loss.",
-        hi: "आपको धान की फसल काटने के लिए मजदूर नहीं मिल रहे हैं। आप इस समय 25% अधिक मजदूरी देकर मजदूर पा सकते हैं। आप एक सप्ताह इंतजार करने का फैसला करते हैं। इस बीच ओलावृष्टि होती है और आपको काफी नुकसान होता है।"
-    },
-    options: [
-      { text: { en: "You think of alternatives to minimize the loss by whatever you can do", hi: "आप जो कुछ भी कर सकते हैं उससे नुकसान को कम करने के लिए विकल्पों के बारे में सोचते हैं" }, score: 3 },
-      { text: { en: "You consider yourself unlucky & wait for good fortune", hi: "आप खुद को दुर्भाग्यशाली मानते हैं और अच्छे भाग्य का इंतजार करते हैं" }, score: 2 },
-      { text: { en: "You repent for not employing labourers with higher wages", hi: "आप अधिक मजदूरी पर मजदूर न रखने का पश्चाताप करते हैं" }, score: 1 },
-    ],
-  },
-  {
-    id: 3,
-    trait: 'Empathy',
-    questionText: {
-        en: "You are passing through a slum and find some children picking up garbage.",
-        hi: "आप एक झुग्गी से गुजर रहे हैं और कुछ बच्चों को कचरा उठाते हुए पाते हैं।"
-    },
-    options: [
-      { text: { en: "You think about their poor condition and feel unhappy.", hi: "आप उनकी खराब स्थिति के बारे में सोचते हैं और दुखी महसूस करते हैं।" }, score: 1 },
-      { text: { en: "You feel sad, and wish if you could share their misery.", hi: "आपको दुख होता है, और काश आप उनका दुख बांट पाते।" }, score: 3 },
-      { text: { en: "You find yourself helpless and pray for these children.", hi: "आप खुद को असहाय पाते हैं और इन बच्चों के लिए प्रार्थना करते हैं।" }, score: 2 },
-    ],
-  },
-  {
-    id: 4,
-    trait: 'Sociability',
-    questionText: {
-        en: "In a festival gathering, you meet a stranger who does not belong to your community.",
-        hi: "एक त्योहार की सभा में, आप एक अजनबी से मिलते हैं जो आपके समुदाय का नहीं है।"
-    },
-    options: [
-      { text: { en: "You avoid the unknown person in the gathering.", hi: "आप सभा में अज्ञात व्यक्ति से बचते हैं।" }, score: 1 },
-      { text: { en: "You approach first and talk to that person", hi: "आप पहले उस व्यक्ति से संपर्क करते हैं और बात करते हैं" }, score: 3 },
-      { text: { en: "You wait for the person speak first", hi: "आप उस व्यक्ति के पहले बोलने का इंतजार करते हैं" }, score: 2 },
-    ],
-  },
-  {
-    id: 5,
-    trait: 'Social Cognition',
-    questionText: {
-        en: "You are an important member of the village panchayat and have to attend a meeting in village panchayat. You came very late but the sarpanch does not attend to you.",
-        hi: "आप गांव की पंचायत के एक महत्वपूर्ण सदस्य हैं और गांव पंचायत की बैठक में भाग लेना है। आप बहुत देर से आए लेकिन सरपंच आपकी ओर ध्यान नहीं देता है।"
-    },
-    options: [
-      { text: { en: "You remain silent since sarpanch does not mention anything about it.", hi: "आप चुप रहते हैं क्योंकि सरपंच इसके बारे में कुछ नहीं कहता है।" }, score: 2 },
-      { text: { en: "You meet sarpanch after the meeting and give enough reason as to why you are not at fault", hi: "आप बैठक के बाद सरपंच से मिलते हैं और पर्याप्त कारण बताते हैं कि आपकी कोई गलती नहीं है" }, score: 1 },
-      { text: { en: "You understand that sarpanch might be disappointed and apologize.", hi: "आप समझते हैं कि सरपंच निराश हो सकता है और माफी मांगते हैं।" }, score: 3 },
-    ],
-  },
-  {
-    id: 6,
-    trait: 'Courage',
-    questionText: {
-        en: "While passing by a pond, you see a child is sinking and you don't know how to swim.",
-        hi: "तालाब के पास से गुजरते समय, आप देखते हैं कि एक बच्चा डूब रहा है और आप तैरना नहीं जानते।"
-    },
-    options: [
-      { text: { en: "You try to reach the child as far you do not need to swim.", hi: "आप बच्चे तक पहुँचने की कोशिश करते हैं जहाँ तक आपको तैरने की आवश्यकता नहीं है।" }, score: 2 },
-      { text: { en: "You start shouting for others to help.", hi: "आप मदद के लिए दूसरों को चिल्लाना शुरू कर देते हैं।" }, score: 1 },
-      { text: { en: "You try to reach the child with the help of a wooden log.", hi: "आप लकड़ी के लट्ठे की मदद से बच्चे तक पहुँचने की कोशिश करते हैं।" }, score: 3 },
-    ],
-  },
-];
+// Feedback phrasings are chosen once per attempt by phrase ID: the phrase's position
+// in the bank's list, which is the same in every language. IDs come from the
+// attempt's submission key, are stored with each answer in assessment_data, and
+// are what every later rendering (results, both certificates, reprints) looks up.
 
+/**
+ * Picks a phrase ID; the same seed and key always give the same ID
+ */
+const choosePhraseId = (seed: string, key: string, phraseCount: number): number =>
+  phraseCount > 0 ? Math.floor(createSeededRandom(`${seed}:feedback:${key}`)() * phraseCount) : 0;
 
-export const individualFeedback: {
-  [key in Question['trait']]: {
-    [key: number]: {
-      [key in Language]: string[];
-    };
-  };
-} = {
-  Gratitude: {
-    1: {
-      en: [
-        "There is potential to cultivate a greater sense of gratitude for all forms of support.", "Focusing on the value of small gestures is a beneficial area for personal growth.", "Recognizing the positive intent behind any help received can significantly enhance relationships.", "An opportunity exists to shift perspective from disappointment to appreciation.", "Developing a habit of thankfulness, even for partial support, fosters contentment.", "You may find more peace by appreciating what is offered, rather than focusing on what is not.", "Learning to be thankful for incremental help is a step towards greater emotional well-being.", "A more grateful outlook can transform your interactions and personal satisfaction.", "Every act of support holds value; recognizing this is a key skill to develop.", "Cultivating gratitude can shift your focus from perceived shortfalls to genuine appreciation.", "Remember that any help is a gift. Acknowledging it can make a profound difference.", "There's room to grow in acknowledging the support you're given, no matter the scale.", "Even small acts of kindness hold immense value; try to center your focus on them.", "Building a habit of gratitude can fundamentally change your view of such situations.", "It's worthwhile to practice thankfulness, even when expectations aren't fully met.", "Gratitude is a powerful tool for personal happiness; consider exploring its depths.", "Try to find the silver lining when people offer what they can, as it builds positive connections.", "Embracing gratitude can transform disappointment into an opportunity for understanding.", "Acknowledging every contribution, big or small, enriches your own perspective.", "Shifting your focus to what you did receive is a powerful step in emotional growth."
-      ],
-      hi: [
-        "सभी प्रकार के समर्थन के लिए कृतज्ञता की अधिक भावना विकसित करने की क्षमता है।", "छोटे इशारों के मूल्य पर ध्यान केंद्रित करना व्यक्तिगत विकास के लिए एक लाभदायक क्षेत्र है।", "प्राप्त किसी भी मदद के पीछे सकारात्मक इरादे को पहचानना रिश्तों को महत्वपूर्ण रूप से बढ़ा सकता है।", "निराशा से प्रशंसा की ओर दृष्टिकोण बदलने का एक अवसर मौजूद है।", "आंशिक समर्थन के लिए भी, कृतज्ञता की आदत विकसित करना संतोष को बढ़ावा देता है।", "जो पेशकश किया गया है उसकी सराहना करके आप अधिक शांति पा सकते हैं, बजाय इसके कि जो नहीं है उस पर ध्यान केंद्रित करें।", "आंशिक मदद के लिए आभारी होना सीखना अधिक भावनात्मक कल्याण की दिशा में एक कदम है।", "एक अधिक आभारी दृष्टिकोण आपकी बातचीत और व्यक्तिगत संतुष्टि को बदल सकता है।", "समर्थन के हर कार्य का मूल्य होता है; इसे पहचानना विकसित करने के लिए एक महत्वपूर्ण कौशल है।", "कृतज्ञता विकसित करना आपके ध्यान को कथित कमियों से वास्तविक प्रशंसा की ओर स्थानांतरित कर सकता है।", "याद रखें कि कोई भी मदद एक उपहार है। इसे स्वीकार करना एक गहरा अंतर ला सकता है।", "आपको दिए गए समर्थन को स्वीकार करने में विकास की गुंजाइश है, चाहे पैमाना कुछ भी हो।", "यहां तक कि दयालुता के छोटे कार्यों का भी बहुत बड़ा मूल्य है; अपना ध्यान उन पर केंद्रित करने का प्रयास करें।", "कृतज्ञता की आदत बनाना ऐसी स्थितियों के बारे में आपके दृष्टिकोण को मौलिक रूप से बदल सकता है।", "आभारी होने का अभ्यास करना सार्थक है, भले ही अपेक्षाएं पूरी तरह से पूरी न हों।", "कृतज्ञता व्यक्तिगत खुशी के लिए एक शक्तिशाली उपकरण है; इसकी गहराइयों का पता लगाने पर विचार करें।", "जब लोग जो कुछ भी कर सकते हैं उसकी पेशकश करते हैं तो उसमें अच्छाई खोजने की कोशिश करें, क्योंकि यह सकारात्मक संबंध बनाता है।", "कृतज्ञता को अपनाने से निराशा को समझने के अवसर में बदला जा सकता है।", "हर योगदान को स्वीकार करना, चाहे बड़ा हो या छोटा, आपके अपने दृष्टिकोण को समृद्ध करता है।", "अपना ध्यान इस बात पर स्थानांतरित करना कि आपको क्या मिला, भावनात्मक विकास में एक शक्तिशाली कदम है।"
-      ]
-    },
-    2: {
-        en: [
-            "You maintain a practical and balanced perspective, which is a sign of maturity.", "Your realistic outlook is commendable, and expressing more gratitude can enrich your life further.", "You have a solid foundation of thankfulness that you can build upon for even stronger relationships.", "Your balanced perspective is a strength, and a greater focus on expressing gratitude can enhance it.", "You possess a healthy level of gratitude, with the potential for even deeper appreciation.", "Continue to nurture your sense of gratitude; it's a quality that serves you well.", "Your pragmatic approach is valuable, and more expressed gratitude could be even more impactful.", "You're on the right track; a little more focus on gratitude can make a big impact.", "You have a good grasp of gratitude, and there's always a next level of appreciation to reach.", "Your approach to gratitude is pragmatic; consider expressing it more often to strengthen bonds.", "You are doing well in being grateful, and more practice will only refine this admirable trait.", "Your sense of gratitude is stable; aim to elevate it further for deeper personal fulfillment.", "You are quite grateful, and this quality can be polished to become a cornerstone of your character.", "Continue to build on your existing foundation of gratitude; it is a key to positive interactions.", "Your thoughtful approach is a valuable asset that can be enhanced with more vocal appreciation.", "You have a mature perspective on give-and-take, which is a solid base for growth.", "Your ability to remain neutral shows emotional control, a quality that pairs well with active gratitude.", "This balanced view is a great starting point for cultivating even deeper thankfulness.", "Your practical mindset is a strength; layering it with more expressed gratitude will be powerful.", "You navigate these situations with a level head, which is an excellent platform for developing deeper gratitude."
-        ],
-        hi: [
-            "आप एक व्यावहारिक और संतुलित दृष्टिकोण बनाए रखते हैं, जो परिपक्वता का संकेत है।", "आपका यथार्थवादी दृष्टिकोण सराहनीय है, और अधिक कृतज्ञता व्यक्त करना आपके जीवन को और समृद्ध कर सकता है।", "आपके पास कृतज्ञता का एक ठोस आधार है जिस पर आप और भी मजबूत रिश्तों के लिए निर्माण कर सकते हैं।", "आपका संतुलित दृष्टिकोण एक ताकत है, और कृतज्ञता व्यक्त करने पर अधिक ध्यान इसे बढ़ा सकता है।", "आप में कृतज्ञता का एक स्वस्थ स्तर है, जिसमें और भी गहरी प्रशंसा की क्षमता है।", "अपनी कृतज्ञता की भावना का पोषण करना जारी रखें; यह एक ऐसा गुण है जो आपकी अच्छी सेवा करता है।", "आपका व्यावहारिक दृष्टिकोण मूल्यवान है, और अधिक व्यक्त की गई कृतज्ञता और भी अधिक प्रभावशाली हो सकती है।", "आप सही रास्ते पर हैं; कृतज्ञता पर थोड़ा और ध्यान एक बड़ा प्रभाव डाल सकता है।", "आपको कृतज्ञता की अच्छी समझ है, और प्रशंसा के अगले स्तर तक पहुंचने के लिए हमेशा जगह होती है।", "कृतज्ञता के प्रति आपका दृष्टिकोण व्यावहारिक है; संबंधों को मजबूत करने के लिए इसे अधिक बार व्यक्त करने पर विचार करें।", "आप आभारी होने में अच्छा कर रहे हैं, और अधिक अभ्यास केवल इस प्रशंसनीय गुण को परिष्कृत करेगा।", "आपकी कृतज्ञता की भावना स्थिर है; गहरी व्यक्तिगत पूर्ति के लिए इसे और ऊपर उठाने का लक्ष्य रखें।", "आप काफी आभारी हैं, और इस गुण को आपके चरित्र का आधार बनाने के लिए निखारा जा सकता है।", "अपनी मौजूदा कृतज्ञता की नींव पर निर्माण करना जारी रखें; यह सकारात्मक बातचीत की कुंजी है।", "आपका विचारशील दृष्टिकोण एक मूल्यवान संपत्ति है जिसे अधिक मुखर प्रशंसा के साथ बढ़ाया जा सकता है।", "आपके पास लेन-देन पर एक परिपक्व दृष्टिकोण है, जो विकास के लिए एक ठोस आधार है।", "तटस्थ रहने की आपकी क्षमता भावनात्मक नियंत्रण को दर्शाती है, एक ऐसा गुण जो सक्रिय कृतज्ञता के साथ अच्छी तरह से मेल खाता है।", "यह संतुलित दृष्टिकोण और भी गहरी कृतज्ञता पैदा करने के लिए एक शानदार शुरुआती बिंदु है।", "आपकी व्यावहारिक मानसिकता एक ताकत है; इसे अधिक व्यक्त कृतज्ञता के साथ स्तरित करना शक्तिशाली होगा।", "आप इन स्थितियों को शांत दिमाग से नेविगेट करते हैं, जो गहरी कृतज्ञता विकसित करने के लिए एक उत्कृष्ट मंच है।"
-        ]
-    },
-    3: {
-        en: [
-            "You possess a profound sense of gratitude, which is a truly remarkable and rare trait.", "Your ability to appreciate help, no matter the size, is a testament to your excellent character.", "Your high level of gratitude is a cornerstone of positive and resilient relationships.", "This exceptional quality of gratitude will serve you well in all aspects of life.", "Your natural ability to be thankful is a gift that enriches your interactions with others.", "You have an admirable and deep-seated sense of gratitude that reflects great emotional maturity.", "This high degree of gratitude makes you a very appreciative and respected person.", "Your outlook is beautifully enriched by your strong sense of thankfulness.", "Being so grateful is a wonderful way to navigate the world and build strong connections.", "Your capacity for gratitude is a clear indicator of your positive and empathetic nature.", "People undoubtedly appreciate your highly grateful and positive disposition.", "This excellent quality of gratitude is something to be genuinely proud of.", "Your perspective is beautifully shaped by your intrinsic high level of gratitude.", "You are a naturally grateful person, which is a fantastic and powerful attribute.", "Your profound gratitude is a sign of great wisdom and emotional intelligence.", "This outstanding level of gratitude is both rare and incredibly valuable in today's world.", "You exemplify what it means to be truly thankful, and it's an inspiring quality.", "Your innate gratitude is a powerful and positive force in your life and the lives of others.", "Your deep appreciation for any support reflects a generous and positive spirit.", "This capacity for thankfulness is a key strength that fosters loyalty and deep connection."
-        ],
-        hi: [
-            "आप में कृतज्ञता की गहरी भावना है, जो वास्तव में एक दुर्लभ और उल्लेखनीय गुण है।", "मदद की सराहना करने की आपकी क्षमता, चाहे वह कितनी भी छोटी क्यों न हो, आपके उत्कृष्ट चरित्र का प्रमाण है।", "आपकी उच्च स्तर की कृतज्ञता सकारात्मक और लचीले रिश्तों का आधार है।", "कृतज्ञता का यह असाधारण गुण आपको जीवन के सभी पहलुओं में अच्छी तरह से सेवा देगा।", "आभारी होने की आपकी स्वाभाविक क्षमता एक उपहार है जो दूसरों के साथ आपकी बातचीत को समृद्ध करती है।", "आप में कृतज्ञता की एक प्रशंसनीय और गहरी भावना है जो महान भावनात्मक परिपक्वता को दर्शाती है।", "कृतज्ञता की यह उच्च डिग्री आपको एक बहुत ही प्रशंसनीय और सम्मानित व्यक्ति बनाती है।", "आपकी कृतज्ञता की मजबूत भावना से आपका दृष्टिकोण खूबसूरती से समृद्ध है।", "इतना आभारी होना दुनिया को नेविगेट करने और मजबूत संबंध बनाने का एक शानदार तरीका है।", "कृतज्ञता के लिए आपकी क्षमता आपके सकारात्मक और सहानुभूतिपूर्ण स्वभाव का एक स्पष्ट संकेतक है।", "लोग निस्संदेह आपके अत्यधिक आभारी और सकारात्मक स्वभाव की सराहना करते हैं।", "कृतज्ञता का यह उत्कृष्ट गुण वास्तव में गर्व करने लायक है।", "आपका दृष्टिकोण आपकी आंतरिक उच्च स्तर की कृतज्ञता द्वारा खूबसूरती से आकार दिया गया है।", "आप स्वाभाविक रूप से एक आभारी व्यक्ति हैं, जो एक शानदार और शक्तिशाली गुण है।", "आपकी गहरी कृतज्ञता महान ज्ञान और भावनात्मक बुद्धिमत्ता का संकेत है।", "कृतज्ञता का यह उत्कृष्ट स्तर आज की दुनिया में दुर्लभ और अविश्वसनीय रूप से मूल्यवान दोनों है।", "आप वास्तव में आभारी होने का उदाहरण देते हैं, और यह एक प्रेरक गुण है।", "आपकी जन्मजात कृतज्ञता आपके जीवन और दूसरों के जीवन में एक शक्तिशाली और सकारात्मक शक्ति है।", "किसी भी समर्थन के लिए आपकी गहरी प्रशंसा एक उदार और सकारात्मक भावना को दर्शाती है।", "कृतज्ञता की यह क्षमता एक प्रमुख शक्ति है जो वफादारी और गहरे संबंध को बढ़ावा देती है।"
-        ]
-    },
-  },
-  Resilience: {
-    1: {
-        en: [
-            "There is an opportunity to grow by learning from setbacks instead of dwelling on them.", "Building resilience involves accepting what happened and strategically planning your next steps.", "A more solution-oriented mindset will empower you to bounce back from difficulties effectively.", "Letting go of repentance and embracing proactive problem-solving will build your inner strength.", "You have the capacity to be more resilient; focus your energy on actionable steps forward.", "Transforming regret into a constructive plan is the very heart of a resilient mindset.", "Learning from mistakes without getting stuck in them is crucial for developing resilience.", "Channel your energy into finding solutions; this will make you more formidable in the face of challenges.", "Every setback is a stepping stone if you choose to learn from it and adapt your strategy.", "Focus on future actions rather than past decisions to cultivate a powerful sense of resilience.", "Shifting your mindset from 'what if' to 'what now' is a transformative practice.", "Resilience is a skill that can be strengthened by focusing on proactive, forward-looking steps.", "Developing a more future-focused approach to setbacks will serve you very well.", "Every challenge is a chance to practice resilience; view this as a learning opportunity.", "Focusing on what you can control is the key to unlocking greater personal resilience.", "Dwelling on the past can hinder your ability to move forward; try to look ahead with purpose.", "True growth comes from analyzing a setback and using it to inform future success.", "Embrace challenges as valuable data points for learning and adaptation.", "Your energy is best spent on crafting new solutions rather than on past decisions.", "To build resilience, practice seeing every obstacle as a puzzle to be solved."
-        ],
-        hi: [
-            "असफलताओं पर ध्यान केंद्रित करने के बजाय उनसे सीखकर आगे बढ़ने का अवसर है।", "लचीलापन बनाने में जो हुआ उसे स्वीकार करना और रणनीतिक रूप से अपने अगले कदमों की योजना बनाना शामिल है।", "एक अधिक समाधान-उन्मुख मानसिकता आपको कठिनाइयों से प्रभावी ढंग से वापस उछालने के लिए सशक्त बनाएगी।", "पश्चाताप को छोड़कर और सक्रिय समस्या-समाधान को अपनाकर आपकी आंतरिक शक्ति का निर्माण होगा।", "आप में अधिक लचीला होने की क्षमता है; अपनी ऊर्जा को कार्रवाई योग्य कदमों पर केंद्रित करें।", "अफसोस को एक रचनात्मक योजना में बदलना एक लचीली मानसिकता का दिल है।", "गलतियों से सीखना बिना उनमें फंसे रहना लचीलापन विकसित करने के लिए महत्वपूर्ण है।", "अपनी ऊर्जा को समाधान खोजने में लगाएं; यह आपको चुनौतियों का सामना करने में अधिक दुर्जेय बना देगा।", "हर झटका एक सीढ़ी है यदि आप उससे सीखना और अपनी रणनीति को अपनाना चुनते हैं।", "लचीलेपन की एक शक्तिशाली भावना पैदा करने के लिए पिछले निर्णयों के बजाय भविष्य की कार्रवाइयों पर ध्यान केंद्रित करें।", "अपनी मानसिकता को 'क्या होता अगर' से 'अब क्या' में बदलना एक परिवर्तनकारी अभ्यास है।", "लचीलापन एक कौशल है जिसे सक्रिय, दूरंदेशी कदमों पर ध्यान केंद्रित करके मजबूत किया जा सकता है।", "असफलताओं के प्रति अधिक भविष्य-केंद्रित दृष्टिकोण विकसित करना आपकी बहुत अच्छी सेवा करेगा।", "हर चुनौती लचीलेपन का अभ्यास करने का एक मौका है; इसे सीखने के अवसर के रूप में देखें।", "आप जो नियंत्रित कर सकते हैं उस पर ध्यान केंद्रित करना अधिक व्यक्तिगत लचीलापन अनलॉक करने की कुंजी है।", "अतीत पर ध्यान केंद्रित करना आगे बढ़ने की आपकी क्षमता में बाधा डाल सकता है; उद्देश्य के साथ आगे देखने का प्रयास करें।", "सच्चा विकास एक झटके का विश्लेषण करने और भविष्य की सफलता को सूचित करने के लिए इसका उपयोग करने से आता है।", "सीखने और अनुकूलन के लिए मूल्यवान डेटा बिंदुओं के रूप में चुनौतियों को गले लगाओ।", "आपकी ऊर्जा पिछले निर्णयों के बजाय नए समाधान तैयार करने में सबसे अच्छी तरह से खर्च होती है।", "लचीलापन बनाने के लिए, हर बाधा को हल करने के लिए एक पहेली के रूप में देखने का अभ्यास करें।"
-        ]
-    },
-    2: {
-        en: [
-            "You possess a degree of resilience, and you can develop it further with a more proactive stance.", "Your balanced view is a good asset; adding more proactive strategies will enhance it significantly.", "You handle setbacks with a level head; aim to be more proactive in seeking solutions next time.", "You have the potential to be even more resilient by focusing more on action-oriented responses.", "Your ability to accept misfortune is a part of resilience, but proactive action is also crucial.", "You can enhance your resilience by taking a more commanding role in your circumstances.", "Your perspective is balanced but could be strengthened with more focus on your own agency.", "You are on your way to becoming more resilient; keep practicing proactive and strategic thinking.", "Moving from acceptance to action will significantly boost your effectiveness and resilience.", "You have a solid foundation; now focus on the specific actions you can take to change the outcome.", "It's good that you don't blame yourself, but now consider what you can actively do next.", "This is a healthy mindset, but remember that you can also create your own good fortune through action.", "You're moderately resilient; challenge yourself to take more initiative in tough times.", "Continue to develop your resilience by focusing on practical, immediate solutions.", "Your outlook is healthy but could be more empowering with a greater focus on your own influence.", "You have a good starting point for resilience; continue to build on it with decisive action.", "Balancing acceptance with a bias for action is key to improving your resilience.", "While you acknowledge bad luck, remember you have the power to influence your path forward.", "This is a mature perspective; the next step is to channel it into a concrete plan.", "Your temperament is steady, which is a great base for building a more action-oriented resilience."
-        ],
-        hi: [
-            "आप में लचीलेपन की एक डिग्री है, और आप इसे और अधिक सक्रिय रुख के साथ विकसित कर सकते हैं।", "आपका संतुलित दृष्टिकोण एक अच्छा संपत्ति है; अधिक सक्रिय रणनीतियों को जोड़ने से यह काफी बढ़ जाएगा।", "आप असफलताओं को शांत दिमाग से संभालते हैं; अगली बार समाधान खोजने में अधिक सक्रिय होने का लक्ष्य रखें।", "आप में कार्रवाई-उन्मुख प्रतिक्रियाओं पर अधिक ध्यान केंद्रित करके और भी अधिक लचीला होने की क्षमता है।", "दुर्भाग्य को स्वीकार करने की आपकी क्षमता लचीलेपन का एक हिस्सा है, लेकिन सक्रिय कार्रवाई भी महत्वपूर्ण है।", "आप अपनी परिस्थितियों में अधिक कमांडिंग भूमिका निभाकर अपने लचीलेपन को बढ़ा सकते हैं।", "आपका दृष्टिकोण संतुलित है लेकिन अपनी एजेंसी पर अधिक ध्यान केंद्रित करके इसे मजबूत किया जा सकता है।", "आप और अधिक लचीला बनने की राह पर हैं; सक्रिय और रणनीतिक सोच का अभ्यास करते रहें।", "स्वीकृति से कार्रवाई की ओर बढ़ना आपकी प्रभावशीलता और लचीलेपन को काफी बढ़ावा देगा।", "आपके पास एक ठोस आधार है; अब उन विशिष्ट कार्यों पर ध्यान केंद्रित करें जिन्हें आप परिणाम बदलने के लिए कर सकते हैं।", "यह अच्छा है कि आप खुद को दोष नहीं देते हैं, लेकिन अब विचार करें कि आप आगे सक्रिय रूप से क्या कर सकते हैं।", "यह एक स्वस्थ मानसिकता है, लेकिन याद रखें कि आप कार्रवाई के माध्यम से अपना सौभाग्य भी बना सकते हैं।", "आप मामूली रूप से लचीले हैं; कठिन समय में अधिक पहल करने के लिए खुद को चुनौती दें।", "व्यावहारिक, तत्काल समाधानों पर ध्यान केंद्रित करके अपने लचीलेपन को विकसित करना जारी रखें।", "आपका दृष्टिकोण स्वस्थ है लेकिन आपके अपने प्रभाव पर अधिक ध्यान केंद्रित करने के साथ और अधिक सशक्त हो सकता है।", "आपके पास लचीलेपन के लिए एक अच्छा प्रारंभिक बिंदु है; निर्णायक कार्रवाई के साथ इस पर निर्माण करना जारी रखें।", "कार्रवाई के लिए पूर्वाग्रह के साथ स्वीकृति को संतुलित करना आपके लचीलेपन को बेहतर बनाने की कुंजी है।", "जब आप दुर्भाग्य को स्वीकार करते हैं, तो याद रखें कि आपके पास अपने रास्ते को आगे बढ़ाने की शक्ति है।", "यह एक परिपक्व दृष्टिकोण है; अगला कदम इसे एक ठोस योजना में प्रसारित करना है।", "आपका स्वभाव स्थिर है, जो अधिक कार्रवाई-उन्मुख लचीलापन बनाने के लिए एक शानदार आधार है।"
-        ]
-    },
-    3: {
-        en: [
-            "Your proactive and resilient mindset is one of your greatest and most valuable assets.", "Your problem-solving approach to challenges showcases your high level of resilience.", "This ability to think of alternatives under pressure is a hallmark of a truly resilient individual.", "You are exceptionally good at navigating setbacks and forging a new path forward.", "Your resilient nature is a powerful tool for overcoming any obstacle you may face.", "This solution-focused mindset demonstrates excellent mental fortitude and resilience.", "You have an admirable capacity to remain constructive and proactive under intense pressure.", "Your strength in the face of loss is a clear indicator of high and effective resilience.", "You are a highly resilient person, which is a fantastic and sought-after quality.", "Your ability to minimize loss and look for opportunities is both strategic and commendable.", "This proactive response to adversity is a sign of a very resilient and adaptive personality.", "You possess the mental fortitude to handle complex challenges effectively and with grace.", "Your resilient character will undoubtedly help you succeed in many areas of life.", "This is a prime example of a resilient mindset in action, turning adversity into opportunity.", "You are skilled at turning a negative situation into a chance to take control and innovate.", "Your capacity to think on your feet in a crisis is a powerful and impressive strength.", "This high level of resilience is a valuable and admirable trait for leadership.", "Your focus on finding solutions in the face of adversity is a sign of great inner strength.", "You have a strong ability to bounce back and take decisive control of a situation.", "You don't just endure challenges; you actively seek ways to master them."
-        ],
-        hi: [
-            "आपकी सक्रिय और लचीली मानसिकता आपकी सबसे बड़ी और सबसे मूल्यवान संपत्तियों में से एक है।", "चुनौतियों के प्रति आपका समस्या-समाधान दृष्टिकोण आपके उच्च स्तर के लचीलेपन को दर्शाता है।", "दबाव में विकल्पों के बारे में सोचने की यह क्षमता वास्तव में एक लचीले व्यक्ति की पहचान है।", "आप असफलताओं को नेविगेट करने और आगे एक नया रास्ता बनाने में असाधारण रूप से अच्छे हैं।", "आपकी लचीली प्रकृति आपके सामने आने वाली किसी भी बाधा को दूर करने के लिए एक शक्तिशाली उपकरण है।", "यह समाधान-केंद्रित मानसिकता उत्कृष्ट मानसिक दृढ़ता और लचीलेपन को दर्शाती है।", "आपके पास तीव्र दबाव में रचनात्मक और सक्रिय रहने की एक प्रशंसनीय क्षमता है।", "नुकसान के सामने आपकी ताकत उच्च और प्रभावी लचीलेपन का एक स्पष्ट संकेतक है।", "आप एक अत्यधिक लचीले व्यक्ति हैं, जो एक शानदार और मांग वाला गुण है।", "नुकसान को कम करने और अवसरों की तलाश करने की आपकी क्षमता रणनीतिक और सराहनीय दोनों है।", "विपरीत परिस्थितियों में यह सक्रिय प्रतिक्रिया एक बहुत ही लचीले और अनुकूलनीय व्यक्तित्व का संकेत है।", "आपके पास जटिल चुनौतियों को प्रभावी ढंग से और शालीनता से संभालने के लिए मानसिक दृढ़ता है।", "आपका लचीला चरित्र निस्संदेह आपको जीवन के कई क्षेत्रों में सफल होने में मदद करेगा।", "यह कार्रवाई में एक लचीली मानसिकता का एक प्रमुख उदाहरण है, जो विपत्ति को अवसर में बदल देता है।", "आप एक नकारात्मक स्थिति को नियंत्रण लेने और नवाचार करने के अवसर में बदलने में कुशल हैं।", "एक संकट में अपने पैरों पर सोचने की आपकी क्षमता एक शक्तिशाली और प्रभावशाली ताकत है।", "यह उच्च स्तर का लचीलापन नेतृत्व के लिए एक मूल्यवान और प्रशंसनीय गुण है।", "विपरीत परिस्थितियों में समाधान खोजने पर आपका ध्यान महान आंतरिक शक्ति का संकेत है।", "आपके पास वापस उछालने और स्थिति का निर्णायक नियंत्रण लेने की एक मजबूत क्षमता है।", "आप केवल चुनौतियों का सामना नहीं करते हैं; आप सक्रिय रूप से उन्हें महारत हासिल करने के तरीके तलाशते हैं।"
-        ]
-    },
-  },
-  Empathy: {
-    1: {
-        en: [
-            "There's potential to develop a deeper empathetic response by engaging more with your feelings.", "Allowing yourself to feel for others is a powerful way to build and express empathy.", "Try to move beyond just thinking about a situation to truly feeling for the people in it.", "Empathy grows when you allow yourself to connect with the emotions of others, not just their circumstances.", "You can cultivate more empathy by trying to feel what others are feeling.", "A deeper connection can be formed by allowing your heart to be part of your response.", "Your cognitive understanding is present; now try to engage your emotions for a fuller empathetic experience.", "This is an opportunity to grow your empathy by embracing a deeper emotional connection.", "Moving from sympathy to empathy involves feeling with someone, not just for them.", "Let your emotional response guide you to a deeper, more authentic understanding.", "You can strengthen your empathy by not shying away from the emotions a situation evokes in you.", "True empathy is feeling the 'ouch,' not just seeing it. You can practice this.", "Consider how you might feel in their shoes; this can build your emotional empathy.", "You have the capacity for more profound empathy; it starts with letting yourself feel.", "Challenge yourself to connect emotionally, not just intellectually, for a richer human experience.", "A deeper level of empathy is within your reach if you open up to the emotions of the situation.", "Connecting with others' plights on an emotional level is a skill that can be nurtured.", "Moving from observation to feeling is a key step in developing profound empathy.", "Opening yourself up to the emotions of others can deepen your empathetic connection significantly.", "You can always improve in terms of being empathetic by allowing yourself to feel others' emotions."
-        ],
-        hi: [
-            "अपनी भावनाओं के साथ अधिक जुड़कर गहरी सहानुभूति प्रतिक्रिया विकसित करने की क्षमता है।", "दूसरों के लिए महसूस करने की अनुमति देना सहानुभूति बनाने और व्यक्त करने का एक शक्तिशाली तरीका है।", "किसी स्थिति के बारे में सिर्फ सोचने से आगे बढ़कर उसमें लोगों के लिए वास्तव में महसूस करने की कोशिश करें।", "सहानुभूति तब बढ़ती है जब आप खुद को दूसरों की भावनाओं से जुड़ने की अनुमति देते हैं, न कि केवल उनकी परिस्थितियों से।", "आप दूसरों की भावनाओं को महसूस करने की कोशिश करके अधिक सहानुभूति पैदा कर सकते हैं।", "अपने दिल को अपनी प्रतिक्रिया का हिस्सा बनने की अनुमति देकर एक गहरा संबंध बनाया जा सकता है।", "आपकी संज्ञानात्मक समझ मौजूद है; अब एक पूर्ण सहानुभूतिपूर्ण अनुभव के लिए अपनी भावनाओं को शामिल करने का प्रयास करें।", "यह एक गहरी भावनात्मक संबंध को अपनाकर अपनी सहानुभूति बढ़ाने का एक अवसर है।", "सहानुभूति से सहानुभूति की ओर बढ़ने में किसी के साथ महसूस करना शामिल है, न कि केवल उनके लिए।", "अपनी भावनात्मक प्रतिक्रिया को आपको एक गहरी, अधिक प्रामाणिक समझ के लिए मार्गदर्शन करने दें।", "आप एक स्थिति में उत्पन्न होने वाली भावनाओं से दूर न रहकर अपनी सहानुभूति को मजबूत कर सकते हैं।", "सच्ची सहानुभूति 'चोट' महसूस कर रही है, न कि केवल उसे देख रही है। आप इसका अभ्यास कर सकते हैं।", "विचार करें कि आप उनके स्थान पर कैसा महसूस कर सकते हैं; यह आपकी भावनात्मक सहानुभूति का निर्माण कर सकता है।", "आप में अधिक गहरी सहानुभूति की क्षमता है; यह खुद को महसूस करने देने से शुरू होता है।", "एक समृद्ध मानवीय अनुभव के लिए खुद को भावनात्मक रूप से, न कि केवल बौद्धिक रूप से जोड़ने की चुनौती दें।", "यदि आप स्थिति की भावनाओं के प्रति खुलते हैं तो सहानुभूति का एक गहरा स्तर आपकी पहुंच के भीतर है।", "दूसरों की पीड़ाओं से भावनात्मक स्तर पर जुड़ना एक कौशल है जिसे पोषित किया जा सकता है।", "अवलोकन से भावना की ओर बढ़ना गहरी सहानुभूति विकसित करने में एक महत्वपूर्ण कदम है।", "दूसरों की भावनाओं के प्रति खुद को खोलने से आपका सहानुभूतिपूर्ण संबंध काफी गहरा हो सकता है।", "आप हमेशा दूसरों की भावनाओं को महसूस करने की अनुमति देकर सहानुभूतिपूर्ण होने के मामले में सुधार कर सकते हैं।"
-        ]
-    },
-    2: {
-        en: [
-            "You feel for others' plight, and you can further develop this into a deeper understanding.", "Your compassionate thoughts are a strong foundation for building even greater empathy.", "You show genuine concern for others, which is a stepping stone to stronger empathetic connections.", "You have a good level of empathy that can be enhanced further with practice.", "Your ability to feel helpless shows you care deeply; you can build on this foundation of compassion.", "This is a commendable display of empathy, with room to grow into even more profound understanding.", "Your response shows a caring nature, which is the very basis of true empathy.", "You possess a solid sense of empathy, and you can continue to develop it into a key strength.", "Your compassion is evident; now you can work on deepening your empathetic skills.", "You're empathetic, and there's always an opportunity to become even more so.", "This is a healthy and mature empathetic response that can be strengthened over time.", "Your concern for others is a great start; you can take it a step further in understanding.", "You are on the right path with empathy; keep nurturing this important quality.", "You have a strong capacity for empathy; continue to explore its depths.", "Your response is deeply empathetic, and you can continue to refine this important skill.", "This shows a good level of concern, which can be channeled into deeper, active empathy.", "You are quite empathetic, and this is a quality worth cultivating further for stronger bonds.", "Your feelings of helplessness are a form of empathy; you can build from here towards action.", "You have a strong base of empathy that you can expand on to great effect.", "You are moderately high on empathy, and you can certainly improve upon this strong base."
-        ],
-        hi: [
-            "आप दूसरों की दुर्दशा के लिए महसूस करते हैं, और आप इस गहरी समझ को और विकसित कर सकते हैं।", "आपके दयालु विचार और भी अधिक सहानुभूति बनाने के लिए एक मजबूत आधार हैं।", "आप दूसरों के लिए वास्तविक चिंता दिखाते हैं, जो मजबूत सहानुभूतिपूर्ण संबंधों के लिए एक महत्वपूर्ण कदम है।", "आप में सहानुभूति का एक अच्छा स्तर है जिसे अभ्यास से और बढ़ाया जा सकता है।", "असहाय महसूस करने की आपकी क्षमता दर्शाती है कि आप गहराई से परवाह करते हैं; आप करुणा के इस आधार पर निर्माण कर सकते हैं।", "यह सहानुभूति का एक सराहनीय प्रदर्शन है, जिसमें और भी गहरी समझ में बढ़ने की गुंजाइश है।", "आपकी प्रतिक्रिया एक देखभाल करने वाली प्रकृति को दर्शाती है, जो सच्ची सहानुभूति का आधार है।", "आप में सहानुभूति की एक ठोस भावना है, और आप इसे एक प्रमुख शक्ति के रूप में विकसित करना जारी रख सकते हैं।", "आपकी करुणा स्पष्ट है; अब आप अपने सहानुभूतिपूर्ण कौशल को गहरा करने पर काम कर सकते हैं।", "आप सहानुभूतिपूर्ण हैं, और और भी अधिक बनने का हमेशा एक अवसर होता है।", "यह एक स्वस्थ और परिपक्व सहानुभूतिपूर्ण प्रतिक्रिया है जिसे समय के साथ मजबूत किया जा सकता है।", "दूसरों के लिए आपकी चिंता एक शानदार शुरुआत है; आप इसे समझने में एक कदम और आगे ले जा सकते हैं।", "आप सहानुभूति के साथ सही रास्ते पर हैं; इस महत्वपूर्ण गुण का पोषण करते रहें।", "आप में सहानुभूति की एक मजबूत क्षमता है; इसकी गहराइयों का पता लगाना जारी रखें।", "आपकी प्रतिक्रिया गहरी सहानुभूतिपूर्ण है, और आप इस महत्वपूर्ण कौशल को परिष्कृत करना जारी रख सकते हैं।", "यह चिंता का एक अच्छा स्तर दिखाता है, जिसे गहरी, सक्रिय सहानुभूति में प्रसारित किया जा सकता है।", "आप काफी सहानुभूतिपूर्ण हैं, और यह एक ऐसा गुण है जिसे मजबूत बंधनों के लिए और विकसित करने लायक है।", "आपकी लाचारी की भावनाएं सहानुभूति का एक रूप हैं; आप यहां से कार्रवाई की ओर बढ़ सकते हैं।", "आपके पास सहानुभूति का एक मजबूत आधार है जिसे आप बड़े प्रभाव के लिए विस्तारित कर सकते हैं।", "आप सहानुभूति पर मामूली रूप से उच्च हैं, और आप निश्चित रूप से इस मजबूत आधार पर सुधार कर सकते हैं।"
-        ]
-    },
-    3: {
-        en: [
-            "You possess a strong empathetic sense, allowing you to understand and connect with others deeply.", "Your capacity to feel what others are feeling is a powerful and commendable trait.", "Your high empathy allows you to connect with people on a very meaningful and authentic level.", "This is a wonderful demonstration of a deeply empathetic and compassionate person.", "You have a gift for understanding and sharing the feelings of others, which builds strong bonds.", "Your ability to imagine their misery is a sign of profound and impactful empathy.", "This high level of empathy is a cornerstone of strong, trusting interpersonal relationships.", "You are a truly empathetic individual, and that is a rare and beautiful quality.", "Your capacity to feel with others is a testament to your excellent character and emotional depth.", "This deep sense of empathy will help you connect with people from all walks of life.", "You possess an admirable and powerful sense of empathy that fosters genuine connection.", "Your response shows a remarkable ability to step into someone else's shoes and feel their world.", "This is a clear sign of high emotional intelligence and profound empathy.", "Your empathetic nature is one of your greatest and most influential strengths.", "You have a natural ability to connect with the feelings of others in a meaningful way.", "This profound empathy is a valuable asset in both your personal and professional life.", "Your response is a beautiful example of empathy in its truest and most sincere form.", "You are an exceptionally empathetic person, which is something to be valued and cherished.", "You are very high on empathy, which allows you to see the world from others' perspectives.", "Your ability to emotionally connect with others' situations shows a high degree of emotional intelligence."
-        ],
-        hi: [
-            "आप में एक मजबूत सहानुभूति की भावना है, जो आपको दूसरों के साथ गहराई से समझने और जुड़ने की अनुमति देती है।", "दूसरों की भावनाओं को महसूस करने की आपकी क्षमता एक शक्तिशाली और सराहनीय गुण है।", "आपकी उच्च सहानुभूति आपको लोगों के साथ बहुत सार्थक और प्रामाणिक स्तर पर जुड़ने की अनुमति देती है।", "यह एक गहरी सहानुभूति और दयालु व्यक्ति का एक अद्भुत प्रदर्शन है।", "आप में दूसरों की भावनाओं को समझने और साझा करने का एक उपहार है, जो मजबूत बंधन बनाता है।", "उनकी दुर्दशा की कल्पना करने की आपकी क्षमता गहरी और प्रभावशाली सहानुभूति का संकेत है।", "यह उच्च स्तर की सहानुभूति मजबूत, भरोसेमंद पारस्परिक संबंधों का आधार है।", "आप वास्तव में एक सहानुभूतिपूर्ण व्यक्ति हैं, और यह एक दुर्लभ और सुंदर गुण है।", "दूसरों के साथ महसूस करने की आपकी क्षमता आपके उत्कृष्ट चरित्र और भावनात्मक गहराई का प्रमाण है।", "सहानुभूति की यह गहरी भावना आपको जीवन के सभी क्षेत्रों के लोगों से जुड़ने में मदद करेगी।", "आप में सहानुभूति की एक प्रशंसनीय और शक्तिशाली भावना है जो वास्तविक संबंध को बढ़ावा देती है।", "आपकी प्रतिक्रिया किसी और के जूते में कदम रखने और उनकी दुनिया को महसूस करने की एक उल्लेखनीय क्षमता दिखाती है।", "यह उच्च भावनात्मक बुद्धिमत्ता और गहरी सहानुभूति का एक स्पष्ट संकेत है।", "आपकी सहानुभूतिपूर्ण प्रकृति आपकी सबसे बड़ी और सबसे प्रभावशाली शक्तियों में से एक है।", "आप में दूसरों की भावनाओं से सार्थक तरीके से जुड़ने की एक स्वाभाविक क्षमता है।", "यह गहरी सहानुभूति आपके व्यक्तिगत और व्यावसायिक जीवन दोनों में एक मूल्यवान संपत्ति है।", "आपकी प्रतिक्रिया अपने सबसे सच्चे और सबसे ईमानदार रूप में सहानुभूति का एक सुंदर उदाहरण है।", "आप एक असाधारण रूप से सहानुभूतिपूर्ण व्यक्ति हैं, जिसे महत्व दिया जाना और संजोया जाना चाहिए।", "आप सहानुभूति पर बहुत अधिक हैं, जो आपको दूसरों के दृष्टिकोण से दुनिया को देखने की अनुमति देता है।", "दूसरों की स्थितियों से भावनात्मक रूप से जुड़ने की आपकी क्षमता उच्च स्तर की भावनात्मक बुद्धिमत्ता को दर्शाती है।"
-        ]
-    },
-  },
-  Sociability: {
-    1: {
-        en: [
-            "Stepping out of your comfort zone in social settings can build powerful self-confidence.", "Making small, consistent efforts to connect with new people can greatly enhance your social skills.", "Overcoming reticence is a journey, and every small step toward connection counts.", "There is a significant opportunity to grow your social confidence by taking small, calculated risks.", "Building your social network can be a deeply rewarding experience; consider taking the first step.", "You can become more comfortable and influential in social situations with deliberate practice.", "Challenging yourself to be more open in gatherings can lead to unexpected and positive outcomes.", "Avoiding new people can limit your experiences; try to adopt a more approachable posture.", "You can develop your sociability by setting small goals, like initiating one new conversation.", "Your social strength can be built by gradually increasing your interactions in safe environments.", "Don't be afraid to initiate contact; it becomes progressively easier with practice.", "A more sociable approach can open up new opportunities for friendship and collaboration.", "Consider the immense benefits of being more outgoing in various social settings.", "You have the clear potential to be more sociable; it's a skill you can develop and master.", "Try to see meeting new people as an opportunity for growth, not a source of anxiety.", "Taking the initiative in social situations can significantly boost your self-esteem and influence.", "You can improve your social skills by practicing them in low-pressure, supportive environments.", "A little more sociability can go a long way in making you feel more connected and secure.", "Start small, and you'll soon find your social confidence growing exponentially.", "You can improve your sociability to feel stronger and more secure in diverse groups."
-        ],
-        hi: [
-            "सामाजिक सेटिंग्स में अपने सुविधा क्षेत्र से बाहर निकलना शक्तिशाली आत्मविश्वास का निर्माण कर सकता है।", "नए लोगों से जुड़ने के लिए छोटे, सुसंगत प्रयास करना आपके सामाजिक कौशल को बहुत बढ़ा सकता है।", "संकोच पर काबू पाना एक यात्रा है, और कनेक्शन की दिशा में हर छोटा कदम मायने रखता है।", "छोटे, परिकलित जोखिम उठाकर अपने सामाजिक आत्मविश्वास को बढ़ाने का एक महत्वपूर्ण अवसर है।", "अपना सामाजिक नेटवर्क बनाना एक गहरा पुरस्कृत अनुभव हो सकता है; पहला कदम उठाने पर विचार करें।", "आप जानबूझकर अभ्यास के साथ सामाजिक स्थितियों में अधिक सहज और प्रभावशाली बन सकते हैं।", "सभाओं में अधिक खुला रहने के लिए खुद को चुनौती देने से अप्रत्याशित और सकारात्मक परिणाम मिल सकते हैं।", "नए लोगों से बचने से आपके अनुभव सीमित हो सकते हैं; अधिक सुलभ मुद्रा अपनाने का प्रयास करें।", "आप छोटे लक्ष्य निर्धारित करके अपनी सामाजिकता विकसित कर सकते हैं, जैसे एक नई बातचीत शुरू करना।", "आपकी सामाजिक ताकत सुरक्षित वातावरण में धीरे-धीरे अपनी बातचीत बढ़ाकर बनाई जा सकती है।", "संपर्क शुरू करने से डरो मत; यह अभ्यास के साथ उत्तरोत्तर आसान हो जाता है।", "एक अधिक मिलनसार दृष्टिकोण दोस्ती और सहयोग के लिए नए अवसर खोल सकता है।", "विभिन्न सामाजिक सेटिंग्स में अधिक बहिर्मुखी होने के अपार लाभों पर विचार करें।", "आप में अधिक मिलनसार होने की स्पष्ट क्षमता है; यह एक ऐसा कौशल है जिसे आप विकसित और महारत हासिल कर सकते हैं।", "नए लोगों से मिलने को विकास के अवसर के रूप में देखने की कोशिश करें, न कि चिंता के स्रोत के रूप में।", "सामाजिक स्थितियों में पहल करने से आपके आत्म-सम्मान और प्रभाव में काफी वृद्धि हो सकती है।", "आप कम दबाव वाले, सहायक वातावरण में उनका अभ्यास करके अपने सामाजिक कौशल में सुधार कर सकते हैं।", "थोड़ी और मिलनसारिता आपको अधिक जुड़ा हुआ और सुरक्षित महसूस कराने में एक लंबा रास्ता तय कर सकती है।", "छोटी शुरुआत करें, और आप जल्द ही पाएंगे कि आपका सामाजिक आत्मविश्वास तेजी से बढ़ रहा है।", "विविध समूहों में मजबूत और अधिक सुरक्षित महसूस करने के लिए आप अपनी सामाजिकता में सुधार कर सकते हैं।"
-        ]
-    },
-    2: {
-        en: [
-            "You are open to social interaction, and taking the first step more often can be highly beneficial.", "You have a reserved but willing social nature that you can build upon for greater impact.", "Challenging yourself to initiate conversations can strengthen your social network and influence.", "You have a good level of sociability, and you can become even more outgoing and connected.", "Your willingness to engage is a great asset; try taking the lead sometimes to expand your circle.", "You're on the right track; being more proactive will enhance your social life and opportunities.", "This is a healthy approach to social situations, with room to be more assertive and influential.", "You possess a good degree of sociability that can be developed into a significant personal strength.", "You are comfortable in social settings, and can become even more so by initiating more often.", "Your reserved nature is perfectly fine, but don't hesitate to make the first move when it counts.", "You have a solid foundation of sociability; now try to be more of an initiator to unlock new potentials.", "This balanced approach is good; a bit more proactivity can make it even more effective.", "You are quite sociable, and can push yourself to be even more engaging and memorable.", "Your current level of sociability is good, and you can build on it to become a key connector.", "You handle social situations well; challenge yourself to be the one to start conversations more.", "You have a friendly demeanor; use it to initiate more interactions and build rapport.", "You're doing well socially; a little more initiative will make you a great networker.", "This is a good, comfortable level of sociability that you can easily expand upon.", "Continue to build on your social skills by taking the initiative more frequently.", "You are moderately high on sociability, and can open up to others a bit more to great effect."
-        ],
-        hi: [
-            "आप सामाजिक संपर्क के लिए खुले हैं, और अधिक बार पहला कदम उठाना अत्यधिक फायदेमंद हो सकता है।", "आपके पास एक आरक्षित लेकिन इच्छुक सामाजिक प्रकृति है जिस पर आप अधिक प्रभाव के लिए निर्माण कर सकते हैं।", "बातचीत शुरू करने के लिए खुद को चुनौती देना आपके सामाजिक नेटवर्क और प्रभाव को मजबूत कर सकता है।", "आप में मिलनसारिता का एक अच्छा स्तर है, और आप और भी अधिक मिलनसार और जुड़े हुए बन सकते हैं।", "संलग्न होने की आपकी इच्छा एक बड़ी संपत्ति है; अपने सर्कल का विस्तार करने के लिए कभी-कभी नेतृत्व करने का प्रयास करें।", "आप सही रास्ते पर हैं; अधिक सक्रिय होने से आपके सामाजिक जीवन और अवसरों में वृद्धि होगी।", "यह सामाजिक स्थितियों के लिए एक स्वस्थ दृष्टिकोण है, जिसमें अधिक मुखर और प्रभावशाली होने की गुंजाइश है।", "आप में मिलनसारिता की एक अच्छी डिग्री है जिसे एक महत्वपूर्ण व्यक्तिगत शक्ति के रूप में विकसित किया जा सकता है।", "आप सामाजिक सेटिंग्स में सहज हैं, और अधिक बार पहल करके और भी अधिक हो सकते हैं।", "आपका आरक्षित स्वभाव पूरी तरह से ठीक है, लेकिन जब यह मायने रखता है तो पहला कदम उठाने में संकोच न करें।", "आपके पास मिलनसारिता का एक ठोस आधार है; अब नई क्षमताओं को अनलॉक करने के लिए और अधिक आरंभकर्ता बनने का प्रयास करें।", "यह संतुलित दृष्टिकोण अच्छा है; थोड़ी और सक्रियता इसे और भी प्रभावी बना सकती है।", "आप काफी मिलनसार हैं, और खुद को और भी अधिक आकर्षक और यादगार बनाने के लिए प्रेरित कर सकते हैं।", "आपकी वर्तमान मिलनसारिता का स्तर अच्छा है, और आप इसे एक प्रमुख संयोजक बनने के लिए बना सकते हैं।", "आप सामाजिक स्थितियों को अच्छी तरह से संभालते हैं; बातचीत शुरू करने वाले व्यक्ति बनने के लिए खुद को चुनौती दें।", "आपके पास एक दोस्ताना व्यवहार है; अधिक बातचीत शुरू करने और तालमेल बनाने के लिए इसका उपयोग करें।", "आप सामाजिक रूप से अच्छा कर रहे हैं; थोड़ी और पहल आपको एक महान नेटवर्कर बना देगी।", "यह मिलनसारिता का एक अच्छा, आरामदायक स्तर है जिसे आप आसानी से बढ़ा सकते हैं।", "अधिक बार पहल करके अपने सामाजिक कौशल का निर्माण करना जारी रखें।", "आप मिलनसारिता पर मामूली रूप से उच्च हैं, और बड़े प्रभाव के लिए दूसरों के लिए थोड़ा और खुल सकते हैं।"
-        ]
-    },
-    3: {
-        en: [
-            "Your proactive and friendly approach makes you a natural and effective networker.", "You are comfortable and confident in initiating social connections, a key leadership trait.", "Your high sociability is a great asset in building strong, lasting relationships.", "Your outgoing nature makes it easy for you to connect with others and build rapport instantly.", "This high level of sociability is a fantastic skill for both personal and professional success.", "You are a natural at meeting new people and making them feel comfortable and valued.", "Your confidence in diverse social situations is a key strength that opens many doors.", "This proactive approach to socializing is a sign of a very confident and open person.", "You have an admirable ability to build rapport with strangers quickly and authentically.", "Your sociability is a great advantage in any group setting, allowing you to lead and influence.", "You are an excellent example of a sociable and engaging individual who draws people in.", "Your willingness to approach others first is a commendable trait that builds bridges.", "This high sociability will undoubtedly bring many interesting people and opportunities into your life.", "You possess a natural talent for networking and building meaningful connections.", "Your friendly and approachable nature is one of your best and most effective qualities.", "You are a social catalyst, and this trait will serve you very well in all your endeavors.", "This level of sociability shows you are a confident and open-minded individual.", "Your skill in initiating conversations is a valuable and highly sought-after asset.", "You are a highly sociable person, which is a wonderful and useful quality for success.", "You are very high on sociability, which helps you develop strong and diverse social networks."
-        ],
-        hi: [
-            "आपका सक्रिय और मैत्रीपूर्ण दृष्टिकोण आपको एक स्वाभाविक और प्रभावी नेटवर्कर बनाता है।", "आप सामाजिक संबंध शुरू करने में सहज और आत्मविश्वासी हैं, जो एक प्रमुख नेतृत्व गुण है।", "आपकी उच्च मिलनसारिता मजबूत, स्थायी संबंध बनाने में एक बड़ी संपत्ति है।", "आपकी बहिर्मुखी प्रकृति आपके लिए दूसरों से जुड़ना और तुरंत तालमेल बनाना आसान बनाती है।", "यह उच्च स्तर की मिलनसारिता व्यक्तिगत और व्यावसायिक दोनों सफलता के लिए एक शानदार कौशल है।", "आप नए लोगों से मिलने और उन्हें सहज और मूल्यवान महसूस कराने में स्वाभाविक हैं।", "विविध सामाजिक स्थितियों में आपका आत्मविश्वास एक प्रमुख शक्ति है जो कई दरवाजे खोलती है।", "सामाजिकता के प्रति यह सक्रिय दृष्टिकोण एक बहुत ही आत्मविश्वासी और खुले व्यक्ति का संकेत है।", "आपके पास अजनबियों के साथ जल्दी और प्रामाणिक रूप से तालमेल बनाने की एक प्रशंसनीय क्षमता है।", "आपकी मिलनसारिता किसी भी समूह सेटिंग में एक बड़ा लाभ है, जो आपको नेतृत्व करने और प्रभावित करने की अनुमति देती है।", "आप एक मिलनसार और आकर्षक व्यक्ति का एक उत्कृष्ट उदाहरण हैं जो लोगों को आकर्षित करता है।", "पहले दूसरों से संपर्क करने की आपकी इच्छा एक सराहनीय गुण है जो पुल बनाता है।", "यह उच्च मिलनसारिता निस्संदेह आपके जीवन में कई दिलचस्प लोगों और अवसरों को लाएगी।", "आप में नेटवर्किंग और सार्थक संबंध बनाने की एक स्वाभाविक प्रतिभा है।", "आपकी मित्रवत और सुलभ प्रकृति आपके सर्वोत्तम और सबसे प्रभावी गुणों में से एक है।", "आप एक सामाजिक उत्प्रेरक हैं, और यह गुण आपके सभी प्रयासों में आपकी बहुत अच्छी सेवा करेगा।", "यह मिलनसारिता का स्तर दर्शाता है कि आप एक आत्मविश्वासी और खुले विचारों वाले व्यक्ति हैं।", "बातचीत शुरू करने में आपका कौशल एक मूल्यवान और अत्यधिक मांग वाला संपत्ति है।", "आप एक अत्यधिक मिलनसार व्यक्ति हैं, जो सफलता के लिए एक अद्भुत और उपयोगी गुण है।", "आप मिलनसारिता पर बहुत अधिक हैं, जो आपको मजबूत और विविध सामाजिक नेटवर्क विकसित करने में मदद करता है।"
-        ]
-    },
-  },
-  "Social Cognition": {
-    1: {
-        en: [
-            "Developing your awareness of unspoken social cues is a valuable skill for navigating relationships.", "Learning to read between the lines in social interactions can prevent misunderstandings and build trust.", "Paying closer attention to non-verbal signals will significantly enhance your social cognition.", "There's an opportunity to develop your ability to read social situations with greater accuracy.", "Improving your social awareness can help you navigate complex interactions more smoothly.", "Consider the underlying messages in what people don't say to gain a deeper understanding.", "A deeper understanding of social dynamics can be very beneficial for your personal and professional life.", "You can work on being more attuned to the subtleties and nuances of social interactions.", "Social cognition is a skill; you can improve it with deliberate observation and practice.", "Try to be more aware of the context and unspoken rules in various social situations.", "This is an area where you can grow to avoid social awkwardness and build stronger rapport.", "Focus on understanding the unspoken rules of social engagement to increase your effectiveness.", "You have the potential to become much more socially perceptive with focused effort.", "A little more attention to social cues can make a big difference in your interactions.", "Sharpening your social radar will help you in many situations, both personal and professional.", "You can enhance your social intelligence by being a more active and mindful observer.", "Learning to interpret social signals will improve your interactions and relationships.", "This is a good opportunity to work on your social perception skills for greater success.", "Strive to be more mindful of the social atmosphere in your interactions to better adapt.", "You can always improve your social cognition to avoid awkwardness and connect more effectively."
-        ],
-        hi: [
-            "अनकहे सामाजिक संकेतों के बारे में अपनी जागरूकता विकसित करना रिश्तों को नेविगेट करने के लिए एक मूल्यवान कौशल है।", "सामाजिक अंतःक्रियाओं में पंक्तियों के बीच पढ़ना सीखने से गलतफहमियों को रोका जा सकता है और विश्वास का निर्माण हो सकता है।", "गैर-मौखिक संकेतों पर अधिक ध्यान देना आपके सामाजिक अनुभूति को काफी बढ़ाएगा।", "सामाजिक स्थितियों को अधिक सटीकता से पढ़ने की आपकी क्षमता विकसित करने का एक अवसर है।", "अपनी सामाजिक जागरूकता में सुधार करने से आपको जटिल अंतःक्रियाओं को अधिक सुचारू रूप से नेविगेट करने में मदद मिल सकती है।", "गहरी समझ हासिल करने के लिए लोग जो नहीं कहते हैं उसमें अंतर्निहित संदेशों पर विचार करें।", "सामाजिक गतिशीलता की गहरी समझ आपके व्यक्तिगत और व्यावसायिक जीवन के लिए बहुत फायदेमंद हो सकती है।", "आप सामाजिक अंतःक्रियाओं की सूक्ष्मताओं और बारीकियों के प्रति अधिक अभ्यस्त होने पर काम कर सकते हैं।", "सामाजिक अनुभूति एक कौशल है; आप इसे जानबूझकर अवलोकन और अभ्यास से सुधार सकते हैं।", "विभिन्न सामाजिक स्थितियों में संदर्भ और अनकहे नियमों के बारे में अधिक जागरूक होने का प्रयास करें।", "यह एक ऐसा क्षेत्र है जहां आप सामाजिक अजीबता से बचने और मजबूत तालमेल बनाने के लिए विकसित हो सकते हैं।", "अपनी प्रभावशीलता बढ़ाने के लिए सामाजिक जुड़ाव के अनकहे नियमों को समझने पर ध्यान केंद्रित करें।", "केंद्रित प्रयास से आपके पास और अधिक सामाजिक रूप से बोधगम्य बनने की क्षमता है।", "सामाजिक संकेतों पर थोड़ा और ध्यान आपकी बातचीत में एक बड़ा अंतर ला सकता है।", "अपने सामाजिक रडार को तेज करने से आपको कई स्थितियों में मदद मिलेगी, दोनों व्यक्तिगत और व्यावसायिक।", "आप एक अधिक सक्रिय और दिमागी पर्यवेक्षक बनकर अपनी सामाजिक बुद्धिमत्ता को बढ़ा सकते हैं।", "सामाजिक संकेतों की व्याख्या करना सीखने से आपकी बातचीत और रिश्तों में सुधार होगा।", "यह अधिक सफलता के लिए अपने सामाजिक धारणा कौशल पर काम करने का एक अच्छा अवसर है।", "बेहतर अनुकूलन के लिए अपनी बातचीत में सामाजिक माहौल के प्रति अधिक सचेत रहने का प्रयास करें।", "अजीबता से बचने और अधिक प्रभावी ढंग से जुड़ने के लिए आप हमेशा अपनी सामाजिक अनुभूति में सुधार कर सकते हैं।"
-        ]
-    },
-    2: {
-        en: [
-            "You have a good ability to read social situations and can refine this skill even further.", "You are clearly aware of social dynamics and can continue to build on this solid understanding.", "Your instinct to apologize and smooth things over shows good social awareness and maturity.", "You have a solid foundation in social cognition; keep honing this skill to master it.", "Your understanding of the situation is good; you can make it even better with more experience.", "This is a strong demonstration of social cognition, with the potential for even greater nuance.", "Your response shows a healthy and effective level of social intelligence.", "You possess a good sense of social awareness, which you can continue to develop into a key strength.", "You are on the right track with your social understanding; keep practicing and observing.", "This is a smart and socially aware response that builds trust and repairs relationships.", "You have a good grasp of the social cues in this situation, reflecting strong perception.", "Your interpretation of the situation is quite accurate and shows good judgment.", "You are doing well in understanding social complexities; continue to learn and adapt.", "This shows a good level of social perception that you can confidently build upon.", "Your response is appropriate and shows you are socially aware and responsible.", "You have a good understanding of social etiquette and professional dynamics.", "This is a mature and socially intelligent way to handle a delicate situation.", "Your social cognition is one of your strengths, and you can make it even stronger.", "You are quite good at reading people, and this is an incredibly valuable skill.", "You are moderately high on social cognition and can always learn a bit more."
-        ],
-        hi: [
-            "आप सामाजिक स्थितियों को पढ़ने की अच्छी क्षमता रखते हैं और इस कौशल को और भी परिष्कृत कर सकते हैं।", "आप स्पष्ट रूप से सामाजिक गतिशीलता से अवगत हैं और इस ठोस समझ पर निर्माण जारी रख सकते हैं।", "माफी मांगने और चीजों को सुचारू करने की आपकी वृत्ति अच्छी सामाजिक जागरूकता और परिपक्वता को दर्शाती है।", "आपके पास सामाजिक अनुभूति में एक ठोस आधार है; इस कौशल में महारत हासिल करने के लिए इसे सुधारते रहें।", "स्थिति की आपकी समझ अच्छी है; आप इसे और अधिक अनुभव के साथ और भी बेहतर बना सकते हैं।", "यह सामाजिक अनुभूति का एक मजबूत प्रदर्शन है, जिसमें और भी अधिक सूक्ष्मता की क्षमता है।", "आपकी प्रतिक्रिया सामाजिक बुद्धिमत्ता के एक स्वस्थ और प्रभावी स्तर को दर्शाती है।", "आप में सामाजिक जागरूकता की एक अच्छी भावना है, जिसे आप एक प्रमुख शक्ति के रूप में विकसित करना जारी रख सकते हैं।", "आप अपनी सामाजिक समझ के साथ सही रास्ते पर हैं; अभ्यास और अवलोकन करते रहें।", "यह एक स्मार्ट और सामाजिक रूप से जागरूक प्रतिक्रिया है जो विश्वास बनाती है और रिश्तों की मरम्मत करती है।", "इस स्थिति में सामाजिक संकेतों पर आपकी अच्छी पकड़ है, जो मजबूत धारणा को दर्शाता है।", "स्थिति की आपकी व्याख्या काफी सटीक है और अच्छे निर्णय को दर्शाती है।", "आप सामाजिक जटिलताओं को समझने में अच्छा कर रहे हैं; सीखना और अनुकूलन करना जारी रखें।", "यह सामाजिक धारणा का एक अच्छा स्तर दिखाता है जिस पर आप आत्मविश्वास से निर्माण कर सकते हैं।", "आपकी प्रतिक्रिया उचित है और दिखाती है कि आप सामाजिक रूप से जागरूक और जिम्मेदार हैं।", "आपको सामाजिक शिष्टाचार और व्यावसायिक गतिशीलता की अच्छी समझ है।", "यह एक नाजुक स्थिति को संभालने का एक परिपक्व और सामाजिक रूप से बुद्धिमान तरीका है।", "आपकी सामाजिक अनुभूति आपकी शक्तियों में से एक है, और आप इसे और भी मजबूत बना सकते हैं।", "आप लोगों को पढ़ने में काफी अच्छे हैं, और यह एक अविश्वसनीय रूप से मूल्यवान कौशल है।", "आप सामाजिक अनुभूति पर मामूली रूप से उच्च हैं और हमेशा थोड़ा और सीख सकते हैं।"
-        ]
-    },
-    3: {
-        en: [
-            "You demonstrate a sophisticated and strategic understanding of social dynamics.", "Your high social cognition allows you to navigate complex interactions with confidence and ease.", "Your strategic approach to this social dilemma shows high social and emotional intelligence.", "You have an excellent grasp of social nuances and how to manage them effectively.", "This response indicates a very high level of social cognition and situational awareness.", "You are skilled at handling delicate social situations to achieve a positive outcome.", "Your ability to think ahead and manage perceptions is a sign of superior social cognition.", "This is a very savvy and socially intelligent response that shows great foresight.", "You possess a deep understanding of how to navigate workplace dynamics effectively.", "Your approach is both strategic and socially aware, which is a powerful combination for success.", "This demonstrates a superior level of social cognition and proactive problem-solving.", "You are very adept at reading and responding to complex social cues with precision.", "Your response shows a masterful understanding of social strategy and interpersonal skills.", "You have a very high degree of social intelligence, which is a great asset for leadership.", "This is an excellent example of advanced social cognition in a practical context.", "You are a very astute observer of social dynamics and human behavior.", "Your ability to manage the situation so proactively and confidently is impressive.", "You have a remarkable talent for social navigation and strategic communication.", "Your high social cognition helps you excel in varied and demanding social situations.", "Your ability to understand social cues and react thoughtfully is excellent."
-        ],
-        hi: [
-            "आप सामाजिक गतिशीलता की एक परिष्कृत और रणनीतिक समझ प्रदर्शित करते हैं।", "आपकी उच्च सामाजिक अनुभूति आपको आत्मविश्वास और आसानी से जटिल अंतःक्रियाओं को नेविगेट करने की अनुमति देती है।", "इस सामाजिक दुविधा के प्रति आपका रणनीतिक दृष्टिकोण उच्च सामाजिक और भावनात्मक बुद्धिमत्ता को दर्शाता है।", "आपके पास सामाजिक बारीकियों और उन्हें प्रभावी ढंग से प्रबंधित करने के तरीके की एक उत्कृष्ट समझ है।", "यह प्रतिक्रिया सामाजिक अनुभूति और स्थितिजन्य जागरूकता के बहुत उच्च स्तर को इंगित करती है।", "आप एक सकारात्मक परिणाम प्राप्त करने के लिए नाजुक सामाजिक स्थितियों को संभालने में कुशल हैं।", "आगे सोचने और धारणाओं को प्रबंधित करने की आपकी क्षमता बेहतर सामाजिक अनुभूति का संकेत है।", "यह एक बहुत ही समझदार और सामाजिक रूप से बुद्धिमान प्रतिक्रिया है जो महान दूरदर्शिता दिखाती है।", "आपके पास कार्यस्थल की गतिशीलता को प्रभावी ढंग से नेविगेट करने की गहरी समझ है।", "आपका दृष्टिकोण रणनीतिक और सामाजिक रूप से जागरूक दोनों है, जो सफलता के लिए एक शक्तिशाली संयोजन है।", "यह बेहतर सामाजिक अनुभूति और सक्रिय समस्या-समाधान का एक बेहतर स्तर प्रदर्शित करता है।", "आप जटिल सामाजिक संकेतों को सटीकता से पढ़ने और प्रतिक्रिया देने में बहुत माहिर हैं।", "आपकी प्रतिक्रिया सामाजिक रणनीति और पारस्परिक कौशल की एक उत्कृष्ट समझ दर्शाती है।", "आप में सामाजिक बुद्धिमत्ता की बहुत उच्च डिग्री है, जो नेतृत्व के लिए एक बड़ी संपत्ति है।", "यह एक व्यावहारिक संदर्भ में उन्नत सामाजिक अनुभूति का एक उत्कृष्ट उदाहरण है।", "आप सामाजिक गतिशीलता और मानव व्यवहार के बहुत चतुर पर्यवेक्षक हैं।", "स्थिति को इतनी सक्रियता और आत्मविश्वास से प्रबंधित करने की आपकी क्षमता प्रभावशाली है।", "आप में सामाजिक नेविगेशन और रणनीतिक संचार के लिए एक उल्लेखनीय प्रतिभा है।", "आपकी उच्च सामाजिक अनुभूति आपको विविध और मांग वाली सामाजिक स्थितियों में उत्कृष्टता प्राप्त करने में मदद करती है।", "सामाजिक संकेतों को समझने और सोच-समझकर प्रतिक्रिया करने की आपकी क्षमता उत्कृष्ट है।"
-        ]
-    },
-  },
-  Courage: {
-    1: {
-        en: [
-            "Your instinct to immediately call for specialized help is the most responsible and often the bravest course of action.", "Recognizing your limitations in a crisis and quickly mobilizing support is a sign of true wisdom and courage.", "This is a very pragmatic and responsible choice that prioritizes the child's safety above all.", "You have a clear-headed and honest approach to emergencies, which is a valuable trait.", "This response is grounded in reality and focuses on the most effective way to ensure a positive outcome.", "It is honest to admit limitations and seek help from those who are more capable, which is courageous.", "This is a practical and life-saving response, showing great maturity under pressure.", "You recognize the need for expert help, which is a sign of wisdom and true courage.", "This is a very honest assessment of the situation and your own abilities, which is commendable.", "Your instinct is to get the right help, which is often the most courageous and effective thing to do.", "This is a practical and potentially life-saving response.", "You are being honest about what you can't do, and that honesty is a form of courage.", "This is a very responsible and honest reaction to a dangerous situation.", "You're not pretending to be a hero in a way that could cause more harm, and that honesty is valuable.", "This response is both honest and smart, maximizing the chances of a good result.", "Your choice to call for help is a sign of mature and honest thinking under extreme pressure.", "In a crisis, honesty about one's abilities is paramount, and you demonstrate that well.", "Choosing the most effective path to help, even if indirect, is a form of practical courage.", "This shows a strong sense of responsibility and an honest appraisal of a critical situation.", "Your response indicates that honesty guides your actions, which pays dividends in trust and effectiveness."
-        ],
-        hi: [
-            "विशिष्ट सहायता के लिए तुरंत कॉल करने की आपकी प्रवृत्ति सबसे जिम्मेदार और अक्सर सबसे बहादुर कार्रवाई है।", "एक संकट में अपनी सीमाओं को पहचानना और जल्दी से समर्थन जुटाना सच्ची बुद्धि और साहस का संकेत है।", "यह एक बहुत ही व्यावहारिक और जिम्मेदार विकल्प है जो बच्चे की सुरक्षा को सबसे ऊपर प्राथमिकता देता है।", "आपके पास आपात स्थिति के लिए एक स्पष्ट और ईमानदार दृष्टिकोण है, जो एक मूल्यवान गुण है।", "यह प्रतिक्रिया वास्तविकता पर आधारित है और एक सकारात्मक परिणाम सुनिश्चित करने के लिए सबसे प्रभावी तरीके पर ध्यान केंद्रित करती है।", "सीमाओं को स्वीकार करना और अधिक सक्षम लोगों से मदद मांगना ईमानदार है, जो साहसी है।", "यह एक व्यावहारिक और जीवन रक्षक प्रतिक्रिया है, जो दबाव में महान परिपक्वता दिखाती है।", "आप विशेषज्ञ मदद की आवश्यकता को पहचानते हैं, जो ज्ञान और सच्चे साहस का संकेत है।", "यह स्थिति और आपकी अपनी क्षमताओं का एक बहुत ही ईमानदार मूल्यांकन है, जो सराहनीय है।", "आपकी वृत्ति सही मदद पाने की है, जो अक्सर सबसे साहसी और प्रभावी काम होता है।", "यह एक व्यावहारिक और संभावित रूप से जीवन रक्षक प्रतिक्रिया है।", "आप जो नहीं कर सकते उसके बारे में ईमानदार हो रहे हैं, और वह ईमानदारी साहस का एक रूप है।", "यह एक खतरनाक स्थिति के लिए एक बहुत ही जिम्मेदार और ईमानदार प्रतिक्रिया है।", "आप एक ऐसे नायक होने का नाटक नहीं कर रहे हैं जो अधिक नुकसान पहुंचा सकता है, और वह ईमानदारी मूल्यवान है।", "यह प्रतिक्रिया ईमानदार और स्मार्ट दोनों है, जो एक अच्छे परिणाम की संभावना को अधिकतम करती है।", "मदद के लिए कॉल करने का आपका विकल्प अत्यधिक दबाव में परिपक्व और ईमानदार सोच का संकेत है।", "एक संकट में, किसी की क्षमताओं के बारे में ईमानदारी सर्वोपरि है, और आप इसे अच्छी तरह से प्रदर्शित करते हैं।", "मदद के लिए सबसे प्रभावी रास्ता चुनना, भले ही अप्रत्यक्ष हो, व्यावहारिक साहस का एक रूप है।", "यह जिम्मेदारी की एक मजबूत भावना और एक महत्वपूर्ण स्थिति का एक ईमानदार मूल्यांकन दर्शाता है।", "आपकी प्रतिक्रिया इंगित करती है कि ईमानदारी आपके कार्यों का मार्गदर्शन करती है, जो विश्वास और प्रभावशीलता में लाभांश का भुगतान करती है।"
-        ]
-    },
-    2: {
-        en: [
-            "Your response shows a commendable willingness to act and take a calculated risk to help.", "You balance personal risk and direct action, showing a practical and admirable form of courage.", "Your approach is a brave mix of caution and a heroic desire to intervene.", "This response shows courage and a quick-thinking willingness to take a calculated risk.", "You are trying to help while being mindful of the danger, which is both brave and intelligent.", "This is a courageous attempt to save a life, balanced with a healthy degree of self-preservation.", "Your action shows a brave heart and a quick-thinking, resourceful mind.", "This is a very courageous response that balances risk and the powerful desire to help.", "You are willing to put yourself in harm's way to an extent, which is a true mark of courage.", "This is a commendable act of bravery, using the resources at hand to make a difference.", "Your response is both brave and highly resourceful under pressure.", "This shows a great deal of courage and a desire to take immediate, impactful action.", "You are not afraid to take risks to help someone in need, which is a noble quality.", "This is a very heroic and courageous response, demonstrating a bias for action.", "Your immediate instinct is to act and help, which is incredibly brave.", "This is a very courageous and selfless act of attempting to assist.", "You are willing to take a significant risk to save a life, which is admirable.", "This response is a testament to your bravery and quick, innovative thinking.", "You are a very courageous person, willing to do what it takes to help others.", "You try to be honest about your limits while still pushing them, a skill you can always improve."
-        ],
-        hi: [
-            "आपकी प्रतिक्रिया मदद करने के लिए कार्य करने और एक परिकलित जोखिम लेने की एक सराहनीय इच्छा को दर्शाती है।", "आप व्यक्तिगत जोखिम और प्रत्यक्ष कार्रवाई को संतुलित करते हैं, जो साहस का एक व्यावहारिक और प्रशंसनीय रूप दिखाता है।", "आपका दृष्टिकोण सावधानी और हस्तक्षेप करने की एक वीर इच्छा का एक बहादुर मिश्रण है।", "यह प्रतिक्रिया साहस और एक परिकलित जोखिम लेने की एक त्वरित-सोच की इच्छा को दर्शाती है।", "आप खतरे के प्रति सचेत रहते हुए मदद करने की कोशिश कर रहे हैं, जो बहादुर और बुद्धिमान दोनों है।", "यह एक जीवन बचाने का एक साहसी प्रयास है, जो आत्म-संरक्षण की एक स्वस्थ डिग्री के साथ संतुलित है।", "आपकी कार्रवाई एक बहादुर दिल और एक त्वरित-सोच, साधन संपन्न दिमाग दिखाती है।", "यह एक बहुत ही साहसी प्रतिक्रिया है जो जोखिम और मदद करने की शक्तिशाली इच्छा को संतुलित करती है।", "आप खुद को एक हद तक नुकसान के रास्ते में डालने को तैयार हैं, जो साहस का एक सच्चा निशान है।", "यह बहादुरी का एक सराहनीय कार्य है, जो एक अंतर बनाने के लिए हाथ में संसाधनों का उपयोग करता है।", "आपकी प्रतिक्रिया दबाव में बहादुर और अत्यधिक साधन संपन्न दोनों है।", "यह बहुत साहस और तत्काल, प्रभावशाली कार्रवाई करने की इच्छा को दर्शाता है।", "आप जरूरतमंद किसी की मदद करने के लिए जोखिम लेने से नहीं डरते, जो एक महान गुण है।", "यह एक बहुत ही वीर और साहसी प्रतिक्रिया है, जो कार्रवाई के लिए एक पूर्वाग्रह का प्रदर्शन करती है।", "आपकी तत्काल वृत्ति कार्य करने और मदद करने की है, जो अविश्वसनीय रूप से बहादुर है।", "यह सहायता करने का एक बहुत ही साहसी और निस्वार्थ कार्य है।", "आप एक जीवन बचाने के लिए एक महत्वपूर्ण जोखिम लेने को तैयार हैं, जो सराहनीय है।", "यह प्रतिक्रिया आपकी बहादुरी और त्वरित, अभिनव सोच का एक वसीयतनामा है।", "आप एक बहुत ही साहसी व्यक्ति हैं, जो दूसरों की मदद करने के लिए जो कुछ भी करना चाहते हैं।", "आप अपनी सीमाओं के बारे में ईमानदार होने की कोशिश करते हैं, जबकि अभी भी उन्हें धक्का देते हैं, एक ऐसा कौशल जिसे आप हमेशा सुधार सकते हैं।"
-        ]
-    },
-    3: {
-        en: [
-            "Your response indicates a high level of honesty about your own abilities and limitations.", "Acknowledging what you can and cannot do, while still acting, is a true sign of integrated honesty.", "You are truthful and realistic, which are invaluable traits in any high-stakes situation.", "This response shows a brave attempt to help right up to the edge of your limits, which is very honest.", "You are honest about your limitations but still try to do everything you possibly can.", "This is a courageous and honest response, pushing your own boundaries to help effectively.", "Your action demonstrates both bravery and an honest, accurate assessment of your skills.", "This is a very courageous act, going as far as you safely can to provide aid.", "You are being both honest and brave by doing what is within your power to do.", "This response shows a great deal of courage, tempered with a wise realism.", "You are willing to take a personal risk up to your limit, and that is a sign of true courage.", "This is an admirable act of bravery, testing your own limits to save another person.", "Your response is both courageous and admirably honest about your capabilities.", "This is a very noble and brave thing to do, bridging the gap between desire and ability.", "You are not letting your limitations stop you from trying, which is incredibly courageous.", "This is a sign of great courage and personal integrity under pressure.", "You are pushing yourself to the edge of your ability to help, which is heroic.", "This is a very brave and honest response to a critical, life-threatening situation.", "Your willingness to help, despite the risks, is a testament to your profound courage.", "You are very honest, and that is always a good and respectable thing."
-        ],
-        hi: [
-            "आपकी प्रतिक्रिया आपकी अपनी क्षमताओं और सीमाओं के बारे में उच्च स्तर की ईमानदारी को इंगित करती है।", "आप क्या कर सकते हैं और क्या नहीं कर सकते हैं, इसे स्वीकार करना, जबकि अभी भी अभिनय कर रहे हैं, एकीकृत ईमानदारी का एक सच्चा संकेत है।", "आप सच्चे और यथार्थवादी हैं, जो किसी भी उच्च-दांव वाली स्थिति में अमूल्य लक्षण हैं।", "यह प्रतिक्रिया आपकी सीमाओं के किनारे तक मदद करने का एक बहादुर प्रयास दिखाती है, जो बहुत ईमानदार है।", "आप अपनी सीमाओं के बारे में ईमानदार हैं लेकिन फिर भी आप जो कुछ भी कर सकते हैं उसे करने की कोशिश करते हैं।", "यह एक साहसी और ईमानदार प्रतिक्रिया है, जो प्रभावी ढंग से मदद करने के लिए अपनी सीमाओं को आगे बढ़ाती है।", "आपकी कार्रवाई बहादुरी और आपके कौशल का एक ईमानदार, सटीक मूल्यांकन दोनों को प्रदर्शित करती है।", "यह एक बहुत ही साहसी कार्य है, जहाँ तक आप सुरक्षित रूप से सहायता प्रदान कर सकते हैं।", "आप अपनी शक्ति के भीतर जो कुछ भी है उसे करके ईमानदार और बहादुर दोनों हो रहे हैं।", "यह प्रतिक्रिया बहुत साहस दिखाती है, जो एक बुद्धिमान यथार्थवाद के साथ संयमित है।", "आप अपनी सीमा तक एक व्यक्तिगत जोखिम लेने को तैयार हैं, और यह सच्चे साहस का संकेत है।", "यह बहादुरी का एक प्रशंसनीय कार्य है, जो किसी अन्य व्यक्ति को बचाने के लिए अपनी सीमाओं का परीक्षण करता है।", "आपकी प्रतिक्रिया साहसी और आपकी क्षमताओं के बारे में प्रशंसनीय रूप से ईमानदार दोनों है।", "इच्छा और क्षमता के बीच की खाई को पाटते हुए यह एक बहुत ही नेक और बहादुर काम है।", "आप अपनी सीमाओं को आपको कोशिश करने से नहीं रोक रहे हैं, जो अविश्वसनीय रूप से साहसी है।", "यह दबाव में महान साहस और व्यक्तिगत अखंडता का संकेत है।", "आप मदद करने के लिए अपनी क्षमता के किनारे पर खुद को धकेल रहे हैं, जो वीर है।", "यह एक महत्वपूर्ण, जीवन-धमकाने वाली स्थिति के लिए एक बहुत ही बहादुर और ईमानदार प्रतिक्रिया है।", "जोखिमों के बावजूद मदद करने की आपकी इच्छा, आपके गहरे साहस का एक वसीयतनामा है।", "आप बहुत ईमानदार हैं, और यह हमेशा एक अच्छी और सम्मानजनक बात है।"
-        ]
-    },
+const getPhrase = (phrases: string[] | undefined, phraseId: number): string => {
+  if (!phrases || phrases.length === 0) {
+    return "";
   }
+  return phrases[phraseId % phrases.length];
 };
 
-export const getIndividualFeedback = (trait: Question['trait'], score: number, lang: Language): string => {
-  const feedbackOptions = individualFeedback[trait]?.[score]?.[lang];
-  if (!feedbackOptions || feedbackOptions.length === 0) {
-    return "";
-  }
-  return feedbackOptions[Math.floor(Math.random() * feedbackOptions.length)];
+/**
+ * The score a chosen option counts for: its authored score, flipped on the
+ * scale for reverse-keyed questions
+ */
+export const getItemScore = (question: Question, optionIndex: number, bank: QuestionBank = currentQuestionBank): number => {
+  const { score } = question.options[optionIndex];
+  return bank.scoring.reverseKeyedQuestionIds.includes(question.id)
+    ? bank.scoreScale.min + bank.scoreScale.max - score
+    : score;
 };
 
+/**
+ * Phrase ID for the feedback on one chosen option of an attempt
+ */
+export const getOptionFeedbackPhraseId = (
+  question: Question,
+  optionIndex: number,
+  seed: string,
+  bank: QuestionBank = currentQuestionBank
+): number => {
+  const phrases = bank.individualFeedback[question.trait]?.[getItemScore(question, optionIndex, bank)]?.en;
+  return choosePhraseId(seed, `question:${question.id}:${optionIndex}`, phrases?.length ?? 0);
+};
 
-const finalFeedbackMatrix: { [key in Language]: { [key: string]: string[] } } = {
-  en: {
-    high: [
-        "Your responses indicate a well-developed suite of social and emotional skills, suggesting a natural aptitude for navigating diverse and complex social environments with confidence and grace.", "The assessment highlights your robust set of interpersonal skills, positioning you as an adaptable and effective individual who is likely to thrive in varied social and professional settings.", "You possess many qualities that make you highly effective in diverse social contexts. Your ability to understand, connect, and adapt is a significant strength.", "Your combination of skills suggests a strong capacity for leadership and influence. You are well-equipped to handle nuanced social dynamics with insight and integrity.", "This assessment reveals a high degree of social and emotional intelligence, indicating that you are poised for success in roles requiring strong interpersonal abilities.", "You demonstrate a natural proficiency in social navigation. Your skills in empathy, resilience, and communication are strong indicators of future success in collaborative environments.", "The pattern of your answers points to a sophisticated understanding of social dynamics. You are likely a person who builds strong, trust-based relationships with ease.", "Your results show a remarkable balance of self-awareness and social perception, qualities that are essential for thriving in today's interconnected world.", "You exhibit a powerful combination of resilience and sociability, suggesting you can not only build networks but also sustain them through challenges.", "This assessment reflects a high level of personal and interpersonal competence. You are well-prepared to engage effectively and meaningfully in a wide range of social situations.", "Your aptitude for social cognition is a clear strength, allowing you to interpret situations accurately and respond in a way that is both effective and appropriate.", "The qualities you've demonstrated are hallmarks of a person who is not only socially adept but also genuinely connects with others, fostering positive and productive interactions.", "Your high score suggests a natural ability to build rapport and trust, making you a valuable asset in any team or community.", "You possess the interpersonal toolkit to not only succeed but also to empower others in a variety of social and professional landscapes.", "Your results indicate a person who is both resilient in the face of adversity and gracious in their interactions—a powerful combination for personal and professional growth.", "You have a keen sense of your environment and the people in it, allowing you to adapt your approach for optimal outcomes.", "The assessment shows that you are a confident and effective communicator, capable of navigating social complexities with ease.", "Your strong results across multiple traits suggest a well-rounded and emotionally intelligent individual, capable of making a positive impact.", "You have a remarkable capacity for understanding others, which, combined with your resilience, makes you a formidable and respected individual.", "The insights from this assessment confirm that you have a strong foundation for building a successful and fulfilling life, rich with positive relationships."
-    ],
-    medium: [
-        "You have a solid foundation of social skills, with clear areas identified for future growth and improvement. With focused effort, you can significantly enhance your effectiveness.", "You are well-equipped for many social situations and can become even more effective by developing specific skills. This assessment provides a roadmap for your growth.", "You have some very good qualities and can improve in others in order to excel in diverse social areas. Your self-awareness is the first step on this promising journey.", "This assessment shows a good balance of strengths and opportunities for development. Honing your skills in the identified areas will unlock your full potential.", "Your results indicate a solid set of interpersonal skills with the potential for mastery. Continued focus on self-improvement will yield significant rewards.", "You possess a promising foundation of social and emotional awareness. Targeting specific areas for development will accelerate your personal and professional growth.", "The assessment highlights a number of your strengths while also pointing toward skills that could be refined. This is a great position to be in for meaningful self-development.", "You have a commendable toolkit of social skills. By polishing some of these tools, you can increase your impact and confidence in a variety of settings.", "Your responses show a healthy mix of established skills and areas ripe for development. Embrace this opportunity to build upon your already strong foundation.", "You are on a positive trajectory. This assessment should serve as a valuable guide for transforming your good qualities into exceptional ones.", "Your current skill set is a great launching pad. With strategic effort in key areas, you can elevate your ability to navigate complex social environments.", "This assessment suggests you are adaptable and aware, with the capacity to become even more influential. Focus on turning your potential into proven strength.", "You have a good understanding of social dynamics. Deepening this understanding through practice and reflection will be highly beneficial.", "The results point to a capable individual with a clear path to even greater achievement. Your willingness to grow is your greatest asset.", "You have a number of valuable qualities. The next step is to intentionally cultivate the skills that will round out your interpersonal profile.", "This is a strong starting point. By focusing on the opportunities for growth highlighted here, you can build a truly impressive set of social skills.", "Your assessment shows that you are already effective in many areas. A focused approach to development will make you a standout in any social or professional context.", "You have a good mix of intuition and practical skills. Strengthening specific competencies will make you even more successful in your interactions.", "The qualities you possess are valuable. Now is the perfect time to build on them, transforming your potential into undeniable expertise.", "Your results are encouraging, showing a person who is self-aware and capable. Use these insights to guide your journey toward personal mastery."
-    ],
-    low: [
-        "This assessment reveals significant opportunities for you to develop your social skills to navigate situations more effectively and confidently. The journey of a thousand miles begins with a single step.", "Focusing on building your social and emotional awareness will be key to your growth. You have untapped potential waiting to be discovered.", "You have a great deal of potential, but there is a journey ahead. Committing to working on your diverse social skills will be a rewarding endeavor.", "The results suggest that a dedicated focus on interpersonal skills would be highly beneficial. Every expert was once a beginner, and your growth journey starts now.", "This assessment should be seen as the starting point of a powerful personal development path. Building foundational social skills will open up many new doors for you.", "There is a clear opportunity to enhance your understanding of social dynamics. Embracing this challenge will lead to significant personal and professional rewards.", "Your potential is evident, but it requires cultivation. A conscious effort to improve your social and emotional skills will be transformative.", "This is a valuable opportunity to build your interpersonal toolkit from the ground up. With dedication, you can achieve remarkable growth.", "The path to social mastery is a marathon, not a sprint. Use these insights to take the first crucial steps in building your confidence and competence.", "This assessment highlights key areas for foundational growth. A commitment to learning and practicing new social skills will be a game-changer for you.", "While there is a way to go, your awareness of this is the most critical first step. You have the capacity to grow significantly in this area.", "Think of this as an exciting challenge. By focusing on core social competencies, you can fundamentally change how you interact with the world.", "Your journey toward greater social effectiveness starts today. Embrace the learning process, and you will see profound changes in your life.", "This assessment provides a clear map of where to begin. Building skills in empathy, communication, and resilience will create a strong foundation for your future.", "You have a blank canvas on which to paint a new picture of your social self. This is an exciting opportunity for reinvention and growth.", "The most successful people are lifelong learners. View this as the beginning of a new and exciting curriculum in your personal growth.", "It's time to invest in your greatest asset: yourself. Focusing on these foundational skills will pay dividends for the rest of your life.", "The gap between where you are and where you want to be is bridged by deliberate practice. You have the potential to close that gap.", "Every interaction is a chance to learn and grow. Adopt a curious mindset, and you will find your skills improving daily.", "This is not a final judgment, but a starting line. You have the potential to go far if you commit to the journey of self-improvement."
-    ],
-  },
-  hi: {
-    high: [
-        "आपकी प्रतिक्रियाएं सामाजिक और भावनात्मक कौशल का एक अच्छी तरह से विकसित सूट दर्शाती हैं, जो आत्मविश्वास और शालीनता के साथ विविध और जटिल सामाजिक वातावरण को नेविगेट करने के लिए एक स्वाभाविक योग्यता का सुझाव देती हैं।", "मूल्यांकन आपके पारस्परिक कौशल के मजबूत सेट पर प्रकाश डालता है, जो आपको एक अनुकूलनीय और प्रभावी व्यक्ति के रूप में स्थापित करता है जो विभिन्न सामाजिक और व्यावसायिक सेटिंग्स में कामयाब होने की संभावना है।", "आपके पास कई गुण हैं जो आपको विविध सामाजिक संदर्भों में अत्यधिक प्रभावी बनाते हैं। समझने, जुड़ने और अनुकूलन करने की आपकी क्षमता एक महत्वपूर्ण ताकत है।", "आपके कौशल का संयोजन नेतृत्व और प्रभाव के लिए एक मजबूत क्षमता का सुझाव देता है। आप अंतर्दृष्टि और अखंडता के साथ सूक्ष्म सामाजिक गतिशीलता को संभालने के लिए अच्छी तरह से सुसज्जित हैं।", "यह मूल्यांकन सामाजिक और भावनात्मक बुद्धिमत्ता की एक उच्च डिग्री का खुलासा करता है, यह दर्शाता है कि आप मजबूत पारस्परिक क्षमताओं की आवश्यकता वाली भूमिकाओं में सफलता के लिए तैयार हैं।", "आप सामाजिक नेविगेशन में एक स्वाभाविक प्रवीणता प्रदर्शित करते हैं। सहानुभूति, लचीलापन और संचार में आपके कौशल सहयोगी वातावरण में भविष्य की सफलता के मजबूत संकेतक हैं।", "आपके उत्तरों का पैटर्न सामाजिक गतिशीलता की एक परिष्कृत समझ की ओर इशारा करता है। आप एक ऐसे व्यक्ति होने की संभावना है जो आसानी से मजबूत, विश्वास-आधारित संबंध बनाता है।", "आपके परिणाम आत्म-जागरूकता और सामाजिक धारणा का एक उल्लेखनीय संतुलन दिखाते हैं, ऐसे गुण जो आज की परस्पर जुड़ी दुनिया में पनपने के लिए आवश्यक हैं।", "आप लचीलापन और मिलनसारिता का एक शक्तिशाली संयोजन प्रदर्शित करते हैं, यह सुझाव देते हुए कि आप न केवल नेटवर्क बना सकते हैं बल्कि चुनौतियों के माध्यम से उन्हें बनाए भी रख सकते हैं।", "यह मूल्यांकन व्यक्तिगत और पारस्परिक क्षमता के उच्च स्तर को दर्शाता है। आप सामाजिक स्थितियों की एक विस्तृत श्रृंखला में प्रभावी ढंग से और सार्थक रूप से संलग्न होने के लिए अच्छी तरह से तैयार हैं।", "सामाजिक अनुभूति के लिए आपकी योग्यता एक स्पष्ट ताकत है, जो आपको स्थितियों की सटीक व्याख्या करने और एक ऐसे तरीके से प्रतिक्रिया करने की अनुमति देती है जो प्रभावी और उचित दोनों है।", "आपके द्वारा प्रदर्शित किए गए गुण एक ऐसे व्यक्ति की पहचान हैं जो न केवल सामाजिक रूप से निपुण है, बल्कि वास्तव में दूसरों के साथ जुड़ता है, सकारात्मक और उत्पादक बातचीत को बढ़ावा देता है।", "आपका उच्च स्कोर तालमेल और विश्वास बनाने की एक स्वाभाविक क्षमता का सुझाव देता है, जो आपको किसी भी टीम या समुदाय में एक मूल्यवान संपत्ति बनाता है।", "आपके पास न केवल सफल होने के लिए बल्कि विभिन्न सामाजिक और व्यावसायिक परिदृश्यों में दूसरों को सशक्त बनाने के लिए भी पारस्परिक टूलकिट है।", "आपके परिणाम एक ऐसे व्यक्ति को इंगित करते हैं जो विपत्ति के सामने लचीला और अपनी बातचीत में विनम्र दोनों है - व्यक्तिगत और व्यावसायिक विकास के लिए एक शक्तिशाली संयोजन।", "आपके पास अपने पर्यावरण और उसमें मौजूद लोगों की गहरी समझ है, जो आपको इष्टतम परिणामों के लिए अपने दृष्टिकोण को अनुकूलित करने की अनुमति देता है।", "मूल्यांकन से पता चलता है कि आप एक आत्मविश्वासी और प्रभावी संचारक हैं, जो सामाजिक जटिलताओं को आसानी से नेविगेट करने में सक्षम हैं।", "कई लक्षणों में आपके मजबूत परिणाम एक अच्छी तरह से गोल और भावनात्मक रूप से बुद्धिमान व्यक्ति का सुझाव देते हैं, जो सकारात्मक प्रभाव डालने में सक्षम है।", "आप में दूसरों को समझने की एक उल्लेखनीय क्षमता है, जो आपके लचीलेपन के साथ मिलकर, आपको एक दुर्जेय और सम्मानित व्यक्ति बनाती है।", "इस मूल्यांकन से मिली अंतर्दृष्टि इस बात की पुष्टि करती है कि आपके पास सकारात्मक संबंधों से समृद्ध, एक सफल और पूर्ण जीवन बनाने के लिए एक मजबूत नींव है।"
-    ],
-    medium: [
-        "आपके पास सामाजिक कौशल का एक ठोस आधार है, जिसमें भविष्य के विकास और सुधार के लिए स्पष्ट क्षेत्रों की पहचान की गई है। केंद्रित प्रयास से, आप अपनी प्रभावशीलता को काफी बढ़ा सकते हैं।", "आप कई सामाजिक परिस्थितियों के लिए अच्छी तरह से सुसज्जित हैं और विशिष्ट कौशल विकसित करके और भी अधिक प्रभावी बन सकते हैं। यह मूल्यांकन आपके विकास के लिए एक रोडमैप प्रदान करता है।", "आपके पास कुछ बहुत अच्छे गुण हैं और विविध सामाजिक क्षेत्रों में उत्कृष्टता प्राप्त करने के लिए दूसरों में सुधार कर सकते हैं। इस होनहार यात्रा पर आपकी आत्म-जागरूकता पहला कदम है।", "यह मूल्यांकन ताकत और विकास के अवसरों का एक अच्छा संतुलन दिखाता है। पहचाने गए क्षेत्रों में अपने कौशल को निखारने से आपकी पूरी क्षमता का पता चलेगा।", "आपके परिणाम महारत की क्षमता के साथ पारस्परिक कौशल का एक ठोस सेट इंगित करते हैं। आत्म-सुधार पर निरंतर ध्यान देने से महत्वपूर्ण पुरस्कार मिलेंगे।", "आपके पास सामाजिक और भावनात्मक जागरूकता की एक आशाजनक नींव है। विकास के लिए विशिष्ट क्षेत्रों को लक्षित करने से आपके व्यक्तिगत और व्यावसायिक विकास में तेजी आएगी।", "मूल्यांकन आपकी कई शक्तियों पर प्रकाश डालता है, साथ ही उन कौशलों की ओर भी इशारा करता है जिन्हें परिष्कृत किया जा सकता है। सार्थक आत्म-विकास के लिए यह एक शानदार स्थिति है।", "आपके पास सामाजिक कौशल का एक सराहनीय टूलकिट है। इनमें से कुछ उपकरणों को चमकाने से, आप विभिन्न सेटिंग्स में अपने प्रभाव और आत्मविश्वास को बढ़ा सकते हैं।", "आपकी प्रतिक्रियाएं स्थापित कौशल और विकास के लिए परिपक्व क्षेत्रों का एक स्वस्थ मिश्रण दिखाती हैं। अपने पहले से ही मजबूत आधार पर निर्माण करने के इस अवसर को गले लगाओ।", "आप एक सकारात्मक प्रक्षेपवक्र पर हैं। यह मूल्यांकन आपके अच्छे गुणों को असाधारण गुणों में बदलने के लिए एक मूल्यवान मार्गदर्शक के रूप में काम करना चाहिए।", "आपका वर्तमान कौशल सेट एक शानदार लॉन्चिंग पैड है। प्रमुख क्षेत्रों में रणनीतिक प्रयास के साथ, आप जटिल सामाजिक वातावरण को नेविगेट करने की अपनी क्षमता को बढ़ा सकते हैं।", "यह मूल्यांकन बताता है कि आप अनुकूलनीय और जागरूक हैं, और भी अधिक प्रभावशाली बनने की क्षमता के साथ। अपनी क्षमता को सिद्ध शक्ति में बदलने पर ध्यान केंद्रित करें।", "आपको सामाजिक गतिशीलता की अच्छी समझ है। अभ्यास और प्रतिबिंब के माध्यम से इस समझ को गहरा करना अत्यधिक फायदेमंद होगा।", "परिणाम एक सक्षम व्यक्ति की ओर इशारा करते हैं जिसके पास और भी अधिक उपलब्धि का स्पष्ट मार्ग है। बढ़ने की आपकी इच्छा आपकी सबसे बड़ी संपत्ति है।", "आपके पास कई मूल्यवान गुण हैं। अगला कदम जानबूझकर उन कौशलों को विकसित करना है जो आपके पारस्परिक प्रोफाइल को पूरा करेंगे।", "यह एक मजबूत प्रारंभिक बिंदु है। यहां उजागर विकास के अवसरों पर ध्यान केंद्रित करके, आप सामाजिक कौशल का एक सही मायने में प्रभावशाली सेट बना सकते हैं।", "आपका मूल्यांकन दर्शाता है कि आप कई क्षेत्रों में पहले से ही प्रभावी हैं। विकास के लिए एक केंद्रित दृष्टिकोण आपको किसी भी सामाजिक या व्यावसायिक संदर्भ में एक असाधारण बना देगा।", "आपके पास अंतर्ज्ञान और व्यावहारिक कौशल का एक अच्छा मिश्रण है। विशिष्ट दक्षताओं को मजबूत करने से आप अपनी बातचीत में और भी अधिक सफल होंगे।", "आपके पास जो गुण हैं वे मूल्यवान हैं। अब उन पर निर्माण करने, अपनी क्षमता को निर्विवाद विशेषज्ञता में बदलने का सही समय है।", "आपके परिणाम उत्साहजनक हैं, जो एक ऐसे व्यक्ति को दिखाते हैं जो आत्म-जागरूक और सक्षम है। व्यक्तिगत महारत की ओर अपनी यात्रा का मार्गदर्शन करने के लिए इन अंतर्दृष्टि का उपयोग करें।"
-    ],
-    low: [
-        "यह मूल्यांकन आपके लिए स्थितियों को अधिक प्रभावी ढंग से और आत्मविश्वास से नेविगेट करने के लिए अपने सामाजिक कौशल को विकसित करने के महत्वपूर्ण अवसर प्रकट करता है। हजार मील की यात्रा एक कदम से शुरू होती है।", "अपने सामाजिक और भावनात्मक जागरूकता के निर्माण पर ध्यान केंद्रित करना आपके विकास की कुंजी होगी। आपके पास खोजे जाने की प्रतीक्षा में अप्रयुक्त क्षमता है।", "आपके पास बहुत अधिक क्षमता है, लेकिन आगे एक यात्रा है। अपने विविध सामाजिक कौशल पर काम करने के लिए प्रतिबद्ध होना एक पुरस्कृत प्रयास होगा।", "परिणाम बताते हैं कि पारस्परिक कौशल पर एक समर्पित ध्यान अत्यधिक फायदेमंद होगा। हर विशेषज्ञ कभी एक नौसिखिया था, और आपकी विकास यात्रा अब शुरू होती है।", "इस मूल्यांकन को एक शक्तिशाली व्यक्तिगत विकास पथ के प्रारंभिक बिंदु के रूप में देखा जाना चाहिए। मूलभूत सामाजिक कौशल का निर्माण आपके लिए कई नए दरवाजे खोलेगा।", "सामाजिक गतिशीलता की अपनी समझ को बढ़ाने का एक स्पष्ट अवसर है। इस चुनौती को स्वीकार करने से महत्वपूर्ण व्यक्तिगत और व्यावसायिक पुरस्कार मिलेंगे।", "आपकी क्षमता स्पष्ट है, लेकिन इसके लिए खेती की आवश्यकता है। अपने सामाजिक और भावनात्मक कौशल को बेहतर बनाने का एक सचेत प्रयास परिवर्तनकारी होगा।", "यह आपके पारस्परिक टूलकिट को जमीन से ऊपर बनाने का एक मूल्यवान अवसर है। समर्पण के साथ, आप उल्लेखनीय वृद्धि प्राप्त कर सकते हैं।", "सामाजिक महारत का मार्ग एक मैराथन है, स्प्रिंट नहीं। अपनी आत्मविश्वास और क्षमता के निर्माण में पहले महत्वपूर्ण कदम उठाने के लिए इन अंतर्दृष्टि का उपयोग करें।", "यह मूल्यांकन मूलभूत विकास के लिए प्रमुख क्षेत्रों पर प्रकाश डालता है। नए सामाजिक कौशल सीखने और अभ्यास करने की प्रतिबद्धता आपके लिए एक गेम-चेंजर होगी।", "जबकि जाने के लिए एक रास्ता है, इस बारे में आपकी जागरूकता सबसे महत्वपूर्ण पहला कदम है। आप इस क्षेत्र में महत्वपूर्ण रूप से बढ़ने की क्षमता रखते हैं।", "इसे एक रोमांचक चुनौती के रूप में सोचें। मुख्य सामाजिक दक्षताओं पर ध्यान केंद्रित करके, आप मौलिक रूप से बदल सकते हैं कि आप दुनिया के साथ कैसे बातचीत करते हैं।", "अधिक सामाजिक प्रभावशीलता की ओर आपकी यात्रा आज से शुरू होती है। सीखने की प्रक्रिया को अपनाएं, और आप अपने जीवन में गहरे बदलाव देखेंगे।", "यह मूल्यांकन एक स्पष्ट नक्शा प्रदान करता है कि कहां से शुरू करें। सहानुभूति, संचार और लचीलेपन में कौशल का निर्माण आपके भविष्य के लिए एक मजबूत नींव तैयार करेगा।", "आपके पास एक खाली कैनवास है जिस पर आप अपने सामाजिक स्व की एक नई तस्वीर पेंट कर सकते हैं। यह पुनर्निवेश और विकास के लिए एक रोमांचक अवसर है।", "सबसे सफल लोग आजीवन सीखने वाले होते हैं। इसे अपने व्यक्तिगत विकास में एक नए और रोमांचक पाठ्यक्रम की शुरुआत के रूप में देखें।", "यह आपकी सबसे बड़ी संपत्ति में निवेश करने का समय है: आप स्वयं। इन मूलभूत कौशलों पर ध्यान केंद्रित करने से आपके शेष जीवन के लिए लाभांश का भुगतान होगा।", "आप जहां हैं और जहां आप होना चाहते हैं, उसके बीच की खाई को जानबूझकर अभ्यास द्वारा पाटा जाता है। आप उस खाई को पाटने की क्षमता रखते हैं।", "हर बातचीत सीखने और बढ़ने का एक मौका है। एक जिज्ञासु मानसिकता अपनाएं, और आप पाएंगे कि आपके कौशल दैनिक रूप से बेहतर हो रहे हैं।", "यह अंतिम निर्णय नहीं है, बल्कि एक शुरुआती रेखा है। यदि आप आत्म-सुधार की यात्रा के लिए प्रतिबद्ध हैं तो आपके पास बहुत दूर जाने की क्षमता है।"
-    ],
-  }
+/**
+ * Feedback for a single answer, looked up by its item score (getItemScore)
+ */
+export const getOptionFeedback = (
+  trait: Question['trait'],
+  optionScore: number,
+  lang: Language,
+  phraseId: number,
+  bank: QuestionBank = currentQuestionBank
+): string => getPhrase(bank.individualFeedback[trait]?.[optionScore]?.[lang], phraseId);
+
+/**
+ * Feedback for a trait score aggregated with the bank's rule (see aggregateTraitScores)
+ * Summed scores are brought back to the option scale before the lookup
+ */
+export const getIndividualFeedback = (
+  trait: Question['trait'],
+  score: number,
+  lang: Language,
+  phraseId: number,
+  bank: QuestionBank = currentQuestionBank
+): string => {
+  const optionScore = bank.scoring.traitScoreAggregation === 'sum' ? Math.round(score / bank.itemsPerTrait) : score;
+  return getOptionFeedback(trait, optionScore, lang, phraseId, bank);
 };
 
-export const getFinalFeedback = (score: number, lang: Language): string => {
-  let categoryKey: 'high' | 'medium' | 'low';
+type ScoredAnswer = Pick<StoredAnswer, 'trait' | 'score' | 'feedback' | 'feedbackPhraseId'>;
 
-  if (score >= 13) {
-    categoryKey = "high";
-  } else if (score >= 7) {
-    categoryKey = "medium";
-  } else {
-    categoryKey = "low";
+/**
+ * The phrase ID stored with an answer. Answers stored before phrase IDs existed
+ * are matched on their English feedback text, so old certificates keep their wording
+ */
+const getStoredPhraseId = (answer: ScoredAnswer, bank: QuestionBank): number => {
+  if (typeof answer.feedbackPhraseId === 'number') {
+    return answer.feedbackPhraseId;
   }
-  
-  const categoryFeedback = finalFeedbackMatrix[lang][categoryKey];
-  return categoryFeedback[Math.floor(Math.random() * categoryFeedback.length)];
+  const phrases = bank.individualFeedback[answer.trait]?.[answer.score]?.en ?? [];
+  return Math.max(0, phrases.indexOf(answer.feedback));
 };
 
-export const getFinalAssessment = (feedback: string, lang: Language): string => {
-  if (lang === 'hi') {
-      const feedbackHindi = "आपके पास सामाजिक कौशल का एक प्रशंसनीय सेट है। इनमें से कुछ कौशलों को निखारकर, आप विभिन्न परिस्थितियों में अपने प्रभाव और आत्मविश्वास को बढ़ा सकते हैं।";
-      return `यह मूल्यांकन आपके सामाजिक गुणों के बारे में बहुमूल्य जानकारी प्रदान करता है जो आपको एक उत्कृष्ट आनंदक बना सकते हैं। ${feedbackHindi} निरंतर आत्म-जागरूकता और आजीवन सीखने की प्रतिबद्धता निस्संदेह महत्वपूर्ण व्यक्तिगत और व्यावसायिक विकास को अनलॉक करेगी। यह प्रमाण पत्र इन सामाजिक कौशलों को विकसित करने में आपकी सक्रिय भागीदारी को मान्यता देता है।`;
+export type ScoreBand = 'high' | 'medium' | 'low';
+
+const getBand = (score: number, bands: { high: number; medium: number }): ScoreBand => {
+  if (score >= bands.high) {
+    return "high";
+  } else if (score >= bands.medium) {
+    return "medium";
   }
-  return `This assessment provides valuable insights into your pro-social qualities that can make you an excellent Anandak. ${feedback} A commitment to continuous self-awareness and lifelong learning will undoubtedly unlock significant personal and professional growth. This certificate recognizes your proactive engagement in developing these pro-social skills.`;
+  return "low";
+};
+
+export interface TraitScore {
+  trait: Question['trait'];
+  score: number;
+  maxScore: number;
+  // Shown as Developing / Proficient / Strong (see getTraitBands)
+  band: ScoreBand;
+  // Phrase for the trait's feedback: that of the trait's first drawn answer
+  feedbackPhraseId: number;
+}
+
+/**
+ * Highest trait score possible in a bank
+ */
+export const getTraitMaxScore = (bank: QuestionBank = currentQuestionBank): number =>
+  bank.scoring.traitScoreAggregation === 'sum' ? bank.scoreScale.max * bank.itemsPerTrait : bank.scoreScale.max;
+
+/**
+ * A trait's bands from the bank's scoring.traitBands, or else its score range
+ * split into equal thirds (on a 1-3 scale: 1 low, 2 medium, 3 high)
+ */
+export const getTraitBands = (trait: Question['trait'], bank: QuestionBank = currentQuestionBank): { high: number; medium: number } => {
+  const configured = bank.scoring.traitBands[trait];
+  if (configured) return configured;
+  const minScore = bank.scoring.traitScoreAggregation === 'sum' ? bank.scoreScale.min * bank.itemsPerTrait : bank.scoreScale.min;
+  const range = getTraitMaxScore(bank) - minScore;
+  return { medium: minScore + range / 3, high: minScore + (2 * range) / 3 };
+};
+
+/**
+ * Combines the answers drawn for each trait into one score per trait, in trait order
+ * 'mean' rounds to the nearest whole score; with one item per trait both rules give the item's score
+ */
+export const aggregateTraitScores = (
+  answers: ScoredAnswer[],
+  bank: QuestionBank = currentQuestionBank
+): TraitScore[] => {
+  const maxScore = getTraitMaxScore(bank);
+  return TRAITS.flatMap((trait) => {
+    const traitAnswers = answers.filter((answer) => answer.trait === trait);
+    if (traitAnswers.length === 0) return [];
+    const sum = traitAnswers.reduce((acc, answer) => acc + answer.score, 0);
+    const score = bank.scoring.traitScoreAggregation === 'sum' ? sum : Math.round(sum / traitAnswers.length);
+    return [{
+      trait,
+      score,
+      maxScore,
+      band: getBand(score, getTraitBands(trait, bank)),
+      feedbackPhraseId: getStoredPhraseId(traitAnswers[0], bank),
+    }];
+  });
+};
+
+/**
+ * The trait scores shown to participants (scoring.certificateTraits): on the
+ * certificate, its PDF and the results screen
+ */
+export const getCertificateTraitScores = (
+  answers: ScoredAnswer[],
+  bank: QuestionBank = currentQuestionBank
+): TraitScore[] =>
+  aggregateTraitScores(answers, bank).filter(({ trait }) => bank.scoring.certificateTraits.includes(trait));
+
+/**
+ * Whether the feedback for an option is shown as soon as it is picked (scoring.liveFeedbackTraits)
+ */
+export const hasLiveFeedback = (trait: Question['trait'], bank: QuestionBank = currentQuestionBank): boolean =>
+  bank.scoring.liveFeedbackTraits.includes(trait);
+
+/**
+ * The total the final feedback category is based on: the weighted sum of the
+ * trait scores counted in it (scoring.countedTraits and scoring.traitWeights),
+ * rounded to a whole number
+ */
+export const getTotalScore = (
+  answers: ScoredAnswer[],
+  bank: QuestionBank = currentQuestionBank
+): number => {
+  const { countedTraits, traitWeights } = bank.scoring;
+  const total = aggregateTraitScores(answers, bank)
+    .filter(({ trait }) => countedTraits.includes(trait))
+    .reduce((acc, { trait, score }) => acc + score * (traitWeights[trait] ?? 1), 0);
+  return Math.round(total);
+};
+
+export type FinalFeedbackCategory = ScoreBand;
+
+export const getFinalFeedbackCategory = (score: number, bank: QuestionBank = currentQuestionBank): FinalFeedbackCategory =>
+  getBand(score, bank.scoring.totalBands);
+
+/**
+ * Phrase ID for an attempt's final feedback
+ */
+export const getFinalFeedbackPhraseId = (score: number, seed: string, bank: QuestionBank = currentQuestionBank): number => {
+  const category = getFinalFeedbackCategory(score, bank);
+  return choosePhraseId(seed, `final:${category}`, bank.finalFeedback.en[category]?.length ?? 0);
+};
+
+export const getFinalFeedback = (score: number, lang: Language, phraseId: number, bank: QuestionBank = currentQuestionBank): string => {
+  return getPhrase(bank.finalFeedback[lang][getFinalFeedbackCategory(score, bank)], phraseId);
+};
+
+export const getFinalAssessment = (feedback: string, lang: Language, bank: QuestionBank = currentQuestionBank): string => {
+  return bank.finalAssessmentTemplate[lang].replace('{feedback}', feedback);
 };
 
 
@@ -323,6 +218,10 @@ export const translations = {
             namePlaceholder: "e.g. John Doe",
             nameHiLabel: "Full Name (Hindi)",
             nameHiPlaceholder: "e.g. John Doe",
+            nameHiCandidatesLabel: "Other spellings",
+            nameHiKeyboardToggle: "Show or hide the Hindi keyboard",
+            nameHiKeyboardSpace: "Space",
+            nameHiKeyboardBackspace: "Delete last character",
             ageLabel: "Age",
             agePlaceholder: "e.g. 25",
             genderLabel: "Gender",
@@ -333,6 +232,23 @@ export const translations = {
             genderPreferNotToSay: "Prefer not to say",
             mobileLabel: "Mobile Number",
             mobilePlaceholder: "e.g. 9876543210",
+            otpSendButton: "Send verification code",
+            otpResendButton: "Resend",
+            otpResendIn: (seconds: number) => `Resend in ${seconds}s`,
+            otpCodePlaceholder: "6-digit code",
+            otpVerifyButton: "Verify",
+            otpVerified: "Mobile number verified",
+            otpSent: "We have sent a 6-digit code by SMS. Enter it above.",
+            otpWait: "Please wait a little before requesting another code.",
+            otpIncorrect: (remaining: number) => `Incorrect code. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left.`,
+            otpExpired: "This code has expired. Please request a new one.",
+            otpUnavailable: "We could not send a code right now. Please try again in a little while.",
+            otpOffline: "You are offline, so we cannot send a code right now.",
+            otpRequired: "Please verify your mobile number with the code we send you.",
+            unverifiedTitle: "Your mobile number is not verified",
+            unverifiedDescription: "You can take the assessment and get your certificate, but this attempt will not count for volunteer selection. To make it count, go back and verify your number once codes can be sent.",
+            unverifiedBackButton: "Go Back and Verify",
+            unverifiedContinueButton: "Continue Without Verifying",
             emailLabel: "Email Address",
             emailPlaceholder: "e.g. john.doe@example.com",
             optionalLabel: "Optional",
@@ -345,6 +261,17 @@ export const translations = {
             districtSelectStateFirst: "Select a state first",
             districtSearchPlaceholder: "Search district...",
             districtNoResult: "No district found.",
+            blockLabel: "Block/Tehsil",
+            blockPlaceholder: "Select block",
+            blockSearchPlaceholder: "Search block...",
+            blockNoResult: "No block found.",
+            blockTypeName: "Type the name of your block.",
+            blockUseTyped: (name: string) => `Use "${name}"`,
+            villageLabel: "Gram Panchayat/Village",
+            villagePlaceholder: "Select or type village",
+            villageSelectBlockFirst: "Select a block first",
+            villageSearchPlaceholder: "Search or type village...",
+            villageUseTyped: (name: string) => `Use "${name}"`,
             submitButton: "Start Assessment"
         },
         assessment: {
@@ -352,12 +279,21 @@ export const translations = {
             description: "Read each scenario carefully and choose the option that best describes your likely response.",
             instructions: {
                 title: "Survey Instructions",
-                text: "Welcome to the volunteer selection system of Rajya Anand Sansthan. Six real-life situations are presented below, each reflecting how you might feel and act in different circumstances. For each situation, you will find three response alternatives. Please choose the one alternative that resonates most with you. There are no right or wrong answers—different people respond differently to similar experiences. Select the response that feels most authentic and appropriate to you. This assessment will take approximately five minutes to complete."
+                text: (count: number) => `Welcome to the volunteer selection system of Rajya Anand Sansthan. ${count} real-life situations are presented below, each reflecting how you might feel and act in different circumstances. For each situation, you will find several response alternatives. Please choose the one alternative that resonates most with you. There are no right or wrong answers—different people respond differently to similar experiences. Select the response that feels most authentic and appropriate to you. This assessment will take about a minute per situation to complete.`
             },
             progress: "Progress: Question",
             of: "of",
             nextButton: "Next Question",
+            previousButton: "Previous",
+            reviewButton: "Review Answers",
             finishButton: "Finish Assessment",
+            review: {
+                title: "Review Your Answers",
+                description: "Check the option you chose for each scenario. You can change any answer before finishing.",
+                questionLabel: (n: number) => `Scenario ${n}`,
+                editButton: "Change",
+            },
+            beginButton: "Begin Assessment",
             toast: {
                 title: "Selection Required",
                 description: "Please select an answer before proceeding."
@@ -368,7 +304,23 @@ export const translations = {
             description: (name: string) => `Thank you for participating, ${name}.`,
             insightTitle: "Your Insight",
             certificateMessage: "A detailed certificate has been generated based on your results.",
-            certificateButton: "View & Download Certificate"
+            certificateButton: "View & Download Certificate",
+            attemptNotice: (n: number) => {
+                const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th"
+                return `Welcome back! This is your ${n}${suffix} attempt. Earlier results stay on record; you can find them with "Find My Certificate".`
+            },
+            traitProfileTitle: "Your Trait Profile",
+            percentile: (p: number, byGender: boolean) => {
+                const suffix = p % 100 >= 11 && p % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][p % 10] ?? "th"
+                return `${p}${suffix} percentile among participants of your age group${byGender ? " and gender" : ""}`
+            },
+            percentileUnavailable: "Percentiles will appear once enough participants of your age group have taken the assessment.",
+            certificateSaveFailedTitle: "Could not save certificate",
+            certificateSaveFailedDescription: "There was an issue preparing your certificate data.",
+            savedOfflineTitle: "Saved offline",
+            savedOfflineDescription: "No connection right now. Your results are saved on this device and will upload automatically when the network returns.",
+            submissionFailedTitle: "Data Submission Failed",
+            submissionFailedDescription: (reason: string) => `Your assessment results could not be saved. Reason: ${reason}`,
         },
         cert: {
             certTitle: "Certificate of Assessment",
@@ -379,11 +331,70 @@ export const translations = {
             issuingAuthority: "Issuing Authority",
             dateOfIssue: "Date of Issue",
             score: "Score:",
+            certificateNumber: "Certificate No.",
+            scanToVerify: "Scan to verify",
             traits: {
                 'Gratitude': 'Gratitude', 'Resilience': 'Resilience', 'Empathy': 'Empathy',
                 'Sociability': 'Sociability', 'Social Cognition': 'Social Cognition', 'Courage': 'Courage',
             },
-            finalAssessment: (text: string) => text,
+            bands: { high: "Strong", medium: "Proficient", low: "Developing" },
+        },
+        verify: {
+            title: "Certificate Verification",
+            validTitle: "Genuine certificate",
+            validDescription: "This certificate was issued by Rajya Anand Sansthan and matches our records.",
+            notFoundTitle: "Certificate not found",
+            notFoundDescription: (id: string) => `No certificate with number "${id}" exists in our records. Please check the number printed on the certificate.`,
+            certificateNumber: "Certificate No.",
+            name: "Name",
+            district: "District",
+            dateOfIssue: "Date of Issue",
+            traitScores: "Trait Scores",
+            totalScore: "Total Score",
+        },
+        findCertificate: {
+            title: "Find My Certificate",
+            description: "Lost your certificate after clearing your browser or changing phones? Find it with the mobile number you used for the assessment.",
+            mobileStepTitle: "Step 1: Mobile number",
+            verifyStepTitle: "Step 2: Verify it's you",
+            verifyDescription: (mobile: string) => `We will send a one-time code to ${mobile}. Only the owner of this number can see its certificates.`,
+            searching: "Finding your certificates...",
+            countrySearchPlaceholder: "Search country...",
+            countryNoResult: "No country found.",
+            continueButton: "Continue",
+            backButton: "Back",
+            searchButton: "Find Certificates",
+            resultsTitle: "Your Past Attempts",
+            noResults: "No certificates were found for this mobile number.",
+            attemptLabel: (n: number) => `Attempt ${n}`,
+            scoreLabel: "Total score",
+            viewButton: "View Certificate",
+            homeButton: "Back to Home",
+            errorTitle: "Search Failed",
+        },
+        resume: {
+            title: "Continue where you left off?",
+            description: (name: string, answered: number, total: number) => `${name}, you answered ${answered} of ${total} questions before the assessment was interrupted. You can continue from the next question or start over.`,
+            continueButton: "Continue",
+            startOverButton: "Start Over",
+        },
+        offline: {
+            pendingUploads: (n: number) => n === 1 ? "1 pending upload" : `${n} pending uploads`,
+            offlineStatus: "Offline",
+            syncButton: "Upload now",
+            syncedToast: (n: number) => n === 1 ? "1 saved assessment was uploaded." : `${n} saved assessments were uploaded.`,
+            rejectedUploads: (n: number) => n === 1 ? "1 upload rejected" : `${n} uploads rejected`,
+            rejectedDescription: "The server refused these assessments, so they were not saved. Note the reason before dismissing them.",
+            dismissButton: "Dismiss",
+        },
+        retake: {
+            title: "This attempt will not count",
+            maxAttempts: (max: number) => `You have already taken the assessment ${max} times, the most that count for volunteer selection. You can take it again for practice, but the result will not count.`,
+            cooldown: (date: string) => `Your last attempt was too recent. Attempts before ${date} do not count for volunteer selection. You can take it now for practice, but the result will not count.`,
+            backButton: "Go Back",
+            continueButton: "Take It Anyway",
+            notCounted: "This attempt was recorded for practice and does not count for volunteer selection.",
+            notCountedUnverified: "This attempt was recorded, but it does not count for volunteer selection because the mobile number was not verified.",
         }
     },
     hi: {
@@ -394,6 +405,10 @@ export const translations = {
             namePlaceholder: "उदा. जॉन डो",
             nameHiLabel: "पूरा नाम (हिन्दी)",
             nameHiPlaceholder: "उदा. जॉन डो",
+            nameHiCandidatesLabel: "अन्य वर्तनी",
+            nameHiKeyboardToggle: "हिन्दी कीबोर्ड दिखाएँ या छिपाएँ",
+            nameHiKeyboardSpace: "स्पेस",
+            nameHiKeyboardBackspace: "अंतिम अक्षर मिटाएँ",
             ageLabel: "आयु",
             agePlaceholder: "उदा. 25",
             genderLabel: "लिंग",
@@ -404,6 +419,23 @@ export const translations = {
             genderPreferNotToSay: "बताना नहीं चाहते",
             mobileLabel: "मोबाइल नंबर",
             mobilePlaceholder: "उदा. 9876543210",
+            otpSendButton: "सत्यापन कोड भेजें",
+            otpResendButton: "फिर से भेजें",
+            otpResendIn: (seconds: number) => `${seconds} सेकंड में फिर से भेजें`,
+            otpCodePlaceholder: "6 अंकों का कोड",
+            otpVerifyButton: "सत्यापित करें",
+            otpVerified: "मोबाइल नंबर सत्यापित",
+            otpSent: "हमने SMS से 6 अंकों का कोड भेजा है। उसे ऊपर दर्ज करें।",
+            otpWait: "दूसरा कोड मांगने से पहले कृपया थोड़ी प्रतीक्षा करें।",
+            otpIncorrect: (remaining: number) => `गलत कोड। ${remaining} प्रयास शेष।`,
+            otpExpired: "इस कोड की समय सीमा समाप्त हो गई है। कृपया नया कोड मांगें।",
+            otpUnavailable: "अभी कोड नहीं भेजा जा सका। कृपया थोड़ी देर बाद फिर से प्रयास करें।",
+            otpOffline: "आप ऑफ़लाइन हैं, इसलिए अभी कोड नहीं भेजा जा सकता।",
+            otpRequired: "कृपया हमारे भेजे गए कोड से अपना मोबाइल नंबर सत्यापित करें।",
+            unverifiedTitle: "आपका मोबाइल नंबर सत्यापित नहीं है",
+            unverifiedDescription: "आप मूल्यांकन दे सकते हैं और प्रमाण पत्र पा सकते हैं, लेकिन यह प्रयास स्वयंसेवक चयन के लिए नहीं गिना जाएगा। इसे गिनवाने के लिए वापस जाएं और कोड भेजे जा सकने पर अपना नंबर सत्यापित करें।",
+            unverifiedBackButton: "वापस जाएं और सत्यापित करें",
+            unverifiedContinueButton: "सत्यापन के बिना आगे बढ़ें",
             emailLabel: "ईमेल पता",
             emailPlaceholder: "उदा. john.doe@example.com",
             optionalLabel: "वैकल्पिक",
@@ -416,6 +448,17 @@ export const translations = {
             districtSelectStateFirst: "पहले एक राज्य चुनें",
             districtSearchPlaceholder: "जिला खोजें...",
             districtNoResult: "कोई जिला नहीं मिला।",
+            blockLabel: "विकासखंड/तहसील",
+            blockPlaceholder: "विकासखंड चुनें",
+            blockSearchPlaceholder: "विकासखंड खोजें...",
+            blockNoResult: "कोई विकासखंड नहीं मिला।",
+            blockTypeName: "अपने विकासखंड का नाम लिखें।",
+            blockUseTyped: (name: string) => `"${name}" उपयोग करें`,
+            villageLabel: "ग्राम पंचायत/गाँव",
+            villagePlaceholder: "गाँव चुनें या लिखें",
+            villageSelectBlockFirst: "पहले एक विकासखंड चुनें",
+            villageSearchPlaceholder: "गाँव खोजें या लिखें...",
+            villageUseTyped: (name: string) => `"${name}" उपयोग करें`,
             submitButton: "मूल्यांकन शुरू करें"
         },
         assessment: {
@@ -423,12 +466,21 @@ export const translations = {
             description: "प्रत्येक परिदृश्य को ध्यान से पढ़ें और उस विकल्प को चुनें जो आपकी संभावित प्रतिक्रिया का सबसे अच्छा वर्णन करता है।",
             instructions: {
                 title: "सर्वेक्षण निर्देश",
-                text: "राज्य आनंद संस्थान की स्वयंसेवक चयन प्रणाली में आपका स्वागत है। यहाँ छह वास्तविक जीवन की स्थितियाँ प्रस्तुत की गई हैं जो विभिन्न परिस्थितियों में आपके भावनात्मक और व्यावहारिक प्रतिक्रिया को दर्शाती हैं। प्रत्येक स्थिति के लिए तीन विकल्प दिए गए हैं। कृपया वह एक विकल्प चुनें जो आपसे सबसे अधिक मेल खाता हो। यहाँ कोई सही या गलत उत्तर नहीं हैं—विभिन्न लोग समान अनुभवों पर अलग-अलग तरीके से प्रतिक्रिया करते हैं। वह विकल्प चुनें जो आपको सबसे प्रामाणिक और उपयुक्त लगे। यह मूल्यांकन पूरा होने में लगभग पांच मिनट का समय लगेगा।"
+                text: (count: number) => `राज्य आनंद संस्थान की स्वयंसेवक चयन प्रणाली में आपका स्वागत है। यहाँ ${count} वास्तविक जीवन की स्थितियाँ प्रस्तुत की गई हैं जो विभिन्न परिस्थितियों में आपके भावनात्मक और व्यावहारिक प्रतिक्रिया को दर्शाती हैं। प्रत्येक स्थिति के लिए कुछ विकल्प दिए गए हैं। कृपया वह एक विकल्प चुनें जो आपसे सबसे अधिक मेल खाता हो। यहाँ कोई सही या गलत उत्तर नहीं हैं—विभिन्न लोग समान अनुभवों पर अलग-अलग तरीके से प्रतिक्रिया करते हैं। वह विकल्प चुनें जो आपको सबसे प्रामाणिक और उपयुक्त लगे। इस मूल्यांकन में प्रत्येक स्थिति के लिए लगभग एक मिनट का समय लगेगा।`
             },
             progress: "प्रगति: प्रश्न",
             of: "में से",
             nextButton: "अगला प्रश्न",
+            previousButton: "पिछला",
+            reviewButton: "उत्तरों की समीक्षा करें",
             finishButton: "मूल्यांकन समाप्त करें",
+            review: {
+                title: "अपने उत्तरों की समीक्षा करें",
+                description: "प्रत्येक परिदृश्य के लिए चुना गया विकल्प जांचें। समाप्त करने से पहले आप कोई भी उत्तर बदल सकते हैं।",
+                questionLabel: (n: number) => `परिदृश्य ${n}`,
+                editButton: "बदलें",
+            },
+            beginButton: "मूल्यांकन शुरू करें",
             toast: {
                 title: "चयन आवश्यक है",
                 description: "कृपया आगे बढ़ने से पहले एक उत्तर चुनें।"
@@ -439,7 +491,20 @@ export const translations = {
             description: (name: string) => `भाग लेने के लिए धन्यवाद, ${name}।`,
             insightTitle: "आपकी अंतर्दृष्टि",
             certificateMessage: "आपके परिणामों के आधार पर एक विस्तृत प्रमाण पत्र तैयार किया गया है।",
-            certificateButton: "प्रमाणपत्र देखें और डाउनलोड करें"
+            certificateButton: "प्रमाणपत्र देखें और डाउनलोड करें",
+            attemptNotice: (n: number) => {
+                const ordinal = ({ 2: "दूसरा", 3: "तीसरा", 4: "चौथा", 6: "छठा" } as Record<number, string>)[n] ?? `${n}वाँ`
+                return `फिर से स्वागत है! यह आपका ${ordinal} प्रयास है। पिछले परिणाम भी सुरक्षित हैं; उन्हें "मेरा प्रमाण पत्र खोजें" से देखा जा सकता है।`
+            },
+            traitProfileTitle: "आपकी गुण प्रोफ़ाइल",
+            percentile: (p: number, byGender: boolean) => `आपके आयु वर्ग${byGender ? " और लिंग" : ""} के प्रतिभागियों में ${p}वाँ प्रतिशतक`,
+            percentileUnavailable: "आपके आयु वर्ग के पर्याप्त प्रतिभागियों द्वारा मूल्यांकन पूरा करने के बाद प्रतिशतक दिखाई देंगे।",
+            certificateSaveFailedTitle: "प्रमाण पत्र सहेजा नहीं जा सका",
+            certificateSaveFailedDescription: "आपके प्रमाण पत्र का डेटा तैयार करने में समस्या हुई।",
+            savedOfflineTitle: "ऑफ़लाइन सहेजा गया",
+            savedOfflineDescription: "अभी कोई कनेक्शन नहीं है। आपके परिणाम इस डिवाइस पर सहेजे गए हैं और नेटवर्क लौटने पर अपने आप अपलोड हो जाएंगे।",
+            submissionFailedTitle: "डेटा जमा नहीं हो सका",
+            submissionFailedDescription: (reason: string) => `आपके मूल्यांकन परिणाम सहेजे नहीं जा सके। कारण: ${reason}`,
         },
         cert: {
             certTitle: "मूल्यांकन प्रमाण पत्र",
@@ -450,11 +515,70 @@ export const translations = {
             issuingAuthority: "जारी करने वाला प्राधिकरण",
             dateOfIssue: "जारी करने की तिथि",
             score: "स्कोर:",
+            certificateNumber: "प्रमाण पत्र क्रमांक",
+            scanToVerify: "सत्यापन के लिए स्कैन करें",
             traits: {
                 'Gratitude': 'कृतज्ञता', 'Resilience': 'लचीलापन', 'Empathy': 'सहानुभूति',
                 'Sociability': 'मिलनसारी', 'Social Cognition': 'सामाजिक अनुभूति', 'Courage': 'साहस',
             },
-            finalAssessment: (text: string) => getFinalAssessment(text, 'hi'),
+            bands: { high: "सशक्त", medium: "प्रवीण", low: "विकासशील" },
+        },
+        verify: {
+            title: "प्रमाण पत्र सत्यापन",
+            validTitle: "वास्तविक प्रमाण पत्र",
+            validDescription: "यह प्रमाण पत्र राज्य आनंद संस्थान द्वारा जारी किया गया है और हमारे रिकॉर्ड से मेल खाता है।",
+            notFoundTitle: "प्रमाण पत्र नहीं मिला",
+            notFoundDescription: (id: string) => `हमारे रिकॉर्ड में "${id}" क्रमांक का कोई प्रमाण पत्र नहीं है। कृपया प्रमाण पत्र पर मुद्रित क्रमांक जांचें।`,
+            certificateNumber: "प्रमाण पत्र क्रमांक",
+            name: "नाम",
+            district: "जिला",
+            dateOfIssue: "जारी करने की तिथि",
+            traitScores: "गुण स्कोर",
+            totalScore: "कुल स्कोर",
+        },
+        findCertificate: {
+            title: "मेरा प्रमाण पत्र खोजें",
+            description: "ब्राउज़र साफ़ करने या फ़ोन बदलने के बाद प्रमाण पत्र खो गया? मूल्यांकन में उपयोग किए गए मोबाइल नंबर से इसे खोजें।",
+            mobileStepTitle: "चरण 1: मोबाइल नंबर",
+            verifyStepTitle: "चरण 2: अपनी पहचान सत्यापित करें",
+            verifyDescription: (mobile: string) => `हम ${mobile} पर एक वन-टाइम कोड भेजेंगे। केवल इस नंबर का मालिक ही इसके प्रमाण पत्र देख सकता है।`,
+            searching: "आपके प्रमाण पत्र खोजे जा रहे हैं...",
+            countrySearchPlaceholder: "देश खोजें...",
+            countryNoResult: "कोई देश नहीं मिला।",
+            continueButton: "आगे बढ़ें",
+            backButton: "पीछे",
+            searchButton: "प्रमाण पत्र खोजें",
+            resultsTitle: "आपके पिछले प्रयास",
+            noResults: "इस मोबाइल नंबर के लिए कोई प्रमाण पत्र नहीं मिला।",
+            attemptLabel: (n: number) => `प्रयास ${n}`,
+            scoreLabel: "कुल स्कोर",
+            viewButton: "प्रमाण पत्र देखें",
+            homeButton: "होम पर वापस जाएं",
+            errorTitle: "खोज विफल",
+        },
+        resume: {
+            title: "जहाँ छोड़ा था वहीं से जारी रखें?",
+            description: (name: string, answered: number, total: number) => `${name}, मूल्यांकन बाधित होने से पहले आपने ${total} में से ${answered} प्रश्नों के उत्तर दिए थे। आप अगले प्रश्न से जारी रख सकते हैं या फिर से शुरू कर सकते हैं।`,
+            continueButton: "जारी रखें",
+            startOverButton: "फिर से शुरू करें",
+        },
+        offline: {
+            pendingUploads: (n: number) => `${n} अपलोड बाकी`,
+            offlineStatus: "ऑफ़लाइन",
+            syncButton: "अभी अपलोड करें",
+            syncedToast: (n: number) => `${n} सहेजे गए मूल्यांकन अपलोड किए गए।`,
+            rejectedUploads: (n: number) => `${n} अपलोड अस्वीकृत`,
+            rejectedDescription: "सर्वर ने इन मूल्यांकनों को अस्वीकार कर दिया, इसलिए ये सहेजे नहीं गए। हटाने से पहले कारण नोट कर लें।",
+            dismissButton: "हटाएं",
+        },
+        retake: {
+            title: "यह प्रयास गिना नहीं जाएगा",
+            maxAttempts: (max: number) => `आप यह मूल्यांकन पहले ही ${max} बार दे चुके हैं, जो स्वयंसेवक चयन के लिए गिने जाने वाले अधिकतम प्रयास हैं। आप अभ्यास के लिए इसे फिर से दे सकते हैं, लेकिन परिणाम गिना नहीं जाएगा।`,
+            cooldown: (date: string) => `आपका पिछला प्रयास हाल ही में हुआ था। ${date} से पहले के प्रयास स्वयंसेवक चयन के लिए नहीं गिने जाते। आप अभी अभ्यास के लिए मूल्यांकन दे सकते हैं, लेकिन परिणाम गिना नहीं जाएगा।`,
+            backButton: "वापस जाएँ",
+            continueButton: "फिर भी दें",
+            notCounted: "यह प्रयास अभ्यास के रूप में दर्ज किया गया है और स्वयंसेवक चयन के लिए नहीं गिना जाएगा।",
+            notCountedUnverified: "यह प्रयास दर्ज किया गया है, लेकिन मोबाइल नंबर सत्यापित न होने के कारण स्वयंसेवक चयन के लिए नहीं गिना जाएगा।",
         }
     }
 };
@@ -0,0 +1,81 @@
+// Saves an in-progress assessment to localStorage so a reload or phone call does not lose it
+import type { Language } from '@/components/aptitude-insight-app';
+import type { AnswerChange, AnswerDetail } from '@/components/assessment-step';
+import { CURRENT_ASSESSMENT_VERSION, currentQuestionBank, drawQuestions } from '@/lib/question-bank';
+import { refinePhoneNumber, userInfoSchema, type UserInfo } from '@/lib/submission-schema';
+
+const PROGRESS_STORAGE_KEY = 'anandakAssessmentProgress';
+
+// Saved progress older than this is discarded rather than offered for resuming
+const PROGRESS_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface AssessmentProgress {
+  lang: Language;
+  userData: UserInfo;
+  submissionKey: string;
+  // The number of drawn questions means the participant was on the review screen
+  currentQuestionIndex: number;
+  answers: AnswerDetail[];
+  answerChanges: AnswerChange[];
+  // Question bank the answers belong to; progress saved before versioning counts as v1
+  assessmentVersion?: string;
+  savedAt: string;
+}
+
+export function saveProgress(progress: Omit<AssessmentProgress, 'savedAt' | 'assessmentVersion'>) {
+  try {
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify({
+      ...progress,
+      assessmentVersion: CURRENT_ASSESSMENT_VERSION,
+      savedAt: new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.error("Could not save assessment progress to localStorage", error);
+  }
+}
+
+export function clearProgress() {
+  try {
+    localStorage.removeItem(PROGRESS_STORAGE_KEY);
+  } catch (error) {
+    console.error("Could not clear assessment progress", error);
+  }
+}
+
+/**
+ * Returns saved progress if it is recent and was answered against the
+ * current question bank version; anything expired or malformed is cleared
+ */
+export function loadProgress(): AssessmentProgress | null {
+  try {
+    const stored = localStorage.getItem(PROGRESS_STORAGE_KEY);
+    if (!stored) return null;
+
+    const progress = JSON.parse(stored) as AssessmentProgress;
+    const questions = typeof progress.submissionKey === 'string' ? drawQuestions(currentQuestionBank, progress.submissionKey) : [];
+    const age = Date.now() - new Date(progress.savedAt).getTime();
+    const isValid =
+      age >= 0 && age < PROGRESS_TTL_MS &&
+      (progress.lang === 'en' || progress.lang === 'hi') &&
+      typeof progress.submissionKey === 'string' &&
+      (progress.assessmentVersion ?? 'v1') === CURRENT_ASSESSMENT_VERSION &&
+      userInfoSchema.superRefine(refinePhoneNumber).safeParse(progress.userData).success &&
+      Array.isArray(progress.answers) &&
+      Array.isArray(progress.answerChanges) &&
+      // Answers after the current question exist when the participant went back with Previous
+      progress.answers.length >= progress.currentQuestionIndex &&
+      progress.answers.length <= questions.length &&
+      progress.currentQuestionIndex <= questions.length &&
+      progress.answers.every((answer, index) => answer.id === questions[index].id);
+
+    if (!isValid) {
+      clearProgress();
+      return null;
+    }
+    return progress;
+  } catch (error) {
+    console.error("Could not read saved assessment progress", error);
+    clearProgress();
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+// Conversion from stored submissions back into the data the certificate renders
+import type { CertificateData } from '@/components/certificate';
+import type { UserInfo } from '@/components/user-info-step';
+import type { AssessmentSubmission } from '@/lib/supabase';
+import { getHonorific } from '@/lib/certificate-format';
+
+// Columns submissionToCertificateData reads; gender only decides the printed title
+export const CERTIFICATE_COLUMNS =
+  'created_at, certificate_id, assessment_version, name, name_hi, gender, state, district, assessment_data, final_assessment, final_feedback_phrase_id';
+
+/**
+ * Rebuilds the certificate from an assessment_submissions row, so past
+ * certificates can be rendered again. Only what the certificate prints is
+ * included: no contact details, age or gender
+ */
+export function submissionToCertificateData(row: AssessmentSubmission): CertificateData {
+  const issuedAt = row.created_at ? new Date(row.created_at) : new Date();
+
+  return {
+    name: row.name,
+    name_hi: row.name_hi,
+    honorific: getHonorific(row.gender as UserInfo['gender']),
+    state: row.state,
+    district: row.district,
+    assessmentData: Array.isArray(row.assessment_data) ? row.assessment_data : [],
+    finalAssessmentText: row.final_assessment,
+    finalFeedbackPhraseId: row.final_feedback_phrase_id ?? undefined,
+    assessmentVersion: row.assessment_version ?? 'v1',
+    date: issuedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    certificateId: row.certificate_id,
+  };
+}
@@ -0,0 +1,79 @@
+// Formatting helpers shared by the on-screen certificate and the PDF renderer
+import type { UserInfo } from '@/components/user-info-step';
+import type { CertificateData } from '@/components/certificate';
+import { getFinalAssessment, getFinalFeedback, getFinalFeedbackCategory, getTotalScore } from '@/lib/assessment-data';
+import { currentQuestionBank, getQuestionBank } from '@/lib/question-bank';
+
+const hindiMonths: { [key: string]: string } = {
+  'January': 'जनवरी', 'February': 'फ़रवरी', 'March': 'मार्च', 'April': 'अप्रैल',
+  'May': 'मई', 'June': 'जून', 'July': 'जुलाई', 'August': 'अगस्त',
+  'September': 'सितंबर', 'October': 'अक्टूबर', 'November': 'नवंबर', 'December': 'दिसंबर'
+};
+
+const devanagariDigits: { [key: string]: string } = {
+  '0': '०', '1': '१', '2': '२', '3': '३', '4': '४',
+  '5': '५', '6': '६', '7': '७', '8': '८', '9': '९'
+};
+
+export const toDevanagariDigits = (numStr: string) => numStr.split('').map(digit => devanagariDigits[digit] || digit).join('');
+
+export const formatDateEnglish = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const formatDateHindi = (dateString: string): string => {
+  try {
+    const date = new Date(dateString);
+    const day = date.getDate().toString();
+    const year = date.getFullYear().toString();
+    const month = date.toLocaleString('en-US', { month: 'long' });
+
+    const hindiMonth = hindiMonths[month];
+    const hindiDay = toDevanagariDigits(day);
+    const hindiYear = toDevanagariDigits(year);
+
+    if (hindiMonth && hindiDay && hindiYear) {
+      return `${hindiDay} ${hindiMonth}, ${hindiYear}`;
+    }
+  } catch (e) {
+    console.error("Could not format date to Hindi:", e);
+  }
+
+  return dateString;
+};
+
+// Title printed before the participant's name
+export type Honorific = 'Mr' | 'Ms';
+
+export const getHonorific = (gender: UserInfo['gender'] | undefined): Honorific | undefined => {
+  if (gender === 'Male') return 'Mr';
+  if (gender === 'Female') return 'Ms';
+  return undefined;
+};
+
+export const getPrefixedName = (name: string, honorific: Honorific | undefined) => {
+  if (honorific === 'Mr') return `Mr. ${name}`;
+  if (honorific === 'Ms') return `Ms. ${name}`;
+  return name;
+};
+
+export const getPrefixedNameHi = (name_hi: string, honorific: Honorific | undefined) => {
+  if (honorific === 'Mr') return `श्री ${name_hi}`;
+  if (honorific === 'Ms') return `सुश्री ${name_hi}`;
+  return name_hi;
+};
+
+/**
+ * The certificate's closing paragraph in either language, built from the total
+ * and the final feedback phrasing the participant was shown. Certificates saved
+ * before the phrase ID was kept find it by matching the stored English text; if
+ * nothing matches, English shows the stored text and Hindi the category's first phrasing
+ */
+export const getCertificateFinalAssessment = (data: CertificateData, lang: 'en' | 'hi'): string => {
+  const bank = getQuestionBank(data.assessmentVersion ?? 'v1') ?? currentQuestionBank;
+  const score = getTotalScore(data.assessmentData, bank);
+  const phraseId = data.finalFeedbackPhraseId ?? bank.finalFeedback.en[getFinalFeedbackCategory(score, bank)]
+    .findIndex((phrase) => getFinalAssessment(phrase, 'en', bank) === data.finalAssessmentText);
+
+  if (phraseId < 0 && lang === 'en') return data.finalAssessmentText;
+  return getFinalAssessment(getFinalFeedback(score, lang, Math.max(phraseId, 0), bank), lang, bank);
+};
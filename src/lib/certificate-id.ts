@@ -0,0 +1,33 @@
+// Human-readable certificate numbers, e.g. "ANK-2025-7KQ4MX"
+import { randomInt } from 'crypto';
+
+const CERTIFICATE_PREFIX = 'ANK';
+
+// Excludes 0/O and 1/I/L so numbers can be read off paper without ambiguity
+const CERTIFICATE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CERTIFICATE_CODE_LENGTH = 6;
+
+const CERTIFICATE_ID_PATTERN = new RegExp(
+  `^${CERTIFICATE_PREFIX}-\\d{4}-[${CERTIFICATE_ALPHABET}]{${CERTIFICATE_CODE_LENGTH}}$`
+);
+
+/**
+ * Generates a new certificate number for the given issue date
+ * Uniqueness is enforced by the database; callers retry on conflict
+ */
+export function generateCertificateId(issuedAt: Date = new Date()): string {
+  let code = '';
+  for (let i = 0; i < CERTIFICATE_CODE_LENGTH; i++) {
+    code += CERTIFICATE_ALPHABET[randomInt(CERTIFICATE_ALPHABET.length)];
+  }
+  return `${CERTIFICATE_PREFIX}-${issuedAt.getFullYear()}-${code}`;
+}
+
+/**
+ * Normalises user or URL input (case, whitespace) into a certificate number
+ * Returns null if the input cannot be a certificate number
+ */
+export function normalizeCertificateId(input: string): string | null {
+  const normalized = input.trim().toUpperCase();
+  return CERTIFICATE_ID_PATTERN.test(normalized) ? normalized : null;
+}
@@ -0,0 +1,385 @@
+// Server-side A4 PDF rendering of assessment certificates
+// Produces the same content as <Certificate /> with embedded Poppins and Noto Sans
+// Devanagari fonts, so the output no longer depends on the participant's browser.
+import { readFileSync } from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import SVGtoPDF from 'svg-to-pdfkit';
+import QRCode from 'qrcode';
+import type { CertificateData } from '@/components/certificate';
+import { translations, getCertificateTraitScores, getIndividualFeedback, type TraitScore } from '@/lib/assessment-data';
+import { currentQuestionBank, getQuestionBank } from '@/lib/question-bank';
+import {
+  formatDateEnglish,
+  formatDateHindi,
+  getCertificateFinalAssessment,
+  getPrefixedName,
+  getPrefixedNameHi,
+} from '@/lib/certificate-format';
+import { getLocationNames } from '@/lib/indian-states-districts';
+
+export type CertificatePdfMode = 'en' | 'hi' | 'all';
+
+interface RenderOptions {
+  mode: CertificatePdfMode;
+  /** Absolute origin (e.g. https://example.com) used for the verification QR code */
+  origin?: string;
+}
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const CONTENT_X = 52;
+const CONTENT_WIDTH = PAGE_WIDTH - CONTENT_X * 2;
+
+// Mirrors the theme colours in globals.css
+const COLORS = {
+  primary: '#FFBB33',
+  primaryMuted: '#FFDD99',
+  border: '#F59E0B',
+  foreground: '#231C1A',
+  muted: '#706057',
+  accentForeground: '#634C03',
+};
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts');
+const FONTS = {
+  latin: path.join(FONT_DIR, 'poppins', '400Regular', 'Poppins_400Regular.ttf'),
+  latinBold: path.join(FONT_DIR, 'poppins', '600SemiBold', 'Poppins_600SemiBold.ttf'),
+  latinItalic: path.join(FONT_DIR, 'poppins', '400Regular_Italic', 'Poppins_400Regular_Italic.ttf'),
+  devanagari: path.join(FONT_DIR, 'noto-sans-devanagari', '400Regular', 'NotoSansDevanagari_400Regular.ttf'),
+  devanagariBold: path.join(FONT_DIR, 'noto-sans-devanagari', '700Bold', 'NotoSansDevanagari_700Bold.ttf'),
+};
+
+const LOGOS = {
+  anandak: path.join(process.cwd(), 'public', 'mp-logo.svg'),
+  iitKgp: path.join(process.cwd(), 'public', 'iitkgp.svg'),
+};
+
+interface LogoSvg {
+  svg: string;
+  width: number;
+  height: number;
+  hasViewBox: boolean;
+}
+
+let logoCache: { anandak: LogoSvg; iitKgp: LogoSvg } | null = null;
+
+/**
+ * Reads a logo and its intrinsic size (from the viewBox, or width/height when
+ * the source SVG has no viewBox) so it can be scaled into the header
+ */
+function readLogo(filePath: string): LogoSvg {
+  const svg = readFileSync(filePath, 'utf8');
+  const viewBox = svg.match(/<svg[^>]*\sviewBox="([^"]+)"/)?.[1].trim().split(/[\s,]+/).map(parseFloat);
+  if (viewBox && viewBox.length === 4) {
+    return { svg, width: viewBox[2], height: viewBox[3], hasViewBox: true };
+  }
+  const width = parseFloat(svg.match(/<svg[^>]*\swidth="([\d.]+)/)?.[1] ?? '1');
+  const height = parseFloat(svg.match(/<svg[^>]*\sheight="([\d.]+)/)?.[1] ?? '1');
+  return { svg, width, height, hasViewBox: false };
+}
+
+function loadLogos() {
+  if (!logoCache) {
+    logoCache = { anandak: readLogo(LOGOS.anandak), iitKgp: readLogo(LOGOS.iitKgp) };
+  }
+  return logoCache;
+}
+
+function drawLogo(doc: PDFKit.PDFDocument, logo: LogoSvg, x: number, y: number, size: number) {
+  const scale = size / Math.max(logo.width, logo.height);
+  doc.save();
+  doc.translate(x + (size - logo.width * scale) / 2, y + (size - logo.height * scale) / 2);
+  doc.scale(scale);
+  // With a viewBox the logo is fitted to its own box; without one, its width/height are taken as points
+  SVGtoPDF(doc, logo.svg, 0, 0, logo.hasViewBox ? { width: logo.width, height: logo.height } : { assumePt: true });
+  doc.restore();
+}
+
+function registerFonts(doc: PDFKit.PDFDocument) {
+  doc.registerFont('Latin', FONTS.latin);
+  doc.registerFont('Latin-Bold', FONTS.latinBold);
+  doc.registerFont('Latin-Italic', FONTS.latinItalic);
+  doc.registerFont('Devanagari', FONTS.devanagari);
+  doc.registerFont('Devanagari-Bold', FONTS.devanagariBold);
+}
+
+function drawFrame(doc: PDFKit.PDFDocument) {
+  doc.save()
+    .lineWidth(6)
+    .strokeColor(COLORS.border)
+    .rect(14, 14, PAGE_WIDTH - 28, PAGE_HEIGHT - 28)
+    .stroke()
+    .restore();
+  doc.save()
+    .lineWidth(2)
+    .dash(6, { space: 4 })
+    .strokeColor(COLORS.primaryMuted)
+    .rect(30, 30, PAGE_WIDTH - 60, PAGE_HEIGHT - 60)
+    .stroke()
+    .undash()
+    .restore();
+}
+
+function drawHeader(doc: PDFKit.PDFDocument) {
+  const logos = loadLogos();
+  const top = 46;
+  const logoSize = 44;
+
+  drawLogo(doc, logos.anandak, CONTENT_X, top, logoSize);
+  doc.font('Devanagari-Bold').fontSize(13).fillColor(COLORS.foreground)
+    .text('राज्य आनंद संस्थान', CONTENT_X + logoSize + 8, top + 2, { lineBreak: false });
+  doc.font('Devanagari').fontSize(10).fillColor(COLORS.muted)
+    .text('मध्यप्रदेश शासन', CONTENT_X + logoSize + 8, top + 24, { lineBreak: false });
+
+  const rightLogoX = CONTENT_X + CONTENT_WIDTH - logoSize;
+  drawLogo(doc, logos.iitKgp, rightLogoX, top, logoSize);
+  const rightTextWidth = 220;
+  doc.font('Latin-Bold').fontSize(9).fillColor(COLORS.foreground)
+    .text('Indian Institute of Technology, Kharagpur', rightLogoX - rightTextWidth - 8, top + 6, { width: rightTextWidth, align: 'right' });
+  doc.font('Devanagari').fontSize(9).fillColor(COLORS.muted)
+    .text('भारतीय प्रौद्योगिकी संस्थान, खड़गपुर', rightLogoX - rightTextWidth - 8, top + 22, { width: rightTextWidth, align: 'right' });
+
+  doc.y = top + logoSize + 28;
+}
+
+function drawSeparator(doc: PDFKit.PDFDocument) {
+  const y = doc.y + 6;
+  doc.save().lineWidth(1).strokeColor(COLORS.primaryMuted)
+    .moveTo(CONTENT_X, y).lineTo(CONTENT_X + CONTENT_WIDTH, y).stroke().restore();
+  doc.y = y + 14;
+}
+
+async function drawFooter(doc: PDFKit.PDFDocument, data: CertificateData, lang: 'en' | 'hi', origin?: string) {
+  const t = translations[lang].cert;
+  const regular = lang === 'hi' ? 'Devanagari' : 'Latin';
+  const bold = lang === 'hi' ? 'Devanagari-Bold' : 'Latin-Bold';
+  const footerTop = PAGE_HEIGHT - 150;
+  const columnWidth = CONTENT_WIDTH / 3;
+
+  doc.save().lineWidth(1).strokeColor(COLORS.primaryMuted)
+    .moveTo(CONTENT_X, footerTop - 12).lineTo(CONTENT_X + CONTENT_WIDTH, footerTop - 12).stroke().restore();
+
+  const drawColumn = (x: number, title: string, caption: string) => {
+    doc.font(bold).fontSize(11).fillColor(COLORS.foreground)
+      .text(title, x, footerTop + 16, { width: columnWidth, align: 'center' });
+    doc.font(regular).fontSize(8).fillColor(COLORS.muted)
+      .text(caption, x, doc.y + 4, { width: columnWidth, align: 'center' });
+  };
+
+  drawColumn(CONTENT_X, t.issuingAuthorityName, t.issuingAuthority);
+  drawColumn(
+    CONTENT_X + columnWidth * 2,
+    lang === 'hi' ? formatDateHindi(data.date) : formatDateEnglish(data.date),
+    t.dateOfIssue
+  );
+
+  if (data.certificateId) {
+    const qrSize = 64;
+    const centerX = CONTENT_X + columnWidth;
+    if (origin) {
+      const verifyUrl = `${origin}/verify/${encodeURIComponent(data.certificateId)}`;
+      const qrPng = await QRCode.toBuffer(verifyUrl, { margin: 1, width: 256, errorCorrectionLevel: 'M' });
+      doc.image(qrPng, centerX + (columnWidth - qrSize) / 2, footerTop, { width: qrSize, height: qrSize });
+      doc.font(regular).fontSize(7).fillColor(COLORS.muted)
+        .text(t.scanToVerify, centerX, footerTop + qrSize + 2, { width: columnWidth, align: 'center' });
+    }
+    doc.font(regular).fontSize(8).fillColor(COLORS.foreground)
+      .text(`${t.certificateNumber} ${data.certificateId}`, centerX, footerTop + qrSize + 14, { width: columnWidth, align: 'center' });
+  }
+}
+
+// Trait radar chart, drawn to the right of the detailed results
+const CHART_WIDTH = 150;
+const CHART_HEIGHT = 140;
+const CHART_GAP = 10;
+
+/**
+ * Draws the trait scores as a radar chart with pdfkit vectors, matching
+ * <TraitProfileChart />: one axis per trait, clockwise from the top
+ */
+function drawTraitChart(doc: PDFKit.PDFDocument, traitScores: TraitScore[], lang: 'en' | 'hi', x: number, y: number) {
+  if (traitScores.length < 3) return;
+  const t = translations[lang].cert;
+  const centerX = x + CHART_WIDTH / 2;
+  const centerY = y + CHART_HEIGHT / 2;
+  // Leaves room around the chart for the axis labels
+  const radius = 34;
+  const maxScore = Math.max(...traitScores.map((item) => item.maxScore));
+  const pointAt = (index: number, distance: number): [number, number] => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / traitScores.length;
+    return [centerX + distance * Math.cos(angle), centerY + distance * Math.sin(angle)];
+  };
+  const drawPolygon = (points: [number, number][]) => {
+    doc.moveTo(...points[0]);
+    points.slice(1).forEach((point) => doc.lineTo(...point));
+    doc.closePath();
+  };
+
+  doc.save().lineWidth(0.5).strokeColor(COLORS.primaryMuted);
+  for (let ring = 1; ring <= 4; ring++) {
+    drawPolygon(traitScores.map((_, index) => pointAt(index, (radius * ring) / 4)));
+    doc.stroke();
+  }
+  traitScores.forEach((_, index) => {
+    doc.moveTo(centerX, centerY).lineTo(...pointAt(index, radius)).stroke();
+  });
+  doc.restore();
+
+  const valuePoints = traitScores.map((item, index) => pointAt(index, (radius * Math.max(item.score, 0)) / maxScore));
+  doc.save().lineWidth(1.2).fillOpacity(0.5).fillColor(COLORS.primary).strokeColor(COLORS.border);
+  drawPolygon(valuePoints);
+  doc.fillAndStroke().restore();
+  doc.save().fillColor(COLORS.border);
+  valuePoints.forEach(([pointX, pointY]) => doc.circle(pointX, pointY, 1.8).fill());
+  doc.restore();
+
+  // Side labels wrap within the chart's box so they never run into the results text
+  doc.font(lang === 'hi' ? 'Devanagari' : 'Latin').fontSize(7.5).fillColor(COLORS.foreground);
+  traitScores.forEach((item, index) => {
+    const [labelX, labelY] = pointAt(index, radius + 6);
+    const label = t.traits[item.trait];
+    const align = Math.abs(labelX - centerX) < 1 ? 'center' : labelX < centerX ? 'right' : 'left';
+    const width = align === 'center' ? CHART_WIDTH : align === 'right' ? labelX - x : x + CHART_WIDTH - labelX;
+    const left = align === 'left' ? labelX : x;
+    const height = doc.heightOfString(label, { width });
+    const top = align === 'center' ? (labelY < centerY ? labelY - height : labelY) : labelY - height / 2;
+    doc.text(label, left, top, { width, align, lineGap: -1 });
+  });
+}
+
+async function drawCertificatePage(doc: PDFKit.PDFDocument, data: CertificateData, lang: 'en' | 'hi', origin?: string) {
+  const t = translations[lang].cert;
+  const regular = lang === 'hi' ? 'Devanagari' : 'Latin';
+  const bold = lang === 'hi' ? 'Devanagari-Bold' : 'Latin-Bold';
+  const italic = lang === 'hi' ? 'Devanagari' : 'Latin-Italic';
+  const bank = getQuestionBank(data.assessmentVersion ?? 'v1') ?? currentQuestionBank;
+  const detailedResults = getCertificateTraitScores(data.assessmentData, bank);
+
+  const prefixedName = lang === 'hi'
+    ? getPrefixedNameHi(data.name_hi, data.honorific)
+    : getPrefixedName(data.name, data.honorific);
+
+  drawFrame(doc);
+  drawHeader(doc);
+
+  // Title
+  doc.font(bold).fontSize(28).fillColor(COLORS.primary)
+    .text(t.certTitle, CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'center' });
+  doc.moveDown(0.4);
+
+  if (lang === 'hi') {
+    doc.font(bold).fontSize(20).fillColor(COLORS.accentForeground)
+      .text(`${prefixedName} को`, CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'center' });
+    doc.font(regular).fontSize(12).fillColor(COLORS.muted)
+      .text(t.certPresentedTo, CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'center' });
+  } else {
+    doc.font(regular).fontSize(12).fillColor(COLORS.muted)
+      .text(t.certPresentedTo, CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'center' });
+    doc.font(bold).fontSize(20).fillColor(COLORS.accentForeground)
+      .text(prefixedName, CONTENT_X, doc.y + 4, { width: CONTENT_WIDTH, align: 'center' });
+  }
+
+  drawSeparator(doc);
+
+  // Main certification line
+  // pdfkit cannot centre or justify text that mixes fonts, so this paragraph is left-aligned
+  doc.fontSize(11).fillColor(COLORS.foreground);
+  const location = getLocationNames(data.state, data.district);
+  if (lang === 'hi') {
+    doc.font(regular).text('यह प्रमाणित किया जाता है कि ', CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'left', continued: true })
+      .font(bold).text(prefixedName, { continued: true })
+      .font(regular).text(', निवासी ', { continued: true })
+      .font(bold).text(`${location.districtHi}, ${location.stateHi}`, { continued: true })
+      .font(regular).text(' ने दिनांक ', { continued: true })
+      .font(bold).text(formatDateHindi(data.date), { continued: true })
+      .font(regular).text(' को आनंदक मूल्यांकन सफलतापूर्वक पूरा किया है।');
+  } else {
+    doc.font(regular).text('This is to certify that ', CONTENT_X, doc.y, { width: CONTENT_WIDTH, align: 'left', continued: true })
+      .font(bold).text(prefixedName, { continued: true })
+      .font(regular).text(' of ', { continued: true })
+      .font(bold).text(`${location.district}, ${location.state}`, { continued: true })
+      .font(regular).text(' has successfully completed the Anandak Assessment on ', { continued: true })
+      .font(bold).text(formatDateEnglish(data.date), { continued: true })
+      .font(regular).text('.');
+  }
+  doc.moveDown(1);
+
+  // Detailed results
+  doc.font(bold).fontSize(13).fillColor(COLORS.foreground)
+    .text(t.detailedResults, CONTENT_X, doc.y, { width: CONTENT_WIDTH });
+  doc.moveDown(0.4);
+
+  const resultsTop = doc.y;
+  drawTraitChart(doc, detailedResults, lang, CONTENT_X + CONTENT_WIDTH - CHART_WIDTH, resultsTop);
+  doc.y = resultsTop;
+  for (const item of detailedResults) {
+    const blockTop = doc.y;
+    const textX = CONTENT_X + 12;
+    const textWidth = CONTENT_WIDTH - 12 - CHART_WIDTH - CHART_GAP;
+
+    doc.font(bold).fontSize(10).fillColor(COLORS.foreground)
+      .text(`${t.traits[item.trait]}: `, textX, blockTop + 2, { width: textWidth, continued: true })
+      .font(regular).text(`${t.score} ${item.score}/${item.maxScore} (${t.bands[item.band]})`);
+    doc.font(italic).fontSize(9).fillColor(COLORS.muted)
+      .text(`"${getIndividualFeedback(item.trait, item.score, lang, item.feedbackPhraseId, bank)}"`, textX, doc.y + 1, { width: textWidth });
+
+    doc.save().lineWidth(3).strokeColor(COLORS.primaryMuted)
+      .moveTo(CONTENT_X + 1.5, blockTop).lineTo(CONTENT_X + 1.5, doc.y + 2).stroke().restore();
+    doc.y += 5;
+  }
+  doc.y = Math.max(doc.y, resultsTop + CHART_HEIGHT);
+
+  // Assessment summary
+  doc.moveDown(0.4);
+  const summary = getCertificateFinalAssessment(data, lang);
+  // The longest phrasings can run into the footer, so the summary steps down a size until it fits
+  const summaryBottom = PAGE_HEIGHT - 150 - 18;
+  let summarySize = 10;
+  while (summarySize > 8 && doc.y + doc.font(regular).fontSize(summarySize)
+    .heightOfString(`${t.assessmentSummary} ${summary}`, { width: CONTENT_WIDTH }) > summaryBottom) {
+    summarySize -= 0.5;
+  }
+  doc.font(bold).fontSize(summarySize).fillColor(COLORS.foreground)
+    .text(`${t.assessmentSummary} `, CONTENT_X, doc.y, { width: CONTENT_WIDTH, continued: true })
+    .font(regular).fillColor(COLORS.foreground).text(summary);
+
+  await drawFooter(doc, data, lang, origin);
+}
+
+/**
+ * Renders the certificate as an A4 PDF in English, Hindi, or both (one page each)
+ */
+export async function renderCertificatePdf(data: CertificateData, { mode, origin }: RenderOptions): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 0,
+    autoFirstPage: false,
+    // Avoids loading the built-in Helvetica metrics, which are not needed
+    font: FONTS.latin,
+    info: {
+      Title: `${translations.en.cert.certTitle} - ${data.name}`,
+      Author: translations.en.cert.issuingAuthorityName,
+      Subject: data.certificateId ?? 'Anandak Assessment',
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  registerFonts(doc);
+
+  const languages: ('en' | 'hi')[] = mode === 'all' ? ['en', 'hi'] : [mode];
+  for (const lang of languages) {
+    doc.addPage({ size: 'A4', margin: 0 });
+    await drawCertificatePage(doc, data, lang, origin);
+  }
+
+  doc.end();
+  return finished;
+}
@@ -1,16 +1,33 @@
-// Country codes for phone number input
+// Country codes for phone number input, with mobile number rules for the
+// countries participants most often register from. Dial codes that include an
+// area code (+1684, +441481) follow the rule of the shorter code, and every
+// number gets the ITU limits (E.164 numbers have at most 15 digits).
+
+/**
+ * Shape of a mobile number after the dial code, without the trunk prefix
+ * (the national significant number)
+ */
+export interface PhoneRule {
+  lengths: number[];
+  // Leading digits a mobile number may start with; any digit if omitted
+  prefixes?: string[];
+  // Dialled before the number inside the country (e.g. 0 in India), dropped for E.164
+  trunkPrefix?: string;
+}
+
 export interface CountryCode {
   name: string;
   code: string;
   dialCode: string;
+  phone?: PhoneRule;
 }
 
 export const countryCodes: CountryCode[] = [
-  { name: "India", code: "IN", dialCode: "+91" },
-  { name: "United States", code: "US", dialCode: "+1" },
-  { name: "United Kingdom", code: "GB", dialCode: "+44" },
-  { name: "Canada", code: "CA", dialCode: "+1" },
-  { name: "Australia", code: "AU", dialCode: "+61" },
+  { name: "India", code: "IN", dialCode: "+91", phone: { lengths: [10], prefixes: ["6", "7", "8", "9"], trunkPrefix: "0" } },
+  { name: "United States", code: "US", dialCode: "+1", phone: { lengths: [10], prefixes: ["2", "3", "4", "5", "6", "7", "8", "9"] } },
+  { name: "United Kingdom", code: "GB", dialCode: "+44", phone: { lengths: [10], prefixes: ["7"], trunkPrefix: "0" } },
+  { name: "Canada", code: "CA", dialCode: "+1", phone: { lengths: [10], prefixes: ["2", "3", "4", "5", "6", "7", "8", "9"] } },
+  { name: "Australia", code: "AU", dialCode: "+61", phone: { lengths: [9], prefixes: ["4"], trunkPrefix: "0" } },
   { name: "Afghanistan", code: "AF", dialCode: "+93" },
   { name: "Albania", code: "AL", dialCode: "+355" },
   { name: "Algeria", code: "DZ", dialCode: "+213" },
@@ -26,15 +43,15 @@ export const countryCodes: CountryCode[] = [
   { name: "Austria", code: "AT", dialCode: "+43" },
   { name: "Azerbaijan", code: "AZ", dialCode: "+994" },
   { name: "Bahamas", code: "BS", dialCode: "+1242" },
-  { name: "Bahrain", code: "BH", dialCode: "+973" },
-  { name: "Bangladesh", code: "BD", dialCode: "+880" },
+  { name: "Bahrain", code: "BH", dialCode: "+973", phone: { lengths: [8], prefixes: ["3", "6"] } },
+  { name: "Bangladesh", code: "BD", dialCode: "+880", phone: { lengths: [10], prefixes: ["1"], trunkPrefix: "0" } },
   { name: "Barbados", code: "BB", dialCode: "+1246" },
   { name: "Belarus", code: "BY", dialCode: "+375" },
   { name: "Belgium", code: "BE", dialCode: "+32" },
   { name: "Belize", code: "BZ", dialCode: "+501" },
   { name: "Benin", code: "BJ", dialCode: "+229" },
   { name: "Bermuda", code: "BM", dialCode: "+1441" },
-  { name: "Bhutan", code: "BT", dialCode: "+975" },
+  { name: "Bhutan", code: "BT", dialCode: "+975", phone: { lengths: [8], prefixes: ["17", "77"] } },
   { name: "Bolivia", code: "BO", dialCode: "+591" },
   { name: "Bosnia and Herzegovina", code: "BA", dialCode: "+387" },
   { name: "Botswana", code: "BW", dialCode: "+267" },
@@ -81,12 +98,12 @@ export const countryCodes: CountryCode[] = [
   { name: "Faroe Islands", code: "FO", dialCode: "+298" },
   { name: "Fiji", code: "FJ", dialCode: "+679" },
   { name: "Finland", code: "FI", dialCode: "+358" },
-  { name: "France", code: "FR", dialCode: "+33" },
+  { name: "France", code: "FR", dialCode: "+33", phone: { lengths: [9], prefixes: ["6", "7"], trunkPrefix: "0" } },
   { name: "French Polynesia", code: "PF", dialCode: "+689" },
   { name: "Gabon", code: "GA", dialCode: "+241" },
   { name: "Gambia", code: "GM", dialCode: "+220" },
   { name: "Georgia", code: "GE", dialCode: "+995" },
-  { name: "Germany", code: "DE", dialCode: "+49" },
+  { name: "Germany", code: "DE", dialCode: "+49", phone: { lengths: [10, 11], prefixes: ["15", "16", "17"], trunkPrefix: "0" } },
   { name: "Ghana", code: "GH", dialCode: "+233" },
   { name: "Gibraltar", code: "GI", dialCode: "+350" },
   { name: "Greece", code: "GR", dialCode: "+30" },
@@ -119,7 +136,7 @@ export const countryCodes: CountryCode[] = [
   { name: "Kenya", code: "KE", dialCode: "+254" },
   { name: "Kiribati", code: "KI", dialCode: "+686" },
   { name: "Kosovo", code: "XK", dialCode: "+383" },
-  { name: "Kuwait", code: "KW", dialCode: "+965" },
+  { name: "Kuwait", code: "KW", dialCode: "+965", phone: { lengths: [8], prefixes: ["5", "6", "9"] } },
   { name: "Kyrgyzstan", code: "KG", dialCode: "+996" },
   { name: "Laos", code: "LA", dialCode: "+856" },
   { name: "Latvia", code: "LV", dialCode: "+371" },
@@ -134,7 +151,7 @@ export const countryCodes: CountryCode[] = [
   { name: "Macedonia", code: "MK", dialCode: "+389" },
   { name: "Madagascar", code: "MG", dialCode: "+261" },
   { name: "Malawi", code: "MW", dialCode: "+265" },
-  { name: "Malaysia", code: "MY", dialCode: "+60" },
+  { name: "Malaysia", code: "MY", dialCode: "+60", phone: { lengths: [9, 10], prefixes: ["1"], trunkPrefix: "0" } },
   { name: "Maldives", code: "MV", dialCode: "+960" },
   { name: "Mali", code: "ML", dialCode: "+223" },
   { name: "Malta", code: "MT", dialCode: "+356" },
@@ -154,11 +171,11 @@ export const countryCodes: CountryCode[] = [
   { name: "Myanmar", code: "MM", dialCode: "+95" },
   { name: "Namibia", code: "NA", dialCode: "+264" },
   { name: "Nauru", code: "NR", dialCode: "+674" },
-  { name: "Nepal", code: "NP", dialCode: "+977" },
+  { name: "Nepal", code: "NP", dialCode: "+977", phone: { lengths: [10], prefixes: ["9"] } },
   { name: "Netherlands", code: "NL", dialCode: "+31" },
   { name: "Netherlands Antilles", code: "AN", dialCode: "+599" },
   { name: "New Caledonia", code: "NC", dialCode: "+687" },
-  { name: "New Zealand", code: "NZ", dialCode: "+64" },
+  { name: "New Zealand", code: "NZ", dialCode: "+64", phone: { lengths: [8, 9, 10], prefixes: ["2"], trunkPrefix: "0" } },
   { name: "Nicaragua", code: "NI", dialCode: "+505" },
   { name: "Niger", code: "NE", dialCode: "+227" },
   { name: "Nigeria", code: "NG", dialCode: "+234" },
@@ -166,8 +183,8 @@ export const countryCodes: CountryCode[] = [
   { name: "North Korea", code: "KP", dialCode: "+850" },
   { name: "Northern Mariana Islands", code: "MP", dialCode: "+1670" },
   { name: "Norway", code: "NO", dialCode: "+47" },
-  { name: "Oman", code: "OM", dialCode: "+968" },
-  { name: "Pakistan", code: "PK", dialCode: "+92" },
+  { name: "Oman", code: "OM", dialCode: "+968", phone: { lengths: [8], prefixes: ["7", "9"] } },
+  { name: "Pakistan", code: "PK", dialCode: "+92", phone: { lengths: [10], prefixes: ["3"], trunkPrefix: "0" } },
   { name: "Palau", code: "PW", dialCode: "+680" },
   { name: "Palestine", code: "PS", dialCode: "+970" },
   { name: "Panama", code: "PA", dialCode: "+507" },
@@ -179,7 +196,7 @@ export const countryCodes: CountryCode[] = [
   { name: "Poland", code: "PL", dialCode: "+48" },
   { name: "Portugal", code: "PT", dialCode: "+351" },
   { name: "Puerto Rico", code: "PR", dialCode: "+1939" },
-  { name: "Qatar", code: "QA", dialCode: "+974" },
+  { name: "Qatar", code: "QA", dialCode: "+974", phone: { lengths: [8], prefixes: ["3", "5", "6", "7"] } },
   { name: "Republic of the Congo", code: "CG", dialCode: "+242" },
   { name: "Reunion", code: "RE", dialCode: "+262" },
   { name: "Romania", code: "RO", dialCode: "+40" },
@@ -195,12 +212,12 @@ export const countryCodes: CountryCode[] = [
   { name: "Samoa", code: "WS", dialCode: "+685" },
   { name: "San Marino", code: "SM", dialCode: "+378" },
   { name: "Sao Tome and Principe", code: "ST", dialCode: "+239" },
-  { name: "Saudi Arabia", code: "SA", dialCode: "+966" },
+  { name: "Saudi Arabia", code: "SA", dialCode: "+966", phone: { lengths: [9], prefixes: ["5"], trunkPrefix: "0" } },
   { name: "Senegal", code: "SN", dialCode: "+221" },
   { name: "Serbia", code: "RS", dialCode: "+381" },
   { name: "Seychelles", code: "SC", dialCode: "+248" },
   { name: "Sierra Leone", code: "SL", dialCode: "+232" },
-  { name: "Singapore", code: "SG", dialCode: "+65" },
+  { name: "Singapore", code: "SG", dialCode: "+65", phone: { lengths: [8], prefixes: ["8", "9"] } },
   { name: "Sint Maarten", code: "SX", dialCode: "+1721" },
   { name: "Slovakia", code: "SK", dialCode: "+421" },
   { name: "Slovenia", code: "SI", dialCode: "+386" },
@@ -210,7 +227,7 @@ export const countryCodes: CountryCode[] = [
   { name: "South Korea", code: "KR", dialCode: "+82" },
   { name: "South Sudan", code: "SS", dialCode: "+211" },
   { name: "Spain", code: "ES", dialCode: "+34" },
-  { name: "Sri Lanka", code: "LK", dialCode: "+94" },
+  { name: "Sri Lanka", code: "LK", dialCode: "+94", phone: { lengths: [9], prefixes: ["7"], trunkPrefix: "0" } },
   { name: "Sudan", code: "SD", dialCode: "+249" },
   { name: "Suriname", code: "SR", dialCode: "+597" },
   { name: "Svalbard and Jan Mayen", code: "SJ", dialCode: "+47" },
@@ -234,7 +251,7 @@ export const countryCodes: CountryCode[] = [
   { name: "U.S. Virgin Islands", code: "VI", dialCode: "+1340" },
   { name: "Uganda", code: "UG", dialCode: "+256" },
   { name: "Ukraine", code: "UA", dialCode: "+380" },
-  { name: "United Arab Emirates", code: "AE", dialCode: "+971" },
+  { name: "United Arab Emirates", code: "AE", dialCode: "+971", phone: { lengths: [9], prefixes: ["5"], trunkPrefix: "0" } },
   { name: "Uruguay", code: "UY", dialCode: "+598" },
   { name: "Uzbekistan", code: "UZ", dialCode: "+998" },
   { name: "Vanuatu", code: "VU", dialCode: "+678" },
@@ -247,3 +264,112 @@ export const countryCodes: CountryCode[] = [
   { name: "Zambia", code: "ZM", dialCode: "+260" },
   { name: "Zimbabwe", code: "ZW", dialCode: "+263" },
 ];
+
+// E.164 allows 15 digits including the dial code
+const MAX_E164_DIGITS = 15;
+const MIN_NATIONAL_DIGITS = 4;
+
+/**
+ * The area code a dial code adds to a shorter listed one, e.g. 684 for American
+ * Samoa (+1684 on +1) or 1481 for Guernsey (+441481 on +44)
+ */
+function getAreaCode(dialCode: string): { parentDialCode: string; areaCode: string } | undefined {
+  const parent = countryCodes
+    .filter((c) => c.dialCode !== dialCode && dialCode.startsWith(c.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0];
+  return parent && { parentDialCode: parent.dialCode, areaCode: dialCode.slice(parent.dialCode.length) };
+}
+
+/**
+ * Mobile number rule for a dial code. Countries sharing a dial code (e.g. the
+ * United States and Canada on +1) share the rule of the first one listed. A dial
+ * code that includes an area code takes the lengths of the shorter code's rule,
+ * less the area code (+1684 numbers have 7 digits after it)
+ */
+export function getPhoneRule(dialCode: string): PhoneRule | undefined {
+  const own = countryCodes.find((c) => c.dialCode === dialCode && c.phone)?.phone;
+  const area = own ? undefined : getAreaCode(dialCode);
+  const parentRule = area && countryCodes.find((c) => c.dialCode === area.parentDialCode && c.phone)?.phone;
+  if (!area || !parentRule) return own;
+
+  return {
+    lengths: parentRule.lengths.map((length) => length - area.areaCode.length).filter((length) => length > 0),
+    trunkPrefix: parentRule.trunkPrefix,
+  };
+}
+
+/**
+ * Reduces a mobile number as typed to its national significant number: drops
+ * spaces and punctuation, the dial code if it was typed too (+91..., 0091...)
+ * and the trunk prefix (e.g. 09876543210 in India)
+ */
+export function toNationalNumber(dialCode: string, mobile: string): string {
+  const dialDigits = dialCode.replace(/\D/g, "");
+  const rule = getPhoneRule(dialCode);
+  const trimmed = mobile.trim();
+  let digits = trimmed.replace(/\D/g, "");
+
+  const hasInternationalPrefix = trimmed.startsWith("+") || digits.startsWith("00");
+  if (hasInternationalPrefix) {
+    digits = digits.replace(/^00/, "");
+    if (digits.startsWith(dialDigits)) digits = digits.slice(dialDigits.length);
+  } else if (
+    rule &&
+    digits.startsWith(dialDigits) &&
+    rule.lengths.includes(digits.length - dialDigits.length)
+  ) {
+    // e.g. 919876543210 typed without the +
+    digits = digits.slice(dialDigits.length);
+  }
+
+  if (rule?.trunkPrefix && digits.startsWith(rule.trunkPrefix) && !rule.lengths.includes(digits.length)) {
+    digits = digits.slice(rule.trunkPrefix.length);
+  }
+  return digits;
+}
+
+/**
+ * The number in E.164 form (+919876543210), the form used to store and match participants
+ */
+export function toE164(dialCode: string, mobile: string): string {
+  return `+${dialCode.replace(/\D/g, "")}${toNationalNumber(dialCode, mobile)}`;
+}
+
+const joinWithOr = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(", ")} or ${items[items.length - 1]}` : items[0];
+
+/**
+ * Checks a mobile number against its country's rule
+ * Returns an error message, or null if the number is valid
+ */
+export function getPhoneNumberError(dialCode: string, mobile: string): string | null {
+  const dialDigits = dialCode.replace(/\D/g, "");
+  const national = toNationalNumber(dialCode, mobile);
+  if (!dialDigits || !national) return "Please enter your mobile number.";
+
+  // Every number, with or without a rule, must fit in E.164
+  if (national.length < MIN_NATIONAL_DIGITS || dialDigits.length + national.length > MAX_E164_DIGITS) {
+    return "Please enter a valid mobile number.";
+  }
+
+  const rule = getPhoneRule(dialCode);
+  // e.g. 6842345678 for +1684: the area code was typed again after the dial code
+  const area = getAreaCode(dialCode);
+  if (
+    area &&
+    national.startsWith(area.areaCode) &&
+    (!rule || rule.lengths.includes(national.length - area.areaCode.length))
+  ) {
+    return `Please enter the number without the area code ${area.areaCode}; it is part of ${dialCode}.`;
+  }
+  if (!rule) return null;
+
+  const hasValidLength = rule.lengths.includes(national.length);
+  const hasValidPrefix = !rule.prefixes || rule.prefixes.some((prefix) => national.startsWith(prefix));
+  if (hasValidLength && hasValidPrefix) return null;
+
+  const lengths = joinWithOr(rule.lengths.map(String));
+  return rule.prefixes
+    ? `Mobile numbers for ${dialCode} have ${lengths} digits and start with ${joinWithOr(rule.prefixes)}.`
+    : `Mobile numbers for ${dialCode} have ${lengths} digits.`;
+}
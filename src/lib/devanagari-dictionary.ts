@@ -0,0 +1,299 @@
+// Known Devanagari spellings for common Indian names and place names
+// Keys are lower-case Latin words. The rule-based transliterator in
+// devanagari-transliterator.ts only handles words missing from this list, since
+// English spellings of Hindi words drop or add vowels too often for rules alone.
+
+export const devanagariDictionary: Record<string, string> = {
+  // Given names
+  aarti: 'आरती',
+  abhishek: 'अभिषेक',
+  aditi: 'अदिति',
+  aditya: 'आदित्य',
+  ajay: 'अजय',
+  akash: 'आकाश',
+  alok: 'आलोक',
+  aman: 'अमन',
+  amit: 'अमित',
+  anand: 'आनंद',
+  anil: 'अनिल',
+  anita: 'अनीता',
+  anjali: 'अंजलि',
+  ankit: 'अंकित',
+  anu: 'अनु',
+  anuradha: 'अनुराधा',
+  arjun: 'अर्जुन',
+  arun: 'अरुण',
+  asha: 'आशा',
+  ashok: 'अशोक',
+  babita: 'बबीता',
+  bhagwan: 'भगवान',
+  bharat: 'भरत',
+  deepak: 'दीपक',
+  deepika: 'दीपिका',
+  dev: 'देव',
+  devendra: 'देवेंद्र',
+  devi: 'देवी',
+  dharmendra: 'धर्मेंद्र',
+  dilip: 'दिलीप',
+  dinesh: 'दिनेश',
+  durga: 'दुर्गा',
+  ganesh: 'गणेश',
+  gaurav: 'गौरव',
+  geeta: 'गीता',
+  gita: 'गीता',
+  gopal: 'गोपाल',
+  govind: 'गोविंद',
+  gyan: 'ज्ञान',
+  hari: 'हरि',
+  harish: 'हरीश',
+  hemant: 'हेमंत',
+  indra: 'इंद्र',
+  jagdish: 'जगदीश',
+  jitendra: 'जितेंद्र',
+  jyoti: 'ज्योति',
+  kailash: 'कैलाश',
+  kamal: 'कमल',
+  kamla: 'कमला',
+  kamlesh: 'कमलेश',
+  kavita: 'कविता',
+  kiran: 'किरण',
+  krishna: 'कृष्ण',
+  kumar: 'कुमार',
+  kumari: 'कुमारी',
+  lakshmi: 'लक्ष्मी',
+  laxmi: 'लक्ष्मी',
+  lalit: 'ललित',
+  mahendra: 'महेंद्र',
+  mahesh: 'महेश',
+  mamta: 'ममता',
+  manish: 'मनीष',
+  manoj: 'मनोज',
+  meena: 'मीना',
+  mohan: 'मोहन',
+  mukesh: 'मुकेश',
+  narendra: 'नरेंद्र',
+  naresh: 'नरेश',
+  nath: 'नाथ',
+  neha: 'नेहा',
+  nitin: 'नितिन',
+  pankaj: 'पंकज',
+  pooja: 'पूजा',
+  prakash: 'प्रकाश',
+  pramod: 'प्रमोद',
+  prem: 'प्रेम',
+  priya: 'प्रिया',
+  priyanka: 'प्रियंका',
+  radha: 'राधा',
+  rahul: 'राहुल',
+  raj: 'राज',
+  rajendra: 'राजेंद्र',
+  rajesh: 'राजेश',
+  rakesh: 'राकेश',
+  ram: 'राम',
+  ramesh: 'रमेश',
+  rani: 'रानी',
+  ravi: 'रवि',
+  rekha: 'रेखा',
+  ritu: 'ऋतु',
+  rohit: 'रोहित',
+  sachin: 'सचिन',
+  sandeep: 'संदीप',
+  sandhya: 'संध्या',
+  sangeeta: 'संगीता',
+  sanjay: 'संजय',
+  santosh: 'संतोष',
+  sarita: 'सरिता',
+  satish: 'सतीश',
+  seema: 'सीमा',
+  shankar: 'शंकर',
+  shanti: 'शांति',
+  shiv: 'शिव',
+  shri: 'श्री',
+  shree: 'श्री',
+  shyam: 'श्याम',
+  sita: 'सीता',
+  sonu: 'सोनू',
+  sri: 'श्री',
+  sunil: 'सुनील',
+  sunita: 'सुनीता',
+  suresh: 'सुरेश',
+  surendra: 'सुरेंद्र',
+  sushila: 'सुशीला',
+  usha: 'उषा',
+  vijay: 'विजय',
+  vikas: 'विकास',
+  vinod: 'विनोद',
+  vishal: 'विशाल',
+  yogesh: 'योगेश',
+
+  // Surnames
+  agrawal: 'अग्रवाल',
+  ahirwar: 'अहिरवार',
+  baghel: 'बघेल',
+  bhatt: 'भट्ट',
+  chauhan: 'चौहान',
+  chaurasia: 'चौरसिया',
+  choudhary: 'चौधरी',
+  chaudhary: 'चौधरी',
+  dubey: 'दुबे',
+  dwivedi: 'द्विवेदी',
+  gupta: 'गुप्ता',
+  jain: 'जैन',
+  joshi: 'जोशी',
+  kushwaha: 'कुशवाहा',
+  lodhi: 'लोधी',
+  mehta: 'मेहता',
+  mishra: 'मिश्रा',
+  pandey: 'पांडे',
+  patel: 'पटेल',
+  rajput: 'राजपूत',
+  rathore: 'राठौर',
+  sahu: 'साहू',
+  saxena: 'सक्सेना',
+  sharma: 'शर्मा',
+  shrivastava: 'श्रीवास्तव',
+  shukla: 'शुक्ला',
+  singh: 'सिंह',
+  soni: 'सोनी',
+  srivastava: 'श्रीवास्तव',
+  thakur: 'ठाकुर',
+  tiwari: 'तिवारी',
+  tripathi: 'त्रिपाठी',
+  verma: 'वर्मा',
+  yadav: 'यादव',
+
+  // States and union territories
+  and: 'और',
+  andaman: 'अंडमान',
+  andhra: 'आंध्र',
+  arunachal: 'अरुणाचल',
+  assam: 'असम',
+  bengal: 'बंगाल',
+  bihar: 'बिहार',
+  chandigarh: 'चंडीगढ़',
+  chhattisgarh: 'छत्तीसगढ़',
+  dadra: 'दादरा',
+  daman: 'दमन',
+  delhi: 'दिल्ली',
+  diu: 'दीव',
+  goa: 'गोवा',
+  gujarat: 'गुजरात',
+  haryana: 'हरियाणा',
+  haveli: 'हवेली',
+  himachal: 'हिमाचल',
+  islands: 'द्वीपसमूह',
+  jammu: 'जम्मू',
+  jharkhand: 'झारखंड',
+  karnataka: 'कर्नाटक',
+  kashmir: 'कश्मीर',
+  kerala: 'केरल',
+  ladakh: 'लद्दाख',
+  lakshadweep: 'लक्षद्वीप',
+  madhya: 'मध्य',
+  maharashtra: 'महाराष्ट्र',
+  manipur: 'मणिपुर',
+  meghalaya: 'मेघालय',
+  mizoram: 'मिज़ोरम',
+  nadu: 'नाडु',
+  nagaland: 'नागालैंड',
+  nicobar: 'निकोबार',
+  odisha: 'ओडिशा',
+  pradesh: 'प्रदेश',
+  puducherry: 'पुडुचेरी',
+  punjab: 'पंजाब',
+  rajasthan: 'राजस्थान',
+  sikkim: 'सिक्किम',
+  tamil: 'तमिल',
+  telangana: 'तेलंगाना',
+  tripura: 'त्रिपुरा',
+  uttar: 'उत्तर',
+  uttarakhand: 'उत्तराखंड',
+  west: 'पश्चिम',
+
+  // Madhya Pradesh districts
+  agar: 'आगर',
+  alirajpur: 'अलीराजपुर',
+  anuppur: 'अनूपपुर',
+  ashoknagar: 'अशोकनगर',
+  balaghat: 'बालाघाट',
+  barwani: 'बड़वानी',
+  betul: 'बैतूल',
+  bhind: 'भिंड',
+  bhopal: 'भोपाल',
+  burhanpur: 'बुरहानपुर',
+  chhatarpur: 'छतरपुर',
+  chhindwara: 'छिंदवाड़ा',
+  damoh: 'दमोह',
+  datia: 'दतिया',
+  dewas: 'देवास',
+  dhar: 'धार',
+  dindori: 'डिंडोरी',
+  guna: 'गुना',
+  gwalior: 'ग्वालियर',
+  harda: 'हरदा',
+  hoshangabad: 'होशंगाबाद',
+  indore: 'इंदौर',
+  jabalpur: 'जबलपुर',
+  jhabua: 'झाबुआ',
+  katni: 'कटनी',
+  khandwa: 'खंडवा',
+  khargone: 'खरगोन',
+  maihar: 'मैहर',
+  malwa: 'मालवा',
+  mandla: 'मंडला',
+  mandsaur: 'मंदसौर',
+  mauganj: 'मऊगंज',
+  morena: 'मुरैना',
+  narmadapuram: 'नर्मदापुरम',
+  narsinghpur: 'नरसिंहपुर',
+  neemuch: 'नीमच',
+  niwari: 'निवाड़ी',
+  pandhurna: 'पांढुर्णा',
+  panna: 'पन्ना',
+  raisen: 'रायसेन',
+  rajgarh: 'राजगढ़',
+  ratlam: 'रतलाम',
+  rewa: 'रीवा',
+  sagar: 'सागर',
+  satna: 'सतना',
+  sehore: 'सीहोर',
+  seoni: 'सिवनी',
+  shahdol: 'शहडोल',
+  shajapur: 'शाजापुर',
+  sheopur: 'श्योपुर',
+  shivpuri: 'शिवपुरी',
+  sidhi: 'सीधी',
+  singrauli: 'सिंगरौली',
+  tikamgarh: 'टीकमगढ़',
+  ujjain: 'उज्जैन',
+  umaria: 'उमरिया',
+  vidisha: 'विदिशा',
+
+  // Common place-name parts
+  east: 'पूर्व',
+  ganj: 'गंज',
+  garh: 'गढ़',
+  lower: 'निचला',
+  middle: 'मध्य',
+  nagar: 'नगर',
+  north: 'उत्तर',
+  pur: 'पुर',
+  puram: 'पुरम',
+  rural: 'ग्रामीण',
+  south: 'दक्षिण',
+  upper: 'ऊपरी',
+  urban: 'शहरी',
+  valley: 'घाटी',
+};
+
+// Endings that are reliably spelled the same way at the end of place names
+// (e.g. Ashoknagar, Rajgarh), tried longest first when a word is not in the dictionary
+export const devanagariSuffixes: [string, string][] = [
+  ['nagar', 'नगर'],
+  ['puram', 'पुरम'],
+  ['garh', 'गढ़'],
+  ['ganj', 'गंज'],
+  ['abad', 'ाबाद'],
+  ['puri', 'पुरी'],
+  ['pur', 'पुर'],
+];
@@ -0,0 +1,256 @@
+// Offline Latin to Devanagari transliteration for Indian names and place names
+// Runs in the browser and on the server without any network access: known words
+// come from devanagari-dictionary.ts, everything else goes through phonetic rules
+// tuned for the way Hindi names are usually spelled in English.
+import { devanagariDictionary, devanagariSuffixes } from '@/lib/devanagari-dictionary';
+
+const VIRAMA = '्';
+const ANUSVARA = 'ं';
+
+// Longest patterns first so "chh" wins over "ch" and "c"
+const CONSONANTS: [string, string][] = [
+  ['ksh', 'क्ष'],
+  ['chh', 'छ'],
+  ['shh', 'ष'],
+  ['kh', 'ख'],
+  ['gh', 'घ'],
+  ['ch', 'च'],
+  ['jh', 'झ'],
+  ['th', 'थ'],
+  ['dh', 'ध'],
+  ['ph', 'फ'],
+  ['bh', 'भ'],
+  ['sh', 'श'],
+  ['ck', 'क'],
+  ['k', 'क'],
+  ['g', 'ग'],
+  ['c', 'क'],
+  ['j', 'ज'],
+  ['t', 'त'],
+  ['d', 'द'],
+  ['n', 'न'],
+  ['p', 'प'],
+  ['b', 'ब'],
+  ['m', 'म'],
+  ['y', 'य'],
+  ['r', 'र'],
+  ['l', 'ल'],
+  ['v', 'व'],
+  ['w', 'व'],
+  ['s', 'स'],
+  ['h', 'ह'],
+  ['f', 'फ़'],
+  ['z', 'ज़'],
+  ['q', 'क'],
+  ['x', 'क्स'],
+];
+
+// [latin, independent form, dependent sign]; the inherent "a" has no sign
+const VOWELS: [string, string, string][] = [
+  ['aa', 'आ', 'ा'],
+  ['ai', 'ऐ', 'ै'],
+  ['au', 'औ', 'ौ'],
+  ['ee', 'ई', 'ी'],
+  ['ii', 'ई', 'ी'],
+  ['oo', 'ऊ', 'ू'],
+  ['ou', 'औ', 'ौ'],
+  ['a', 'अ', ''],
+  ['i', 'इ', 'ि'],
+  ['u', 'उ', 'ु'],
+  ['e', 'ए', 'े'],
+  ['o', 'ओ', 'ो'],
+];
+
+// Consonants after which a nasal is written as anusvara (Anand -> आनंद, Shambhu -> शंभु)
+const NASAL_FOLLOWERS: Record<string, RegExp> = {
+  n: /^(k|g|c|j|t|d|p|b|s|sh|ph|bh|dh|th|gh|kh|jh|chh)/,
+  m: /^(p|b|bh|ph)/,
+};
+
+/**
+ * Alternative readings of ambiguous English spellings, used to build candidates
+ */
+interface RuleOptions {
+  // Trailing "a" as ा (Sita) rather than the inherent vowel (Ram Charan)
+  longFinalA: boolean;
+  // t/d as retroflex ट/ड (Patel, Pandey) rather than dental त/द (Amit, Deepak)
+  retroflex: boolean;
+  // Medial i/u as long ी/ू (Sunil, Anoop) rather than short
+  longMedialVowels: boolean;
+}
+
+const DEFAULT_RULES: RuleOptions = { longFinalA: true, retroflex: false, longMedialVowels: false };
+
+// Rule variants tried for candidates, most likely first
+const CANDIDATE_RULES: RuleOptions[] = [
+  DEFAULT_RULES,
+  { ...DEFAULT_RULES, longFinalA: false },
+  { ...DEFAULT_RULES, longMedialVowels: true },
+  { ...DEFAULT_RULES, retroflex: true },
+  { longFinalA: true, retroflex: true, longMedialVowels: true },
+];
+
+const RETROFLEX: Record<string, string> = { t: 'ट', th: 'ठ', d: 'ड', dh: 'ढ' };
+const LONG_SIGNS: Record<string, string> = { i: 'ी', u: 'ू' };
+
+const matchFrom = <T extends [string, ...string[]]>(table: T[], word: string, index: number): T | undefined =>
+  table.find(([latin]) => word.startsWith(latin, index));
+
+const isDevanagariConsonant = (char: string) => /[क-हक़-य़]/.test(char);
+
+/**
+ * Rule-based transliteration of a single lower-case Latin word
+ */
+function transliterateByRules(word: string, rules: RuleOptions = DEFAULT_RULES): string {
+  let output = '';
+  // True while the last output is a consonant still carrying its inherent vowel
+  let pendingConsonant = false;
+
+  for (let i = 0; i < word.length; ) {
+    // A trailing "ey" after a consonant is a long e (Pandey, Dubey)
+    if (pendingConsonant && word.startsWith('ey', i) && i + 2 === word.length) {
+      output += 'े';
+      pendingConsonant = false;
+      i += 2;
+      continue;
+    }
+
+    const vowel = matchFrom(VOWELS, word, i);
+    if (vowel) {
+      const [latin, independent, sign] = vowel;
+      const isFinal = i + latin.length === word.length;
+
+      if (pendingConsonant) {
+        // A trailing "a" or "i" in English spellings of names is long (Sita, Lakshmi)...
+        if (isFinal && latin === 'a') {
+          // ...except after a conjunct ending in r (Chandra, Mitra), which keeps the short vowel
+          output += rules.longFinalA && !output.endsWith(VIRAMA + 'र') ? 'ा' : '';
+        } else if (isFinal && latin === 'i') {
+          output += 'ी';
+        } else if (rules.longMedialVowels && LONG_SIGNS[latin]) {
+          output += LONG_SIGNS[latin];
+        } else {
+          output += sign;
+        }
+      } else {
+        output += independent;
+      }
+      pendingConsonant = false;
+      i += latin.length;
+      continue;
+    }
+
+    const consonant = matchFrom(CONSONANTS, word, i);
+    if (!consonant) {
+      // Not a letter we know; keep it as typed
+      output += word[i];
+      pendingConsonant = false;
+      i += 1;
+      continue;
+    }
+
+    const [latin] = consonant;
+    const devanagari = (rules.retroflex && RETROFLEX[latin]) || consonant[1];
+    const rest = word.slice(i + latin.length);
+    const nasalFollower = NASAL_FOLLOWERS[latin];
+
+    // A nasal between a vowel and a consonant is written as anusvara
+    if (nasalFollower && !pendingConsonant && output.length > 0 && nasalFollower.test(rest)) {
+      output += ANUSVARA;
+      i += latin.length;
+      continue;
+    }
+
+    // "y" after a consonant at the end of a word is a long i (Vicky, Sunny)
+    if (latin === 'y' && pendingConsonant && rest === '') {
+      output += 'ी';
+      pendingConsonant = false;
+      i += 1;
+      continue;
+    }
+
+    // Two consonants in a row form a conjunct; a doubled letter (tt, nn) becomes one conjunct
+    if (pendingConsonant) {
+      output += VIRAMA;
+    }
+    output += devanagari;
+    pendingConsonant = true;
+    i += latin.length;
+  }
+
+  return output;
+}
+
+/**
+ * Candidate spellings for one word, most likely first: the dictionary entry,
+ * then place-name endings, then each rule variant
+ */
+function wordCandidates(word: string): string[] {
+  const lower = word.toLowerCase();
+  const candidates: string[] = [];
+  const known = devanagariDictionary[lower];
+  if (known) candidates.push(known);
+
+  for (const [suffix, devanagari] of devanagariSuffixes) {
+    if (lower.length > suffix.length + 1 && lower.endsWith(suffix)) {
+      const stem = wordCandidates(lower.slice(0, -suffix.length))[0];
+      // Suffixes starting with a vowel sign (ाबाद) need the independent vowel after a vowel
+      if (devanagari.startsWith('ा') && !isDevanagariConsonant(stem.slice(-1))) {
+        candidates.push(stem + 'आ' + devanagari.slice(1));
+      } else {
+        candidates.push(stem + devanagari);
+      }
+      break;
+    }
+  }
+
+  for (const rules of CANDIDATE_RULES) {
+    candidates.push(transliterateByRules(lower, rules));
+  }
+
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Returns true when every Latin word in the text has a dictionary entry,
+ * i.e. the result does not rely on the phonetic rules
+ */
+export function isFullyKnown(text: string): boolean {
+  const words = text.match(/[A-Za-z]+/g) ?? [];
+  return words.every((word) => word.toLowerCase() in devanagariDictionary);
+}
+
+/**
+ * Transliterates Latin text into Devanagari, keeping spaces, punctuation,
+ * digits and any text that is already in Devanagari unchanged
+ */
+export function transliterateLatinToDevanagari(text: string): string {
+  return text.replace(/[A-Za-z]+/g, (word) => wordCandidates(word)[0]);
+}
+
+/**
+ * Ranked alternative transliterations of the whole text
+ * The first is the best guess for every word; the rest change one word at a
+ * time to its next most likely spelling, so a single wrong word can be fixed
+ */
+export function getDevanagariCandidates(text: string, limit = 5): string[] {
+  const parts = text.split(/([A-Za-z]+)/);
+  const options = parts.map((part, index) => (index % 2 === 1 ? wordCandidates(part) : [part]));
+  const best = options.map((choices) => choices[0]);
+
+  const candidates = [best.join('')];
+  for (let rank = 1; candidates.length < limit * 4; rank++) {
+    let added = false;
+    options.forEach((choices, index) => {
+      if (choices[rank]) {
+        const variant = [...best];
+        variant[index] = choices[rank];
+        candidates.push(variant.join(''));
+        added = true;
+      }
+    });
+    if (!added) break;
+  }
+
+  return Array.from(new Set(candidates)).slice(0, limit);
+}
@@ -1,888 +1,1172 @@
-export const statesWithDistricts = [
+// States, union territories and districts offered in the registration form
+// English names and codes follow the Local Government Directory (LGD,
+// https://lgdirectory.gov.in); the Hindi names are the ones printed on
+// certificates. District LGD codes come from src/content/lgd-district-codes.json,
+// written by `npm run import-lgd-codes` from the directory's own district list;
+// a district without a code there is stored with a null code.
+import { transliterateLatinToDevanagari } from "@/lib/devanagari-transliterator";
+import lgdDistrictCodes from "@/content/lgd-district-codes.json";
+
+export interface District {
+  name: string;
+  nameHi: string;
+  lgdCode?: number;
+  // Earlier names still accepted from old submissions and saved progress (e.g. Hoshangabad)
+  formerNames?: string[];
+}
+
+export interface StateOrUT {
+  state: string;
+  stateHi: string;
+  lgdCode: number;
+  districts: District[];
+}
+
+/**
+ * A dated change to a state's district list, applied once effectiveFrom has passed
+ */
+export type DistrictUpdate =
+  | { type: "created"; state: string; effectiveFrom: string; district: District; carvedFrom: string[] }
+  | { type: "renamed"; state: string; effectiveFrom: string; from: string; district: District };
+
+// District lists as first compiled; later changes belong in districtUpdates below, not here
+const baseStatesWithDistricts: StateOrUT[] = [
   {
     state: "Madhya Pradesh",
+    stateHi: "मध्य प्रदेश",
+    lgdCode: 23,
     districts: [
-      "Agar Malwa",
-      "Alirajpur",
-      "Anuppur",
-      "Ashoknagar",
-      "Balaghat",
-      "Barwani",
-      "Betul",
-      "Bhind",
-      "Bhopal",
-      "Burhanpur",
-      "Chhatarpur",
-      "Chhindwara",
-      "Damoh",
-      "Datia",
-      "Dewas",
-      "Dhar",
-      "Dindori",
-      "Guna",
-      "Gwalior",
-      "Harda",
-      "Hoshangabad",
-      "Indore",
-      "Jabalpur",
-      "Jhabua",
-      "Katni",
-      "Khandwa",
-      "Khargone",
-      "Mandla",
-      "Mandsaur",
-      "Morena",
-      "Narsinghpur",
-      "Neemuch",
-      "Panna",
-      "Raisen",
-      "Rajgarh",
-      "Ratlam",
-      "Rewa",
-      "Sagar",
-      "Satna",
-      "Sehore",
-      "Seoni",
-      "Shahdol",
-      "Shajapur",
-      "Sheopur",
-      "Shivpuri",
-      "Sidhi",
-      "Singrauli",
-      "Tikamgarh",
-      "Ujjain",
-      "Umaria",
-      "Vidisha",
+      { name: "Agar Malwa", nameHi: "आगर मालवा" },
+      { name: "Alirajpur", nameHi: "अलीराजपुर" },
+      { name: "Anuppur", nameHi: "अनूपपुर" },
+      { name: "Ashoknagar", nameHi: "अशोकनगर" },
+      { name: "Balaghat", nameHi: "बालाघाट" },
+      { name: "Barwani", nameHi: "बड़वानी" },
+      { name: "Betul", nameHi: "बैतूल" },
+      { name: "Bhind", nameHi: "भिंड" },
+      { name: "Bhopal", nameHi: "भोपाल" },
+      { name: "Burhanpur", nameHi: "बुरहानपुर" },
+      { name: "Chhatarpur", nameHi: "छतरपुर" },
+      { name: "Chhindwara", nameHi: "छिंदवाड़ा" },
+      { name: "Damoh", nameHi: "दमोह" },
+      { name: "Datia", nameHi: "दतिया" },
+      { name: "Dewas", nameHi: "देवास" },
+      { name: "Dhar", nameHi: "धार" },
+      { name: "Dindori", nameHi: "डिंडोरी" },
+      { name: "Guna", nameHi: "गुना" },
+      { name: "Gwalior", nameHi: "ग्वालियर" },
+      { name: "Harda", nameHi: "हरदा" },
+      { name: "Hoshangabad", nameHi: "होशंगाबाद" },
+      { name: "Indore", nameHi: "इंदौर" },
+      { name: "Jabalpur", nameHi: "जबलपुर" },
+      { name: "Jhabua", nameHi: "झाबुआ" },
+      { name: "Katni", nameHi: "कटनी" },
+      { name: "Khandwa", nameHi: "खंडवा" },
+      { name: "Khargone", nameHi: "खरगोन" },
+      { name: "Mandla", nameHi: "मंडला" },
+      { name: "Mandsaur", nameHi: "मंदसौर" },
+      { name: "Morena", nameHi: "मुरैना" },
+      { name: "Narsinghpur", nameHi: "नरसिंहपुर" },
+      { name: "Neemuch", nameHi: "नीमच" },
+      { name: "Panna", nameHi: "पन्ना" },
+      { name: "Raisen", nameHi: "रायसेन" },
+      { name: "Rajgarh", nameHi: "राजगढ़" },
+      { name: "Ratlam", nameHi: "रतलाम" },
+      { name: "Rewa", nameHi: "रीवा" },
+      { name: "Sagar", nameHi: "सागर" },
+      { name: "Satna", nameHi: "सतना" },
+      { name: "Sehore", nameHi: "सीहोर" },
+      { name: "Seoni", nameHi: "सिवनी" },
+      { name: "Shahdol", nameHi: "शहडोल" },
+      { name: "Shajapur", nameHi: "शाजापुर" },
+      { name: "Sheopur", nameHi: "श्योपुर" },
+      { name: "Shivpuri", nameHi: "शिवपुरी" },
+      { name: "Sidhi", nameHi: "सीधी" },
+      { name: "Singrauli", nameHi: "सिंगरौली" },
+      { name: "Tikamgarh", nameHi: "टीकमगढ़" },
+      { name: "Ujjain", nameHi: "उज्जैन" },
+      { name: "Umaria", nameHi: "उमरिया" },
+      { name: "Vidisha", nameHi: "विदिशा" },
     ],
   },
   {
     state: "Andaman and Nicobar Islands",
-    districts: ["Nicobar", "North and Middle Andaman", "South Andaman"],
+    stateHi: "अंडमान और निकोबार द्वीपसमूह",
+    lgdCode: 35,
+    districts: [
+      { name: "Nicobar", nameHi: "निकोबार" },
+      { name: "North and Middle Andaman", nameHi: "उत्तर और मध्य अंडमान" },
+      { name: "South Andaman", nameHi: "दक्षिण अंडमान" },
+    ],
   },
   {
     state: "Andhra Pradesh",
+    stateHi: "आंध्र प्रदेश",
+    lgdCode: 28,
     districts: [
-      "Anantapur",
-      "Chittoor",
-      "East Godavari",
-      "Guntur",
-      "Krishna",
-      "Kurnool",
-      "Prakasam",
-      "Sri Potti Sriramulu Nellore",
-      "Srikakulam",
-      "Visakhapatnam",
-      "Vizianagaram",
-      "West Godavari",
-      "Y.S.R. Kadapa",
+      { name: "Anantapur", nameHi: "अनंतपुर" },
+      { name: "Chittoor", nameHi: "चित्तूर" },
+      { name: "East Godavari", nameHi: "पूर्वी गोदावरी" },
+      { name: "Guntur", nameHi: "गुंटूर" },
+      { name: "Krishna", nameHi: "कृष्णा" },
+      { name: "Kurnool", nameHi: "कुरनूल" },
+      { name: "Prakasam", nameHi: "प्रकाशम" },
+      { name: "Sri Potti Sriramulu Nellore", nameHi: "श्री पोट्टि श्रीरामुलु नेल्लोर" },
+      { name: "Srikakulam", nameHi: "श्रीकाकुलम" },
+      { name: "Visakhapatnam", nameHi: "विशाखापत्तनम" },
+      { name: "Vizianagaram", nameHi: "विजयनगरम" },
+      { name: "West Godavari", nameHi: "पश्चिमी गोदावरी" },
+      { name: "Y.S.R. Kadapa", nameHi: "वाई.एस.आर. कडपा" },
     ],
   },
   {
     state: "Arunachal Pradesh",
+    stateHi: "अरुणाचल प्रदेश",
+    lgdCode: 12,
     districts: [
-        "Anjaw",
-        "Changlang",
-        "Dibang Valley",
-        "East Kameng",
-        "East Siang",
-        "Kamle",
-        "Kra Daadi",
-        "Kurung Kumey",
-        "Lepa Rada",
-        "Lohit",
-        "Longding",
-        "Lower Dibang Valley",
-        "Lower Siang",
-        "Lower Subansiri",
-        "Namsai",
-        "Pakke Kessang",
-        "Papum Pare",
-        "Shi Yomi",
-        "Siang",
-        "Tawang",
-        "Tirap",
-        "Upper Siang",
-        "Upper Subansiri",
-        "West Kameng",
-        "West Siang",
+      { name: "Anjaw", nameHi: "अंजाव" },
+      { name: "Changlang", nameHi: "चांगलांग" },
+      { name: "Dibang Valley", nameHi: "दिबांग घाटी" },
+      { name: "East Kameng", nameHi: "पूर्वी कामेंग" },
+      { name: "East Siang", nameHi: "पूर्वी सियांग" },
+      { name: "Kamle", nameHi: "कमले" },
+      { name: "Kra Daadi", nameHi: "क्रा दादी" },
+      { name: "Kurung Kumey", nameHi: "कुरुंग कुमे" },
+      { name: "Lepa Rada", nameHi: "लेपा राडा" },
+      { name: "Lohit", nameHi: "लोहित" },
+      { name: "Longding", nameHi: "लोंगडिंग" },
+      { name: "Lower Dibang Valley", nameHi: "निचली दिबांग घाटी" },
+      { name: "Lower Siang", nameHi: "निचला सियांग" },
+      { name: "Lower Subansiri", nameHi: "निचला सुबनसिरी" },
+      { name: "Namsai", nameHi: "नामसाई" },
+      { name: "Pakke Kessang", nameHi: "पक्के केसांग" },
+      { name: "Papum Pare", nameHi: "पापुम पारे" },
+      { name: "Shi Yomi", nameHi: "शि योमी" },
+      { name: "Siang", nameHi: "सियांग" },
+      { name: "Tawang", nameHi: "तवांग" },
+      { name: "Tirap", nameHi: "तिरप" },
+      { name: "Upper Siang", nameHi: "ऊपरी सियांग" },
+      { name: "Upper Subansiri", nameHi: "ऊपरी सुबनसिरी" },
+      { name: "West Kameng", nameHi: "पश्चिमी कामेंग" },
+      { name: "West Siang", nameHi: "पश्चिमी सियांग" },
     ],
   },
   {
     state: "Assam",
+    stateHi: "असम",
+    lgdCode: 18,
     districts: [
-      "Baksa",
-      "Barpeta",
-      "Biswanath",
-      "Bongaigaon",
-      "Cachar",
-      "Charaideo",
-      "Chirang",
-      "Darrang",
-      "Dhemaji",
-      "Dhubri",
-      "Dibrugarh",
-      "Dima Hasao",
-      "Goalpara",
-      "Golaghat",
-      "Hailakandi",
-      "Hojai",
-      "Jorhat",
-      "Kamrup",
-      "Kamrup Metropolitan",
-      "Karbi Anglong",
-      "Karimganj",
-      "Kokrajhar",
-      "Lakhimpur",
-      "Majuli",
-      "Morigaon",
-      "Nagaon",
-      "Nalbari",
-      "Sivasagar",
-      "Sonitpur",
-      "South Salmara-Mankachar",
-      "Tinsukia",
-      "Udalguri",
-      "West Karbi Anglong",
+      { name: "Baksa", nameHi: "बक्सा" },
+      { name: "Barpeta", nameHi: "बरपेटा" },
+      { name: "Biswanath", nameHi: "विश्वनाथ" },
+      { name: "Bongaigaon", nameHi: "बोंगाईगांव" },
+      { name: "Cachar", nameHi: "कछार" },
+      { name: "Charaideo", nameHi: "चराइदेव" },
+      { name: "Chirang", nameHi: "चिरांग" },
+      { name: "Darrang", nameHi: "दरांग" },
+      { name: "Dhemaji", nameHi: "धेमाजी" },
+      { name: "Dhubri", nameHi: "धुबरी" },
+      { name: "Dibrugarh", nameHi: "डिब्रूगढ़" },
+      { name: "Dima Hasao", nameHi: "दिमा हसाओ" },
+      { name: "Goalpara", nameHi: "ग्वालपाड़ा" },
+      { name: "Golaghat", nameHi: "गोलाघाट" },
+      { name: "Hailakandi", nameHi: "हैलाकांदी" },
+      { name: "Hojai", nameHi: "होजाई" },
+      { name: "Jorhat", nameHi: "जोरहाट" },
+      { name: "Kamrup", nameHi: "कामरूप" },
+      { name: "Kamrup Metropolitan", nameHi: "कामरूप महानगर" },
+      { name: "Karbi Anglong", nameHi: "कार्बी आंगलोंग" },
+      { name: "Karimganj", nameHi: "करीमगंज" },
+      { name: "Kokrajhar", nameHi: "कोकराझार" },
+      { name: "Lakhimpur", nameHi: "लखीमपुर" },
+      { name: "Majuli", nameHi: "माजुली" },
+      { name: "Morigaon", nameHi: "मोरीगांव" },
+      { name: "Nagaon", nameHi: "नगांव" },
+      { name: "Nalbari", nameHi: "नलबाड़ी" },
+      { name: "Sivasagar", nameHi: "शिवसागर" },
+      { name: "Sonitpur", nameHi: "शोणितपुर" },
+      { name: "South Salmara-Mankachar", nameHi: "दक्षिण सालमारा-मानकाचर" },
+      { name: "Tinsukia", nameHi: "तिनसुकिया" },
+      { name: "Udalguri", nameHi: "उदालगुड़ी" },
+      { name: "West Karbi Anglong", nameHi: "पश्चिम कार्बी आंगलोंग" },
     ],
   },
   {
     state: "Bihar",
+    stateHi: "बिहार",
+    lgdCode: 10,
     districts: [
-      "Araria",
-      "Arwal",
-      "Aurangabad",
-      "Banka",
-      "Begusarai",
-      "Bhagalpur",
-      "Bhojpur",
-      "Buxar",
-      "Darbhanga",
-      "East Champaran",
-      "Gaya",
-      "Gopalganj",
-      "Jamui",
-      "Jehanabad",
-      "Kaimur",
-      "Katihar",
-      "Khagaria",
-      "Kishanganj",
-      "Lakhisarai",
-      "Madhepura",
-      "Madhubani",
-      "Munger",
-      "Muzaffarpur",
-      "Nalanda",
-      "Nawada",
-      "Patna",
-      "Purnia",
-      "Rohtas",
-      "Saharsa",
-      "Samastipur",
-      "Saran",
-      "Sheikhpura",
-      "Sheohar",
-      "Sitamarhi",
-      "Siwan",
-      "Supaul",
-      "Vaishali",
-      "West Champaran",
+      { name: "Araria", nameHi: "अररिया" },
+      { name: "Arwal", nameHi: "अरवल" },
+      { name: "Aurangabad", nameHi: "औरंगाबाद" },
+      { name: "Banka", nameHi: "बांका" },
+      { name: "Begusarai", nameHi: "बेगूसराय" },
+      { name: "Bhagalpur", nameHi: "भागलपुर" },
+      { name: "Bhojpur", nameHi: "भोजपुर" },
+      { name: "Buxar", nameHi: "बक्सर" },
+      { name: "Darbhanga", nameHi: "दरभंगा" },
+      { name: "East Champaran", nameHi: "पूर्वी चंपारण" },
+      { name: "Gaya", nameHi: "गया" },
+      { name: "Gopalganj", nameHi: "गोपालगंज" },
+      { name: "Jamui", nameHi: "जमुई" },
+      { name: "Jehanabad", nameHi: "जहानाबाद" },
+      { name: "Kaimur", nameHi: "कैमूर" },
+      { name: "Katihar", nameHi: "कटिहार" },
+      { name: "Khagaria", nameHi: "खगड़िया" },
+      { name: "Kishanganj", nameHi: "किशनगंज" },
+      { name: "Lakhisarai", nameHi: "लखीसराय" },
+      { name: "Madhepura", nameHi: "मधेपुरा" },
+      { name: "Madhubani", nameHi: "मधुबनी" },
+      { name: "Munger", nameHi: "मुंगेर" },
+      { name: "Muzaffarpur", nameHi: "मुजफ्फरपुर" },
+      { name: "Nalanda", nameHi: "नालंदा" },
+      { name: "Nawada", nameHi: "नवादा" },
+      { name: "Patna", nameHi: "पटना" },
+      { name: "Purnia", nameHi: "पूर्णिया" },
+      { name: "Rohtas", nameHi: "रोहतास" },
+      { name: "Saharsa", nameHi: "सहरसा" },
+      { name: "Samastipur", nameHi: "समस्तीपुर" },
+      { name: "Saran", nameHi: "सारण" },
+      { name: "Sheikhpura", nameHi: "शेखपुरा" },
+      { name: "Sheohar", nameHi: "शिवहर" },
+      { name: "Sitamarhi", nameHi: "सीतामढ़ी" },
+      { name: "Siwan", nameHi: "सीवान" },
+      { name: "Supaul", nameHi: "सुपौल" },
+      { name: "Vaishali", nameHi: "वैशाली" },
+      { name: "West Champaran", nameHi: "पश्चिमी चंपारण" },
     ],
   },
   {
     state: "Chandigarh",
-    districts: ["Chandigarh"],
+    stateHi: "चंडीगढ़",
+    lgdCode: 4,
+    districts: [
+      { name: "Chandigarh", nameHi: "चंडीगढ़" },
+    ],
   },
   {
     state: "Chhattisgarh",
+    stateHi: "छत्तीसगढ़",
+    lgdCode: 22,
     districts: [
-      "Balod",
-      "Baloda Bazar",
-      "Balrampur",
-      "Bastar",
-      "Bemetara",
-      "Bijapur",
-      "Bilaspur",
-      "Dantewada",
-      "Dhamtari",
-      "Durg",
-      "Gariaband",
-      "Gaurela Pendra Marwahi",
-      "Janjgir-Champa",
-      "Jashpur",
-      "Kabirdham",
-      "Kanker",
-      "Kondagaon",
-      "Korba",
-      "Koriya",
-      "Mahasamund",
-      "Mungeli",
-      "Narayanpur",
-      "Raigarh",
-      "Raipur",
-      "Rajnandgaon",
-      "Sukma",
-      "Surajpur",
-      "Surguja",
+      { name: "Balod", nameHi: "बालोद" },
+      { name: "Baloda Bazar", nameHi: "बलौदा बाजार" },
+      { name: "Balrampur", nameHi: "बलरामपुर" },
+      { name: "Bastar", nameHi: "बस्तर" },
+      { name: "Bemetara", nameHi: "बेमेतरा" },
+      { name: "Bijapur", nameHi: "बीजापुर" },
+      { name: "Bilaspur", nameHi: "बिलासपुर" },
+      { name: "Dantewada", nameHi: "दंतेवाड़ा" },
+      { name: "Dhamtari", nameHi: "धमतरी" },
+      { name: "Durg", nameHi: "दुर्ग" },
+      { name: "Gariaband", nameHi: "गरियाबंद" },
+      { name: "Gaurela Pendra Marwahi", nameHi: "गौरेला पेंड्रा मरवाही" },
+      { name: "Janjgir-Champa", nameHi: "जांजगीर-चांपा" },
+      { name: "Jashpur", nameHi: "जशपुर" },
+      { name: "Kabirdham", nameHi: "कबीरधाम" },
+      { name: "Kanker", nameHi: "कांकेर" },
+      { name: "Kondagaon", nameHi: "कोंडागांव" },
+      { name: "Korba", nameHi: "कोरबा" },
+      { name: "Koriya", nameHi: "कोरिया" },
+      { name: "Mahasamund", nameHi: "महासमुंद" },
+      { name: "Mungeli", nameHi: "मुंगेली" },
+      { name: "Narayanpur", nameHi: "नारायणपुर" },
+      { name: "Raigarh", nameHi: "रायगढ़" },
+      { name: "Raipur", nameHi: "रायपुर" },
+      { name: "Rajnandgaon", nameHi: "राजनांदगांव" },
+      { name: "Sukma", nameHi: "सुकमा" },
+      { name: "Surajpur", nameHi: "सूरजपुर" },
+      { name: "Surguja", nameHi: "सरगुजा" },
     ],
   },
   {
     state: "Dadra and Nagar Haveli and Daman and Diu",
-    districts: ["Daman", "Diu", "Dadra and Nagar Haveli"],
+    stateHi: "दादरा और नगर हवेली और दमन और दीव",
+    lgdCode: 38,
+    districts: [
+      { name: "Daman", nameHi: "दमन" },
+      { name: "Diu", nameHi: "दीव" },
+      { name: "Dadra and Nagar Haveli", nameHi: "दादरा और नगर हवेली" },
+    ],
   },
   {
     state: "Delhi",
+    stateHi: "दिल्ली",
+    lgdCode: 7,
     districts: [
-      "Central Delhi",
-      "East Delhi",
-      "New Delhi",
-      "North Delhi",
-      "North East Delhi",
-      "North West Delhi",
-      "Shahdara",
-      "South Delhi",
-      "South East Delhi",
-      "South West Delhi",
-      "West Delhi",
+      { name: "Central Delhi", nameHi: "मध्य दिल्ली" },
+      { name: "East Delhi", nameHi: "पूर्वी दिल्ली" },
+      { name: "New Delhi", nameHi: "नई दिल्ली" },
+      { name: "North Delhi", nameHi: "उत्तरी दिल्ली" },
+      { name: "North East Delhi", nameHi: "उत्तर पूर्वी दिल्ली" },
+      { name: "North West Delhi", nameHi: "उत्तर पश्चिमी दिल्ली" },
+      { name: "Shahdara", nameHi: "शाहदरा" },
+      { name: "South Delhi", nameHi: "दक्षिणी दिल्ली" },
+      { name: "South East Delhi", nameHi: "दक्षिण पूर्वी दिल्ली" },
+      { name: "South West Delhi", nameHi: "दक्षिण पश्चिमी दिल्ली" },
+      { name: "West Delhi", nameHi: "पश्चिमी दिल्ली" },
     ],
   },
   {
     state: "Goa",
-    districts: ["North Goa", "South Goa"],
+    stateHi: "गोवा",
+    lgdCode: 30,
+    districts: [
+      { name: "North Goa", nameHi: "उत्तरी गोवा" },
+      { name: "South Goa", nameHi: "दक्षिणी गोवा" },
+    ],
   },
   {
     state: "Gujarat",
+    stateHi: "गुजरात",
+    lgdCode: 24,
     districts: [
-      "Ahmedabad",
-      "Amreli",
-      "Anand",
-      "Aravalli",
-      "Banaskantha",
-      "Bharuch",
-      "Bhavnagar",
-      "Botad",
-      "Chhota Udaipur",
-      "Dahod",
-      "Dang",
-      "Devbhoomi Dwarka",
-      "Gandhinagar",
-      "Gir Somnath",
-      "Jamnagar",
-      "Junagadh",
-      "Kheda",
-      "Kutch",
-      "Mahisagar",
-      "Mehsana",
-      "Morbi",
-      "Narmada",
-      "Navsari",
-      "Panchmahal",
-      "Patan",
-      "Porbandar",
-      "Rajkot",
-      "Sabarkantha",
-      "Surat",
-      "Surendranagar",
-      "Tapi",
-      "Vadodara",
-      "Valsad",
+      { name: "Ahmedabad", nameHi: "अहमदाबाद" },
+      { name: "Amreli", nameHi: "अमरेली" },
+      { name: "Anand", nameHi: "आणंद" },
+      { name: "Aravalli", nameHi: "अरावली" },
+      { name: "Banaskantha", nameHi: "बनासकांठा" },
+      { name: "Bharuch", nameHi: "भरूच" },
+      { name: "Bhavnagar", nameHi: "भावनगर" },
+      { name: "Botad", nameHi: "बोटाद" },
+      { name: "Chhota Udaipur", nameHi: "छोटा उदेपुर" },
+      { name: "Dahod", nameHi: "दाहोद" },
+      { name: "Dang", nameHi: "डांग" },
+      { name: "Devbhoomi Dwarka", nameHi: "देवभूमि द्वारका" },
+      { name: "Gandhinagar", nameHi: "गांधीनगर" },
+      { name: "Gir Somnath", nameHi: "गिर सोमनाथ" },
+      { name: "Jamnagar", nameHi: "जामनगर" },
+      { name: "Junagadh", nameHi: "जूनागढ़" },
+      { name: "Kheda", nameHi: "खेड़ा" },
+      { name: "Kutch", nameHi: "कच्छ" },
+      { name: "Mahisagar", nameHi: "महीसागर" },
+      { name: "Mehsana", nameHi: "मेहसाणा" },
+      { name: "Morbi", nameHi: "मोरबी" },
+      { name: "Narmada", nameHi: "नर्मदा" },
+      { name: "Navsari", nameHi: "नवसारी" },
+      { name: "Panchmahal", nameHi: "पंचमहल" },
+      { name: "Patan", nameHi: "पाटन" },
+      { name: "Porbandar", nameHi: "पोरबंदर" },
+      { name: "Rajkot", nameHi: "राजकोट" },
+      { name: "Sabarkantha", nameHi: "साबरकांठा" },
+      { name: "Surat", nameHi: "सूरत" },
+      { name: "Surendranagar", nameHi: "सुरेंद्रनगर" },
+      { name: "Tapi", nameHi: "तापी" },
+      { name: "Vadodara", nameHi: "वडोदरा" },
+      { name: "Valsad", nameHi: "वलसाड" },
     ],
   },
   {
     state: "Haryana",
+    stateHi: "हरियाणा",
+    lgdCode: 6,
     districts: [
-      "Ambala",
-      "Bhiwani",
-      "Charkhi Dadri",
-      "Faridabad",
-      "Fatehabad",
-      "Gurugram",
-      "Hisar",
-      "Jhajjar",
-      "Jind",
-      "Kaithal",
-      "Karnal",
-      "Kurukshetra",
-      "Mahendragarh",
-      "Nuh",
-      "Palwal",
-      "Panchkula",
-      "Panipat",
-      "Rewari",
-      "Rohtak",
-      "Sirsa",
-      "Sonipat",
-      "Yamunanagar",
+      { name: "Ambala", nameHi: "अंबाला" },
+      { name: "Bhiwani", nameHi: "भिवानी" },
+      { name: "Charkhi Dadri", nameHi: "चरखी दादरी" },
+      { name: "Faridabad", nameHi: "फरीदाबाद" },
+      { name: "Fatehabad", nameHi: "फतेहाबाद" },
+      { name: "Gurugram", nameHi: "गुरुग्राम" },
+      { name: "Hisar", nameHi: "हिसार" },
+      { name: "Jhajjar", nameHi: "झज्जर" },
+      { name: "Jind", nameHi: "जींद" },
+      { name: "Kaithal", nameHi: "कैथल" },
+      { name: "Karnal", nameHi: "करनाल" },
+      { name: "Kurukshetra", nameHi: "कुरुक्षेत्र" },
+      { name: "Mahendragarh", nameHi: "महेंद्रगढ़" },
+      { name: "Nuh", nameHi: "नूंह" },
+      { name: "Palwal", nameHi: "पलवल" },
+      { name: "Panchkula", nameHi: "पंचकूला" },
+      { name: "Panipat", nameHi: "पानीपत" },
+      { name: "Rewari", nameHi: "रेवाड़ी" },
+      { name: "Rohtak", nameHi: "रोहतक" },
+      { name: "Sirsa", nameHi: "सिरसा" },
+      { name: "Sonipat", nameHi: "सोनीपत" },
+      { name: "Yamunanagar", nameHi: "यमुनानगर" },
     ],
   },
   {
     state: "Himachal Pradesh",
+    stateHi: "हिमाचल प्रदेश",
+    lgdCode: 2,
     districts: [
-      "Bilaspur",
-      "Chamba",
-      "Hamirpur",
-      "Kangra",
-      "Kinnaur",
-      "Kullu",
-      "Lahaul and Spiti",
-      "Mandi",
-      "Shimla",
-      "Sirmaur",
-      "Solan",
-      "Una",
+      { name: "Bilaspur", nameHi: "बिलासपुर" },
+      { name: "Chamba", nameHi: "चंबा" },
+      { name: "Hamirpur", nameHi: "हमीरपुर" },
+      { name: "Kangra", nameHi: "कांगड़ा" },
+      { name: "Kinnaur", nameHi: "किन्नौर" },
+      { name: "Kullu", nameHi: "कुल्लू" },
+      { name: "Lahaul and Spiti", nameHi: "लाहौल और स्पीति" },
+      { name: "Mandi", nameHi: "मंडी" },
+      { name: "Shimla", nameHi: "शिमला" },
+      { name: "Sirmaur", nameHi: "सिरमौर" },
+      { name: "Solan", nameHi: "सोलन" },
+      { name: "Una", nameHi: "ऊना" },
     ],
   },
   {
     state: "Jammu and Kashmir",
+    stateHi: "जम्मू और कश्मीर",
+    lgdCode: 1,
     districts: [
-      "Anantnag",
-      "Bandipora",
-      "Baramulla",
-      "Budgam",
-      "Doda",
-      "Ganderbal",
-      "Jammu",
-      "Kathua",
-      "Kishtwar",
-      "Kulgam",
-      "Kupwara",
-      "Poonch",
-      "Pulwama",
-      "Rajouri",
-      "Ramban",
-      "Reasi",
-      "Samba",
-      "Shopian",
-      "Srinagar",
-      "Udhampur",
+      { name: "Anantnag", nameHi: "अनंतनाग" },
+      { name: "Bandipora", nameHi: "बांदीपोरा" },
+      { name: "Baramulla", nameHi: "बारामूला" },
+      { name: "Budgam", nameHi: "बडगाम" },
+      { name: "Doda", nameHi: "डोडा" },
+      { name: "Ganderbal", nameHi: "गांदरबल" },
+      { name: "Jammu", nameHi: "जम्मू" },
+      { name: "Kathua", nameHi: "कठुआ" },
+      { name: "Kishtwar", nameHi: "किश्तवाड़" },
+      { name: "Kulgam", nameHi: "कुलगाम" },
+      { name: "Kupwara", nameHi: "कुपवाड़ा" },
+      { name: "Poonch", nameHi: "पुंछ" },
+      { name: "Pulwama", nameHi: "पुलवामा" },
+      { name: "Rajouri", nameHi: "राजौरी" },
+      { name: "Ramban", nameHi: "रामबन" },
+      { name: "Reasi", nameHi: "रियासी" },
+      { name: "Samba", nameHi: "सांबा" },
+      { name: "Shopian", nameHi: "शोपियां" },
+      { name: "Srinagar", nameHi: "श्रीनगर" },
+      { name: "Udhampur", nameHi: "उधमपुर" },
     ],
   },
   {
     state: "Jharkhand",
+    stateHi: "झारखंड",
+    lgdCode: 20,
     districts: [
-      "Bokaro",
-      "Chatra",
-      "Deoghar",
-      "Dhanbad",
-      "Dumka",
-      "East Singhbhum",
-      "Garhwa",
-      "Giridih",
-      "Godda",
-      "Gumla",
-      "Hazaribagh",
-      "Jamtara",
-      "Khunti",
-      "Koderma",
-      "Latehar",
-      "Lohardaga",
-      "Pakur",
-      "Palamu",
-      "Ramgarh",
-      "Ranchi",
-      "Sahebganj",
-      "Seraikela Kharsawan",
-      "Simdega",
-      "West Singhbhum",
+      { name: "Bokaro", nameHi: "बोकारो" },
+      { name: "Chatra", nameHi: "चतरा" },
+      { name: "Deoghar", nameHi: "देवघर" },
+      { name: "Dhanbad", nameHi: "धनबाद" },
+      { name: "Dumka", nameHi: "दुमका" },
+      { name: "East Singhbhum", nameHi: "पूर्वी सिंहभूम" },
+      { name: "Garhwa", nameHi: "गढ़वा" },
+      { name: "Giridih", nameHi: "गिरिडीह" },
+      { name: "Godda", nameHi: "गोड्डा" },
+      { name: "Gumla", nameHi: "गुमला" },
+      { name: "Hazaribagh", nameHi: "हजारीबाग" },
+      { name: "Jamtara", nameHi: "जामताड़ा" },
+      { name: "Khunti", nameHi: "खूंटी" },
+      { name: "Koderma", nameHi: "कोडरमा" },
+      { name: "Latehar", nameHi: "लातेहार" },
+      { name: "Lohardaga", nameHi: "लोहरदगा" },
+      { name: "Pakur", nameHi: "पाकुड़" },
+      { name: "Palamu", nameHi: "पलामू" },
+      { name: "Ramgarh", nameHi: "रामगढ़" },
+      { name: "Ranchi", nameHi: "रांची" },
+      { name: "Sahebganj", nameHi: "साहिबगंज" },
+      { name: "Seraikela Kharsawan", nameHi: "सरायकेला खरसावां" },
+      { name: "Simdega", nameHi: "सिमडेगा" },
+      { name: "West Singhbhum", nameHi: "पश्चिमी सिंहभूम" },
     ],
   },
   {
     state: "Karnataka",
+    stateHi: "कर्नाटक",
+    lgdCode: 29,
     districts: [
-      "Bagalkot",
-      "Ballari",
-      "Belagavi",
-      "Bengaluru Rural",
-      "Bengaluru Urban",
-      "Bidar",
-      "Chamarajanagar",
-      "Chikkaballapur",
-      "Chikkamagaluru",
-      "Chitradurga",
-      "Dakshina Kannada",
-      "Davanagere",
-      "Dharwad",
-      "Gadag",
-      "Hassan",
-      "Haveri",
-      "Kalaburagi",
-      "Kodagu",
-      "Kolar",
-      "Koppal",
-      "Mandya",
-      "Mysuru",
-      "Raichur",
-      "Ramanagara",
-      "Shivamogga",
-      "Tumakuru",
-      "Udupi",
-      "Uttara Kannada",
-      "Vijayapura",
-      "Yadgir",
+      { name: "Bagalkot", nameHi: "बागलकोट" },
+      { name: "Ballari", nameHi: "बल्लारी" },
+      { name: "Belagavi", nameHi: "बेलगावी" },
+      { name: "Bengaluru Rural", nameHi: "बेंगलुरु ग्रामीण" },
+      { name: "Bengaluru Urban", nameHi: "बेंगलुरु शहरी" },
+      { name: "Bidar", nameHi: "बीदर" },
+      { name: "Chamarajanagar", nameHi: "चामराजनगर" },
+      { name: "Chikkaballapur", nameHi: "चिक्कबल्लापुर" },
+      { name: "Chikkamagaluru", nameHi: "चिक्कमगलुरु" },
+      { name: "Chitradurga", nameHi: "चित्रदुर्ग" },
+      { name: "Dakshina Kannada", nameHi: "दक्षिण कन्नड़" },
+      { name: "Davanagere", nameHi: "दावणगेरे" },
+      { name: "Dharwad", nameHi: "धारवाड़" },
+      { name: "Gadag", nameHi: "गदग" },
+      { name: "Hassan", nameHi: "हासन" },
+      { name: "Haveri", nameHi: "हावेरी" },
+      { name: "Kalaburagi", nameHi: "कलबुर्गी" },
+      { name: "Kodagu", nameHi: "कोडगु" },
+      { name: "Kolar", nameHi: "कोलार" },
+      { name: "Koppal", nameHi: "कोप्पल" },
+      { name: "Mandya", nameHi: "मंड्या" },
+      { name: "Mysuru", nameHi: "मैसूरु" },
+      { name: "Raichur", nameHi: "रायचूर" },
+      { name: "Ramanagara", nameHi: "रामनगर" },
+      { name: "Shivamogga", nameHi: "शिवमोग्गा" },
+      { name: "Tumakuru", nameHi: "तुमकुरु" },
+      { name: "Udupi", nameHi: "उडुपी" },
+      { name: "Uttara Kannada", nameHi: "उत्तर कन्नड़" },
+      { name: "Vijayapura", nameHi: "विजयपुरा" },
+      { name: "Yadgir", nameHi: "यादगीर" },
     ],
   },
   {
     state: "Kerala",
+    stateHi: "केरल",
+    lgdCode: 32,
     districts: [
-      "Alappuzha",
-      "Ernakulam",
-      "Idukki",
-      "Kannur",
-      "Kasaragod",
-      "Kollam",
-      "Kottayam",
-      "Kozhikode",
-      "Malappuram",
-      "Palakkad",
-      "Pathanamthitta",
-      "Thiruvananthapuram",
-      "Thrissur",
-      "Wayanad",
+      { name: "Alappuzha", nameHi: "आलप्पुझा" },
+      { name: "Ernakulam", nameHi: "एर्नाकुलम" },
+      { name: "Idukki", nameHi: "इडुक्की" },
+      { name: "Kannur", nameHi: "कन्नूर" },
+      { name: "Kasaragod", nameHi: "कासरगोड" },
+      { name: "Kollam", nameHi: "कोल्लम" },
+      { name: "Kottayam", nameHi: "कोट्टयम" },
+      { name: "Kozhikode", nameHi: "कोझिकोड" },
+      { name: "Malappuram", nameHi: "मलप्पुरम" },
+      { name: "Palakkad", nameHi: "पालक्काड" },
+      { name: "Pathanamthitta", nameHi: "पतनमतिट्टा" },
+      { name: "Thiruvananthapuram", nameHi: "तिरुवनंतपुरम" },
+      { name: "Thrissur", nameHi: "त्रिशूर" },
+      { name: "Wayanad", nameHi: "वायनाड" },
     ],
   },
   {
     state: "Ladakh",
-    districts: ["Kargil", "Leh"],
+    stateHi: "लद्दाख",
+    lgdCode: 37,
+    districts: [
+      { name: "Kargil", nameHi: "कारगिल" },
+      { name: "Leh", nameHi: "लेह" },
+    ],
   },
   {
     state: "Lakshadweep",
-    districts: ["Lakshadweep"],
+    stateHi: "लक्षद्वीप",
+    lgdCode: 31,
+    districts: [
+      { name: "Lakshadweep", nameHi: "लक्षद्वीप" },
+    ],
   },
   {
     state: "Maharashtra",
+    stateHi: "महाराष्ट्र",
+    lgdCode: 27,
     districts: [
-      "Ahmednagar",
-      "Akola",
-      "Amravati",
-      "Aurangabad",
-      "Beed",
-      "Bhandara",
-      "Buldhana",
-      "Chandrapur",
-      "Dhule",
-      "Gadchiroli",
-      "Gondia",
-      "Hingoli",
-      "Jalgaon",
-      "Jalna",
-      "Kolhapur",
-      "Latur",
-      "Mumbai City",
-      "Mumbai Suburban",
-      "Nagpur",
-      "Nanded",
-      "Nandurbar",
-      "Nashik",
-      "Osmanabad",
-      "Palghar",
-      "Parbhani",
-      "Pune",
-      "Raigad",
-      "Ratnagiri",
-      "Sangli",
-      "Satara",
-      "Sindhudurg",
-      "Solapur",
-      "Thane",
-      "Wardha",
-      "Washim",
-      "Yavatmal",
+      { name: "Ahmednagar", nameHi: "अहमदनगर" },
+      { name: "Akola", nameHi: "अकोला" },
+      { name: "Amravati", nameHi: "अमरावती" },
+      { name: "Aurangabad", nameHi: "औरंगाबाद" },
+      { name: "Beed", nameHi: "बीड" },
+      { name: "Bhandara", nameHi: "भंडारा" },
+      { name: "Buldhana", nameHi: "बुलढाणा" },
+      { name: "Chandrapur", nameHi: "चंद्रपुर" },
+      { name: "Dhule", nameHi: "धुले" },
+      { name: "Gadchiroli", nameHi: "गढ़चिरोली" },
+      { name: "Gondia", nameHi: "गोंदिया" },
+      { name: "Hingoli", nameHi: "हिंगोली" },
+      { name: "Jalgaon", nameHi: "जलगांव" },
+      { name: "Jalna", nameHi: "जालना" },
+      { name: "Kolhapur", nameHi: "कोल्हापुर" },
+      { name: "Latur", nameHi: "लातूर" },
+      { name: "Mumbai City", nameHi: "मुंबई शहर" },
+      { name: "Mumbai Suburban", nameHi: "मुंबई उपनगर" },
+      { name: "Nagpur", nameHi: "नागपुर" },
+      { name: "Nanded", nameHi: "नांदेड़" },
+      { name: "Nandurbar", nameHi: "नंदुरबार" },
+      { name: "Nashik", nameHi: "नासिक" },
+      { name: "Osmanabad", nameHi: "उस्मानाबाद" },
+      { name: "Palghar", nameHi: "पालघर" },
+      { name: "Parbhani", nameHi: "परभणी" },
+      { name: "Pune", nameHi: "पुणे" },
+      { name: "Raigad", nameHi: "रायगढ़" },
+      { name: "Ratnagiri", nameHi: "रत्नागिरी" },
+      { name: "Sangli", nameHi: "सांगली" },
+      { name: "Satara", nameHi: "सातारा" },
+      { name: "Sindhudurg", nameHi: "सिंधुदुर्ग" },
+      { name: "Solapur", nameHi: "सोलापुर" },
+      { name: "Thane", nameHi: "ठाणे" },
+      { name: "Wardha", nameHi: "वर्धा" },
+      { name: "Washim", nameHi: "वाशिम" },
+      { name: "Yavatmal", nameHi: "यवतमाल" },
     ],
   },
   {
     state: "Manipur",
+    stateHi: "मणिपुर",
+    lgdCode: 14,
     districts: [
-      "Bishnupur",
-      "Chandel",
-      "Churachandpur",
-      "Imphal East",
-      "Imphal West",
-      "Jiribam",
-      "Kakching",
-      "Kamjong",
-      "Kangpokpi",
-      "Noney",
-      "Pherzawl",
-      "Senapati",
-      "Tamenglong",
-      "Tengnoupal",
-      "Thoubal",
-      "Ukhrul",
+      { name: "Bishnupur", nameHi: "बिष्णुपुर" },
+      { name: "Chandel", nameHi: "चंदेल" },
+      { name: "Churachandpur", nameHi: "चुराचांदपुर" },
+      { name: "Imphal East", nameHi: "इंफाल पूर्व" },
+      { name: "Imphal West", nameHi: "इंफाल पश्चिम" },
+      { name: "Jiribam", nameHi: "जिरीबाम" },
+      { name: "Kakching", nameHi: "काकचिंग" },
+      { name: "Kamjong", nameHi: "कामजोंग" },
+      { name: "Kangpokpi", nameHi: "कांगपोकपी" },
+      { name: "Noney", nameHi: "नोनी" },
+      { name: "Pherzawl", nameHi: "फेरज़ॉल" },
+      { name: "Senapati", nameHi: "सेनापति" },
+      { name: "Tamenglong", nameHi: "तामेंगलोंग" },
+      { name: "Tengnoupal", nameHi: "तेंगनौपाल" },
+      { name: "Thoubal", nameHi: "थौबल" },
+      { name: "Ukhrul", nameHi: "उखरूल" },
     ],
   },
   {
     state: "Meghalaya",
+    stateHi: "मेघालय",
+    lgdCode: 17,
     districts: [
-      "East Garo Hills",
-      "East Jaintia Hills",
-      "East Khasi Hills",
-      "North Garo Hills",
-      "Ri Bhoi",
-      "South Garo Hills",
-      "South West Garo Hills",
-      "South West Khasi Hills",
-      "West Garo Hills",
-      "West Jaintia Hills",
-      "West Khasi Hills",
+      { name: "East Garo Hills", nameHi: "पूर्वी गारो हिल्स" },
+      { name: "East Jaintia Hills", nameHi: "पूर्वी जयंतिया हिल्स" },
+      { name: "East Khasi Hills", nameHi: "पूर्वी खासी हिल्स" },
+      { name: "North Garo Hills", nameHi: "उत्तरी गारो हिल्स" },
+      { name: "Ri Bhoi", nameHi: "री भोई" },
+      { name: "South Garo Hills", nameHi: "दक्षिणी गारो हिल्स" },
+      { name: "South West Garo Hills", nameHi: "दक्षिण पश्चिमी गारो हिल्स" },
+      { name: "South West Khasi Hills", nameHi: "दक्षिण पश्चिमी खासी हिल्स" },
+      { name: "West Garo Hills", nameHi: "पश्चिमी गारो हिल्स" },
+      { name: "West Jaintia Hills", nameHi: "पश्चिमी जयंतिया हिल्स" },
+      { name: "West Khasi Hills", nameHi: "पश्चिमी खासी हिल्स" },
     ],
   },
   {
     state: "Mizoram",
+    stateHi: "मिज़ोरम",
+    lgdCode: 15,
     districts: [
-      "Aizawl",
-      "Champhai",
-      "Hnahthial",
-      "Khawzawl",
-      "Kolasib",
-      "Lawngtlai",
-      "Lunglei",
-      "Mamit",
-      "Saiha",
-      "Saitual",
-      "Serchhip",
+      { name: "Aizawl", nameHi: "आइजोल" },
+      { name: "Champhai", nameHi: "चम्फाई" },
+      { name: "Hnahthial", nameHi: "हनाहथियाल" },
+      { name: "Khawzawl", nameHi: "खावज़ॉल" },
+      { name: "Kolasib", nameHi: "कोलासिब" },
+      { name: "Lawngtlai", nameHi: "लॉन्गतलाई" },
+      { name: "Lunglei", nameHi: "लुंगलेई" },
+      { name: "Mamit", nameHi: "ममित" },
+      { name: "Saiha", nameHi: "सैहा" },
+      { name: "Saitual", nameHi: "सैतुअल" },
+      { name: "Serchhip", nameHi: "सेरछिप" },
     ],
   },
   {
     state: "Nagaland",
+    stateHi: "नागालैंड",
+    lgdCode: 13,
     districts: [
-      "Dimapur",
-      "Kiphire",
-      "Kohima",
-      "Longleng",
-      "Mokokchung",
-      "Mon",
-      "Peren",
-      "Phek",
-      "Tuensang",
-      "Wokha",
-      "Zunheboto",
+      { name: "Dimapur", nameHi: "दीमापुर" },
+      { name: "Kiphire", nameHi: "किफिरे" },
+      { name: "Kohima", nameHi: "कोहिमा" },
+      { name: "Longleng", nameHi: "लोंगलेंग" },
+      { name: "Mokokchung", nameHi: "मोकोकचुंग" },
+      { name: "Mon", nameHi: "मोन" },
+      { name: "Peren", nameHi: "पेरेन" },
+      { name: "Phek", nameHi: "फेक" },
+      { name: "Tuensang", nameHi: "त्वेनसांग" },
+      { name: "Wokha", nameHi: "वोखा" },
+      { name: "Zunheboto", nameHi: "ज़ुन्हेबोटो" },
     ],
   },
   {
     state: "Odisha",
+    stateHi: "ओडिशा",
+    lgdCode: 21,
     districts: [
-      "Angul",
-      "Balangir",
-      "Balasore",
-      "Bargarh",
-      "Bhadrak",
-      "Boudh",
-      "Cuttack",
-      "Deogarh",
-      "Dhenkanal",
-      "Gajapati",
-      "Ganjam",
-      "Jagatsinghpur",
-      "Jajpur",
-      "Jharsuguda",
-      "Kalahandi",
-      "Kandhamal",
-      "Kendrapara",
-      "Kendujhar",
-      "Khordha",
-      "Koraput",
-      "Malkangiri",
-      "Mayurbhanj",
-      "Nabarangpur",
-      "Nayagarh",
-      "Nuapada",
-      "Puri",
-      "Rayagada",
-      "Sambalpur",
-      "Sonepur",
-      "Sundargarh",
+      { name: "Angul", nameHi: "अनुगुल" },
+      { name: "Balangir", nameHi: "बलांगीर" },
+      { name: "Balasore", nameHi: "बालेश्वर" },
+      { name: "Bargarh", nameHi: "बरगढ़" },
+      { name: "Bhadrak", nameHi: "भद्रक" },
+      { name: "Boudh", nameHi: "बौद्ध" },
+      { name: "Cuttack", nameHi: "कटक" },
+      { name: "Deogarh", nameHi: "देवगढ़" },
+      { name: "Dhenkanal", nameHi: "ढेंकानाल" },
+      { name: "Gajapati", nameHi: "गजपति" },
+      { name: "Ganjam", nameHi: "गंजाम" },
+      { name: "Jagatsinghpur", nameHi: "जगतसिंहपुर" },
+      { name: "Jajpur", nameHi: "जाजपुर" },
+      { name: "Jharsuguda", nameHi: "झारसुगुड़ा" },
+      { name: "Kalahandi", nameHi: "कालाहांडी" },
+      { name: "Kandhamal", nameHi: "कंधमाल" },
+      { name: "Kendrapara", nameHi: "केंद्रपाड़ा" },
+      { name: "Kendujhar", nameHi: "केंदुझर" },
+      { name: "Khordha", nameHi: "खोरधा" },
+      { name: "Koraput", nameHi: "कोरापुट" },
+      { name: "Malkangiri", nameHi: "मलकानगिरि" },
+      { name: "Mayurbhanj", nameHi: "मयूरभंज" },
+      { name: "Nabarangpur", nameHi: "नबरंगपुर" },
+      { name: "Nayagarh", nameHi: "नयागढ़" },
+      { name: "Nuapada", nameHi: "नुआपाड़ा" },
+      { name: "Puri", nameHi: "पुरी" },
+      { name: "Rayagada", nameHi: "रायगड़ा" },
+      { name: "Sambalpur", nameHi: "संबलपुर" },
+      { name: "Sonepur", nameHi: "सोनपुर" },
+      { name: "Sundargarh", nameHi: "सुंदरगढ़" },
     ],
   },
   {
     state: "Puducherry",
-    districts: ["Karaikal", "Mahe", "Puducherry", "Yanam"],
+    stateHi: "पुडुचेरी",
+    lgdCode: 34,
+    districts: [
+      { name: "Karaikal", nameHi: "कराईकल" },
+      { name: "Mahe", nameHi: "माहे" },
+      { name: "Puducherry", nameHi: "पुडुचेरी" },
+      { name: "Yanam", nameHi: "यानम" },
+    ],
   },
   {
     state: "Punjab",
+    stateHi: "पंजाब",
+    lgdCode: 3,
     districts: [
-      "Amritsar",
-      "Barnala",
-      "Bathinda",
-      "Faridkot",
-      "Fatehgarh Sahib",
-      "Fazilka",
-      "Ferozepur",
-      "Gurdaspur",
-      "Hoshiarpur",
-      "Jalandhar",
-      "Kapurthala",
-      "Ludhiana",
-      "Mansa",
-      "Moga",
-      "Pathankot",
-      "Patiala",
-      "Rupnagar",
-      "S.A.S. Nagar",
-      "Sangrur",
-      "Shahid Bhagat Singh Nagar",
-      "Sri Muktsar Sahib",
-      "Tarn Taran",
+      { name: "Amritsar", nameHi: "अमृतसर" },
+      { name: "Barnala", nameHi: "बरनाला" },
+      { name: "Bathinda", nameHi: "बठिंडा" },
+      { name: "Faridkot", nameHi: "फरीदकोट" },
+      { name: "Fatehgarh Sahib", nameHi: "फतेहगढ़ साहिब" },
+      { name: "Fazilka", nameHi: "फाजिल्का" },
+      { name: "Ferozepur", nameHi: "फिरोजपुर" },
+      { name: "Gurdaspur", nameHi: "गुरदासपुर" },
+      { name: "Hoshiarpur", nameHi: "होशियारपुर" },
+      { name: "Jalandhar", nameHi: "जालंधर" },
+      { name: "Kapurthala", nameHi: "कपूरथला" },
+      { name: "Ludhiana", nameHi: "लुधियाना" },
+      { name: "Mansa", nameHi: "मानसा" },
+      { name: "Moga", nameHi: "मोगा" },
+      { name: "Pathankot", nameHi: "पठानकोट" },
+      { name: "Patiala", nameHi: "पटियाला" },
+      { name: "Rupnagar", nameHi: "रूपनगर" },
+      { name: "S.A.S. Nagar", nameHi: "एस.ए.एस. नगर" },
+      { name: "Sangrur", nameHi: "संगरूर" },
+      { name: "Shahid Bhagat Singh Nagar", nameHi: "शहीद भगत सिंह नगर" },
+      { name: "Sri Muktsar Sahib", nameHi: "श्री मुक्तसर साहिब" },
+      { name: "Tarn Taran", nameHi: "तरनतारन" },
     ],
   },
   {
     state: "Rajasthan",
+    stateHi: "राजस्थान",
+    lgdCode: 8,
     districts: [
-      "Ajmer",
-      "Alwar",
-      "Banswara",
-      "Baran",
-      "Barmer",
-      "Bharatpur",
-      "Bhilwara",
-      "Bikaner",
-      "Bundi",
-      "Chittorgarh",
-      "Churu",
-      "Dausa",
-      "Dholpur",
-      "Dungarpur",
-      "Hanumangarh",
-      "Jaipur",
-      "Jaisalmer",
-      "Jalore",
-      "Jhalawar",
-      "Jhunjhunu",
-      "Jodhpur",
-      "Karauli",
-      "Kota",
-      "Nagaur",
-      "Pali",
-      "Pratapgarh",
-      "Rajsamand",
-      "Sawai Madhopur",
-      "Sikar",
-      "Sirohi",
-      "Sri Ganganagar",
-      "Tonk",
-      "Udaipur",
+      { name: "Ajmer", nameHi: "अजमेर" },
+      { name: "Alwar", nameHi: "अलवर" },
+      { name: "Banswara", nameHi: "बांसवाड़ा" },
+      { name: "Baran", nameHi: "बारां" },
+      { name: "Barmer", nameHi: "बाड़मेर" },
+      { name: "Bharatpur", nameHi: "भरतपुर" },
+      { name: "Bhilwara", nameHi: "भीलवाड़ा" },
+      { name: "Bikaner", nameHi: "बीकानेर" },
+      { name: "Bundi", nameHi: "बूंदी" },
+      { name: "Chittorgarh", nameHi: "चित्तौड़गढ़" },
+      { name: "Churu", nameHi: "चूरू" },
+      { name: "Dausa", nameHi: "दौसा" },
+      { name: "Dholpur", nameHi: "धौलपुर" },
+      { name: "Dungarpur", nameHi: "डूंगरपुर" },
+      { name: "Hanumangarh", nameHi: "हनुमानगढ़" },
+      { name: "Jaipur", nameHi: "जयपुर" },
+      { name: "Jaisalmer", nameHi: "जैसलमेर" },
+      { name: "Jalore", nameHi: "जालौर" },
+      { name: "Jhalawar", nameHi: "झालावाड़" },
+      { name: "Jhunjhunu", nameHi: "झुंझुनूं" },
+      { name: "Jodhpur", nameHi: "जोधपुर" },
+      { name: "Karauli", nameHi: "करौली" },
+      { name: "Kota", nameHi: "कोटा" },
+      { name: "Nagaur", nameHi: "नागौर" },
+      { name: "Pali", nameHi: "पाली" },
+      { name: "Pratapgarh", nameHi: "प्रतापगढ़" },
+      { name: "Rajsamand", nameHi: "राजसमंद" },
+      { name: "Sawai Madhopur", nameHi: "सवाई माधोपुर" },
+      { name: "Sikar", nameHi: "सीकर" },
+      { name: "Sirohi", nameHi: "सिरोही" },
+      { name: "Sri Ganganagar", nameHi: "श्रीगंगानगर" },
+      { name: "Tonk", nameHi: "टोंक" },
+      { name: "Udaipur", nameHi: "उदयपुर" },
     ],
   },
   {
     state: "Sikkim",
-    districts: ["East Sikkim", "North Sikkim", "South Sikkim", "West Sikkim"],
+    stateHi: "सिक्किम",
+    lgdCode: 11,
+    districts: [
+      { name: "East Sikkim", nameHi: "पूर्वी सिक्किम" },
+      { name: "North Sikkim", nameHi: "उत्तरी सिक्किम" },
+      { name: "South Sikkim", nameHi: "दक्षिणी सिक्किम" },
+      { name: "West Sikkim", nameHi: "पश्चिमी सिक्किम" },
+    ],
   },
   {
     state: "Tamil Nadu",
+    stateHi: "तमिलनाडु",
+    lgdCode: 33,
     districts: [
-      "Ariyalur",
-      "Chengalpattu",
-      "Chennai",
-      "Coimbatore",
-      "Cuddalore",
-      "Dharmapuri",
-      "Dindigul",
-      "Erode",
-      "Kallakurichi",
-      "Kancheepuram",
-      "Kanyakumari",
-      "Karur",
-      "Krishnagiri",
-      "Madurai",
-      "Mayiladuthurai",
-      "Nagapattinam",
-      "Namakkal",
-      "Nilgiris",
-      "Perambalur",
-      "Pudukkottai",
-      "Ramanathapuram",
-      "Ranipet",
-      "Salem",
-      "Sivaganga",
-      "Tenkasi",
-      "Thanjavur",
-      "Theni",
-      "Thoothukudi",
-      "Tiruchirappalli",
-      "Tirunelveli",
-      "Tirupathur",
-      "Tiruppur",
-      "Tiruvallur",
-      "Tiruvannamalai",
-      "Tiruvarur",
-      "Vellore",
-      "Viluppuram",
-      "Virudhunagar",
+      { name: "Ariyalur", nameHi: "अरियलूर" },
+      { name: "Chengalpattu", nameHi: "चेंगलपट्टू" },
+      { name: "Chennai", nameHi: "चेन्नई" },
+      { name: "Coimbatore", nameHi: "कोयंबटूर" },
+      { name: "Cuddalore", nameHi: "कडलूर" },
+      { name: "Dharmapuri", nameHi: "धर्मपुरी" },
+      { name: "Dindigul", nameHi: "डिंडीगुल" },
+      { name: "Erode", nameHi: "इरोड" },
+      { name: "Kallakurichi", nameHi: "कल्लाकुरिची" },
+      { name: "Kancheepuram", nameHi: "कांचीपुरम" },
+      { name: "Kanyakumari", nameHi: "कन्याकुमारी" },
+      { name: "Karur", nameHi: "करूर" },
+      { name: "Krishnagiri", nameHi: "कृष्णगिरि" },
+      { name: "Madurai", nameHi: "मदुरै" },
+      { name: "Mayiladuthurai", nameHi: "मयिलादुथुराई" },
+      { name: "Nagapattinam", nameHi: "नागपट्टिनम" },
+      { name: "Namakkal", nameHi: "नामक्कल" },
+      { name: "Nilgiris", nameHi: "नीलगिरि" },
+      { name: "Perambalur", nameHi: "पेरम्बलूर" },
+      { name: "Pudukkottai", nameHi: "पुदुक्कोट्टई" },
+      { name: "Ramanathapuram", nameHi: "रामनाथपुरम" },
+      { name: "Ranipet", nameHi: "रानीपेट" },
+      { name: "Salem", nameHi: "सेलम" },
+      { name: "Sivaganga", nameHi: "शिवगंगा" },
+      { name: "Tenkasi", nameHi: "तेनकासी" },
+      { name: "Thanjavur", nameHi: "तंजावुर" },
+      { name: "Theni", nameHi: "तेनी" },
+      { name: "Thoothukudi", nameHi: "तूतुकुडी" },
+      { name: "Tiruchirappalli", nameHi: "तिरुचिरापल्ली" },
+      { name: "Tirunelveli", nameHi: "तिरुनेलवेली" },
+      { name: "Tirupathur", nameHi: "तिरुपत्तूर" },
+      { name: "Tiruppur", nameHi: "तिरुप्पुर" },
+      { name: "Tiruvallur", nameHi: "तिरुवल्लूर" },
+      { name: "Tiruvannamalai", nameHi: "तिरुवन्नामलई" },
+      { name: "Tiruvarur", nameHi: "तिरुवारूर" },
+      { name: "Vellore", nameHi: "वेल्लोर" },
+      { name: "Viluppuram", nameHi: "विलुप्पुरम" },
+      { name: "Virudhunagar", nameHi: "विरुधुनगर" },
     ],
   },
   {
     state: "Telangana",
+    stateHi: "तेलंगाना",
+    lgdCode: 36,
     districts: [
-      "Adilabad",
-      "Bhadradri Kothagudem",
-      "Hyderabad",
-      "Jagtial",
-      "Jangaon",
-      "Jayashankar Bhupalpally",
-      "Jogulamba Gadwal",
-      "Kamareddy",
-      "Karimnagar",
-      "Khammam",
-      "Komaram Bheem",
-      "Mahabubabad",
-      "Mahabubnagar",
-      "Mancherial",
-      "Medak",
-      "Medchal-Malkajgiri",
-      "Mulugu",
-      "Nagarkurnool",
-      "Nalgonda",
-      "Narayanpet",
-      "Nirmal",
-      "Nizamabad",
-      "Peddapalli",
-      "Rajanna Sircilla",
-      "Ranga Reddy",
-      "Sangareddy",
-      "Siddipet",
-      "Suryapet",
-      "Vikarabad",
-      "Wanaparthy",
-      "Warangal Rural",
-      "Warangal Urban",
-      "Yadadri Bhuvanagiri",
+      { name: "Adilabad", nameHi: "आदिलाबाद" },
+      { name: "Bhadradri Kothagudem", nameHi: "भद्राद्री कोठागुडेम" },
+      { name: "Hyderabad", nameHi: "हैदराबाद" },
+      { name: "Jagtial", nameHi: "जगतियाल" },
+      { name: "Jangaon", nameHi: "जनगांव" },
+      { name: "Jayashankar Bhupalpally", nameHi: "जयशंकर भूपालपल्ली" },
+      { name: "Jogulamba Gadwal", nameHi: "जोगुलांबा गडवाल" },
+      { name: "Kamareddy", nameHi: "कामारेड्डी" },
+      { name: "Karimnagar", nameHi: "करीमनगर" },
+      { name: "Khammam", nameHi: "खम्मम" },
+      { name: "Komaram Bheem", nameHi: "कोमाराम भीम" },
+      { name: "Mahabubabad", nameHi: "महबूबाबाद" },
+      { name: "Mahabubnagar", nameHi: "महबूबनगर" },
+      { name: "Mancherial", nameHi: "मंचेरियल" },
+      { name: "Medak", nameHi: "मेदक" },
+      { name: "Medchal-Malkajgiri", nameHi: "मेडचल-मलकाजगिरि" },
+      { name: "Mulugu", nameHi: "मुलुगु" },
+      { name: "Nagarkurnool", nameHi: "नागरकर्नूल" },
+      { name: "Nalgonda", nameHi: "नलगोंडा" },
+      { name: "Narayanpet", nameHi: "नारायणपेट" },
+      { name: "Nirmal", nameHi: "निर्मल" },
+      { name: "Nizamabad", nameHi: "निज़ामाबाद" },
+      { name: "Peddapalli", nameHi: "पेद्दापल्ली" },
+      { name: "Rajanna Sircilla", nameHi: "राजन्ना सिरसिल्ला" },
+      { name: "Ranga Reddy", nameHi: "रंगारेड्डी" },
+      { name: "Sangareddy", nameHi: "संगारेड्डी" },
+      { name: "Siddipet", nameHi: "सिद्दिपेट" },
+      { name: "Suryapet", nameHi: "सूर्यापेट" },
+      { name: "Vikarabad", nameHi: "विकाराबाद" },
+      { name: "Wanaparthy", nameHi: "वनपर्ती" },
+      { name: "Warangal Rural", nameHi: "वारंगल ग्रामीण" },
+      { name: "Warangal Urban", nameHi: "वारंगल शहरी" },
+      { name: "Yadadri Bhuvanagiri", nameHi: "यादाद्री भुवनगिरि" },
     ],
   },
   {
     state: "Tripura",
+    stateHi: "त्रिपुरा",
+    lgdCode: 16,
     districts: [
-      "Dhalai",
-      "Gomati",
-      "Khowai",
-      "North Tripura",
-      "Sepahijala",
-      "South Tripura",
-      "Unakoti",
-      "West Tripura",
+      { name: "Dhalai", nameHi: "धलाई" },
+      { name: "Gomati", nameHi: "गोमती" },
+      { name: "Khowai", nameHi: "खोवाई" },
+      { name: "North Tripura", nameHi: "उत्तर त्रिपुरा" },
+      { name: "Sepahijala", nameHi: "सिपाहीजला" },
+      { name: "South Tripura", nameHi: "दक्षिण त्रिपुरा" },
+      { name: "Unakoti", nameHi: "उनाकोटी" },
+      { name: "West Tripura", nameHi: "पश्चिम त्रिपुरा" },
     ],
   },
   {
     state: "Uttar Pradesh",
+    stateHi: "उत्तर प्रदेश",
+    lgdCode: 9,
     districts: [
-      "Agra",
-      "Aligarh",
-      "Ambedkar Nagar",
-      "Amethi",
-      "Amroha",
-      "Auraiya",
-      "Ayodhya",
-      "Azamgarh",
-      "Baghpat",
-      "Bahraich",
-      "Ballia",
-      "Balrampur",
-      "Banda",
-      "Barabanki",
-      "Bareilly",
-      "Basti",
-      "Bhadohi",
-      "Bijnor",
-      "Budaun",
-      "Bulandshahr",
-      "Chandauli",
-      "Chitrakoot",
-      "Deoria",
-      "Etah",
-      "Etawah",
-      "Farrukhabad",
-      "Fatehpur",
-      "Firozabad",
-      "Gautam Buddh Nagar",
-      "Ghaziabad",
-      "Ghazipur",
-      "Gonda",
-      "Gorakhpur",
-      "Hamirpur",
-      "Hapur",
-      "Hardoi",
-      "Hathras",
-      "Jalaun",
-      "Jaunpur",
-      "Jhansi",
-      "Kannauj",
-      "Kanpur Dehat",
-      "Kanpur Nagar",
-      "Kasganj",
-      "Kaushambi",
-      "Kheri",
-      "Kushinagar",
-      "Lalitpur",
-      "Lucknow",
-      "Maharajganj",
-      "Mahoba",
-      "Mainpuri",
-      "Mathura",
-      "Mau",
-      "Meerut",
-      "Mirzapur",
-      "Moradabad",
-      "Muzaffarnagar",
-      "Pilibhit",
-      "Pratapgarh",
-      "Prayagraj",
-      "Raebareli",
-      "Rampur",
-      "Saharanpur",
-      "Sambhal",
-      "Sant Kabir Nagar",
-      "Shahjahanpur",
-      "Shamli",
-      "Shravasti",
-      "Siddharthnagar",
-      "Sitapur",
-      "Sonbhadra",
-      "Sultanpur",
-      "Unnao",
-      "Varanasi",
+      { name: "Agra", nameHi: "आगरा" },
+      { name: "Aligarh", nameHi: "अलीगढ़" },
+      { name: "Ambedkar Nagar", nameHi: "अंबेडकर नगर" },
+      { name: "Amethi", nameHi: "अमेठी" },
+      { name: "Amroha", nameHi: "अमरोहा" },
+      { name: "Auraiya", nameHi: "औरैया" },
+      { name: "Ayodhya", nameHi: "अयोध्या" },
+      { name: "Azamgarh", nameHi: "आजमगढ़" },
+      { name: "Baghpat", nameHi: "बागपत" },
+      { name: "Bahraich", nameHi: "बहराइच" },
+      { name: "Ballia", nameHi: "बलिया" },
+      { name: "Balrampur", nameHi: "बलरामपुर" },
+      { name: "Banda", nameHi: "बांदा" },
+      { name: "Barabanki", nameHi: "बाराबंकी" },
+      { name: "Bareilly", nameHi: "बरेली" },
+      { name: "Basti", nameHi: "बस्ती" },
+      { name: "Bhadohi", nameHi: "भदोही" },
+      { name: "Bijnor", nameHi: "बिजनौर" },
+      { name: "Budaun", nameHi: "बदायूं" },
+      { name: "Bulandshahr", nameHi: "बुलंदशहर" },
+      { name: "Chandauli", nameHi: "चंदौली" },
+      { name: "Chitrakoot", nameHi: "चित्रकूट" },
+      { name: "Deoria", nameHi: "देवरिया" },
+      { name: "Etah", nameHi: "एटा" },
+      { name: "Etawah", nameHi: "इटावा" },
+      { name: "Farrukhabad", nameHi: "फर्रुखाबाद" },
+      { name: "Fatehpur", nameHi: "फतेहपुर" },
+      { name: "Firozabad", nameHi: "फिरोजाबाद" },
+      { name: "Gautam Buddh Nagar", nameHi: "गौतम बुद्ध नगर" },
+      { name: "Ghaziabad", nameHi: "गाजियाबाद" },
+      { name: "Ghazipur", nameHi: "गाजीपुर" },
+      { name: "Gonda", nameHi: "गोंडा" },
+      { name: "Gorakhpur", nameHi: "गोरखपुर" },
+      { name: "Hamirpur", nameHi: "हमीरपुर" },
+      { name: "Hapur", nameHi: "हापुड़" },
+      { name: "Hardoi", nameHi: "हरदोई" },
+      { name: "Hathras", nameHi: "हाथरस" },
+      { name: "Jalaun", nameHi: "जालौन" },
+      { name: "Jaunpur", nameHi: "जौनपुर" },
+      { name: "Jhansi", nameHi: "झांसी" },
+      { name: "Kannauj", nameHi: "कन्नौज" },
+      { name: "Kanpur Dehat", nameHi: "कानपुर देहात" },
+      { name: "Kanpur Nagar", nameHi: "कानपुर नगर" },
+      { name: "Kasganj", nameHi: "कासगंज" },
+      { name: "Kaushambi", nameHi: "कौशांबी" },
+      { name: "Kheri", nameHi: "खीरी" },
+      { name: "Kushinagar", nameHi: "कुशीनगर" },
+      { name: "Lalitpur", nameHi: "ललितपुर" },
+      { name: "Lucknow", nameHi: "लखनऊ" },
+      { name: "Maharajganj", nameHi: "महराजगंज" },
+      { name: "Mahoba", nameHi: "महोबा" },
+      { name: "Mainpuri", nameHi: "मैनपुरी" },
+      { name: "Mathura", nameHi: "मथुरा" },
+      { name: "Mau", nameHi: "मऊ" },
+      { name: "Meerut", nameHi: "मेरठ" },
+      { name: "Mirzapur", nameHi: "मिर्जापुर" },
+      { name: "Moradabad", nameHi: "मुरादाबाद" },
+      { name: "Muzaffarnagar", nameHi: "मुजफ्फरनगर" },
+      { name: "Pilibhit", nameHi: "पीलीभीत" },
+      { name: "Pratapgarh", nameHi: "प्रतापगढ़" },
+      { name: "Prayagraj", nameHi: "प्रयागराज" },
+      { name: "Raebareli", nameHi: "रायबरेली" },
+      { name: "Rampur", nameHi: "रामपुर" },
+      { name: "Saharanpur", nameHi: "सहारनपुर" },
+      { name: "Sambhal", nameHi: "संभल" },
+      { name: "Sant Kabir Nagar", nameHi: "संत कबीर नगर" },
+      { name: "Shahjahanpur", nameHi: "शाहजहांपुर" },
+      { name: "Shamli", nameHi: "शामली" },
+      { name: "Shravasti", nameHi: "श्रावस्ती" },
+      { name: "Siddharthnagar", nameHi: "सिद्धार्थनगर" },
+      { name: "Sitapur", nameHi: "सीतापुर" },
+      { name: "Sonbhadra", nameHi: "सोनभद्र" },
+      { name: "Sultanpur", nameHi: "सुल्तानपुर" },
+      { name: "Unnao", nameHi: "उन्नाव" },
+      { name: "Varanasi", nameHi: "वाराणसी" },
     ],
   },
   {
     state: "Uttarakhand",
+    stateHi: "उत्तराखंड",
+    lgdCode: 5,
     districts: [
-      "Almora",
-      "Bageshwar",
-      "Chamoli",
-      "Champawat",
-      "Dehradun",
-      "Haridwar",
-      "Nainital",
-      "Pauri Garhwal",
-      "Pithoragarh",
-      "Rudraprayag",
-      "Tehri Garhwal",
-      "Udham Singh Nagar",
-      "Uttarkashi",
+      { name: "Almora", nameHi: "अल्मोड़ा" },
+      { name: "Bageshwar", nameHi: "बागेश्वर" },
+      { name: "Chamoli", nameHi: "चमोली" },
+      { name: "Champawat", nameHi: "चंपावत" },
+      { name: "Dehradun", nameHi: "देहरादून" },
+      { name: "Haridwar", nameHi: "हरिद्वार" },
+      { name: "Nainital", nameHi: "नैनीताल" },
+      { name: "Pauri Garhwal", nameHi: "पौड़ी गढ़वाल" },
+      { name: "Pithoragarh", nameHi: "पिथौरागढ़" },
+      { name: "Rudraprayag", nameHi: "रुद्रप्रयाग" },
+      { name: "Tehri Garhwal", nameHi: "टिहरी गढ़वाल" },
+      { name: "Udham Singh Nagar", nameHi: "ऊधम सिंह नगर" },
+      { name: "Uttarkashi", nameHi: "उत्तरकाशी" },
     ],
   },
   {
     state: "West Bengal",
+    stateHi: "पश्चिम बंगाल",
+    lgdCode: 19,
     districts: [
-      "Alipurduar",
-      "Bankura",
-      "Birbhum",
-      "Cooch Behar",
-      "Dakshin Dinajpur",
-      "Darjeeling",
-      "Hooghly",
-      "Howrah",
-      "Jalpaiguri",
-      "Jhargram",
-      "Kalimpong",
-      "Kolkata",
-      "Malda",
-      "Murshidabad",
-      "Nadia",
-      "North 24 Parganas",
-      "Paschim Bardhaman",
-      "Paschim Medinipur",
-      "Purba Bardhaman",
-      "Purba Medinipur",
-      "Purulia",
-      "South 24 Parganas",
-      "Uttar Dinajpur",
+      { name: "Alipurduar", nameHi: "अलीपुरद्वार" },
+      { name: "Bankura", nameHi: "बांकुड़ा" },
+      { name: "Birbhum", nameHi: "बीरभूम" },
+      { name: "Cooch Behar", nameHi: "कूचबिहार" },
+      { name: "Dakshin Dinajpur", nameHi: "दक्षिण दिनाजपुर" },
+      { name: "Darjeeling", nameHi: "दार्जिलिंग" },
+      { name: "Hooghly", nameHi: "हुगली" },
+      { name: "Howrah", nameHi: "हावड़ा" },
+      { name: "Jalpaiguri", nameHi: "जलपाईगुड़ी" },
+      { name: "Jhargram", nameHi: "झाड़ग्राम" },
+      { name: "Kalimpong", nameHi: "कालिम्पोंग" },
+      { name: "Kolkata", nameHi: "कोलकाता" },
+      { name: "Malda", nameHi: "मालदा" },
+      { name: "Murshidabad", nameHi: "मुर्शिदाबाद" },
+      { name: "Nadia", nameHi: "नदिया" },
+      { name: "North 24 Parganas", nameHi: "उत्तर 24 परगना" },
+      { name: "Paschim Bardhaman", nameHi: "पश्चिम बर्धमान" },
+      { name: "Paschim Medinipur", nameHi: "पश्चिम मेदिनीपुर" },
+      { name: "Purba Bardhaman", nameHi: "पूर्व बर्धमान" },
+      { name: "Purba Medinipur", nameHi: "पूर्व मेदिनीपुर" },
+      { name: "Purulia", nameHi: "पुरुलिया" },
+      { name: "South 24 Parganas", nameHi: "दक्षिण 24 परगना" },
+      { name: "Uttar Dinajpur", nameHi: "उत्तर दिनाजपुर" },
     ],
   },
 ];
+
+// Dates are when each change took effect under the Madhya Pradesh government notification
+export const districtUpdates: DistrictUpdate[] = [
+  {
+    type: "created",
+    state: "Madhya Pradesh",
+    effectiveFrom: "2018-10-01",
+    district: { name: "Niwari", nameHi: "निवाड़ी" },
+    carvedFrom: ["Tikamgarh"],
+  },
+  {
+    type: "renamed",
+    state: "Madhya Pradesh",
+    effectiveFrom: "2022-02-08",
+    from: "Hoshangabad",
+    district: { name: "Narmadapuram", nameHi: "नर्मदापुरम" },
+  },
+  {
+    type: "created",
+    state: "Madhya Pradesh",
+    effectiveFrom: "2023-08-15",
+    district: { name: "Mauganj", nameHi: "मऊगंज" },
+    carvedFrom: ["Rewa"],
+  },
+  {
+    type: "created",
+    state: "Madhya Pradesh",
+    effectiveFrom: "2023-10-05",
+    district: { name: "Maihar", nameHi: "मैहर" },
+    carvedFrom: ["Satna"],
+  },
+  {
+    type: "created",
+    state: "Madhya Pradesh",
+    effectiveFrom: "2023-10-05",
+    district: { name: "Pandhurna", nameHi: "पांढुर्णा" },
+    carvedFrom: ["Chhindwara"],
+  },
+];
+
+/**
+ * Applies every update that has taken effect by `asOf`, oldest first, and
+ * keeps each district list in alphabetical order
+ */
+export function applyDistrictUpdates(states: StateOrUT[], updates: DistrictUpdate[], asOf: Date): StateOrUT[] {
+  const asOfDate = asOf.toISOString().slice(0, 10);
+  const applicable = updates
+    .filter((update) => update.effectiveFrom <= asOfDate)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  return states.map((state) => {
+    let districts = state.districts;
+    for (const update of applicable) {
+      if (update.state !== state.state) continue;
+
+      if (update.type === "created") {
+        districts = [...districts.filter((d) => d.name !== update.district.name), update.district];
+      } else {
+        const previous = districts.find((d) => d.name === update.from);
+        const formerNames = [...(previous?.formerNames ?? []), update.from];
+        districts = [
+          ...districts.filter((d) => d.name !== update.from),
+          { lgdCode: previous?.lgdCode, ...update.district, formerNames },
+        ];
+      }
+    }
+    return { ...state, districts: [...districts].sort((a, b) => a.name.localeCompare(b.name)) };
+  });
+}
+
+// District LGD codes by state name, then district name
+export type DistrictLgdCodes = Record<string, Record<string, number>>;
+
+/**
+ * Sets each district's LGD code from `codes`; districts not listed keep the code they have
+ */
+export function applyDistrictLgdCodes(states: StateOrUT[], codes: DistrictLgdCodes): StateOrUT[] {
+  return states.map((state) => ({
+    ...state,
+    districts: state.districts.map((district) => {
+      const lgdCode = codes[state.state]?.[district.name] ?? district.lgdCode;
+      return lgdCode === undefined ? district : { ...district, lgdCode };
+    }),
+  }));
+}
+
+export const statesWithDistricts: StateOrUT[] = applyDistrictLgdCodes(
+  applyDistrictUpdates(baseStatesWithDistricts, districtUpdates, new Date()),
+  lgdDistrictCodes as DistrictLgdCodes
+);
+
+const normalise = (name: string) => name.trim().toLowerCase();
+
+export function findState(name: string): StateOrUT | undefined {
+  return statesWithDistricts.find((s) => normalise(s.state) === normalise(name));
+}
+
+/**
+ * Finds a district by its current name or any former name
+ */
+export function findDistrict(state: StateOrUT, name: string): District | undefined {
+  const wanted = normalise(name);
+  return state.districts.find(
+    (d) => normalise(d.name) === wanted || d.formerNames?.some((former) => normalise(former) === wanted)
+  );
+}
+
+export interface ResolvedLocation {
+  state: string;
+  stateHi: string;
+  stateLgdCode: number;
+  district: string;
+  districtHi: string;
+  districtLgdCode: number | null;
+}
+
+/**
+ * Maps a submitted state and district to their canonical names and codes,
+ * or null when either is not in the dataset
+ */
+export function resolveLocation(stateName: string, districtName: string): ResolvedLocation | null {
+  const state = findState(stateName);
+  const district = state && findDistrict(state, districtName);
+  if (!state || !district) return null;
+
+  return {
+    state: state.state,
+    stateHi: state.stateHi,
+    stateLgdCode: state.lgdCode,
+    district: district.name,
+    districtHi: district.nameHi,
+    districtLgdCode: district.lgdCode ?? null,
+  };
+}
+
+/**
+ * English and Hindi names for display on certificates; anything outside the
+ * dataset (e.g. rows saved before it existed) is shown as stored and
+ * transliterated
+ */
+export function getLocationNames(stateName: string, districtName: string) {
+  const resolved = resolveLocation(stateName, districtName);
+  if (resolved) return resolved;
+
+  const state = findState(stateName);
+  return {
+    state: state?.state ?? stateName,
+    stateHi: state?.stateHi ?? transliterateLatinToDevanagari(stateName),
+    district: districtName,
+    districtHi: transliterateLatinToDevanagari(districtName),
+  };
+}
@@ -0,0 +1,201 @@
+// Development blocks and gram panchayats/villages below district level
+// Our volunteer network is organised by development block. Current coverage is
+// deliberately narrow and not the full LGD hierarchy:
+// - the form asks for a block only in Madhya Pradesh (BLOCK_STATES)
+// - blocks are listed for 20 of its 55 districts, where the network operates;
+//   elsewhere in the state the block is typed and stored as typed
+// - no block has a village list yet, so the village is always typed
+// - no block or village has an LGD code yet, so both codes are stored as null
+// Names follow the Local Government Directory (LGD). Add a district's blocks, with
+// codes and villages, from the LGD "Blocks of a District" and "Villages of a Block" reports.
+import { findDistrict, findState } from "@/lib/indian-states-districts";
+
+export interface Village {
+  name: string;
+  nameHi?: string;
+  lgdCode?: number;
+  // Gram panchayat the village belongs to, when it is not a panchayat itself
+  panchayat?: string;
+}
+
+export interface Block {
+  name: string;
+  nameHi: string;
+  lgdCode?: number;
+  villages?: Village[];
+}
+
+const block = (name: string, nameHi: string): Block => ({ name, nameHi });
+
+// States whose registration form asks for a block
+export const BLOCK_STATES = ["Madhya Pradesh"];
+
+// Keyed by state, then by the district's current name
+export const blocksByDistrict: Record<string, Record<string, Block[]>> = {
+  "Madhya Pradesh": {
+    "Agar Malwa": [block("Agar", "आगर"), block("Barod", "बड़ौद"), block("Nalkheda", "नलखेड़ा"), block("Susner", "सुसनेर")],
+    "Betul": [
+      block("Amla", "आमला"),
+      block("Athner", "आठनेर"),
+      block("Betul", "बैतूल"),
+      block("Bhainsdehi", "भैंसदेही"),
+      block("Bhimpur", "भीमपुर"),
+      block("Chicholi", "चिचोली"),
+      block("Ghoradongri", "घोड़ाडोंगरी"),
+      block("Multai", "मुलताई"),
+      block("Prabhat Pattan", "प्रभात पट्टन"),
+      block("Shahpur", "शाहपुर"),
+    ],
+    "Bhopal": [block("Berasia", "बैरसिया"), block("Phanda", "फंदा")],
+    "Burhanpur": [block("Burhanpur", "बुरहानपुर"), block("Khaknar", "खकनार")],
+    "Datia": [block("Bhander", "भांडेर"), block("Datia", "दतिया"), block("Seondha", "सेवढ़ा")],
+    "Dewas": [
+      block("Bagli", "बागली"),
+      block("Dewas", "देवास"),
+      block("Kannod", "कन्नौद"),
+      block("Khategaon", "खातेगांव"),
+      block("Sonkatch", "सोनकच्छ"),
+      block("Tonk Khurd", "टोंकखुर्द"),
+    ],
+    "Gwalior": [block("Bhitarwar", "भितरवार"), block("Dabra", "डबरा"), block("Ghatigaon", "घाटीगांव"), block("Morar", "मुरार")],
+    "Harda": [block("Harda", "हरदा"), block("Khirkiya", "खिरकिया"), block("Timarni", "टिमरनी")],
+    "Indore": [block("Depalpur", "देपालपुर"), block("Indore", "इंदौर"), block("Mhow", "महू"), block("Sanwer", "सांवेर")],
+    "Jabalpur": [
+      block("Jabalpur", "जबलपुर"),
+      block("Kundam", "कुंडम"),
+      block("Majholi", "मझौली"),
+      block("Panagar", "पनागर"),
+      block("Patan", "पाटन"),
+      block("Shahpura", "शहपुरा"),
+      block("Sihora", "सिहोरा"),
+    ],
+    "Mandsaur": [
+      block("Bhanpura", "भानपुरा"),
+      block("Garoth", "गरोठ"),
+      block("Malhargarh", "मल्हारगढ़"),
+      block("Mandsaur", "मंदसौर"),
+      block("Sitamau", "सीतामऊ"),
+    ],
+    "Neemuch": [block("Jawad", "जावद"), block("Manasa", "मनासा"), block("Neemuch", "नीमच")],
+    "Niwari": [block("Niwari", "निवाड़ी"), block("Prithvipur", "पृथ्वीपुर")],
+    "Raisen": [
+      block("Baadi", "बाड़ी"),
+      block("Begamganj", "बेगमगंज"),
+      block("Gairatganj", "गैरतगंज"),
+      block("Obedullaganj", "औबेदुल्लागंज"),
+      block("Sanchi", "सांची"),
+      block("Silwani", "सिलवानी"),
+      block("Udaipura", "उदयपुरा"),
+    ],
+    "Rajgarh": [
+      block("Biaora", "ब्यावरा"),
+      block("Khilchipur", "खिलचीपुर"),
+      block("Narsinghgarh", "नरसिंहगढ़"),
+      block("Rajgarh", "राजगढ़"),
+      block("Sarangpur", "सारंगपुर"),
+      block("Zirapur", "जीरापुर"),
+    ],
+    "Ratlam": [
+      block("Alot", "आलोट"),
+      block("Bajna", "बाजना"),
+      block("Jaora", "जावरा"),
+      block("Piploda", "पिपलोदा"),
+      block("Ratlam", "रतलाम"),
+      block("Sailana", "सैलाना"),
+    ],
+    "Sehore": [
+      block("Ashta", "आष्टा"),
+      block("Budhni", "बुधनी"),
+      block("Ichhawar", "इछावर"),
+      block("Nasrullaganj", "नसरुल्लागंज"),
+      block("Sehore", "सीहोर"),
+    ],
+    "Shajapur": [
+      block("Kalapipal", "कालापीपल"),
+      block("Mohan Badodiya", "मोहन बड़ोदिया"),
+      block("Shajapur", "शाजापुर"),
+      block("Shujalpur", "शुजालपुर"),
+    ],
+    "Ujjain": [
+      block("Badnagar", "बड़नगर"),
+      block("Ghatiya", "घटिया"),
+      block("Khachrod", "खाचरौद"),
+      block("Mahidpur", "महिदपुर"),
+      block("Tarana", "तराना"),
+      block("Ujjain", "उज्जैन"),
+    ],
+    "Vidisha": [
+      block("Basoda", "बासौदा"),
+      block("Gyaraspur", "ग्यारसपुर"),
+      block("Kurwai", "कुरवाई"),
+      block("Lateri", "लटेरी"),
+      block("Nateran", "नटेरन"),
+      block("Sironj", "सिरोंज"),
+      block("Vidisha", "विदिशा"),
+    ],
+  },
+};
+
+const normalise = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Blocks for a district, looked up by current or former district name;
+ * empty when the district's blocks have not been added yet
+ */
+export function getBlocks(stateName: string, districtName: string): Block[] {
+  const state = findState(stateName);
+  const district = state && findDistrict(state, districtName);
+  if (!state || !district) return [];
+  return blocksByDistrict[state.state]?.[district.name] ?? [];
+}
+
+export function asksForBlock(stateName: string): boolean {
+  const state = findState(stateName);
+  return !!state && BLOCK_STATES.includes(state.state);
+}
+
+export function findBlock(stateName: string, districtName: string, blockName: string): Block | undefined {
+  return getBlocks(stateName, districtName).find((b) => normalise(b.name) === normalise(blockName));
+}
+
+export interface ResolvedSubLocation {
+  block: string | null;
+  blockLgdCode: number | null;
+  village: string | null;
+  villageLgdCode: number | null;
+}
+
+/**
+ * Maps a submitted block and village to their canonical names and codes
+ * Returns null when a block is given but not listed for a district whose blocks
+ * are listed. In other districts the block is kept as typed, and villages not in
+ * the block's list are kept as typed, since no block has a list yet
+ */
+export function resolveSubLocation(
+  stateName: string,
+  districtName: string,
+  blockName?: string,
+  villageName?: string
+): ResolvedSubLocation | null {
+  const typedVillage = villageName?.trim() || null;
+  if (!blockName?.trim()) {
+    return { block: null, blockLgdCode: null, village: typedVillage, villageLgdCode: null };
+  }
+
+  const found = findBlock(stateName, districtName, blockName);
+  if (!found) {
+    if (getBlocks(stateName, districtName).length > 0) return null;
+    return { block: blockName.trim(), blockLgdCode: null, village: typedVillage, villageLgdCode: null };
+  }
+
+  const village = typedVillage
+    ? found.villages?.find((v) => normalise(v.name) === normalise(typedVillage))
+    : undefined;
+
+  return {
+    block: found.name,
+    blockLgdCode: found.lgdCode ?? null,
+    village: village?.name ?? typedVillage,
+    villageLgdCode: village?.lgdCode ?? null,
+  };
+}
@@ -0,0 +1,220 @@
+// Norms for percentile scores: how trait scores are distributed within each age
+// group and gender, per question bank version (server only). Recomputed nightly by
+// /api/cron/norms from counted submissions, one attempt per participant, and read
+// back by /api/log to place a new attempt within its norm group.
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import { TRAITS, type Trait } from '@/lib/question-bank-schema';
+import type { AssessmentSubmission } from '@/lib/supabase';
+
+// Groups smaller than this give no percentile; the results screen says so instead
+export const MIN_NORM_GROUP_SIZE = 30;
+
+// Norms pooled across genders, used when the participant's own gender group is too small
+export const ALL_GENDERS = 'all';
+
+// Upper age bound (inclusive) of each group, youngest first
+const AGE_GROUPS: { id: string; maxAge: number }[] = [
+  { id: 'under-18', maxAge: 17 },
+  { id: '18-24', maxAge: 24 },
+  { id: '25-34', maxAge: 34 },
+  { id: '35-49', maxAge: 49 },
+  { id: '50-plus', maxAge: Infinity },
+];
+
+export const TRAIT_SCORE_COLUMNS: Record<Trait, keyof AssessmentSubmission> = {
+  'Gratitude': 'gratitude_score',
+  'Resilience': 'resilience_score',
+  'Empathy': 'empathy_score',
+  'Sociability': 'sociability_score',
+  'Social Cognition': 'social_cognition_score',
+  'Courage': 'courage_score',
+};
+
+export interface TraitNorm {
+  assessment_version: string;
+  trait: Trait;
+  age_group: string;
+  gender: string;
+  sample_size: number;
+  // Trait score -> number of participants with it
+  score_counts: Record<string, number>;
+  computed_at: string;
+}
+
+export function getAgeGroup(age: number): string {
+  return AGE_GROUPS.find((group) => age <= group.maxAge)!.id;
+}
+
+/**
+ * Percentile rank of a score within a distribution: the share of the group
+ * scoring lower, counting half of those with the same score
+ */
+export function getPercentile(scoreCounts: Record<string, number>, score: number): number {
+  let below = 0;
+  let equal = 0;
+  let total = 0;
+  for (const [value, count] of Object.entries(scoreCounts)) {
+    total += count;
+    if (Number(value) < score) below += count;
+    else if (Number(value) === score) equal += count;
+  }
+  return total > 0 ? Math.round((100 * (below + equal / 2)) / total) : 0;
+}
+
+const PAGE_SIZE = 1000;
+
+type NormSourceRow = {
+  participant_id: string | null;
+  attempt_number: number | null;
+  assessment_version: string | null;
+  age: number;
+  gender: string;
+} & Record<string, unknown>;
+
+/**
+ * Reads counted submissions page by page, keeping each participant's earliest
+ * counted attempt so retakes do not weigh the norms
+ */
+async function readNormSourceRows(): Promise<NormSourceRow[]> {
+  const supabase = getSupabaseAdmin();
+  const columns = ['id', 'participant_id', 'attempt_number', 'assessment_version', 'age', 'gender', ...Object.values(TRAIT_SCORE_COLUMNS)];
+  const byParticipant = new Map<string, NormSourceRow>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('assessment_submissions')
+      .select(columns.join(', '))
+      .eq('counted', true)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Norm source lookup error:', error);
+      throw new Error(`Supabase lookup failed: ${error.message}`);
+    }
+
+    for (const row of data as unknown as (NormSourceRow & { id: string })[]) {
+      // Submissions from before participants were linked stand on their own
+      const key = row.participant_id ?? `submission:${row.id}`;
+      const existing = byParticipant.get(key);
+      if (!existing || (row.attempt_number ?? 0) < (existing.attempt_number ?? 0)) {
+        byParticipant.set(key, row);
+      }
+    }
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return [...byParticipant.values()];
+}
+
+/**
+ * Builds the score distribution of every trait for each version, age group and
+ * gender, plus the same groups pooled across genders
+ */
+export async function computeNorms(): Promise<TraitNorm[]> {
+  const rows = await readNormSourceRows();
+  const computedAt = new Date().toISOString();
+  const norms = new Map<string, TraitNorm>();
+
+  for (const row of rows) {
+    const version = row.assessment_version ?? 'v1';
+    const ageGroup = getAgeGroup(row.age);
+    for (const trait of TRAITS) {
+      const score = row[TRAIT_SCORE_COLUMNS[trait]];
+      if (typeof score !== 'number') continue;
+      for (const gender of [row.gender, ALL_GENDERS]) {
+        const key = [version, trait, ageGroup, gender].join('|');
+        const norm = norms.get(key) ?? {
+          assessment_version: version,
+          trait,
+          age_group: ageGroup,
+          gender,
+          sample_size: 0,
+          score_counts: {},
+          computed_at: computedAt,
+        };
+        norm.sample_size += 1;
+        norm.score_counts[score] = (norm.score_counts[score] ?? 0) + 1;
+        norms.set(key, norm);
+      }
+    }
+  }
+
+  return [...norms.values()];
+}
+
+/**
+ * Replaces the stored norms with this run's groups. Groups below
+ * MIN_NORM_GROUP_SIZE are left out, and rows from earlier runs that this run
+ * did not rewrite (groups that shrank or no longer exist) are deleted afterwards,
+ * so readers never see a group missing mid-run. Returns how many groups were stored
+ */
+export async function saveNorms(norms: TraitNorm[]): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const usable = norms.filter((norm) => norm.sample_size >= MIN_NORM_GROUP_SIZE);
+  // Every group of a run shares one timestamp
+  const computedAt = norms[0]?.computed_at ?? new Date().toISOString();
+
+  if (usable.length > 0) {
+    const { error } = await supabase
+      .from('trait_norms')
+      .upsert(usable, { onConflict: 'assessment_version,trait,age_group,gender' });
+
+    if (error) {
+      console.error('Norms save error:', error);
+      throw new Error(`Supabase upsert failed: ${error.message}`);
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('trait_norms')
+    .delete()
+    .lt('computed_at', computedAt);
+
+  if (deleteError) {
+    console.error('Stale norms delete error:', deleteError);
+    throw new Error(`Supabase delete failed: ${deleteError.message}`);
+  }
+  return usable.length;
+}
+
+export interface TraitPercentile {
+  percentile: number;
+  // False when the age group pooled across genders was used
+  byGender: boolean;
+}
+
+/**
+ * Percentile of each trait score against the participant's age group and gender,
+ * falling back to the age group across genders. null where no group is large enough
+ */
+export async function getTraitPercentiles(
+  assessmentVersion: string,
+  age: number,
+  gender: string,
+  traitScores: Partial<Record<Trait, number>>
+): Promise<Record<Trait, TraitPercentile | null>> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('trait_norms')
+    .select('trait, gender, sample_size, score_counts')
+    .eq('assessment_version', assessmentVersion)
+    .eq('age_group', getAgeGroup(age))
+    .in('gender', [gender, ALL_GENDERS])
+    .gte('sample_size', MIN_NORM_GROUP_SIZE);
+
+  if (error) {
+    console.error('Norms lookup error:', error);
+    throw new Error(`Supabase lookup failed: ${error.message}`);
+  }
+
+  const percentiles = {} as Record<Trait, TraitPercentile | null>;
+  for (const trait of TRAITS) {
+    const score = traitScores[trait];
+    const norm = data.find((row) => row.trait === trait && row.gender === gender)
+      ?? data.find((row) => row.trait === trait && row.gender === ALL_GENDERS);
+    percentiles[trait] = norm && typeof score === 'number'
+      ? { percentile: getPercentile(norm.score_counts, score), byGender: norm.gender === gender }
+      : null;
+  }
+  return percentiles;
+}
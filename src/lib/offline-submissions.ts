@@ -0,0 +1,200 @@
+// IndexedDB-backed queue for /api/log submissions made without connectivity
+// Submissions the server rejects stay in the store, marked rejected, until staff
+// dismiss them, so no attempt disappears without someone seeing why
+import {
+  describeFieldErrors,
+  type LogErrorResponse,
+  type LogResponse,
+  type LogSuccessResponse,
+  type SubmissionPayload,
+} from '@/lib/submission-schema';
+
+const DB_NAME = 'anandak-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingSubmissions';
+
+// Fired on window whenever the queue changes, so indicators can refresh their count
+export const QUEUE_CHANGED_EVENT = 'anandak:submission-queue-changed';
+
+export interface QueuedSubmission {
+  submissionKey: string;
+  payload: SubmissionPayload;
+  queuedAt: string;
+  lastError?: string;
+  // When the server refused the payload; rejected entries are not retried
+  rejectedAt?: string;
+}
+
+export type SendResult =
+  | { status: 'sent'; result: LogSuccessResponse }
+  | { status: 'rejected'; result: LogErrorResponse }
+  | { status: 'offline'; error: string };
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'submissionKey' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against the queue store and resolves with its result
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+/**
+ * Stores a submission until the server confirms it. Keyed by submissionKey,
+ * so queueing the same attempt twice keeps a single entry
+ */
+export async function enqueueSubmission(payload: SubmissionPayload): Promise<void> {
+  const entry: QueuedSubmission = {
+    submissionKey: payload.submissionKey,
+    payload,
+    queuedAt: new Date().toISOString(),
+  };
+  await withStore('readwrite', (store) => store.put(entry));
+  notifyQueueChanged();
+}
+
+export async function removeQueuedSubmission(submissionKey: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(submissionKey));
+  notifyQueueChanged();
+}
+
+export function getQueuedSubmissions(): Promise<QueuedSubmission[]> {
+  return withStore('readonly', (store) => store.getAll() as IDBRequest<QueuedSubmission[]>);
+}
+
+/**
+ * Keeps a submission the server refused, with the reason, instead of dropping it
+ */
+export async function markSubmissionRejected(submissionKey: string, error: string): Promise<void> {
+  const entry = await withStore('readonly', (store) => store.get(submissionKey) as IDBRequest<QueuedSubmission | undefined>);
+  if (!entry) return;
+  await withStore('readwrite', (store) => store.put({ ...entry, lastError: error, rejectedAt: new Date().toISOString() }));
+  notifyQueueChanged();
+}
+
+/**
+ * One line saying why /api/log refused a submission; validation failures list every offending field
+ */
+export function describeRejection(result: LogErrorResponse): string {
+  return result.fieldErrors
+    ? `${result.error}: ${describeFieldErrors(result.fieldErrors)}`
+    : result.details ? `${result.error}: ${result.details}` : result.error;
+}
+
+/**
+ * Posts a submission to /api/log
+ * Network failures and 5xx responses count as 'offline' (worth retrying);
+ * 4xx responses are permanent rejections of the payload itself
+ */
+export async function sendSubmission(payload: SubmissionPayload): Promise<SendResult> {
+  let response: Response;
+  try {
+    response = await fetch('/api/log', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+  } catch (error) {
+    return { status: 'offline', error: error instanceof Error ? error.message : 'Network error' };
+  }
+
+  const result = await response.json().catch(() => null) as LogResponse | null;
+
+  if (response.ok && result?.success) {
+    return { status: 'sent', result };
+  }
+  const failure: LogErrorResponse = result && !result.success
+    ? result
+    : { success: false, error: `HTTP ${response.status}` };
+  if (response.ok || response.status >= 500 || response.status === 408 || response.status === 429) {
+    return { status: 'offline', error: failure.details || failure.error };
+  }
+  return { status: 'rejected', result: failure };
+}
+
+/**
+ * Attaches the server-issued certificate number and results to the certificate
+ * saved in localStorage, if it belongs to the given submission
+ */
+export function applySubmissionResult(submissionKey: string, result: LogSuccessResponse) {
+  try {
+    const stored = localStorage.getItem('anandakAssessmentCertificate');
+    if (!stored || !result.certificateId) return;
+
+    const certificateData = JSON.parse(stored);
+    if (certificateData.submissionKey !== submissionKey) return;
+
+    localStorage.setItem('anandakAssessmentCertificate', JSON.stringify({
+      ...certificateData,
+      assessmentData: result.assessment.assessmentData,
+      finalAssessmentText: result.assessment.finalAssessmentText,
+      finalFeedbackPhraseId: result.assessment.finalFeedbackPhraseId ?? certificateData.finalFeedbackPhraseId,
+      certificateId: result.certificateId,
+    }));
+  } catch (error) {
+    console.error("Could not save certificate number to localStorage", error);
+  }
+}
+
+let isFlushing = false;
+
+/**
+ * Retries every queued submission, oldest first, skipping rejected ones. Stops at
+ * the first network failure since the rest would fail the same way. Returns how
+ * many were uploaded
+ */
+export async function flushSubmissionQueue(): Promise<number> {
+  if (isFlushing) return 0;
+  isFlushing = true;
+
+  let uploaded = 0;
+  try {
+    const queued = (await getQueuedSubmissions()).filter((entry) => !entry.rejectedAt);
+    queued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+    for (const entry of queued) {
+      const outcome = await sendSubmission(entry.payload);
+
+      if (outcome.status === 'offline') {
+        await withStore('readwrite', (store) => store.put({ ...entry, lastError: outcome.error }));
+        notifyQueueChanged();
+        break;
+      }
+
+      if (outcome.status === 'rejected') {
+        // Retrying cannot fix an invalid payload; keep it, with the reason, for staff to see
+        console.error(`Queued submission ${entry.submissionKey} was rejected:`, outcome.result);
+        await markSubmissionRejected(entry.submissionKey, describeRejection(outcome.result));
+        continue;
+      }
+
+      applySubmissionResult(entry.submissionKey, outcome.result);
+      uploaded++;
+      await removeQueuedSubmission(entry.submissionKey);
+    }
+  } finally {
+    isFlushing = false;
+  }
+  return uploaded;
+}
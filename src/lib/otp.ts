@@ -0,0 +1,120 @@
+// One-time passcodes for verifying a participant's mobile number (server only)
+// Codes are stored hashed in the otp_verifications table under the E.164 number.
+// A correct code earns a signed verification token that the form sends with the
+// submission, so /api/log can record the number as verified without another
+// database lookup.
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { refinePhoneNumber } from '@/lib/submission-schema';
+import type { RateLimit } from '@/lib/rate-limit';
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MS = 10 * 60 * 1000;
+// Minimum gap between codes sent to one number
+export const OTP_RESEND_INTERVAL_MS = 30 * 1000;
+// Wrong guesses allowed per code before a new one must be requested
+export const OTP_MAX_VERIFY_ATTEMPTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+// Codes one number may be sent: one per resend interval and five an hour, keyed on the E.164 number
+export const OTP_RESEND_LIMIT: RateLimit = { bucket: 'otp-send:phone-interval', limit: 1, windowMs: OTP_RESEND_INTERVAL_MS };
+export const OTP_SEND_PHONE_LIMIT: RateLimit = { bucket: 'otp-send:phone', limit: 5, windowMs: HOUR_MS };
+// Codes one IP address may request across all numbers, so one caller cannot text many numbers
+export const OTP_SEND_IP_LIMIT: RateLimit = { bucket: 'otp-send:ip', limit: 20, windowMs: HOUR_MS };
+const DEFAULT_MAX_SENDS_PER_HOUR_TOTAL = 1000;
+
+/**
+ * Codes sent per hour across all callers, capping SMS spend when many addresses
+ * are used at once. Configure with OTP_MAX_SENDS_PER_HOUR_TOTAL
+ */
+export function getOtpTotalSendLimit(): RateLimit {
+  const configured = Number.parseInt(process.env.OTP_MAX_SENDS_PER_HOUR_TOTAL ?? '', 10);
+  return {
+    bucket: 'otp-send:total',
+    limit: Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_SENDS_PER_HOUR_TOTAL,
+    windowMs: HOUR_MS,
+  };
+}
+
+// Long enough for a submission to wait in the offline queue for a few days
+const VERIFICATION_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const phoneNumberSchema = z.object({
+  countryCode: z.string().min(1, { message: "Please select country code." }),
+  mobile: z.string().min(1, { message: "Please enter your mobile number." }),
+});
+
+export const otpSendSchema = phoneNumberSchema.superRefine(refinePhoneNumber);
+
+export const otpVerifySchema = phoneNumberSchema.extend({
+  code: z.string().regex(new RegExp(`^\\d{${OTP_LENGTH}}$`), { message: `Enter the ${OTP_LENGTH}-digit code.` }),
+}).superRefine(refinePhoneNumber);
+
+/**
+ * Secret used to hash codes and sign verification tokens
+ * Development falls back to a fixed value; production requires OTP_SECRET
+ */
+function getOtpSecret(): string | null {
+  if (process.env.OTP_SECRET) return process.env.OTP_SECRET;
+  return process.env.NODE_ENV === 'production' ? null : 'development-only-otp-secret';
+}
+
+export const hasOtpConfig = () => getOtpSecret() !== null;
+
+const sign = (value: string) => createHmac('sha256', getOtpSecret()!).update(value).digest('base64url');
+
+export function generateOtpCode(): string {
+  return randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+}
+
+export function hashOtpCode(phone: string, code: string): string {
+  return sign(`${phone}:${code}`);
+}
+
+/**
+ * Constant-time comparison of a guessed code against the stored hash
+ */
+export function otpCodeMatches(phone: string, code: string, storedHash: string): boolean {
+  const expected = Buffer.from(storedHash);
+  const actual = Buffer.from(hashOtpCode(phone, code));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+interface VerificationTokenPayload {
+  phone: string;
+  verifiedAt: string;
+  expiresAt: string;
+}
+
+export function createVerificationToken(phone: string, verifiedAt: Date): string {
+  const payload: VerificationTokenPayload = {
+    phone,
+    verifiedAt: verifiedAt.toISOString(),
+    expiresAt: new Date(verifiedAt.getTime() + VERIFICATION_TOKEN_TTL_MS).toISOString(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Returns when the number was verified if the token is genuine, unexpired and
+ * issued for this phone number; null otherwise
+ */
+export function readVerificationToken(token: string, phone: string): { verifiedAt: string } | null {
+  if (!hasOtpConfig()) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as VerificationTokenPayload;
+    if (payload.phone !== phone || new Date(payload.expiresAt).getTime() < Date.now()) return null;
+    return { verifiedAt: payload.verifiedAt };
+  } catch {
+    return null;
+  }
+}
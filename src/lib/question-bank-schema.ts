@@ -0,0 +1,213 @@
+// Schema and consistency checks for question bank content files
+// Kept free of the bank registry so the validation CLI can report on broken files
+import { z } from 'zod';
+
+export const LANGUAGES = ['en', 'hi'] as const;
+
+// Fixed by the per-trait score columns in assessment_submissions
+export const TRAITS = ['Gratitude', 'Resilience', 'Empathy', 'Sociability', 'Social Cognition', 'Courage'] as const;
+
+export type Trait = (typeof TRAITS)[number];
+
+export const FINAL_CATEGORIES = ['high', 'medium', 'low'] as const;
+
+const localizedTextSchema = z.object({
+  en: z.string().min(1),
+  hi: z.string().min(1),
+});
+
+// Languages may be missing here so the consistency check can list every gap at once
+const localizedPhrasesSchema = z.object({
+  en: z.array(z.string().min(1)).optional(),
+  hi: z.array(z.string().min(1)).optional(),
+});
+
+const questionSchema = z.object({
+  id: z.number().int().positive(),
+  trait: z.enum(TRAITS),
+  questionText: localizedTextSchema,
+  options: z.array(z.object({ text: localizedTextSchema, score: z.number().int() })).min(2),
+});
+
+// Lowest score for each category; anything below medium is low
+const bandsSchema = z.object({ high: z.number(), medium: z.number() });
+
+// How answers become trait scores, the total and the final category. Part of the
+// version, so a change of cut-offs or weights is published as a new version
+const scoringSchema = z.object({
+  // How the drawn items' scores combine into a trait score: 'mean' keeps it on the
+  // option score scale (rounded to the nearest whole score), 'sum' adds them up
+  traitScoreAggregation: z.enum(['mean', 'sum']).default('mean'),
+  // Questions whose option scores run the other way: a score s counts as min + max - s
+  reverseKeyedQuestionIds: z.array(z.number().int()).default([]),
+  // Traits whose scores add up to the total; all of them by default
+  countedTraits: z.array(z.enum(TRAITS)).default([...TRAITS]),
+  // Traits listed in the certificate's detailed results, the results screen and the
+  // verification page; all of them by default. Stored scores always cover every trait
+  certificateTraits: z.array(z.enum(TRAITS)).default([...TRAITS]),
+  // Traits whose option feedback is shown as soon as an option is picked; all of them by default
+  liveFeedbackTraits: z.array(z.enum(TRAITS)).default([...TRAITS]),
+  // Trait -> multiplier for its score in the total; traits not listed weigh 1
+  // A weighted total is rounded to the nearest whole number
+  traitWeights: z.record(z.string(), z.number().positive()).default({}),
+  // Trait -> bands for its trait score; traits not listed split their score range into thirds
+  traitBands: z.record(z.string(), bandsSchema).default({}),
+  // Bands for the total, which pick the final feedback category
+  totalBands: bandsSchema,
+});
+
+// Banks published before the scoring block (v1) give only finalCategoryThresholds.
+// They keep the behaviour they were published with: every trait counted, Courage
+// left off the certificate and results screen, and live feedback for every trait.
+// A new selection of traits goes into a new version with its own scoring block
+const LEGACY_CERTIFICATE_TRAITS = TRAITS.filter((trait) => trait !== 'Courage');
+
+function upgradeLegacyScoring(data: unknown): unknown {
+  if (!data || typeof data !== 'object' || 'scoring' in data || !('finalCategoryThresholds' in data)) {
+    return data;
+  }
+  const { finalCategoryThresholds, ...rest } = data as Record<string, unknown>;
+  return { ...rest, scoring: { totalBands: finalCategoryThresholds, certificateTraits: LEGACY_CERTIFICATE_TRAITS } };
+}
+
+export const questionBankSchema = z.preprocess(upgradeLegacyScoring, z.object({
+  version: z.string().regex(/^v\d+$/, { message: 'Version must look like v1, v2, ...' }),
+  // Every option score must fall in this range, and each trait needs feedback for every score in it
+  scoreScale: z.object({ min: z.number().int(), max: z.number().int() }),
+  // Each trait has a pool of questions; an attempt answers this many from every pool,
+  // drawn with the attempt's submission key as the seed
+  itemsPerTrait: z.number().int().positive().default(1),
+  scoring: scoringSchema,
+  questions: z.array(questionSchema).min(1),
+  // Trait -> option score -> language -> alternative phrasings
+  // A phrasing's position is its phrase ID, so entry i must say the same thing in every language
+  individualFeedback: z.record(z.string(), z.record(z.string(), localizedPhrasesSchema)),
+  // Language -> final category -> alternative phrasings
+  finalFeedback: z.object({
+    en: z.record(z.string(), z.array(z.string().min(1))),
+    hi: z.record(z.string(), z.array(z.string().min(1))),
+  }),
+  // Closing paragraph for the certificate; {feedback} is replaced with the final feedback
+  finalAssessmentTemplate: localizedTextSchema,
+}));
+
+export type QuestionBank = z.infer<typeof questionBankSchema>;
+
+export type Question = QuestionBank['questions'][number];
+
+// Closing paragraphs published without {feedback}; they stay as participants saw
+// them, and later versions must include it (v1's Hindi one is corrected in v2)
+const PUBLISHED_WITHOUT_FEEDBACK_PLACEHOLDER: Record<string, readonly (typeof LANGUAGES)[number][]> = { v1: ['hi'] };
+
+/**
+ * Checks what the schema cannot: unique question IDs, option scores inside the
+ * scale, trait pools large enough for itemsPerTrait, scoring that names real
+ * traits and questions with bands in order, feedback for every trait, score,
+ * category and language with the same number of phrasings in each language, and
+ * a {feedback} placeholder in every language's closing paragraph.
+ * Returns a list of problems; empty when the bank is usable
+ */
+export function findQuestionBankProblems(bank: QuestionBank): string[] {
+  const problems: string[] = [];
+  const { min, max } = bank.scoreScale;
+
+  if (min > max) {
+    problems.push(`scoreScale.min (${min}) is greater than scoreScale.max (${max})`);
+  }
+  const { scoring } = bank;
+  if (scoring.totalBands.medium > scoring.totalBands.high) {
+    problems.push('scoring.totalBands.medium is greater than scoring.totalBands.high');
+  }
+  if (scoring.countedTraits.length === 0) {
+    problems.push('scoring.countedTraits is empty, so the total is always 0');
+  }
+  for (const [trait, bands] of Object.entries(scoring.traitBands)) {
+    if (bands.medium > bands.high) {
+      problems.push(`scoring.traitBands.${trait}.medium is greater than its high band`);
+    }
+  }
+  for (const trait of [...Object.keys(scoring.traitWeights), ...Object.keys(scoring.traitBands)]) {
+    if (!(TRAITS as readonly string[]).includes(trait)) {
+      problems.push(`Scoring refers to unknown trait "${trait}"`);
+    }
+  }
+
+  const seenIds = new Set<number>();
+  for (const question of bank.questions) {
+    if (seenIds.has(question.id)) {
+      problems.push(`Question ${question.id} appears more than once`);
+    }
+    seenIds.add(question.id);
+
+    question.options.forEach((option, index) => {
+      if (option.score < min || option.score > max) {
+        problems.push(`Question ${question.id} option ${index} has score ${option.score}, outside ${min}-${max}`);
+      }
+    });
+  }
+
+  for (const id of scoring.reverseKeyedQuestionIds) {
+    if (!seenIds.has(id)) {
+      problems.push(`scoring.reverseKeyedQuestionIds lists unknown question ${id}`);
+    }
+  }
+
+  for (const trait of TRAITS) {
+    const poolSize = bank.questions.filter((question) => question.trait === trait).length;
+    if (poolSize === 0) {
+      problems.push(`No question measures ${trait}`);
+    } else if (poolSize < bank.itemsPerTrait) {
+      problems.push(`${trait} has ${poolSize} questions but itemsPerTrait is ${bank.itemsPerTrait}`);
+    }
+    for (let score = min; score <= max; score++) {
+      for (const lang of LANGUAGES) {
+        if (!bank.individualFeedback[trait]?.[score]?.[lang]?.length) {
+          problems.push(`Missing ${lang} feedback for ${trait} at score ${score}`);
+        }
+      }
+      const counts = LANGUAGES.map((lang) => bank.individualFeedback[trait]?.[score]?.[lang]?.length ?? 0);
+      if (counts.every((count) => count > 0) && new Set(counts).size > 1) {
+        problems.push(`${trait} at score ${score} has ${counts.join(' / ')} ${LANGUAGES.join(' / ')} phrasings; translations must line up`);
+      }
+    }
+  }
+  for (const trait of Object.keys(bank.individualFeedback)) {
+    if (!(TRAITS as readonly string[]).includes(trait)) {
+      problems.push(`Feedback is given for unknown trait "${trait}"`);
+    }
+  }
+
+  for (const lang of LANGUAGES) {
+    for (const category of FINAL_CATEGORIES) {
+      if (!bank.finalFeedback[lang][category]?.length) {
+        problems.push(`Missing ${lang} final feedback for the ${category} category`);
+      }
+    }
+  }
+  for (const lang of LANGUAGES) {
+    const publishedWithout = PUBLISHED_WITHOUT_FEEDBACK_PLACEHOLDER[bank.version]?.includes(lang);
+    if (!publishedWithout && !bank.finalAssessmentTemplate[lang].includes('{feedback}')) {
+      problems.push(`finalAssessmentTemplate.${lang} has no {feedback} placeholder`);
+    }
+  }
+  for (const category of FINAL_CATEGORIES) {
+    const counts = LANGUAGES.map((lang) => bank.finalFeedback[lang][category]?.length ?? 0);
+    if (counts.every((count) => count > 0) && new Set(counts).size > 1) {
+      problems.push(`Final feedback for ${category} has ${counts.join(' / ')} ${LANGUAGES.join(' / ')} phrasings; translations must line up`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Parses a bank and rejects it if it has any problems
+ */
+export function parseQuestionBank(data: unknown): QuestionBank {
+  const bank = questionBankSchema.parse(data);
+  const problems = findQuestionBankProblems(bank);
+  if (problems.length > 0) {
+    throw new Error(`Question bank ${bank.version} is invalid:\n- ${problems.join('\n- ')}`);
+  }
+  return bank;
+}
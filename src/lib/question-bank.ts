@@ -0,0 +1,55 @@
+// Versioned question banks: questions, option scores and feedback wording live in
+// src/content/question-banks/<version>.json so psychologists can revise content
+// without touching code. A bank is never edited once participants have answered it;
+// changes go into a new version and CURRENT_ASSESSMENT_VERSION is moved to it.
+// v2 repeats v1 with its Hindi finalAssessmentTemplate corrected to include {feedback}.
+// Check banks with `npm run validate-questions`.
+import { parseQuestionBank, TRAITS, type Question, type QuestionBank } from '@/lib/question-bank-schema';
+import { createSeededRandom, seededShuffle } from '@/lib/seeded-random';
+import v1 from '@/content/question-banks/v1.json';
+import v2 from '@/content/question-banks/v2.json';
+
+export type { Question, QuestionBank, Trait } from '@/lib/question-bank-schema';
+
+export const questionBanks: Record<string, QuestionBank> = Object.fromEntries(
+  [v1, v2].map((data) => {
+    const bank = parseQuestionBank(data);
+    return [bank.version, bank];
+  })
+);
+
+// The version new attempts are answered against
+export const CURRENT_ASSESSMENT_VERSION = 'v2';
+
+export function getQuestionBank(version: string = CURRENT_ASSESSMENT_VERSION): QuestionBank | undefined {
+  return questionBanks[version];
+}
+
+export const currentQuestionBank = questionBanks[CURRENT_ASSESSMENT_VERSION];
+
+/**
+ * The questions one attempt answers: itemsPerTrait drawn from each trait's pool,
+ * seeded with the attempt's submission key so a resumed attempt and the server
+ * see the same draw. Drawn questions keep their order in the bank.
+ */
+export function drawQuestions(bank: QuestionBank, seed: string): Question[] {
+  const random = createSeededRandom(`${bank.version}:${seed}`);
+  const drawnIds = new Set<number>();
+  for (const trait of TRAITS) {
+    const pool = bank.questions.filter((question) => question.trait === trait);
+    // A pool that is exactly itemsPerTrait long is taken whole, as in v1
+    const drawn = pool.length > bank.itemsPerTrait ? seededShuffle(pool, random).slice(0, bank.itemsPerTrait) : pool;
+    drawn.forEach((question) => drawnIds.add(question.id));
+  }
+  return bank.questions.filter((question) => drawnIds.has(question.id));
+}
+
+/**
+ * Authored option indices in the order an attempt shows them, so the best answer
+ * is not always in the same place. Seeded with the submission key and the question
+ * ID, so the order survives a resume and can be reproduced from the stored key.
+ */
+export function getOptionOrder(question: Question, seed: string): number[] {
+  const indices = question.options.map((_, index) => index);
+  return seededShuffle(indices, createSeededRandom(`${seed}:options:${question.id}`));
+}
@@ -0,0 +1,43 @@
+// Request limits kept in Postgres, so they hold across serverless instances (server only)
+// consume_rate_limit (migration 014) checks and records a request in one transaction,
+// so parallel requests cannot slip past a limit. Keys are hashed before they are stored.
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+
+export interface RateLimit {
+  // What is limited and per what, e.g. 'certificate-lookup:ip'
+  bucket: string;
+  // Requests allowed per key within the window
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * The caller's IP address as reported by the hosting proxy
+ */
+export function getClientIp(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+}
+
+/**
+ * Counts one request against the limit for the key (an IP address, a phone number,
+ * or a fixed key for a limit across all callers)
+ * Returns null when the request may go ahead, otherwise the seconds to wait
+ */
+export async function consumeRateLimit({ bucket, limit, windowMs }: RateLimit, key: string): Promise<number | null> {
+  const { data, error } = await getSupabaseAdmin().rpc('consume_rate_limit', {
+    p_bucket: bucket,
+    p_key: createHash('sha256').update(key).digest('hex'),
+    p_limit: limit,
+    p_window_seconds: Math.ceil(windowMs / 1000),
+  });
+
+  if (error) {
+    console.error('Rate limit error:', error);
+    throw new Error(`Supabase rate limit check failed: ${error.message}`);
+  }
+  return typeof data === 'number' && data > 0 ? data : null;
+}
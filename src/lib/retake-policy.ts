@@ -0,0 +1,84 @@
+// Retake policy: how many attempts per mobile number count for volunteer selection,
+// and how long a participant must wait between counted attempts (server only)
+// Attempts outside the policy are still stored and get a certificate, but are
+// marked as not counted. Only attempts with a verified mobile number count at all.
+// Configure with RETAKE_MAX_ATTEMPTS and RETAKE_MIN_DAYS (0 turns a limit off).
+// /api/log applies the policy inside the database (insert_assessment_submission,
+// migration 015) so parallel uploads cannot race; evaluateRetake gives the same
+// answer ahead of time for the eligibility check.
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+
+export interface RetakePolicy {
+  // Counted attempts allowed per mobile number; null for no limit
+  maxAttempts: number | null;
+  // Days from one counted attempt until the next one can count
+  minDaysBetweenAttempts: number;
+}
+
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = {
+  maxAttempts: 3,
+  minDaysBetweenAttempts: 30,
+};
+
+export type NotCountedReason = 'max_attempts' | 'cooldown' | 'unverified';
+
+export type RetakeDecision =
+  | { counted: true }
+  | { counted: false; reason: Exclude<NotCountedReason, 'unverified'>; nextAttemptAt: string | null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readLimit(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(`Ignoring invalid retake policy value "${value}"`);
+    return fallback;
+  }
+  return parsed === 0 ? null : parsed;
+}
+
+export function getRetakePolicy(): RetakePolicy {
+  return {
+    maxAttempts: readLimit(process.env.RETAKE_MAX_ATTEMPTS, DEFAULT_RETAKE_POLICY.maxAttempts),
+    minDaysBetweenAttempts:
+      readLimit(process.env.RETAKE_MIN_DAYS, DEFAULT_RETAKE_POLICY.minDaysBetweenAttempts) ?? 0,
+  };
+}
+
+/**
+ * Decides whether an attempt made now counts, given the participant's earlier
+ * counted attempts (ISO timestamps, any order)
+ */
+export function evaluateRetake(policy: RetakePolicy, countedAttemptDates: string[], now = new Date()): RetakeDecision {
+  if (policy.maxAttempts !== null && countedAttemptDates.length >= policy.maxAttempts) {
+    return { counted: false, reason: 'max_attempts', nextAttemptAt: null };
+  }
+
+  const lastAttemptAt = Math.max(0, ...countedAttemptDates.map((date) => new Date(date).getTime()));
+  const nextAttemptAt = lastAttemptAt + policy.minDaysBetweenAttempts * DAY_MS;
+  if (lastAttemptAt > 0 && nextAttemptAt > now.getTime()) {
+    return { counted: false, reason: 'cooldown', nextAttemptAt: new Date(nextAttemptAt).toISOString() };
+  }
+
+  return { counted: true };
+}
+
+/**
+ * When each of the number's counted attempts was stored
+ * Attempts without a verified number never count towards the limits
+ */
+export async function getCountedAttemptDates(mobileE164: string): Promise<string[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('assessment_submissions')
+    .select('created_at')
+    .eq('mobile_e164', mobileE164)
+    .eq('counted', true)
+    .eq('mobile_verified', true);
+
+  if (error) {
+    console.error('Counted attempts lookup error:', error);
+    throw new Error(`Supabase lookup failed: ${error.message}`);
+  }
+  return data.map((row) => row.created_at as string);
+}
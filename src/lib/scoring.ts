@@ -0,0 +1,109 @@
+// Server-trusted scoring: derives every score from raw option selections
+import type { AnswerDetail } from '@/components/assessment-step';
+import {
+  aggregateTraitScores,
+  getItemScore,
+  getOptionFeedback,
+  getOptionFeedbackPhraseId,
+  getFinalFeedback,
+  getFinalFeedbackPhraseId,
+  getTotalScore,
+  getFinalAssessment,
+  getFinalFeedbackCategory,
+  type FinalFeedbackCategory,
+  type Question,
+} from '@/lib/assessment-data';
+import { drawQuestions, type QuestionBank } from '@/lib/question-bank';
+import type { ResponseSelection } from '@/lib/submission-schema';
+
+export interface ScoredAssessment {
+  responses: ResponseSelection[];
+  assessmentData: AnswerDetail[];
+  // IDs of the questions drawn for this attempt, in the order they were asked
+  drawnQuestionIds: number[];
+  traitScores: Record<Question['trait'], number>;
+  totalScore: number;
+  finalCategory: FinalFeedbackCategory;
+  // Which phrasing of the final feedback was shown; the same position in every language
+  finalFeedbackPhraseId: number;
+  finalAssessmentText: string;
+}
+
+export type ScoringResult =
+  | { valid: true; assessment: ScoredAssessment }
+  | { valid: false; error: string };
+
+/**
+ * Checks that the selections answer every question drawn for the attempt
+ * (seeded with its submission key) exactly once with an existing option, then
+ * recomputes trait scores, the total and the final feedback from the bank itself,
+ * choosing feedback phrasings from the same seed as the browser did
+ */
+export function scoreResponses(responses: ResponseSelection[], bank: QuestionBank, seed: string): ScoringResult {
+  const questions = drawQuestions(bank, seed);
+  if (responses.length !== questions.length) {
+    return { valid: false, error: `Expected ${questions.length} responses, received ${responses.length}` };
+  }
+
+  const byQuestionId = new Map<number, ResponseSelection>();
+  for (const response of responses) {
+    if (byQuestionId.has(response.questionId)) {
+      return { valid: false, error: `Question ${response.questionId} was answered more than once` };
+    }
+    if (!questions.some((question) => question.id === response.questionId)) {
+      return { valid: false, error: `Question ${response.questionId} was not drawn for this attempt` };
+    }
+    byQuestionId.set(response.questionId, response);
+  }
+
+  const assessmentData: AnswerDetail[] = [];
+
+  // Walk the draw rather than the payload so answers are stored in question order
+  for (const question of questions) {
+    const response = byQuestionId.get(question.id);
+    if (!response) {
+      return { valid: false, error: `Question ${question.id} was not answered` };
+    }
+
+    const option = question.options[response.optionIndex];
+    if (!option) {
+      return { valid: false, error: `Question ${question.id} has no option ${response.optionIndex}` };
+    }
+
+    const score = getItemScore(question, response.optionIndex, bank);
+    const feedbackPhraseId = getOptionFeedbackPhraseId(question, response.optionIndex, seed, bank);
+    assessmentData.push({
+      id: question.id,
+      trait: question.trait,
+      score,
+      optionIndex: response.optionIndex,
+      feedback: getOptionFeedback(question.trait, score, 'en', feedbackPhraseId, bank),
+      feedbackPhraseId,
+    });
+  }
+
+  const traitScores = {} as Record<Question['trait'], number>;
+  for (const { trait, score } of aggregateTraitScores(assessmentData, bank)) {
+    traitScores[trait] = score;
+  }
+  const totalScore = getTotalScore(assessmentData, bank);
+  const finalFeedbackPhraseId = getFinalFeedbackPhraseId(totalScore, seed, bank);
+
+  return {
+    valid: true,
+    assessment: {
+      responses: questions.map((question) => byQuestionId.get(question.id)!),
+      assessmentData,
+      drawnQuestionIds: questions.map((question) => question.id),
+      traitScores,
+      totalScore,
+      finalCategory: getFinalFeedbackCategory(totalScore, bank),
+      finalFeedbackPhraseId,
+      finalAssessmentText: getFinalAssessment(
+        getFinalFeedback(totalScore, 'en', finalFeedbackPhraseId, bank),
+        'en',
+        bank
+      ),
+    },
+  };
+}
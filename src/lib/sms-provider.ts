@@ -0,0 +1,61 @@
+// SMS delivery behind a small provider interface (server only)
+// Pick the gateway with SMS_PROVIDER:
+//   console - logs messages to the server console (local development only)
+//   webhook - POSTs { to, message } as JSON to SMS_WEBHOOK_URL, for a gateway or relay
+// Add a real gateway by implementing SmsProvider and registering it in providers below.
+
+export interface SmsProvider {
+  name: string;
+  /** Sends a text message to an international number such as +919876543210 */
+  send(to: string, message: string): Promise<void>;
+}
+
+const consoleProvider: SmsProvider = {
+  name: 'console',
+  async send(to, message) {
+    console.log(`[sms:console] To ${to}: ${message}`);
+  },
+};
+
+const webhookProvider: SmsProvider = {
+  name: 'webhook',
+  async send(to, message) {
+    const url = process.env.SMS_WEBHOOK_URL;
+    if (!url) {
+      throw new Error('SMS_WEBHOOK_URL is not set');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.SMS_WEBHOOK_TOKEN) {
+      headers.Authorization = `Bearer ${process.env.SMS_WEBHOOK_TOKEN}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ to, message }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS webhook responded with status ${response.status}`);
+    }
+  },
+};
+
+const providers: Record<string, SmsProvider> = {
+  console: consoleProvider,
+  webhook: webhookProvider,
+};
+
+/**
+ * Returns the configured SMS provider, or null if none is usable
+ * The console provider is the default in development but is never picked
+ * implicitly in production, where codes would otherwise only reach the logs
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const configured = process.env.SMS_PROVIDER;
+  if (!configured) {
+    return process.env.NODE_ENV === 'production' ? null : consoleProvider;
+  }
+  return providers[configured] ?? null;
+}
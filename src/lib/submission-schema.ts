@@ -0,0 +1,139 @@
+// Validation schemas shared by the registration form and the /api/log route
+import { z } from 'zod';
+import { getPhoneNumberError } from '@/lib/country-codes';
+import type { StoredAnswer } from '@/lib/supabase';
+import type { NotCountedReason } from '@/lib/retake-policy';
+import type { TraitPercentile } from '@/lib/norms';
+import type { Trait } from '@/lib/question-bank-schema';
+
+export const userInfoSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  name_hi: z.string().min(1, { message: "कृपया हिंदी में नाम दर्ज करें।" }),
+  age: z.coerce.number().min(1, { message: "Please enter your age." }).max(120, { message: "Please enter a valid age." }),
+  gender: z.enum(["Male", "Female", "Other", "Prefer not to say"], { required_error: "Please select your gender." }),
+  countryCode: z.string().min(1, { message: "Please select country code." }),
+  mobile: z.string().min(1, { message: "Please enter your mobile number." }),
+  // Signed by /api/otp/verify once the participant enters the code texted to them
+  mobileVerificationToken: z.string().optional(),
+  email: z.string().email({ message: "Please enter a valid email." }).optional().or(z.literal('')),
+  state: z.string({ required_error: "Please select your state/UT." }).min(1, { message: "Please select your state/UT." }),
+  district: z.string({ required_error: "Please select your district." }).min(1, { message: "Please select your district." }),
+  // Asked for in BLOCK_STATES only: picked where the district's blocks are listed, typed
+  // elsewhere (see location-hierarchy.ts). The village is always typed for now
+  block: z.string().max(100, { message: "Block name is too long." }).optional().or(z.literal('')),
+  village: z.string().max(100, { message: "Village name is too long." }).optional().or(z.literal('')),
+});
+
+export type UserInfo = z.infer<typeof userInfoSchema>;
+
+/**
+ * Checks the mobile number against the rules for its dial code (see country-codes.ts)
+ * Used with superRefine, since userInfoSchema itself must stay extendable
+ */
+export function refinePhoneNumber(values: { countryCode: string; mobile: string }, ctx: z.RefinementCtx) {
+  const message = getPhoneNumberError(values.countryCode, values.mobile);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['mobile'], message });
+  }
+}
+
+/**
+ * One answer as submitted - which option was picked, never its score
+ */
+export const responseSelectionSchema = z.object({
+  questionId: z.number().int().positive(),
+  optionIndex: z.number().int().min(0),
+});
+
+export type ResponseSelection = z.infer<typeof responseSelectionSchema>;
+
+/**
+ * An answer the participant changed with Previous or from the review screen
+ */
+export const answerChangeSchema = z.object({
+  questionId: z.number().int().positive(),
+  fromOptionIndex: z.number().int().min(0),
+  toOptionIndex: z.number().int().min(0),
+  changedAt: z.string().datetime(),
+});
+
+// Information about how the assessment was taken, stored alongside the answers
+export const submissionMetadataSchema = z.object({
+  answerChanges: z.array(answerChangeSchema).default([]),
+});
+
+export type SubmissionMetadata = z.infer<typeof submissionMetadataSchema>;
+
+export const submissionSchema = userInfoSchema.extend({
+  // Generated when the assessment starts; replays of the same attempt share it
+  submissionKey: z.string().uuid({ message: "Submission key must be a UUID." }),
+  // Question bank version the answers refer to; submissions queued before versioning were answered against v1
+  assessmentVersion: z.string().default('v1'),
+  responses: z.array(responseSelectionSchema).min(1, { message: "Please answer the assessment questions." }),
+  metadata: submissionMetadataSchema.default({}),
+}).superRefine(refinePhoneNumber);
+
+export type SubmissionPayload = z.infer<typeof submissionSchema>;
+
+export type FieldErrors = Record<string, string[] | undefined>;
+
+/**
+ * Flattens schema errors into { field: messages } for API responses
+ * Nested paths such as responses.2.optionIndex are kept as dotted keys
+ */
+export function getFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || 'form';
+    fieldErrors[key] = [...(fieldErrors[key] ?? []), issue.message];
+  }
+  return fieldErrors;
+}
+
+/**
+ * Turns field errors from an API response into a single line for a toast
+ */
+export function describeFieldErrors(fieldErrors: FieldErrors): string {
+  return Object.entries(fieldErrors)
+    .filter(([, messages]) => messages && messages.length > 0)
+    .map(([field, messages]) => `${field}: ${messages!.join(', ')}`)
+    .join('; ');
+}
+
+/**
+ * Body of a successful /api/log response; results always come from the stored row
+ * Only these fields are returned, never the row itself, so a replayed submission
+ * key does not reveal the contact details stored with it
+ */
+export interface LogSuccessResponse {
+  success: true;
+  message: string;
+  // True when the submission key was already stored and that row is returned
+  replayed: boolean;
+  certificateId: string | null;
+  assessmentVersion: string;
+  attemptNumber: number | null;
+  counted: boolean;
+  notCountedReason: NotCountedReason | null;
+  assessment: {
+    assessmentData: StoredAnswer[];
+    totalScore: number;
+    finalAssessmentText: string;
+    // null for submissions stored before the phrase was recorded
+    finalFeedbackPhraseId: number | null;
+    // null when the norms lookup failed; a trait is null until its norm group is large enough
+    percentiles: Record<Trait, TraitPercentile | null> | null;
+  };
+}
+
+/**
+ * Body of a failed /api/log response; fieldErrors is set for validation failures
+ */
+export interface LogErrorResponse {
+  success: false;
+  error: string;
+  details?: string;
+  fieldErrors?: FieldErrors;
+}
+
+export type LogResponse = LogSuccessResponse | LogErrorResponse;
@@ -0,0 +1,32 @@
+// Server-side Supabase client configuration
+// Uses the service role key, so this module must only be imported from API routes
+// and server components - never from "use client" files.
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Whether the Supabase URL and service role key are configured
+ */
+export function hasServerSupabaseConfig(): boolean {
+  return Boolean(supabaseUrl && supabaseServiceKey);
+}
+
+/**
+ * Returns a lazily created Supabase client with service role access
+ * Throws if the required environment variables are missing
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+  }
+  if (!adminClient) {
+    adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+  }
+  return adminClient;
+}
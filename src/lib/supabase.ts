@@ -1,5 +1,8 @@
 // Supabase client configuration
 import { createClient } from '@supabase/supabase-js';
+import type { Question } from './assessment-data';
+import type { ResponseSelection, SubmissionMetadata } from './submission-schema';
+import type { NotCountedReason } from './retake-policy';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -11,24 +14,60 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // Types for database tables
+
+// One entry of assessment_data; rows saved before scores were recomputed
+// on the server have no optionIndex
+export interface StoredAnswer {
+  id: number;
+  trait: Question['trait'];
+  score: number;
+  optionIndex?: number;
+  feedback: string;
+  // Position of the feedback phrasing in the bank's list for this trait and score;
+  // the same in every language. Missing on answers stored before phrase IDs
+  feedbackPhraseId?: number;
+}
+
 export interface AssessmentSubmission {
   id?: string;
   created_at?: string;
+  certificate_id?: string;
+  submission_key?: string;
+  assessment_version?: string; // Question bank version answered, e.g. v1
+  drawn_question_ids?: number[] | null; // Questions drawn from the bank's trait pools for this attempt
+  participant_id?: string | null;
+  attempt_number?: number | null; // 1 for the participant's first stored attempt
+  counted?: boolean; // False when the retake policy excludes the attempt from volunteer selection
+  not_counted_reason?: NotCountedReason | null;
   name: string;
   name_hi: string;
   age: number;
   gender: string;
   country_code: string;
-  mobile: string;
+  mobile: string; // National number, e.g. 9876543210
+  mobile_e164?: string | null; // e.g. +919876543210; matches repeat participants
+  mobile_verified?: boolean; // Confirmed with a one-time code texted to the number
+  mobile_verified_at?: string | null;
   email?: string;
   state: string;
   district: string;
+  state_lgd_code?: number | null; // Local Government Directory codes; null where not yet recorded
+  district_lgd_code?: number | null;
+  block?: string | null; // Development block, where listed for the district
+  block_lgd_code?: number | null;
+  village?: string | null; // Gram panchayat or village, as picked or typed
+  village_lgd_code?: number | null;
   total_score: number;
   final_assessment: string;
+  final_feedback_phrase_id?: number | null; // Final feedback phrasing shown; null before it was recorded
   gratitude_score: number;
   resilience_score: number;
   empathy_score: number;
   sociability_score: number;
   social_cognition_score: number;
-  assessment_data: any; // JSONB field for full assessment details
+  courage_score: number;
+  responses?: ResponseSelection[]; // Raw answers the scores were derived from
+  metadata?: SubmissionMetadata; // How the assessment was taken (e.g. answers changed before finishing)
+  assessment_data: StoredAnswer[]; // JSONB field for full assessment details
+  feedback_comments?: { trait: string; feedback: string }[];
 }
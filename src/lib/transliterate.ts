@@ -0,0 +1,57 @@
+// English to Hindi (Devanagari) transliteration
+// The bundled offline transliterator is always used. Google Input Tools is an
+// optional fallback for words outside the dictionary, enabled with
+// GOOGLE_TRANSLITERATION_FALLBACK=true (server only)
+import { getDevanagariCandidates, isFullyKnown } from '@/lib/devanagari-transliterator';
+
+const GOOGLE_INPUT_TOOLS_URL = 'https://www.google.com/inputtools/request';
+
+/**
+ * Asks Google Input Tools for up to `limit` ranked transliterations
+ * Returns an empty list if the service fails or returns nothing
+ */
+async function transliterateWithGoogle(text: string, limit: number): Promise<string[]> {
+  const url = `${GOOGLE_INPUT_TOOLS_URL}?ime=transliteration_en_hi&num=${limit}&cp=0&cs=1&ie=utf-8&oe=utf-8&app=jsapi&text=${encodeURIComponent(text)}`;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) {
+      console.error('Google API fetch failed with status:', response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    if (data && data[0] === 'SUCCESS' && data[1] && data[1][0] && Array.isArray(data[1][0][1])) {
+      return data[1][0][1].filter((candidate: unknown): candidate is string => typeof candidate === 'string' && candidate.length > 0);
+    }
+  } catch (error) {
+    console.error('Google transliteration failed for', text, error);
+  }
+  return [];
+}
+
+export const isGoogleFallbackEnabled = () => process.env.GOOGLE_TRANSLITERATION_FALLBACK === 'true';
+
+/**
+ * Ranked Devanagari spellings for Latin text, best first
+ * Google's suggestions (when enabled, and only for text the offline dictionary
+ * does not fully cover) come before the offline alternatives
+ */
+export async function getHindiCandidates(text: string, limit = 5): Promise<string[]> {
+  if (!text) return [text];
+
+  const local = getDevanagariCandidates(text, limit);
+  if (isGoogleFallbackEnabled() && !isFullyKnown(text)) {
+    const google = await transliterateWithGoogle(text, limit);
+    return Array.from(new Set([...google, ...local])).slice(0, limit);
+  }
+  return local;
+}
+
+/**
+ * Transliterates Latin text into Devanagari using the best ranked candidate
+ */
+export async function transliterateToHindi(text: string): Promise<string> {
+  const [best] = await getHindiCandidates(text, 1);
+  return best;
+}
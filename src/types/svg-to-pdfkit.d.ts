@@ -0,0 +1,18 @@
+declare module 'svg-to-pdfkit' {
+  interface SVGtoPDFOptions {
+    width?: number;
+    height?: number;
+    preserveAspectRatio?: string;
+    assumePt?: boolean;
+  }
+
+  function SVGtoPDF(
+    doc: PDFKit.PDFDocument,
+    svg: string,
+    x?: number,
+    y?: number,
+    options?: SVGtoPDFOptions
+  ): void;
+
+  export default SVGtoPDF;
+}
@@ -0,0 +1,7 @@
+-- Add server-issued certificate numbers to existing assessment_submissions tables
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS certificate_id TEXT UNIQUE;
+
+COMMENT ON COLUMN public.assessment_submissions.certificate_id IS 'Human-readable certificate number printed on the certificate and used by /verify/[id]';
@@ -0,0 +1,7 @@
+-- Store the raw option selections that scores are derived from
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS responses JSONB;
+
+COMMENT ON COLUMN public.assessment_submissions.responses IS 'Raw answers as submitted: [{ questionId, optionIndex }]. Scores are recomputed from these on the server';
@@ -0,0 +1,7 @@
+-- Make submissions idempotent: each attempt carries a client-generated UUID
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS submission_key UUID UNIQUE;
+
+COMMENT ON COLUMN public.assessment_submissions.submission_key IS 'Generated by the browser when the assessment starts; /api/log returns the existing row when the same key is submitted again';
@@ -0,0 +1,7 @@
+-- Record how an assessment was taken (answers changed with Previous or from the review screen)
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.assessment_submissions.metadata IS 'Submission metadata, e.g. { "answerChanges": [{ questionId, fromOptionIndex, toOptionIndex, changedAt }] }';
@@ -0,0 +1,33 @@
+-- Store Local Government Directory (LGD) codes for the submitted state and district,
+-- and move rows saved under a district's former name to its current name
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS state_lgd_code INTEGER,
+    ADD COLUMN IF NOT EXISTS district_lgd_code INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_district_lgd_code
+    ON public.assessment_submissions(district_lgd_code);
+
+COMMENT ON COLUMN public.assessment_submissions.state_lgd_code IS 'LGD state code (e.g. 23 for Madhya Pradesh)';
+COMMENT ON COLUMN public.assessment_submissions.district_lgd_code IS 'LGD district code; NULL where the code is not yet recorded in src/lib/indian-states-districts.ts';
+
+-- Hoshangabad was renamed Narmadapuram (2022-02-08); exports should use the current name
+UPDATE public.assessment_submissions
+    SET district = 'Narmadapuram'
+    WHERE state = 'Madhya Pradesh' AND district = 'Hoshangabad';
+
+-- Backfill state codes for existing rows (LGD state codes)
+UPDATE public.assessment_submissions AS s
+    SET state_lgd_code = codes.lgd_code
+    FROM (VALUES
+        ('Jammu and Kashmir', 1), ('Himachal Pradesh', 2), ('Punjab', 3), ('Chandigarh', 4),
+        ('Uttarakhand', 5), ('Haryana', 6), ('Delhi', 7), ('Rajasthan', 8), ('Uttar Pradesh', 9),
+        ('Bihar', 10), ('Sikkim', 11), ('Arunachal Pradesh', 12), ('Nagaland', 13), ('Manipur', 14),
+        ('Mizoram', 15), ('Tripura', 16), ('Meghalaya', 17), ('Assam', 18), ('West Bengal', 19),
+        ('Jharkhand', 20), ('Odisha', 21), ('Chhattisgarh', 22), ('Madhya Pradesh', 23), ('Gujarat', 24),
+        ('Maharashtra', 27), ('Andhra Pradesh', 28), ('Karnataka', 29), ('Goa', 30), ('Lakshadweep', 31),
+        ('Kerala', 32), ('Tamil Nadu', 33), ('Puducherry', 34), ('Andaman and Nicobar Islands', 35),
+        ('Telangana', 36), ('Ladakh', 37), ('Dadra and Nagar Haveli and Daman and Diu', 38)
+    ) AS codes(state, lgd_code)
+    WHERE s.state = codes.state AND s.state_lgd_code IS NULL;
@@ -0,0 +1,16 @@
+-- Record the development block and gram panchayat/village below district level
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS block TEXT,
+    ADD COLUMN IF NOT EXISTS block_lgd_code INTEGER,
+    ADD COLUMN IF NOT EXISTS village TEXT,
+    ADD COLUMN IF NOT EXISTS village_lgd_code INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_block
+    ON public.assessment_submissions(state, district, block);
+
+COMMENT ON COLUMN public.assessment_submissions.block IS 'Development block (LGD name); NULL where the district''s blocks are not listed';
+COMMENT ON COLUMN public.assessment_submissions.block_lgd_code IS 'LGD block code; NULL where not yet recorded';
+COMMENT ON COLUMN public.assessment_submissions.village IS 'Gram panchayat or village, as picked from the list or typed';
+COMMENT ON COLUMN public.assessment_submissions.village_lgd_code IS 'LGD village code; NULL for typed names';
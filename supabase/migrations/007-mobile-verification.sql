@@ -0,0 +1,31 @@
+-- Verify participants' mobile numbers with a one-time code texted by /api/otp/send
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+CREATE TABLE IF NOT EXISTS public.otp_verifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    verified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_otp_verifications_phone_created_at
+    ON public.otp_verifications(phone, created_at DESC);
+
+-- Codes are only ever read and written with the service role key
+ALTER TABLE public.otp_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access"
+    ON public.otp_verifications
+    FOR ALL
+    TO service_role
+    USING (true);
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS mobile_verified BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS mobile_verified_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.assessment_submissions.mobile_verified IS 'Whether the participant confirmed the number with a one-time code';
+COMMENT ON COLUMN public.assessment_submissions.mobile_verified_at IS 'When the one-time code was confirmed';
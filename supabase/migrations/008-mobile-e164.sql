@@ -0,0 +1,23 @@
+-- Store each participant's mobile number in E.164 form (+919876543210) so repeat
+-- participants can be matched however they typed the number
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS mobile_e164 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_mobile_e164
+    ON public.assessment_submissions(mobile_e164);
+
+COMMENT ON COLUMN public.assessment_submissions.mobile_e164 IS 'Mobile number in E.164 form, e.g. +919876543210';
+
+-- Backfill existing rows: keep digits only and drop a typed dial code or trunk 0.
+-- Only Indian numbers are rewritten, since they follow one known pattern
+-- (10 digits starting 6-9); other countries' rows keep their digits as typed
+UPDATE public.assessment_submissions
+    SET mobile = right(regexp_replace(mobile, '\D', '', 'g'), 10)
+    WHERE country_code = '+91'
+      AND regexp_replace(mobile, '\D', '', 'g') ~ '^(0|91|091)?[6-9][0-9]{9}$';
+
+UPDATE public.assessment_submissions
+    SET mobile_e164 = '+' || regexp_replace(country_code, '\D', '', 'g') || regexp_replace(mobile, '\D', '', 'g')
+    WHERE mobile_e164 IS NULL;
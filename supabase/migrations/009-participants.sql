@@ -0,0 +1,75 @@
+-- Link repeat attempts by the same person under a participant record, identified
+-- by mobile number in E.164 form (run 008-mobile-e164.sql first)
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+CREATE TABLE IF NOT EXISTS public.participants (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    mobile_e164 TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    last_attempt_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access"
+    ON public.participants
+    FOR ALL
+    TO service_role
+    USING (true);
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS participant_id UUID REFERENCES public.participants(id),
+    ADD COLUMN IF NOT EXISTS attempt_number INTEGER CHECK (attempt_number > 0);
+
+COMMENT ON COLUMN public.assessment_submissions.participant_id IS 'Participant (by mobile number) this attempt belongs to';
+COMMENT ON COLUMN public.assessment_submissions.attempt_number IS 'Which of the participant''s attempts this is, in the order they were stored (1 = first)';
+
+-- Backfill: one participant per number, named after their latest attempt
+INSERT INTO public.participants (mobile_e164, name, last_attempt_at, created_at)
+SELECT DISTINCT ON (mobile_e164) mobile_e164, name, created_at, created_at
+FROM public.assessment_submissions
+WHERE mobile_e164 IS NOT NULL
+ORDER BY mobile_e164, created_at DESC
+ON CONFLICT (mobile_e164) DO NOTHING;
+
+UPDATE public.participants AS p
+    SET created_at = first.created_at
+    FROM (
+        SELECT mobile_e164, MIN(created_at) AS created_at
+        FROM public.assessment_submissions
+        GROUP BY mobile_e164
+    ) AS first
+    WHERE p.mobile_e164 = first.mobile_e164;
+
+UPDATE public.assessment_submissions AS s
+    SET participant_id = numbered.participant_id,
+        attempt_number = numbered.attempt_number
+    FROM (
+        SELECT s2.id, p.id AS participant_id,
+               ROW_NUMBER() OVER (PARTITION BY p.id ORDER BY s2.created_at) AS attempt_number
+        FROM public.assessment_submissions s2
+        JOIN public.participants p ON p.mobile_e164 = s2.mobile_e164
+    ) AS numbered
+    WHERE s.id = numbered.id AND s.participant_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assessment_submissions_participant_attempt
+    ON public.assessment_submissions(participant_id, attempt_number);
+
+-- Attempt and score history per participant (contains mobile numbers: service role only)
+CREATE OR REPLACE VIEW public.participant_attempts AS
+SELECT
+    p.id as participant_id,
+    p.mobile_e164,
+    p.name,
+    s.attempt_number,
+    COUNT(*) OVER (PARTITION BY p.id) as attempt_count,
+    s.created_at,
+    s.certificate_id,
+    s.total_score,
+    s.total_score - LAG(s.total_score) OVER (PARTITION BY p.id ORDER BY s.attempt_number) as score_change,
+    MAX(s.total_score) OVER (PARTITION BY p.id) as best_total_score
+FROM public.participants p
+JOIN public.assessment_submissions s ON s.participant_id = p.id;
+
+GRANT SELECT ON public.participant_attempts TO service_role;
@@ -0,0 +1,34 @@
+-- Mark attempts outside the retake policy (see src/lib/retake-policy.ts) as not counted
+-- for volunteer selection (run 009-participants.sql first)
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS counted BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS not_counted_reason TEXT CHECK (not_counted_reason IN ('max_attempts', 'cooldown'));
+
+COMMENT ON COLUMN public.assessment_submissions.counted IS 'False when the retake policy excludes the attempt from volunteer selection';
+COMMENT ON COLUMN public.assessment_submissions.not_counted_reason IS 'max_attempts or cooldown when counted is false';
+
+-- Existing attempts stay counted; the policy applies from now on
+
+-- The view gains columns, so it is recreated rather than replaced
+DROP VIEW IF EXISTS public.participant_attempts;
+
+CREATE VIEW public.participant_attempts AS
+SELECT
+    p.id as participant_id,
+    p.mobile_e164,
+    p.name,
+    s.attempt_number,
+    COUNT(*) OVER (PARTITION BY p.id) as attempt_count,
+    s.created_at,
+    s.certificate_id,
+    s.total_score,
+    s.counted,
+    s.not_counted_reason,
+    s.total_score - LAG(s.total_score) OVER (PARTITION BY p.id ORDER BY s.attempt_number) as score_change,
+    MAX(s.total_score) FILTER (WHERE s.counted) OVER (PARTITION BY p.id) as best_counted_score
+FROM public.participants p
+JOIN public.assessment_submissions s ON s.participant_id = p.id;
+
+GRANT SELECT ON public.participant_attempts TO service_role;
@@ -0,0 +1,9 @@
+-- Record which question bank version (src/content/question-banks/<version>.json)
+-- each submission was answered against
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+-- Every submission so far used the wording now published as v1
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS assessment_version TEXT NOT NULL DEFAULT 'v1';
+
+COMMENT ON COLUMN public.assessment_submissions.assessment_version IS 'Question bank version the answers refer to, e.g. v1';
@@ -0,0 +1,8 @@
+-- Record which questions were drawn from each trait's pool for a submission
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+-- Left NULL for earlier submissions: they answered every question in v1
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS drawn_question_ids INTEGER[];
+
+COMMENT ON COLUMN public.assessment_submissions.drawn_question_ids IS 'Question IDs drawn for this attempt (seeded with submission_key), in the order asked';
@@ -0,0 +1,26 @@
+-- Score distributions per trait, age group and gender for percentile results,
+-- rebuilt nightly by /api/cron/norms (see vercel.json)
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+CREATE TABLE IF NOT EXISTS public.trait_norms (
+    assessment_version TEXT NOT NULL,
+    trait TEXT NOT NULL,
+    age_group TEXT NOT NULL,
+    -- A gender from the form, or 'all' for the age group pooled across genders
+    gender TEXT NOT NULL,
+    sample_size INTEGER NOT NULL CHECK (sample_size >= 0),
+    -- Trait score -> number of participants with that score
+    score_counts JSONB NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (assessment_version, trait, age_group, gender)
+);
+
+ALTER TABLE public.trait_norms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access"
+    ON public.trait_norms
+    FOR ALL
+    TO service_role
+    USING (true);
+
+COMMENT ON TABLE public.trait_norms IS 'Trait score distributions per norm group, one counted attempt per participant';
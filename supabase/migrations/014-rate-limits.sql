@@ -0,0 +1,60 @@
+-- Request limits shared by every server instance (see src/lib/rate-limit.ts)
+-- Keys (IP addresses, phone numbers) are stored as SHA-256 hashes
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_events (
+    id BIGSERIAL PRIMARY KEY,
+    bucket TEXT NOT NULL,
+    key_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket_key
+    ON public.rate_limit_events(bucket, key_hash, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket_created_at
+    ON public.rate_limit_events(bucket, created_at);
+
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access"
+    ON public.rate_limit_events
+    FOR ALL
+    TO service_role
+    USING (true);
+
+-- Records a request for the key unless it already made p_limit requests in the last
+-- p_window_seconds. Returns 0 when the request may go ahead, otherwise the seconds
+-- until the oldest request leaves the window. Requests for the same key are
+-- serialised, so parallel requests cannot both take the last slot
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(p_bucket TEXT, p_key TEXT, p_limit INTEGER, p_window_seconds INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(secs => p_window_seconds);
+    v_count INTEGER;
+    v_oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key));
+
+    DELETE FROM public.rate_limit_events
+        WHERE bucket = p_bucket AND created_at < v_window_start;
+
+    SELECT COUNT(*), MIN(created_at) INTO v_count, v_oldest
+        FROM public.rate_limit_events
+        WHERE bucket = p_bucket AND key_hash = p_key;
+
+    IF v_count >= p_limit THEN
+        RETURN GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + make_interval(secs => p_window_seconds) - now())))::INTEGER);
+    END IF;
+
+    INSERT INTO public.rate_limit_events (bucket, key_hash) VALUES (p_bucket, p_key);
+    RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.rate_limit_events IS 'Recent requests per rate-limited key; rows older than their window are deleted as new requests arrive';
@@ -0,0 +1,83 @@
+-- Apply the retake policy inside the database, so parallel uploads for the same
+-- number cannot both take the last counted slot (run 010-retake-policy.sql first)
+-- Only attempts with a verified mobile number count; unverified ones are stored
+-- with not_counted_reason 'unverified'
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+ALTER TABLE public.assessment_submissions
+    DROP CONSTRAINT IF EXISTS assessment_submissions_not_counted_reason_check;
+
+ALTER TABLE public.assessment_submissions
+    ADD CONSTRAINT assessment_submissions_not_counted_reason_check
+    CHECK (not_counted_reason IN ('max_attempts', 'cooldown', 'unverified'));
+
+COMMENT ON COLUMN public.assessment_submissions.not_counted_reason IS 'max_attempts, cooldown or unverified when counted is false';
+
+-- Existing rows keep their flag; unverified rows among them no longer count towards the limits
+
+-- Stores one attempt for a participant (p_submission holds assessment_submissions
+-- columns, including participant_id). Takes a lock on the participant row, so a
+-- participant's attempts are numbered and judged one at a time:
+-- - an attempt without a verified number is stored as not counted ('unverified')
+-- - otherwise it counts unless the participant already has p_max_attempts verified
+--   counted attempts (NULL for no limit), or the last one was under p_min_days ago
+-- Returns the stored row
+CREATE OR REPLACE FUNCTION public.insert_assessment_submission(
+    p_submission JSONB,
+    p_max_attempts INTEGER,
+    p_min_days INTEGER
+)
+RETURNS public.assessment_submissions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_participant_id UUID := (p_submission->>'participant_id')::UUID;
+    v_counted_attempts INTEGER;
+    v_last_counted_at TIMESTAMP WITH TIME ZONE;
+    v_reason TEXT;
+    v_attempt_number INTEGER;
+    v_row JSONB;
+    v_columns TEXT;
+    v_result public.assessment_submissions;
+BEGIN
+    PERFORM 1 FROM public.participants WHERE id = v_participant_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown participant %', v_participant_id;
+    END IF;
+
+    SELECT COUNT(*), MAX(created_at) INTO v_counted_attempts, v_last_counted_at
+        FROM public.assessment_submissions
+        WHERE participant_id = v_participant_id AND counted AND mobile_verified;
+
+    IF COALESCE((p_submission->>'mobile_verified')::BOOLEAN, false) IS NOT TRUE THEN
+        v_reason := 'unverified';
+    ELSIF p_max_attempts IS NOT NULL AND v_counted_attempts >= p_max_attempts THEN
+        v_reason := 'max_attempts';
+    ELSIF v_last_counted_at IS NOT NULL AND v_last_counted_at + make_interval(days => p_min_days) > now() THEN
+        v_reason := 'cooldown';
+    END IF;
+
+    SELECT COALESCE(MAX(attempt_number), 0) + 1 INTO v_attempt_number
+        FROM public.assessment_submissions
+        WHERE participant_id = v_participant_id;
+
+    v_row := p_submission || jsonb_build_object(
+        'attempt_number', v_attempt_number,
+        'counted', v_reason IS NULL,
+        'not_counted_reason', v_reason
+    );
+
+    -- Only the given columns are inserted, so id and created_at keep their defaults
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(v_row) AS key;
+
+    EXECUTE format(
+        'INSERT INTO public.assessment_submissions (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.assessment_submissions, $1) RETURNING *',
+        v_columns
+    ) INTO v_result USING v_row;
+
+    RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_assessment_submission(JSONB, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_assessment_submission(JSONB, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,18 @@
+-- Count wrong one-time code guesses atomically, so parallel guesses cannot get
+-- past the limit (run 007-mobile-verification.sql first)
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+-- Uses up one guess on an unverified code. Returns the guesses used so far, or
+-- NULL when the code is already verified or has no guesses left
+CREATE OR REPLACE FUNCTION public.claim_otp_attempt(p_id UUID, p_max_attempts INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    UPDATE public.otp_verifications
+        SET attempts = attempts + 1
+        WHERE id = p_id AND attempts < p_max_attempts AND verified_at IS NULL
+        RETURNING attempts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_otp_attempt(UUID, INTEGER) TO service_role;
@@ -0,0 +1,9 @@
+-- Record which phrasing of the final feedback a submission was shown, so its
+-- certificate can print the same feedback in English and Hindi
+-- Run this in your Supabase SQL Editor (new installs get it from supabase-detailed-table.sql)
+
+-- Left NULL for earlier submissions; their certificates match final_assessment against the phrasings instead
+ALTER TABLE public.assessment_submissions
+    ADD COLUMN IF NOT EXISTS final_feedback_phrase_id INTEGER CHECK (final_feedback_phrase_id >= 0);
+
+COMMENT ON COLUMN public.assessment_submissions.final_feedback_phrase_id IS 'Position of the final feedback phrasing in the bank''s list for the total''s category; the same in every language';
@@ -2,24 +2,80 @@
 -- This is the NEW format with individual trait scores
 -- Run this in your Supabase SQL Editor
 
+-- One row per person, identified by their mobile number in E.164 form;
+-- each submission links back here with its attempt number
+CREATE TABLE IF NOT EXISTS public.participants (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    mobile_e164 TEXT NOT NULL UNIQUE,
+    -- Name from the latest attempt
+    name TEXT NOT NULL,
+    last_attempt_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access" 
+    ON public.participants 
+    FOR ALL 
+    TO service_role 
+    USING (true);
+
 CREATE TABLE IF NOT EXISTS public.assessment_submissions (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
     
+    -- Human-readable certificate number printed on the certificate (e.g. ANK-2025-7KQ4MX)
+    certificate_id TEXT UNIQUE,
+    
+    -- Client-generated key for the attempt; replays of the same key return the stored row
+    submission_key UUID UNIQUE,
+    
+    -- Question bank version the answers refer to (src/content/question-banks/<version>.json)
+    assessment_version TEXT NOT NULL DEFAULT 'v1',
+    -- Questions drawn from each trait's pool for this attempt, in the order asked
+    drawn_question_ids INTEGER[],
+    
+    -- The participant this attempt belongs to, and which of their attempts it is (1 = first)
+    participant_id UUID REFERENCES public.participants(id),
+    attempt_number INTEGER CHECK (attempt_number > 0),
+    -- False for attempts outside the retake policy (too many, too soon after the last
+    -- counted one, or without a verified mobile number); set by insert_assessment_submission
+    counted BOOLEAN NOT NULL DEFAULT true,
+    not_counted_reason TEXT CHECK (not_counted_reason IN ('max_attempts', 'cooldown', 'unverified')),
+    
     -- Personal Information
     name TEXT NOT NULL,
     name_hi TEXT NOT NULL,
     age INTEGER NOT NULL CHECK (age > 0 AND age <= 120),
     gender TEXT NOT NULL CHECK (gender IN ('Male', 'Female', 'Other', 'Prefer not to say')),
     country_code TEXT NOT NULL DEFAULT '+91',
+    -- National number without spaces or trunk prefix (e.g. 9876543210)
     mobile TEXT NOT NULL,
+    -- Full international number (e.g. +919876543210), used to match repeat participants
+    mobile_e164 TEXT,
+    -- Set when the participant entered the one-time code texted to the number
+    mobile_verified BOOLEAN NOT NULL DEFAULT false,
+    mobile_verified_at TIMESTAMP WITH TIME ZONE,
     email TEXT,
     state TEXT NOT NULL,
     district TEXT NOT NULL,
     
+    -- Local Government Directory (LGD) codes for the state and district; NULL where the code is not yet recorded
+    state_lgd_code INTEGER,
+    district_lgd_code INTEGER,
+    
+    -- Development block and gram panchayat/village (only asked where the district's blocks are listed)
+    block TEXT,
+    block_lgd_code INTEGER,
+    village TEXT,
+    village_lgd_code INTEGER,
+    
     -- Assessment Scores
     total_score INTEGER NOT NULL CHECK (total_score >= 0),
     final_assessment TEXT NOT NULL,
+    -- Which phrasing of the final feedback was shown (same position in every language)
+    final_feedback_phrase_id INTEGER CHECK (final_feedback_phrase_id >= 0),
     
     -- Individual Trait Scores
     gratitude_score INTEGER NOT NULL CHECK (gratitude_score >= 0),
@@ -29,6 +85,12 @@ CREATE TABLE IF NOT EXISTS public.assessment_submissions (
     social_cognition_score INTEGER NOT NULL CHECK (social_cognition_score >= 0),
     courage_score INTEGER NOT NULL CHECK (courage_score >= 0),
     
+    -- Raw answers as submitted ([{ questionId, optionIndex }]); all scores are derived from these
+    responses JSONB,
+    
+    -- How the assessment was taken, e.g. { "answerChanges": [{ questionId, fromOptionIndex, toOptionIndex, changedAt }] }
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    
     -- Full Assessment Data (JSONB for flexibility)
     assessment_data JSONB NOT NULL,
     
@@ -46,6 +108,19 @@ CREATE INDEX IF NOT EXISTS idx_assessment_submissions_state
 CREATE INDEX IF NOT EXISTS idx_assessment_submissions_district 
     ON public.assessment_submissions(district);
 
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_district_lgd_code 
+    ON public.assessment_submissions(district_lgd_code);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_block 
+    ON public.assessment_submissions(state, district, block);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_mobile_e164
+    ON public.assessment_submissions(mobile_e164);
+
+-- Also stops two concurrent uploads from claiming the same attempt number
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assessment_submissions_participant_attempt
+    ON public.assessment_submissions(participant_id, attempt_number);
+
 CREATE INDEX IF NOT EXISTS idx_assessment_submissions_total_score 
     ON public.assessment_submissions(total_score DESC);
 
@@ -66,6 +141,190 @@ CREATE POLICY "Allow service role full access"
     TO service_role 
     USING (true);
 
+-- One-time codes for mobile number verification (service role only; no anon policies)
+CREATE TABLE IF NOT EXISTS public.otp_verifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    verified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_otp_verifications_phone_created_at 
+    ON public.otp_verifications(phone, created_at DESC);
+
+ALTER TABLE public.otp_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access" 
+    ON public.otp_verifications 
+    FOR ALL 
+    TO service_role 
+    USING (true);
+
+-- Score distributions per trait, age group and gender for percentile results,
+-- rebuilt nightly by /api/cron/norms (service role only)
+CREATE TABLE IF NOT EXISTS public.trait_norms (
+    assessment_version TEXT NOT NULL,
+    trait TEXT NOT NULL,
+    age_group TEXT NOT NULL,
+    -- A gender from the form, or 'all' for the age group pooled across genders
+    gender TEXT NOT NULL,
+    sample_size INTEGER NOT NULL CHECK (sample_size >= 0),
+    -- Trait score -> number of participants with that score
+    score_counts JSONB NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (assessment_version, trait, age_group, gender)
+);
+
+ALTER TABLE public.trait_norms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access" 
+    ON public.trait_norms 
+    FOR ALL 
+    TO service_role 
+    USING (true);
+
+-- Recent requests per rate-limited key, shared by every server instance
+-- (service role only; keys are SHA-256 hashes)
+CREATE TABLE IF NOT EXISTS public.rate_limit_events (
+    id BIGSERIAL PRIMARY KEY,
+    bucket TEXT NOT NULL,
+    key_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket_key
+    ON public.rate_limit_events(bucket, key_hash, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket_created_at
+    ON public.rate_limit_events(bucket, created_at);
+
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access"
+    ON public.rate_limit_events
+    FOR ALL
+    TO service_role
+    USING (true);
+
+-- Records a request for the key unless it already made p_limit requests in the last
+-- p_window_seconds. Returns 0 when the request may go ahead, otherwise the seconds
+-- until the oldest request leaves the window. Requests for the same key are
+-- serialised, so parallel requests cannot both take the last slot
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(p_bucket TEXT, p_key TEXT, p_limit INTEGER, p_window_seconds INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(secs => p_window_seconds);
+    v_count INTEGER;
+    v_oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key));
+
+    DELETE FROM public.rate_limit_events
+        WHERE bucket = p_bucket AND created_at < v_window_start;
+
+    SELECT COUNT(*), MIN(created_at) INTO v_count, v_oldest
+        FROM public.rate_limit_events
+        WHERE bucket = p_bucket AND key_hash = p_key;
+
+    IF v_count >= p_limit THEN
+        RETURN GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + make_interval(secs => p_window_seconds) - now())))::INTEGER);
+    END IF;
+
+    INSERT INTO public.rate_limit_events (bucket, key_hash) VALUES (p_bucket, p_key);
+    RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Stores one attempt for a participant (p_submission holds assessment_submissions
+-- columns, including participant_id). Takes a lock on the participant row, so a
+-- participant's attempts are numbered and judged one at a time:
+-- - an attempt without a verified number is stored as not counted ('unverified')
+-- - otherwise it counts unless the participant already has p_max_attempts verified
+--   counted attempts (NULL for no limit), or the last one was under p_min_days ago
+-- Returns the stored row
+CREATE OR REPLACE FUNCTION public.insert_assessment_submission(
+    p_submission JSONB,
+    p_max_attempts INTEGER,
+    p_min_days INTEGER
+)
+RETURNS public.assessment_submissions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_participant_id UUID := (p_submission->>'participant_id')::UUID;
+    v_counted_attempts INTEGER;
+    v_last_counted_at TIMESTAMP WITH TIME ZONE;
+    v_reason TEXT;
+    v_attempt_number INTEGER;
+    v_row JSONB;
+    v_columns TEXT;
+    v_result public.assessment_submissions;
+BEGIN
+    PERFORM 1 FROM public.participants WHERE id = v_participant_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown participant %', v_participant_id;
+    END IF;
+
+    SELECT COUNT(*), MAX(created_at) INTO v_counted_attempts, v_last_counted_at
+        FROM public.assessment_submissions
+        WHERE participant_id = v_participant_id AND counted AND mobile_verified;
+
+    IF COALESCE((p_submission->>'mobile_verified')::BOOLEAN, false) IS NOT TRUE THEN
+        v_reason := 'unverified';
+    ELSIF p_max_attempts IS NOT NULL AND v_counted_attempts >= p_max_attempts THEN
+        v_reason := 'max_attempts';
+    ELSIF v_last_counted_at IS NOT NULL AND v_last_counted_at + make_interval(days => p_min_days) > now() THEN
+        v_reason := 'cooldown';
+    END IF;
+
+    SELECT COALESCE(MAX(attempt_number), 0) + 1 INTO v_attempt_number
+        FROM public.assessment_submissions
+        WHERE participant_id = v_participant_id;
+
+    v_row := p_submission || jsonb_build_object(
+        'attempt_number', v_attempt_number,
+        'counted', v_reason IS NULL,
+        'not_counted_reason', v_reason
+    );
+
+    -- Only the given columns are inserted, so id and created_at keep their defaults
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(v_row) AS key;
+
+    EXECUTE format(
+        'INSERT INTO public.assessment_submissions (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.assessment_submissions, $1) RETURNING *',
+        v_columns
+    ) INTO v_result USING v_row;
+
+    RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_assessment_submission(JSONB, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_assessment_submission(JSONB, INTEGER, INTEGER) TO service_role;
+
+-- Uses up one guess on an unverified code. Returns the guesses used so far, or
+-- NULL when the code is already verified or has no guesses left
+CREATE OR REPLACE FUNCTION public.claim_otp_attempt(p_id UUID, p_max_attempts INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    UPDATE public.otp_verifications
+        SET attempts = attempts + 1
+        WHERE id = p_id AND attempts < p_max_attempts AND verified_at IS NULL
+        RETURNING attempts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_otp_attempt(UUID, INTEGER) TO service_role;
+
 -- Optional: Create a view for analytics
 CREATE OR REPLACE VIEW public.assessment_analytics AS
 SELECT 
@@ -87,5 +346,25 @@ GROUP BY DATE_TRUNC('day', created_at), state, district, gender;
 -- Grant access to the view
 GRANT SELECT ON public.assessment_analytics TO anon, authenticated, service_role;
 
+-- Attempt and score history per participant, for volunteer selection (contains mobile numbers: service role only)
+CREATE OR REPLACE VIEW public.participant_attempts AS
+SELECT 
+    p.id as participant_id,
+    p.mobile_e164,
+    p.name,
+    s.attempt_number,
+    COUNT(*) OVER (PARTITION BY p.id) as attempt_count,
+    s.created_at,
+    s.certificate_id,
+    s.total_score,
+    s.counted,
+    s.not_counted_reason,
+    s.total_score - LAG(s.total_score) OVER (PARTITION BY p.id ORDER BY s.attempt_number) as score_change,
+    MAX(s.total_score) FILTER (WHERE s.counted) OVER (PARTITION BY p.id) as best_counted_score
+FROM public.participants p
+JOIN public.assessment_submissions s ON s.participant_id = p.id;
+
+GRANT SELECT ON public.participant_attempts TO service_role;
+
 -- Comment on table
 COMMENT ON TABLE public.assessment_submissions IS 'Detailed format assessment submissions (new submissions with individual trait scores)';